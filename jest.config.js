@@ -0,0 +1,14 @@
+// Tests live in tests/ and import the TypeScript sources directly. esbuild (installed with tsx)
+// strips the types; the .js suffixes the ESM sources use are mapped back to the .ts files.
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': '<rootDir>/tests/ts-transform.cjs',
+  },
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  setupFiles: ['<rootDir>/tests/setup-env.ts'],
+};
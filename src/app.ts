@@ -26,6 +26,24 @@ import bedsRoutes from './routes/beds.js';
 import dashboardRoutes from './routes/dashboard.js';
 import emailTemplateRoutes from './routes/email-templates.js';
 import billingPdfRoutes from './routes/billing-pdf.js';
+import paymentRoutes from './routes/payments.js';
+import depositRoutes from './routes/deposits.js';
+import creditNoteRoutes from './routes/credit-notes.js';
+import invoiceAmendmentRoutes from './routes/invoice-amendments.js';
+import runningBillRoutes from './routes/running-bills.js';
+import chargeRoutes from './routes/charges.js';
+import estimateRoutes from './routes/estimates.js';
+import discountRoutes from './routes/discounts.js';
+import writeOffRoutes from './routes/write-offs.js';
+import receivableRoutes from './routes/receivables.js';
+import dayBookRoutes from './routes/day-book.js';
+import accountingRoutes from './routes/accounting.js';
+import eInvoiceRoutes from './routes/e-invoices.js';
+import patientStatementRoutes from './routes/patient-statements.js';
+import invoiceExportRoutes from './routes/invoice-exports.js';
+import paymentGatewayRoutes from './routes/payment-gateway.js';
+import tariffRoutes from './routes/tariffs.js';
+import packageRoutes from './routes/packages.js';
 import roomHistoryRoutes from './routes/room-history.js';
 import twoFactorRoutes from './routes/two-factor.js';
 import admissionSummariesRoutes from './routes/admission-summaries.js';
@@ -52,6 +70,8 @@ app.use(cors({
 }));
 
 // Body parsing middleware
+// Gateway callbacks keep their raw bytes for signature checks; the JSON parser skips bodies already read
+app.use('/api/payment-gateway/webhook', express.raw({ type: '*/*', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -80,7 +100,25 @@ app.use('/api/patients', patientRoutes);
 app.use('/api/rooms', roomRoutes);
 app.use('/api/admissions', admissionRoutes);
 app.use('/api/billing', billingPdfRoutes);
+app.use('/api/billing', paymentRoutes);
+app.use('/api/billing', depositRoutes);
+app.use('/api/billing', creditNoteRoutes);
+app.use('/api/billing', invoiceAmendmentRoutes);
+app.use('/api/billing', runningBillRoutes);
+app.use('/api/billing', chargeRoutes);
+app.use('/api/billing', estimateRoutes);
+app.use('/api/billing', discountRoutes);
+app.use('/api/billing', writeOffRoutes);
+app.use('/api/billing', receivableRoutes);
+app.use('/api/billing', dayBookRoutes);
+app.use('/api/billing', accountingRoutes);
+app.use('/api/billing', eInvoiceRoutes);
+app.use('/api/billing', patientStatementRoutes);
+app.use('/api/billing', invoiceExportRoutes);
 app.use('/api/billing', billingRoutes);
+app.use('/api/payment-gateway', paymentGatewayRoutes);
+app.use('/api/tariffs', tariffRoutes);
+app.use('/api/packages', packageRoutes);
 app.use('/api/insurance', insuranceRoutes);
 app.use('/api/roster', rosterRoutes);
 app.use('/api/audit', auditRoutes);
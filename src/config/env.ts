@@ -47,6 +47,27 @@ export const env = {
   HOSPITAL_LOGO_MIME: process.env.HOSPITAL_LOGO_MIME || 'image/jpeg',
   HOSPITAL_LOGO_URL: process.env.HOSPITAL_LOGO_URL || 'https://pub-4ebb3a85771243cab7a77deb68bf9e9e.r2.dev/logo/PHOTO-2026-01-07-11-33-47.jpg',
   PORTAL_URL: process.env.PORTAL_URL || 'http://localhost:3000',
+
+  // GST e-invoicing (seller details as registered on the GST portal)
+  HOSPITAL_GSTIN: process.env.HOSPITAL_GSTIN || '',
+  HOSPITAL_LEGAL_NAME: process.env.HOSPITAL_LEGAL_NAME || process.env.HOSPITAL_NAME || 'Ashwini General Hospital',
+  HOSPITAL_LOCATION: process.env.HOSPITAL_LOCATION || 'Ambernath',
+  HOSPITAL_PINCODE: process.env.HOSPITAL_PINCODE || '421501',
+  HOSPITAL_STATE_CODE: process.env.HOSPITAL_STATE_CODE || '27',
+  // IRP upload provider; 'stub' registers locally without calling the NIC portal
+  E_INVOICE_PROVIDER: process.env.E_INVOICE_PROVIDER || 'stub',
+
+  // UPI collections: payee VPA printed in invoice QR codes (no QR when unset) and the gateway webhook secret
+  UPI_VPA: process.env.UPI_VPA || '',
+  UPI_PAYEE_NAME: process.env.UPI_PAYEE_NAME || process.env.HOSPITAL_NAME || 'Ashwini General Hospital',
+  PAYMENT_GATEWAY_WEBHOOK_SECRET: process.env.PAYMENT_GATEWAY_WEBHOOK_SECRET || '',
+  // Test-only endpoint that posts signed callbacks with no money received; never enable in a live hospital
+  PAYMENT_GATEWAY_SIMULATOR: process.env.PAYMENT_GATEWAY_SIMULATOR === 'true',
+
+  // Receivables
+  INVOICE_PAYMENT_TERMS_DAYS: parseInt(process.env.INVOICE_PAYMENT_TERMS_DAYS || '15'),
+  // IST time of day (HH:MM) at which payment reminders go out
+  DUNNING_REMINDER_TIME: process.env.DUNNING_REMINDER_TIME || '09:00',
   
   // Seed Admin
   SEED_ADMIN_NAME: process.env.SEED_ADMIN_NAME || 'Ashwini Super Admin',
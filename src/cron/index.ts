@@ -1,4 +1,126 @@
-// Placeholder for cron jobs
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { addIstDays, getIstDayBounds, toIstDateString } from '../utils/ist-date.js';
+import { accrueRoomCharges } from '../services/room-accrual-service.js';
+import { markOverdueInvoices } from '../services/receivables-service.js';
+import { runDunning } from '../services/dunning-service.js';
+import { runRecordedJob } from './job-runner.js';
+
+export const ROOM_ACCRUAL_JOB = 'room_charge_accrual';
+export const OVERDUE_MARKING_JOB = 'invoice_overdue_marking';
+export const DUNNING_JOB = 'dunning_reminders';
+
+interface DailyJob {
+  name: string;
+  // Minutes after IST midnight at which the job fires
+  minuteOfDay: number;
+  run: (firedAt: Date) => Promise<unknown>;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+// Accrue the IST day that has just ended. Safe to call repeatedly for the same date.
+export const runRoomChargeAccrual = (accrualDate: string) =>
+  runRecordedJob(ROOM_ACCRUAL_JOB, accrualDate, async () => {
+    const summary = await accrueRoomCharges(accrualDate);
+    if (summary.failed > 0) {
+      throw new Error(`${summary.failed} of ${summary.admissionsConsidered} admissions failed to accrue`);
+    }
+    return { ...summary };
+  });
+
+export const runOverdueMarking = (asOfDate: string) =>
+  runRecordedJob(OVERDUE_MARKING_JOB, asOfDate, async () => ({ ...(await markOverdueInvoices(asOfDate)) }));
+
+// At most one reminder round per IST day
+export const runDunningReminders = (runDate: string) =>
+  runRecordedJob(DUNNING_JOB, runDate, async () => {
+    const summary = await runDunning(runDate);
+    if (summary.failed > 0) {
+      throw new Error(`${summary.failed} of ${summary.considered} reminders failed to send`);
+    }
+    return { ...summary };
+  });
+
+// "HH:MM" in IST to minutes after midnight; falls back to 09:00 on anything unparseable
+const parseMinuteOfDay = (value: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    logger.warn('Invalid DUNNING_REMINDER_TIME; using 09:00', { value });
+    return 9 * 60;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const DAILY_JOBS: DailyJob[] = [
+  {
+    name: ROOM_ACCRUAL_JOB,
+    minuteOfDay: 5,
+    run: (firedAt) => runRoomChargeAccrual(addIstDays(toIstDateString(firedAt), -1)),
+  },
+  {
+    name: OVERDUE_MARKING_JOB,
+    minuteOfDay: 15,
+    run: (firedAt) => runOverdueMarking(toIstDateString(firedAt)),
+  },
+  {
+    name: DUNNING_JOB,
+    minuteOfDay: parseMinuteOfDay(env.DUNNING_REMINDER_TIME),
+    run: (firedAt) => runDunningReminders(toIstDateString(firedAt)),
+  },
+];
+
+const todaysRunAt = (minuteOfDay: number, now: Date): number =>
+  getIstDayBounds(toIstDateString(now)).start.getTime() + minuteOfDay * 60 * 1000;
+
+const msUntilNextRun = (minuteOfDay: number, now: Date = new Date()): number => {
+  let next = todaysRunAt(minuteOfDay, now);
+  if (next <= now.getTime()) {
+    next += 24 * 60 * 60 * 1000;
+  }
+  return next - now.getTime();
+};
+
+// setTimeout is re-armed after every run so the schedule never drifts and never overlaps itself.
+const scheduleDailyJob = (job: DailyJob) => {
+  const delay = msUntilNextRun(job.minuteOfDay);
+
+  const timer = setTimeout(async () => {
+    try {
+      await job.run(new Date());
+    } catch (error: any) {
+      logger.error('Scheduled job failed', { job: job.name, error: error?.message });
+    } finally {
+      scheduleDailyJob(job);
+    }
+  }, delay);
+
+  // Do not keep the process alive just for the scheduler
+  timer.unref();
+  timers.set(job.name, timer);
+
+  logger.info('Scheduled job armed', { job: job.name, nextRunAt: new Date(Date.now() + delay).toISOString() });
+};
+
 export function startCronJobs(): void {
-  console.log('Cron jobs started (placeholder)');
+  DAILY_JOBS.forEach((job) => {
+    scheduleDailyJob(job);
+
+    // Catch up a run missed while the server was down, but only once today's run time has passed:
+    // an early start must not send today's reminders ahead of schedule. Completed runs are skipped
+    // by the job ledger.
+    const now = new Date();
+    if (todaysRunAt(job.minuteOfDay, now) > now.getTime()) {
+      return;
+    }
+
+    job.run(now).catch((error: any) => {
+      logger.error('Catch-up job run failed', { job: job.name, error: error?.message });
+    });
+  });
+}
+
+export function stopCronJobs(): void {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.clear();
 }
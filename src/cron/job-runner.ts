@@ -0,0 +1,109 @@
+import { createClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const CRON_RUN_SELECT = `
+  id,
+  job_name,
+  run_key,
+  status,
+  attempts,
+  started_at,
+  finished_at,
+  summary,
+  error
+`;
+
+export interface JobRunResult {
+  skipped: boolean;
+  run: any | null;
+}
+
+// Claim (job, run_key) in cron_job_runs before doing any work. A run that already succeeded is
+// skipped, a failed one is retried, and one still marked running is left to its owner unless
+// it has been stuck longer than staleAfterMs (e.g. the process died mid-run).
+const claimRun = async (jobName: string, runKey: string, staleAfterMs: number) => {
+  const { data: claimed, error } = await supabase
+    .from('cron_job_runs')
+    .insert({ job_name: jobName, run_key: runKey, status: 'running' })
+    .select(CRON_RUN_SELECT)
+    .single();
+
+  if (claimed) {
+    return claimed;
+  }
+
+  if (error?.code !== '23505') {
+    throw new Error(`Failed to record cron run: ${error?.message}`);
+  }
+
+  const { data: existing } = await supabase
+    .from('cron_job_runs')
+    .select(CRON_RUN_SELECT)
+    .eq('job_name', jobName)
+    .eq('run_key', runKey)
+    .single();
+
+  if (!existing || existing.status === 'succeeded') {
+    return null;
+  }
+
+  const isStale = Date.now() - new Date(existing.started_at).getTime() > staleAfterMs;
+  if (existing.status === 'running' && !isStale) {
+    return null;
+  }
+
+  // Conditional update so two processes cannot both take over the same run
+  const { data: retaken } = await supabase
+    .from('cron_job_runs')
+    .update({
+      status: 'running',
+      attempts: Number(existing.attempts || 1) + 1,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      error: null,
+    })
+    .eq('id', existing.id)
+    .eq('status', existing.status)
+    .eq('started_at', existing.started_at)
+    .select(CRON_RUN_SELECT)
+    .maybeSingle();
+
+  return retaken ?? null;
+};
+
+export const runRecordedJob = async (
+  jobName: string,
+  runKey: string,
+  handler: () => Promise<Record<string, any>>,
+  options: { staleAfterMs?: number } = {}
+): Promise<JobRunResult> => {
+  const run = await claimRun(jobName, runKey, options.staleAfterMs ?? 60 * 60 * 1000);
+
+  if (!run) {
+    logger.info('Cron run skipped; already completed or in progress', { jobName, runKey });
+    return { skipped: true, run: null };
+  }
+
+  try {
+    const summary = await handler();
+    const { data } = await supabase
+      .from('cron_job_runs')
+      .update({ status: 'succeeded', finished_at: new Date().toISOString(), summary })
+      .eq('id', run.id)
+      .select(CRON_RUN_SELECT)
+      .single();
+
+    logger.info('Cron run succeeded', { jobName, runKey, summary });
+    return { skipped: false, run: data ?? run };
+  } catch (error: any) {
+    await supabase
+      .from('cron_job_runs')
+      .update({ status: 'failed', finished_at: new Date().toISOString(), error: error?.message ?? String(error) })
+      .eq('id', run.id);
+
+    logger.error('Cron run failed', { jobName, runKey, error: error?.message });
+    throw error;
+  }
+};
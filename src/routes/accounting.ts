@@ -0,0 +1,99 @@
+import { Router, Response } from 'express';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString } from '../utils/ist-date.js';
+import {
+  buildAccountingVouchers,
+  deleteLedgerMapping,
+  fetchLedgerMappings,
+  saveLedgerMapping,
+  vouchersToCsvJournal,
+  vouchersToTallyXml,
+} from '../services/accounting-export-service.js';
+
+const router = Router();
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const EXPORT_FORMATS = ['tally', 'csv', 'json'] as const;
+const EXPORT_DOCUMENTS = ['all', 'invoices', 'payments'] as const;
+
+router.get('/accounting/ledger-mappings', authenticateToken, requireBilling, asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  const mappings = await fetchLedgerMappings();
+
+  res.json({
+    success: true,
+    data: { mappings },
+  });
+}));
+
+// Create or replace the ledger used for one scope/key, e.g. { scope: 'item_type', key: 'medication@12', ledger_name: 'Pharmacy Sales 12%' }
+router.put('/accounting/ledger-mappings', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const mapping = await saveLedgerMapping(req.body ?? {}, req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { mapping },
+  });
+}));
+
+router.delete('/accounting/ledger-mappings/:mappingId', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  await deleteLedgerMapping(getParamValue(req.params.mappingId));
+
+  res.json({
+    success: true,
+    message: 'Ledger mapping removed; the default ledger name applies again',
+  });
+}));
+
+// Sales and receipt vouchers for a date range as Tally import XML, a CSV journal or JSON
+router.get('/accounting/export', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const from = req.query.from;
+  const to = req.query.to;
+  const format = (req.query.format as string | undefined) ?? 'tally';
+  const documents = (req.query.documents as string | undefined) ?? 'all';
+
+  if (!isIstDateString(from) || !isIstDateString(to)) {
+    throw createError('from and to are required in YYYY-MM-DD format', 400);
+  }
+  if (from > to) {
+    throw createError('from must be on or before to', 400);
+  }
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw createError(`format must be one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+  }
+  if (!(EXPORT_DOCUMENTS as readonly string[]).includes(documents)) {
+    throw createError(`documents must be one of: ${EXPORT_DOCUMENTS.join(', ')}`, 400);
+  }
+
+  const vouchers = await buildAccountingVouchers(from, to, {
+    invoices: documents !== 'payments',
+    payments: documents !== 'invoices',
+  });
+
+  logger.info('Accounting export generated', { from, to, format, documents, vouchers: vouchers.length, requestedBy: req.user!.staff_id });
+
+  if (format === 'json') {
+    res.json({
+      success: true,
+      data: { from, to, vouchers },
+    });
+    return;
+  }
+
+  const filename = `accounting-${from}-to-${to}`;
+
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(vouchersToCsvJournal(vouchers));
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.xml"`);
+  res.send(vouchersToTallyXml(vouchers));
+}));
+
+export default router;
@@ -3,6 +3,21 @@ import { createClient } from '@supabase/supabase-js';
 import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, AuthenticatedRequest } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
+import { recordDeposit } from '../services/deposit-service.js';
+import { assertBusinessDayOpen } from '../services/day-book-service.js';
+import { isPaymentMethod, PAYMENT_METHODS } from '../services/payment-service.js';
+import { convertEstimateToAdmission, fetchConvertibleEstimate } from '../services/estimate-service.js';
+import {
+  ADMISSION_EVENTS,
+  applyLegacyAdmissionStatus,
+  assertRoomAndBedFree,
+  availableAdmissionEvents,
+  fetchAdmissionEvents,
+  isAdmissionEvent,
+  planLegacyAdmissionStatus,
+  recordAdmissionReserved,
+  transitionAdmission,
+} from '../services/admission-state-service.js';
 
 const router = Router();
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
@@ -11,6 +26,8 @@ const PATIENT_FIELDS = 'id, patient_id, first_name, last_name, gender, email';
 const ROOM_FIELDS = 'id, room_number, room_type, ward, floor, is_available';
 const STAFF_FIELDS = 'id, first_name, last_name, role, email';
 
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
 type RelatedMaps = {
   patients: Map<string, any>;
   rooms: Map<string, any>;
@@ -46,6 +63,8 @@ const toAdmissionDocument = (record: any, maps: RelatedMaps) => {
       : '',
     date: record.admission_date,
     status: record.status,
+    adtState: record.adt_state ?? null,
+    pendingRoomIdRef: record.pending_room_id ?? null,
     reason: record.reason ?? '',
     duration: record.duration ?? '',
     include_in_audit: record.include_in_audit ?? false,
@@ -54,6 +73,7 @@ const toAdmissionDocument = (record: any, maps: RelatedMaps) => {
     after_effects: record.after_effects ?? '',
     dischargeDate: record.discharge_date,
     rate_per_day: record.rate_per_day || null,
+    priceListId: record.price_list_id ?? null,
     createdAt: record.created_at,
     updatedAt: record.updated_at,
   };
@@ -186,6 +206,23 @@ router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
   });
 }));
 
+// Undo an admission created in this request when a later step fails, so the client can retry
+// without leaving a duplicate behind. An admitted one is cancelled first to free its room and bed.
+const discardNewAdmission = async (admissionId: string, admitted: boolean) => {
+  try {
+    if (admitted) {
+      await transitionAdmission(admissionId, { event: 'cancel', notes: 'Admission could not be completed' });
+      await supabase.from('room_history').delete().eq('admission_id', admissionId);
+    }
+    await supabase.from('admissions').delete().eq('id', admissionId);
+  } catch (discardError) {
+    logger.error('Failed to discard incomplete admission', {
+      admissionId,
+      error: (discardError as Error)?.message,
+    });
+  }
+};
+
 router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const {
     patient_id,
@@ -200,32 +237,47 @@ router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedReques
     disease_details,
     treatment_given,
     after_effects,
+    deposit_amount,
+    deposit_payment_method,
+    deposit_reference,
+    price_list_id,
+    estimate_id,
   } = req.body;
 
   if (!patient_id) {
     throw createError('patient_id is required', 400);
   }
 
-  if (!['active', 'pending', 'completed', 'cancelled'].includes(status.toLowerCase())) {
-    throw createError('Invalid status provided', 400);
+  const hasDeposit = deposit_amount !== undefined && deposit_amount !== null && deposit_amount !== '';
+  if (hasDeposit) {
+    if (!(Number(deposit_amount) > 0)) {
+      throw createError('deposit_amount must be greater than zero', 400);
+    }
+    if (!isPaymentMethod(deposit_payment_method)) {
+      throw createError(`deposit_payment_method must be one of: ${PAYMENT_METHODS.join(', ')}`, 400);
+    }
+    // A closed day would refuse the deposit after the admission exists
+    await assertBusinessDayOpen();
+  }
+
+  // New admissions start reserved; an active one is admitted straight away through the state machine
+  const normalizedStatus = String(status).toLowerCase();
+  if (!['active', 'admitted', 'pending', 'reserved'].includes(normalizedStatus)) {
+    throw createError('New admissions must be active or pending; discharge or cancel them afterwards', 400);
+  }
+  const admitNow = normalizedStatus === 'active' || normalizedStatus === 'admitted';
+
+  if (estimate_id) {
+    await fetchConvertibleEstimate(estimate_id, patient_id);
   }
-  const normalizedStatus = status.toLowerCase();
 
   let roomType = 'general';
   let roomDetails: { room_type?: string | null; occupied_beds?: number | null } | null = null;
 
-  if (room_id) {
-    const { data: roomActive } = await supabase
-      .from('admissions')
-      .select('id')
-      .eq('room_id', room_id)
-      .eq('status', 'active')
-      .maybeSingle();
-
-    if (roomActive) {
-      throw createError('Room already has an active admission', 400);
-    }
+  // Checked before the reservation is written so a refused admit leaves nothing behind
+  await assertRoomAndBedFree({ roomId: room_id ?? null, bedId: admitNow ? bed_id ?? null : null, patientId: patient_id });
 
+  if (room_id) {
     const { data: roomDetailsData, error: roomDetailsError } = await supabase
       .from('rooms')
       .select('room_type, occupied_beds')
@@ -247,13 +299,15 @@ router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedReques
     room_id: room_id ?? null,
     bed_id: bed_id ?? null,
     admission_date: admission_date ? new Date(admission_date).toISOString() : new Date().toISOString(),
-    status: normalizedStatus,
+    status: 'pending',
+    adt_state: 'reserved',
     reason: reason ?? null,
     duration: duration ?? null,
     include_in_audit: include_in_audit ?? false,
     disease_details: disease_details ?? null,
     treatment_given: treatment_given ?? null,
     after_effects: after_effects ?? null,
+    price_list_id: price_list_id || null,
   };
 
   const { data, error } = await supabase
@@ -267,33 +321,55 @@ router.post('/', authenticateToken, asyncHandler(async (req: AuthenticatedReques
     throw createError('Failed to create admission', 500);
   }
 
-  if (bed_id) {
-    const { error: bedUpdateError } = await supabase
-      .from('beds')
-      .update({
-        status: 'occupied',
-        current_patient_id: patient_id,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', bed_id);
+  await recordAdmissionReserved(data.id, req.user?.staff_id ?? null);
+
+  let admission = data;
+  if (admitNow) {
+    try {
+      ({ admission } = await transitionAdmission(data.id, { event: 'admit', performedBy: req.user?.staff_id ?? null }));
+    } catch (admitError) {
+      // Lost a race for the room or bed: drop the reservation so a retry does not duplicate it
+      await discardNewAdmission(data.id, false);
+      throw admitError;
+    }
+  }
 
-    if (bedUpdateError) {
-      logger.error('Failed to update bed assignment when creating admission', { bed_id, error: bedUpdateError });
-      throw createError('Failed to assign bed to patient', 500);
+  let deposit = null;
+  if (hasDeposit) {
+    try {
+      deposit = await recordDeposit({
+        admissionId: data.id,
+        amount: Number(deposit_amount),
+        paymentMethod: deposit_payment_method,
+        paymentReference: deposit_reference,
+        receivedBy: req.user?.staff_id ?? null,
+      });
+    } catch (depositError) {
+      await discardNewAdmission(data.id, admitNow);
+      throw depositError;
     }
   }
 
+  const estimate = estimate_id
+    ? await convertEstimateToAdmission(estimate_id, data.id, req.user?.staff_id ?? null)
+    : null;
+
   res.status(201).json({
     success: true,
-    data: { admission: toAdmissionDocument(data, {
-      patients: new Map(),
-      rooms: new Map(),
-      staff: new Map(),
-    }) },
+    data: {
+      admission: toAdmissionDocument(admission, {
+        patients: new Map(),
+        rooms: new Map(),
+        staff: new Map(),
+      }),
+      deposit,
+      estimate,
+    },
   });
 }));
 
 router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.id);
   const {
     status,
     discharge_date,
@@ -304,6 +380,8 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
     disease_details,
     treatment_given,
     after_effects,
+    price_list_id,
+    notes,
   } = req.body;
   const updates: Record<string, unknown> = {
     updated_at: new Date().toISOString(),
@@ -319,12 +397,37 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
 
   const sanitizedRoomId = room_id !== undefined ? sanitizeNullableString(room_id) : undefined;
 
+  const { data: current, error: currentError } = await supabase
+    .from('admissions')
+    .select('id, adt_state, room_id')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (currentError) {
+    logger.error('Failed to fetch admission', { admissionId, error: currentError });
+    throw createError('Failed to fetch admission', 500);
+  }
+  if (!current) {
+    throw createError('Admission not found', 404);
+  }
+
+  // Once the patient is in a room, moving them is a transfer with its own room history and bed moves
+  if (sanitizedRoomId !== undefined && sanitizedRoomId !== current.room_id && current.adt_state !== 'reserved') {
+    throw createError('Room can only be changed before admission; use POST /api/admissions/:id/transitions to transfer', 409);
+  }
+
+  // Refuse an illegal status change before any other field is saved
+  const transitionInput = {
+    performedBy: req.user?.staff_id ?? null,
+    role: req.user?.role ?? null,
+    notes: typeof notes === 'string' ? notes : null,
+    at: discharge_date ? String(discharge_date) : null,
+  };
   if (status) {
-    const normalizedStatus = status.toLowerCase();
-    if (!['active', 'pending', 'completed', 'cancelled', 'discharged'].includes(normalizedStatus)) {
-      throw createError('Invalid status provided', 400);
-    }
-    updates.status = normalizedStatus;
+    await planLegacyAdmissionStatus(admissionId, String(status).toLowerCase(), {
+      ...transitionInput,
+      roomId: sanitizedRoomId !== undefined ? (sanitizedRoomId as string | null) : undefined,
+    });
   }
 
   if (reason !== undefined) {
@@ -335,10 +438,8 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
     updates.duration = duration;
   }
 
-  if (discharge_date !== undefined) {
+  if (discharge_date !== undefined && !status) {
     updates.discharge_date = discharge_date ? new Date(discharge_date).toISOString() : null;
-  } else if (status && ['completed', 'cancelled', 'discharged'].includes(status.toLowerCase()) && !('discharge_date' in req.body)) {
-    updates.discharge_date = new Date().toISOString();
   }
 
   if (room_id !== undefined) {
@@ -361,172 +462,33 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
     updates.after_effects = after_effects;
   }
 
-  const { data, error } = await supabase
+  if (price_list_id !== undefined) {
+    updates.price_list_id = price_list_id || null;
+  }
+
+  const { data: updated, error } = await supabase
     .from('admissions')
     .update(updates)
-    .eq('id', req.params.id)
+    .eq('id', admissionId)
     .select('*')
     .single();
 
-  if (error || !data) {
+  if (error || !updated) {
     logger.error('Admission update failed', {
-      admissionId: req.params.id,
+      admissionId,
       error,
       updates,
     });
     throw createError('Failed to update admission', 500);
   }
 
-  // Handle room and bed status updates when admission is discharged/cancelled
-  if (data.room_id && (updates.status === 'completed' || updates.status === 'cancelled' || updates.status === 'discharged')) {
-    // Update room status
-    const { error: roomUpdateError } = await supabase
-      .from('rooms')
-      .update({ 
-        is_available: true,
-        current_patient_id: null,
-        status: 'available'
-      })
-      .eq('id', data.room_id);
-
-    if (roomUpdateError) {
-      throw createError('Failed to update room availability', 500);
-    }
-
-    // Update bed status if bed_id exists
-    if (data.bed_id) {
-      const { error: bedUpdateError } = await supabase
-        .from('beds')
-        .update({
-          status: 'available',
-          current_patient_id: null,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', data.bed_id);
-
-      if (bedUpdateError) {
-        logger.error('Failed to update bed availability on discharge', { bed_id: data.bed_id, error: bedUpdateError });
-        throw createError('Failed to update bed availability', 500);
-      }
-
-      logger.info('Bed released from patient', {
-        bedId: data.bed_id,
-        patientId: data.patient_id,
-        admissionId: data.id,
-        status: updates.status
-      });
-    }
-
-    // Calculate and add final pro-rated room charge for discharge
-    if (updates.discharge_date && data.admission_date) {
-      const admissionDate = new Date(data.admission_date);
-      const dischargeDate = new Date(updates.discharge_date as string);
-      const diffMs = dischargeDate.getTime() - admissionDate.getTime();
-      const totalHours = Math.ceil(diffMs / (1000 * 60 * 60));
-      // Add 1 to include both admission and discharge dates as full days
-      const totalDays = Math.ceil(totalHours / 24) + 1;
-      
-      // Get room rate
-      const { data: roomData } = await supabase
-        .from('rooms')
-        .select('rate_per_day, room_number, room_type')
-        .eq('id', data.room_id)
-        .maybeSingle();
-      
-      const roomRate = roomData?.rate_per_day || 1500;
-      const finalCharge = totalDays * roomRate;
-      
-      // Check if there's an existing invoice for this admission
-      const { data: existingInvoice } = await supabase
-        .from('invoices')
-        .select('id, admission_id')
-        .eq('admission_id', data.id)
-        .maybeSingle();
-      
-      if (existingInvoice) {
-        // Check if final room charge already exists
-        const { data: existingRoomCharge } = await supabase
-          .from('bill_items')
-          .select('id')
-          .eq('invoice_id', existingInvoice.id)
-          .ilike('item_name', '%Room Charges%')
-          .ilike('description', '%Final%')
-          .maybeSingle();
-        
-        if (!existingRoomCharge && finalCharge > 0) {
-          // Add final room charge to bill
-          const { error: billItemError } = await supabase
-            .from('bill_items')
-            .insert({
-              invoice_id: existingInvoice.id,
-              item_name: `Final Room Charges - ${roomData?.room_type || 'General'} Room`,
-              description: `${totalDays} days @ ${roomRate}/day (Discharged on ${new Date(updates.discharge_date as string).toLocaleDateString()})`,
-              item_type: 'room',
-              quantity: totalDays,
-              unit_price: roomRate,
-              amount: finalCharge,
-              created_at: new Date().toISOString()
-            });
-          
-          if (billItemError) {
-            logger.error('Failed to add final room charge to bill', { 
-              invoiceId: existingInvoice.id, 
-              error: billItemError 
-            });
-          } else {
-            logger.info('Final room charge added to bill', {
-              invoiceId: existingInvoice.id,
-              totalDays,
-              finalCharge
-            });
-          }
-        }
-      }
-      
-      logger.info('Final room charge calculated for discharge', {
-        admissionId: data.id,
-        totalDays,
-        totalHours,
-        roomRate,
-        finalCharge,
-        admissionDate: data.admission_date,
-        dischargeDate: updates.discharge_date
-      });
-    }
-
-    logger.info('Room released from patient', {
-      roomId: data.room_id,
-      patientId: data.patient_id,
-      admissionId: data.id,
-      status: updates.status
-    });
-  }
-
-  // Handle room changes when room_id is updated
-  if (room_id !== undefined && sanitizedRoomId !== data.room_id) {
-    // Release old room
-    if (data.room_id) {
-      await supabase
-        .from('rooms')
-        .update({ 
-          is_available: true,
-          current_patient_id: null,
-          status: 'available'
-        })
-        .eq('id', data.room_id);
-    }
-
-    // Assign new room
-    if (room_id) {
-      await supabase
-        .from('rooms')
-        .update({ 
-          is_available: false,
-          current_patient_id: data.patient_id,
-          status: 'occupied'
-        })
-        .eq('id', room_id);
-    }
+  // Status changes run through the ADT state machine, which releases rooms and beds itself
+  let data = updated;
+  let estimateVariance = null;
+  if (status) {
+    const result = await applyLegacyAdmissionStatus(admissionId, String(status).toLowerCase(), transitionInput);
+    data = result.admission;
+    estimateVariance = result.estimateVariance;
   }
 
   const patientIds = [data.patient_id].filter(Boolean);
@@ -553,7 +515,70 @@ router.put('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequ
 
   res.json({
     success: true,
-    data: { admission: toAdmissionDocument(data, maps) },
+    data: { admission: toAdmissionDocument(data, maps), estimateVariance },
+  });
+}));
+
+// ADT history: every transition with who made it, plus the moves the admission can make next
+router.get('/:id/events', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.id);
+
+  const { data: admission, error } = await supabase
+    .from('admissions')
+    .select('id, adt_state, status, pending_room_id, pending_bed_id')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch admission', { admissionId, error });
+    throw createError('Failed to fetch admission', 500);
+  }
+  if (!admission) {
+    throw createError('Admission not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      state: admission.adt_state,
+      status: admission.status,
+      pendingRoomId: admission.pending_room_id ?? null,
+      pendingBedId: admission.pending_bed_id ?? null,
+      availableEvents: availableAdmissionEvents(admission.adt_state),
+      events: await fetchAdmissionEvents(admissionId),
+    },
+  });
+}));
+
+router.post('/:id/transitions', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.id);
+  const { event, notes, room_id, bed_id, at } = req.body ?? {};
+
+  if (!isAdmissionEvent(event)) {
+    throw createError(`event must be one of: ${ADMISSION_EVENTS.join(', ')}`, 400);
+  }
+
+  const { admission, estimateVariance } = await transitionAdmission(admissionId, {
+    event,
+    performedBy: req.user?.staff_id ?? null,
+    role: req.user?.role ?? null,
+    notes: typeof notes === 'string' ? notes : null,
+    roomId: room_id || null,
+    bedId: bed_id || null,
+    at: at || null,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      admission: toAdmissionDocument(admission, {
+        patients: new Map(),
+        rooms: new Map(),
+        staff: new Map(),
+      }),
+      availableEvents: availableAdmissionEvents(admission.adt_state),
+      estimateVariance,
+    },
   });
 }));
 
@@ -575,6 +600,20 @@ router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedR
     throw createError('Admission not found', 404);
   }
 
+  // Deposits are money received and are never deleted with the admission
+  const { count: depositCount, error: depositError } = await supabase
+    .from('admission_deposits')
+    .select('id', { count: 'exact', head: true })
+    .eq('admission_id', admissionId);
+
+  if (depositError) {
+    logger.error('Failed to check deposits before admission delete', { admissionId, error: depositError });
+    throw createError('Unable to check admission deposits', 500);
+  }
+  if ((depositCount ?? 0) > 0) {
+    throw createError('This admission has deposits and cannot be deleted; cancel or discharge it instead', 409);
+  }
+
   const deleteDependencies = async () => {
     const { error: medsDeleteError } = await supabase
       .from('patient_medications')
@@ -8,10 +8,105 @@ import { getHospitalLogoDataUri } from '../utils/logo.js';
 import { env } from '../config/env.js';
 import { mergeInvoiceWithLabReports } from '../utils/pdf-merger.js';
 import { getSignedDownloadUrl } from '../utils/r2.js';
+import { assertClientInvoiceStatus, recalculateInvoicePayments, recordPayment, roundCurrency } from '../services/payment-service.js';
+import {
+  applyDepositsToInvoice,
+  fetchAdmissionDeposits,
+  fetchAdmissionRefundVouchers,
+  issueRefundVouchersForAdmission,
+  summarizeDeposits,
+} from '../services/deposit-service.js';
+import { assertInvoiceEditable, cancelFailedInvoice, isInvoiceLocked, transitionInvoiceLifecycle } from '../services/invoice-lifecycle-service.js';
+import {
+  applyLineTaxes,
+  calculateAmountPayable,
+  calculateDiscountRatio,
+  calculateInvoiceGst,
+  computeLineTax,
+  fetchInvoiceSupplyType,
+  isSupplyType,
+  refreshInvoiceTotals,
+  resolveItemTaxDefaults,
+  summarizeTaxes,
+} from '../services/tax-service.js';
+import { allocateDocumentNumber } from '../services/sequence-service.js';
+import {
+  assessDiscount,
+  createPendingDiscountRequest,
+  DiscountAssessment,
+  DiscountInput,
+  DISCOUNT_TYPES,
+  isDiscountType,
+  recordAutoApprovedDiscount,
+} from '../services/discount-service.js';
+import {
+  applyAdmissionPackage,
+  fetchActiveAdmissionPackage,
+  fetchPackageConsumption,
+  isPackageLineBilled,
+} from '../services/package-service.js';
+import {
+  buildSettlementSummary,
+  closeEmptyRunningBills,
+  fetchInterimInvoices,
+  InvoiceType,
+  isInvoiceType,
+  resolveBillingWindow,
+  SettlementSummary,
+} from '../services/interim-billing-service.js';
+import {
+  buildChargeLines,
+  captureRoomDays,
+  ChargeSourceType,
+  fetchUnbilledCharges,
+  markChargesBilled,
+} from '../services/charge-capture-service.js';
+import {
+  chargeTypeForItemType,
+  loadTariffContext,
+  resolveTariffPrice,
+  tariffStamp,
+} from '../services/tariff-service.js';
+import {
+  buildPayerSplitSummary,
+  isPayerResponsibility,
+  PAYER_RESPONSIBILITIES,
+  refreshAdmissionPayerSplit,
+} from '../services/payer-split-service.js';
+import { buildEInvoiceStamp } from '../services/e-invoice-service.js';
+import { buildUpiPaymentQr } from '../services/upi-payment-service.js';
+import { fetchPatientAdmissions, resolvePatient } from '../services/patient-statement-service.js';
+import { recordInvoiceChange } from '../services/invoice-revision-service.js';
+import { getInvoiceTitle } from '../utils/pdf-generator.js';
 
 const router = Router();
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
 
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// Once money has been collected the invoice is an audit record; corrections go through credit notes.
+const assertBillItemEditable = async (itemId: string) => {
+  const { data: billItem, error } = await supabase
+    .from('bill_items')
+    .select('id, invoice_id, invoices ( status, paid_amount, lifecycle_status )')
+    .eq('id', itemId)
+    .maybeSingle();
+
+  if (error || !billItem) {
+    throw createError('Bill item not found', 404);
+  }
+
+  const invoice: any = Array.isArray(billItem.invoices) ? billItem.invoices[0] : billItem.invoices;
+  if (isInvoiceLocked(invoice?.lifecycle_status)) {
+    await assertInvoiceEditable(billItem.invoice_id);
+  }
+  if (invoice && (Number(invoice.paid_amount || 0) > 0 || ['paid', 'partial'].includes(invoice.status))) {
+    throw createError('Invoice has payments recorded; raise a credit note via POST /api/billing/:id/credit-notes instead', 409);
+  }
+
+  return billItem;
+};
+
 const INVOICE_SELECT = `
   *,
   admissions (
@@ -131,210 +226,6 @@ const fetchAdmissionWithRelations = async (admissionId: string) => {
   };
 };
 
-const ensureMedicationBillItems = async (
-  invoiceId: string,
-  admissionId: string,
-  currentItems: any[],
-) => {
-  const medicationRefs = new Set(
-    currentItems
-      .filter(
-        (item) =>
-          item?.item_type === 'medication' ||
-          item?.item_name?.toLowerCase?.().includes('med'),
-      )
-      .map((item) => item.reference_id)
-      .filter(Boolean),
-  );
-
-  const { data: medications, error: medicationsError } = await supabase
-    .from('patient_medications')
-    .select('*')
-    .eq('admission_id', admissionId);
-
-  if (medicationsError) {
-    logger.warn('Failed to load medications for invoice sync', {
-      invoiceId,
-      admissionId,
-      error: medicationsError.message,
-    });
-    return currentItems;
-  }
-
-  const newMedicationItems = (medications ?? [])
-    .filter((med) => !medicationRefs.has(med.id))
-    .map((med) => {
-      const pricePerUnit = Number(med.price_per_unit ?? 0);
-      const unitsPerDose = Number(med.units_per_dose ?? 1);
-      const dosesGiven = Number(med.doses_administered ?? 0);
-      const medTotal = pricePerUnit * unitsPerDose * dosesGiven;
-
-      if (medTotal <= 0) {
-        return null;
-      }
-
-      return {
-        invoice_id: invoiceId,
-        item_type: 'medication',
-        item_name: med.name || 'Medication Charge',
-        item_description: `Medication administered - ${dosesGiven} dose${dosesGiven === 1 ? '' : 's'}`,
-        quantity: dosesGiven,
-        unit_price: pricePerUnit * unitsPerDose,
-        total_price: medTotal,
-        reference_id: med.id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-    })
-    .filter(Boolean) as any[];
-
-  if (!newMedicationItems.length) {
-    return currentItems;
-  }
-
-  const { data: insertedItems, error: insertError } = await supabase
-    .from('bill_items')
-    .insert(newMedicationItems)
-    .select('*');
-
-  if (insertError) {
-    logger.error('Failed to persist medication bill items', {
-      invoiceId,
-      admissionId,
-      error: insertError.message,
-    });
-    // Fall back to returning optimistic items (without DB IDs)
-    return [...currentItems, ...newMedicationItems];
-  }
-
-  logger.info('Medication bill items synced', {
-    invoiceId,
-    admissionId,
-    insertedCount: insertedItems?.length ?? 0,
-  });
-
-  // Recalculate invoice total after adding medication items
-  const allItems = [...currentItems, ...(insertedItems ?? [])];
-  const newTotal = allItems.reduce((sum, item) => sum + Number(item.total_price || 0), 0);
-
-  const { error: updateError } = await supabase
-    .from('invoices')
-    .update({ total_amount: newTotal, updated_at: new Date().toISOString() })
-    .eq('id', invoiceId);
-
-  if (updateError) {
-    logger.error('Failed to update invoice total after medication sync', {
-      invoiceId,
-      error: updateError.message,
-    });
-  } else {
-    logger.info('Invoice total updated after medication sync', {
-      invoiceId,
-      newTotal,
-    });
-  }
-
-  return allItems;
-};
-
-const ensureLabReportBillItems = async (
-  invoiceId: string,
-  admissionId: string,
-  currentItems: any[],
-) => {
-  const labReportRefs = new Set(
-    currentItems
-      .filter((item) => item?.item_type === 'lab')
-      .map((item) => item.reference_id)
-      .filter(Boolean),
-  );
-
-  const { data: labReports, error: labReportsError } = await supabase
-    .from('lab_reports')
-    .select('*')
-    .eq('admission_id', admissionId)
-    .eq('billing_status', 'billed');
-
-  if (labReportsError) {
-    logger.warn('Failed to load lab reports for invoice sync', {
-      invoiceId,
-      admissionId,
-      error: labReportsError.message,
-    });
-    return currentItems;
-  }
-
-  const newLabReportItems = (labReports ?? [])
-    .filter((report) => !labReportRefs.has(report.id))
-    .map((report) => {
-      const price = Number(report.price ?? 0);
-
-      if (price <= 0) {
-        return null;
-      }
-
-      return {
-        invoice_id: invoiceId,
-        item_type: 'lab',
-        item_name: report.report_title || report.type || 'Lab Report',
-        item_description: report.report_description || `Lab test: ${report.type}`,
-        quantity: 1,
-        unit_price: price,
-        total_price: price,
-        reference_id: report.id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-    })
-    .filter(Boolean) as any[];
-
-  if (!newLabReportItems.length) {
-    return currentItems;
-  }
-
-  const { data: insertedItems, error: insertError } = await supabase
-    .from('bill_items')
-    .insert(newLabReportItems)
-    .select('*');
-
-  if (insertError) {
-    logger.error('Failed to persist lab report bill items', {
-      invoiceId,
-      admissionId,
-      error: insertError.message,
-    });
-    return [...currentItems, ...newLabReportItems];
-  }
-
-  logger.info('Lab report bill items synced', {
-    invoiceId,
-    admissionId,
-    insertedCount: insertedItems?.length ?? 0,
-  });
-
-  const allItems = [...currentItems, ...(insertedItems ?? [])];
-  const newTotal = allItems.reduce((sum, item) => sum + Number(item.total_price || 0), 0);
-
-  const { error: updateError } = await supabase
-    .from('invoices')
-    .update({ total_amount: newTotal, updated_at: new Date().toISOString() })
-    .eq('id', invoiceId);
-
-  if (updateError) {
-    logger.error('Failed to update invoice total after lab report sync', {
-      invoiceId,
-      error: updateError.message,
-    });
-  } else {
-    logger.info('Invoice total updated after lab report sync', {
-      invoiceId,
-      newTotal,
-    });
-  }
-
-  return allItems;
-};
-
 // Get all invoices
 router.get('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
@@ -440,10 +331,16 @@ router.get('/patient/:patientId', authenticateToken, asyncHandler(async (req: Au
   const { patientId } = req.params;
   const admissionId = (req.query.admissionId as string) || null;
 
-  const { data: invoices, error } = await supabase
-    .from('invoices')
-    .select('*')
-    .order('created_at', { ascending: false });
+  const patient = await resolvePatient(getParamValue(patientId));
+  const admissions = await fetchPatientAdmissions(patient.id, admissionId);
+
+  const { data: invoices, error } = admissions.length
+    ? await supabase
+        .from('invoices')
+        .select('*')
+        .in('admission_id', admissions.map((admission) => admission.id))
+        .order('created_at', { ascending: false })
+    : { data: [], error: null };
 
   if (error) {
     logger.error('Failed to fetch patient invoices', {
@@ -456,95 +353,40 @@ router.get('/patient/:patientId', authenticateToken, asyncHandler(async (req: Au
     throw createError('Failed to fetch patient invoices', 500);
   }
 
-  const admissionIds = Array.from(
-    new Set((invoices ?? []).map((invoice) => invoice.admission_id).filter(Boolean))
-  );
-
-  const { data: admissionsData, error: admissionsError } = admissionIds.length
-    ? await supabase
-        .from('admissions')
-        .select('id, admission_date, discharge_date, patient_id')
-        .in('id', admissionIds)
-    : { data: [], error: null };
-
-  if (admissionsError) {
-    logger.error('Failed to fetch admissions for invoices', {
-      patientId,
-      admissionId,
-      error: admissionsError.message,
-      details: admissionsError.details,
-      hint: admissionsError.hint,
-    });
-    throw createError('Failed to fetch patient invoices', 500);
-  }
-
-  const patientIds = Array.from(
-    new Set((admissionsData ?? []).map((admission) => admission.patient_id).filter(Boolean))
-  );
-
-  const { data: patientsData, error: patientsError } = patientIds.length
-    ? await supabase
-        .from('patients')
-        .select('id, patient_id, first_name, last_name')
-        .in('id', patientIds)
-    : { data: [], error: null };
-
-  if (patientsError) {
-    logger.error('Failed to fetch patients for invoices', {
-      patientId,
-      admissionId,
-      error: patientsError.message,
-      details: patientsError.details,
-      hint: patientsError.hint,
-    });
-    throw createError('Failed to fetch patient invoices', 500);
-  }
-
-  const admissionMap = new Map((admissionsData ?? []).map((admission) => [admission.id, admission]));
-  const patientMap = new Map((patientsData ?? []).map((patient) => [patient.id, patient]));
+  const admissionMap = new Map(admissions.map((admission) => [admission.id, admission]));
+  const patientSummary = {
+    id: patient.id,
+    patient_id: patient.patient_id,
+    first_name: patient.first_name,
+    last_name: patient.last_name,
+  };
 
-  const invoicesWithRelations = (invoices ?? []).map((invoice) => {
-    const admission = invoice.admission_id ? admissionMap.get(invoice.admission_id) : null;
-    const patient = admission ? patientMap.get(admission.patient_id) : null;
+  const invoicesWithRelations = (invoices ?? []).map((invoice: any) => {
+    const admission = admissionMap.get(invoice.admission_id);
 
     return {
       ...invoice,
       admissions: admission
         ? {
-            ...admission,
-            patients: patient
-              ? {
-                  id: patient.id,
-                  patient_id: patient.patient_id,
-                  first_name: patient.first_name,
-                  last_name: patient.last_name,
-                }
-              : null,
+            id: admission.id,
+            admission_date: admission.admission_date,
+            discharge_date: admission.discharge_date,
+            patient_id: patient.id,
+            patients: patientSummary,
           }
         : null,
     };
   });
 
-  const filteredInvoices = invoicesWithRelations.filter((invoice) => {
-    const admissionPatient = invoice.admissions?.patients;
-    if (!admissionPatient) return false;
-    return admissionPatient.id === patientId || admissionPatient.patient_id === patientId;
-  });
-
-  const finalInvoices =
-    admissionId !== null
-      ? filteredInvoices.filter((invoice) => invoice.admission_id === admissionId)
-      : filteredInvoices;
-
   res.json({
     success: true,
-    data: { invoices: finalInvoices },
+    data: { invoices: invoicesWithRelations },
   });
 }));
 
 // Get invoices by admission ID
 router.get('/admission/:admissionId', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { admissionId } = req.params;
+  const admissionId = getParamValue(req.params.admissionId);
 
   const { data: invoices, error } = await supabase
     .from('invoices')
@@ -588,9 +430,19 @@ router.get('/admission/:admissionId', authenticateToken, asyncHandler(async (req
     })
   );
 
+  const [deposits, refundVouchers] = await Promise.all([
+    fetchAdmissionDeposits(admissionId),
+    fetchAdmissionRefundVouchers(admissionId),
+  ]);
+
   res.json({
     success: true,
-    data: { invoices: invoicesWithRelations }
+    data: {
+      invoices: invoicesWithRelations,
+      deposits,
+      refundVouchers,
+      depositSummary: summarizeDeposits(deposits),
+    }
   });
 }));
 
@@ -731,22 +583,10 @@ router.post('/', authenticateToken, requireBilling, asyncHandler(async (req: Aut
   if (!admission_id || !total_amount) {
     throw createError('admission_id and total_amount are required', 400);
   }
+  assertClientInvoiceStatus(status);
 
   // Generate invoice number
-  const { data: lastInvoice } = await supabase
-    .from('invoices')
-    .select('invoice_number')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
-
-  let nextId = 1;
-  if (lastInvoice?.invoice_number) {
-    const lastNum = parseInt(lastInvoice.invoice_number.replace('INV-', ''));
-    nextId = lastNum + 1;
-  }
-
-  const invoice_number = `INV-${nextId.toString().padStart(6, '0')}`;
+  const invoice_number = await allocateDocumentNumber('invoice');
 
   const { data: newInvoice, error } = await supabase
     .from('invoices')
@@ -755,6 +595,7 @@ router.post('/', authenticateToken, requireBilling, asyncHandler(async (req: Aut
       invoice_number,
       total_amount,
       status,
+      lifecycle_status: 'draft',
       generated_by: req.user!.staff_id
     })
     .select('*')
@@ -765,6 +606,8 @@ router.post('/', authenticateToken, requireBilling, asyncHandler(async (req: Aut
     throw createError('Failed to create invoice', 500);
   }
 
+  await recordInvoiceChange(newInvoice.id, 'Invoice created', req.user!.staff_id);
+
   const admissionData = await fetchAdmissionWithRelations(admission_id);
 
   // Combine the data
@@ -789,15 +632,20 @@ router.post('/', authenticateToken, requireBilling, asyncHandler(async (req: Aut
 router.put('/:id', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const {
     total_amount,
-    paid_amount,
     status
   } = req.body;
 
-  const { data: updatedInvoice, error } = await supabase
+  if (req.body.paid_amount !== undefined) {
+    throw createError('paid_amount is derived from payments; use /api/billing/:id/payments instead', 400);
+  }
+  assertClientInvoiceStatus(status);
+
+  await assertInvoiceEditable(getParamValue(req.params.id));
+
+  const { data: savedInvoice, error } = await supabase
     .from('invoices')
     .update({
       total_amount,
-      paid_amount,
       status,
       updated_at: new Date().toISOString()
     })
@@ -805,10 +653,13 @@ router.put('/:id', authenticateToken, requireBilling, asyncHandler(async (req: A
     .select('*')
     .single();
 
-  if (error || !updatedInvoice) {
+  if (error || !savedInvoice) {
     throw createError('Invoice not found or update failed', 404);
   }
 
+  const updatedInvoice = await recalculateInvoicePayments(savedInvoice.id);
+  await recordInvoiceChange(savedInvoice.id, 'Invoice updated', req.user!.staff_id);
+
   const admissionData = await fetchAdmissionWithRelations(updatedInvoice.admission_id);
 
   // Combine the data
@@ -828,28 +679,22 @@ router.put('/:id', authenticateToken, requireBilling, asyncHandler(async (req: A
   });
 }));
 
-// Delete invoice
+// Cancel invoice. Invoices are never deleted: the number stays in the series with its reason code
 router.delete('/:id', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { data, error } = await supabase
-    .from('invoices')
-    .delete()
-    .eq('id', req.params.id)
-    .select('id, invoice_number')
-    .single();
+  const id = getParamValue(req.params.id);
+  const { reason_code, reason } = req.body ?? {};
 
-  if (error || !data) {
-    throw createError('Invoice not found or deletion failed', 404);
-  }
-
-  logger.info('Invoice deleted', {
-    invoiceId: data.id,
-    invoiceNumber: data.invoice_number,
-    deletedBy: req.user!.staff_id
-  });
+  const invoice = await transitionInvoiceLifecycle(
+    id,
+    'cancelled',
+    { staffId: req.user!.staff_id ?? null, role: req.user!.role },
+    reason,
+    reason_code
+  );
 
   res.json({
     success: true,
-    data: { invoice: data }
+    data: { invoice }
   });
 }));
 
@@ -897,18 +742,8 @@ router.get('/:id/details', authenticateToken, asyncHandler(async (req: Authentic
       throw createError('Failed to fetch bill items', 500);
     }
 
-    let finalBillItems = await ensureMedicationBillItems(
-      invoice.id,
-      invoice.admission_id,
-      billItems ? [...billItems] : []
-    );
-
-    // Also ensure lab report bill items are included
-    finalBillItems = await ensureLabReportBillItems(
-      invoice.id,
-      invoice.admission_id,
-      finalBillItems
-    );
+    // Read-only: charges reach an invoice only when it is generated from the charge ledger
+    const finalBillItems = billItems ?? [];
 
     let medicationDetails: any[] = [];
     const medicationReferenceIds = finalBillItems
@@ -950,6 +785,11 @@ router.get('/:id/details', authenticateToken, asyncHandler(async (req: Authentic
       admissions: admissionData,
       billItems: finalBillItems,
       medicationDetails,
+      taxSummary: invoice.gst_mode === 'line'
+        ? summarizeTaxes(finalBillItems, calculateDiscountRatio(invoice))
+        : [],
+      settlement: await buildSettlementSummary(invoice),
+      payerSplit: await buildPayerSplitSummary(invoice, finalBillItems),
     };
 
     res.json({
@@ -1036,55 +876,6 @@ router.get("/:id/pdf", authenticateToken, requireBilling, asyncHandler(async (re
     logger.info('Using overridden doctor name for PDF', { staffName });
   }
 
-  // Calculate room charges based on admission duration and room type
-  const calculateRoomCharges = (admission: any) => {
-    const admissionDate = new Date(admission.admission_date);
-    const dischargeDate = admission.discharge_date ? new Date(admission.discharge_date) : new Date();
-    // Add 1 to include both admission and discharge dates as full days when discharge date exists
-    const totalDays = Math.ceil((dischargeDate.getTime() - admissionDate.getTime()) / (1000 * 60 * 60 * 24)) + (admission.discharge_date ? 1 : 0);
-    
-    // Default room rates (can be fetched from database room rates)
-    const roomRates = {
-      'icu': 5000,
-      'private': 3000,
-      'general': 1500,
-      'semi-private': 2000
-    };
-    
-    // Get current room rate
-    const roomType = (admission.rooms?.room_type as string)?.toLowerCase() || 'general';
-    const currentRoomRate = admission.rooms?.rate_per_day || roomRates[roomType as keyof typeof roomRates] || roomRates.general;
-    
-    // For now, calculate based on current room type for entire stay
-    // TODO: Implement room history tracking for multiple room types
-    const totalRoomCharges = totalDays * currentRoomRate;
-    
-    logger.info('Room charges calculated', {
-      admissionId: admission.id,
-      totalDays,
-      roomType: admission.rooms?.room_type,
-      ratePerDay: currentRoomRate,
-      totalCharges: totalRoomCharges,
-      admissionDate: admission.admission_date,
-      dischargeDate: admission.discharge_date
-    });
-    
-    return {
-      totalDays,
-      roomType: admission.rooms?.room_type || 'general',
-      ratePerDay: currentRoomRate,
-      totalCharges: totalRoomCharges,
-      breakdown: [{
-        roomType: admission.rooms?.room_type || 'general',
-        days: totalDays,
-        ratePerDay: currentRoomRate,
-        charges: totalRoomCharges
-      }]
-    };
-  };
-
-  const roomCharges = calculateRoomCharges(admissionData);
-
   const invoiceWithRelations = {
     ...invoice,
     admissions: admissionData
@@ -1102,29 +893,7 @@ router.get("/:id/pdf", authenticateToken, requireBilling, asyncHandler(async (re
     .select("*")
     .eq("invoice_id", id);
 
-  // Add room charges to bill items if not already present
-  let finalBillItems = billItems || [];
-  const hasRoomCharges = finalBillItems.some(item => 
-    item.item_name?.toLowerCase().includes('room') || 
-    item.description?.toLowerCase().includes('room')
-  );
-
-  if (!hasRoomCharges && roomCharges.totalCharges > 0) {
-    const roomChargeItem = {
-      id: `room-charge-${admissionData.id}`,
-      invoice_id: id,
-      item_name: `Room Charges - ${roomCharges.roomType.charAt(0).toUpperCase() + roomCharges.roomType.slice(1)} Room`,
-      description: `${roomCharges.totalDays} days @ ${roomCharges.ratePerDay}/day`,
-      quantity: roomCharges.totalDays,
-      unit_price: roomCharges.ratePerDay,
-      amount: roomCharges.totalCharges,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-    
-    finalBillItems.push(roomChargeItem);
-    logger.info('Room charges added to bill items', { roomChargeItem });
-  }
+  const finalBillItems = billItems || [];
 
   if (billItemsError) {
     logger.error("Failed to fetch bill items", { invoiceId: id, error: billItemsError });
@@ -1138,6 +907,10 @@ router.get("/:id/pdf", authenticateToken, requireBilling, asyncHandler(async (re
       billItems: finalBillItems,
       patientName: `${invoiceWithRelations.admissions?.patients?.first_name || ""} ${invoiceWithRelations.admissions?.patients?.last_name || ""}`.trim(),
       doctorName: staffName,
+      settlement: await buildSettlementSummary(invoiceWithRelations),
+      payerSplit: await buildPayerSplitSummary(invoiceWithRelations, finalBillItems),
+      eInvoice: await buildEInvoiceStamp(invoiceWithRelations.id),
+      upiPayment: await buildUpiPaymentQr(invoiceWithRelations),
     });
 
     logger.info("PDF generated successfully", {
@@ -1219,13 +992,25 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
     custom_items = [],
     notes,
     medication_item_ids = [],
-    lab_report_ids = []
+    lab_report_ids = [],
+    supply_type = 'intra_state',
+    invoice_type = 'final',
+    period_from,
+    period_to
   } = req.body;
 
   if (!admission_id) {
     throw createError('admission_id is required', 400);
   }
 
+  if (!isSupplyType(supply_type)) {
+    throw createError('supply_type must be intra_state or inter_state', 400);
+  }
+
+  if (!isInvoiceType(invoice_type)) {
+    throw createError('invoice_type must be interim or final', 400);
+  }
+
   const fetchAdmission = (column: 'id' | 'admission_code', value: string) =>
     supabase
       .from('admissions')
@@ -1251,247 +1036,108 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
   }
 
   const admission = admissionResult.data;
+  const invoiceType: InvoiceType = invoice_type;
+  const billingWindow = resolveBillingWindow(admission, invoiceType, period_from, period_to);
+  const tariffContext = await loadTariffContext({ admissionId: admission.id });
 
-  let totalAmount = 0;
-  const invoiceItems: any[] = [];
-
-  // Add room charges if requested (using bed-specific pricing from room_history)
+  // Room days up to the end of the window are posted to the charge ledger first; everything
+  // else (doses, lab reports, services) was posted as it happened.
   if (include_room_charges) {
-    const { data: roomChargesResult, error: roomChargesError } = await supabase
-      .rpc('calculate_room_charges', { p_admission_id: admission_id });
-
-    if (roomChargesError) {
-      logger.warn('Failed to calculate room charges from room_history', { 
-        admission_id, 
-        error: roomChargesError.message 
-      });
-    } else if (roomChargesResult && roomChargesResult.length > 0) {
-      const chargesSummary = roomChargesResult[0];
-      const totalCharges = Number(chargesSummary.total_charges || 0);
-      const breakdown = chargesSummary.breakdown || [];
-
-      if (totalCharges > 0 && Array.isArray(breakdown) && breakdown.length > 0) {
-        totalAmount += totalCharges;
-
-        // Add individual breakdown items as separate line items
-        breakdown.forEach((entry: any) => {
-          const entryCharges = Number(entry.charges || 0);
-          const entryDays = Number(entry.days || 0);
-          const entryRate = Number(entry.rate_per_day || 0);
-
-          if (entryCharges > 0) {
-            invoiceItems.push({
-              item_type: 'room',
-              item_name: `Room/Bed - ${entry.room_type || 'N/A'}`,
-              item_description: `Charges from ${new Date(entry.start_date).toLocaleDateString()} to ${entry.end_date ? new Date(entry.end_date).toLocaleDateString() : 'Present'}`,
-              quantity: entryDays,
-              unit_price: entryRate,
-              total_price: entryCharges,
-              date_from: entry.start_date,
-              date_to: entry.end_date,
-              reference_id: admission.room_id
-            });
-          }
-        });
-      }
-    }
+    await captureRoomDays(admission.id, billingWindow, req.user!.staff_id ?? null);
   }
 
-  // Add medication charges if requested
-  if (include_medication_charges) {
-    let medicationQuery = supabase
-      .from('patient_medications')
-      .select('*')
-      .eq('admission_id', admission_id);
+  const sourceTypes: ChargeSourceType[] = ['service'];
+  if (include_room_charges) sourceTypes.push('room_day');
+  if (include_medication_charges) sourceTypes.push('medication_dose');
+  if (include_lab_reports) sourceTypes.push('lab_report');
 
-    if (Array.isArray(medication_item_ids) && medication_item_ids.length > 0) {
-      medicationQuery = medicationQuery.in('id', medication_item_ids);
-    }
-
-    const { data: medications, error: medError } = await medicationQuery;
-
-    logger.info('Fetching medications for invoice', {
-      admission_id,
-      medication_item_ids,
-      medicationsFound: medications?.length ?? 0,
-      error: medError?.message
-    });
-
-    if (!medError && medications) {
-      // Fetch catalog prices for medications that don't have direct prices
-      const catalogIds = medications
-        .filter(med => med.medication_catalog_id)
-        .map(med => med.medication_catalog_id);
-      
-      let catalogLookup: Record<string, { price_per_unit?: number; default_units_per_dose?: number }> = {};
-      
-      if (catalogIds.length > 0) {
-        const { data: catalogData } = await supabase
-          .from('medication_catalog')
-          .select('id, price_per_unit, default_units_per_dose')
-          .in('id', catalogIds);
-        
-        if (catalogData) {
-          catalogLookup = Object.fromEntries(
-            catalogData.map(cat => [cat.id, {
-              price_per_unit: cat.price_per_unit,
-              default_units_per_dose: cat.default_units_per_dose
-            }])
-          );
-        }
-      }
-
-      medications.forEach(med => {
-        // Use catalog fallback if direct price is not set
-        const catalog = med.medication_catalog_id ? catalogLookup[med.medication_catalog_id] : undefined;
-        const directPrice = Number(med.price_per_unit ?? 0);
-        const pricePerUnit = directPrice > 0 ? directPrice : Number(catalog?.price_per_unit ?? 0);
-        
-        const directUnits = Number(med.units_per_dose ?? 0);
-        const unitsPerDose = directUnits > 0 ? directUnits : Number(catalog?.default_units_per_dose ?? 1);
-        
-        const dosesGiven = Number(med.doses_administered ?? 0);
-        const medTotal = pricePerUnit * unitsPerDose * dosesGiven;
-        
-        logger.info('Processing medication for invoice', {
-          medicationId: med.id,
-          name: med.name,
-          directPrice,
-          catalogPrice: catalog?.price_per_unit,
-          pricePerUnit,
-          unitsPerDose,
-          dosesGiven,
-          medTotal
-        });
-        
-        if (medTotal > 0) {
-          totalAmount += medTotal;
-          invoiceItems.push({
-            item_type: 'medication',
-            item_name: med.name,
-            item_description: `Medication administered - ${dosesGiven} doses`,
-            quantity: dosesGiven,
-            unit_price: pricePerUnit * unitsPerDose,
-            total_price: medTotal,
-            reference_id: med.id
-          });
-        } else {
-          logger.warn('Medication skipped due to zero total', {
-            medicationId: med.id,
-            name: med.name,
-            pricePerUnit,
-            unitsPerDose,
-            dosesGiven,
-            hasCatalogId: !!med.medication_catalog_id,
-            catalogPrice: catalog?.price_per_unit
-          });
-        }
-      });
-    } else if (medError) {
-      logger.error('Failed to fetch medications for invoice', {
-        admission_id,
-        error: medError.message
-      });
-    }
-  }
+  // Interim invoices take the window; the final settlement takes whatever is still unbilled
+  const pulledCharges = await fetchUnbilledCharges(admission.id, {
+    window: invoiceType === 'interim' ? billingWindow : null,
+    sourceTypes,
+    medicationIds: Array.isArray(medication_item_ids) ? medication_item_ids : [],
+    labReportIds: Array.isArray(lab_report_ids) ? lab_report_ids : [],
+  });
 
-  // Add lab report charges if requested
-  if (include_lab_reports) {
-    let labQuery = supabase
-      .from('lab_reports')
-      .select('id, report_title, test_type, price, billing_status')
-      .eq('admission_id', admission_id)
-      .eq('billing_status', 'pending');
+  let totalAmount = 0;
+  const invoiceItems: any[] = buildChargeLines(pulledCharges);
 
-    if (Array.isArray(lab_report_ids) && lab_report_ids.length > 0) {
-      labQuery = labQuery.in('id', lab_report_ids);
-    }
+  logger.info('Unbilled charges pulled for invoice', {
+    admission_id,
+    invoiceType,
+    billingWindow,
+    charges: pulledCharges.length,
+    lines: invoiceItems.length,
+  });
 
-    const { data: labReports, error: labError } = await labQuery;
+  // Custom items picked from hospital_services inherit the service's tax category and SAC code
+  const serviceIds = custom_items.map((item: any) => item.service_id).filter(Boolean);
+  const serviceTaxLookup = new Map<string, { tax_category?: string | null; hsn_sac_code?: string | null }>();
 
-    logger.info('Fetching lab reports for invoice', {
-      admission_id,
-      lab_report_ids,
-      labReportsFound: labReports?.length ?? 0,
-      error: labError?.message
-    });
+  if (serviceIds.length > 0) {
+    const { data: services } = await supabase
+      .from('hospital_services')
+      .select('id, tax_category, hsn_sac_code')
+      .in('id', serviceIds);
 
-    if (!labError && labReports) {
-      labReports.forEach(report => {
-        const reportPrice = Number(report.price ?? 0);
-        
-        logger.info('Processing lab report for invoice', {
-          reportId: report.id,
-          title: report.report_title,
-          price: reportPrice
-        });
-        
-        if (reportPrice > 0) {
-          totalAmount += reportPrice;
-          invoiceItems.push({
-            item_type: 'lab',
-            item_name: report.report_title || report.test_type || 'Lab Report',
-            item_description: `Lab Test: ${report.test_type}`,
-            quantity: 1,
-            unit_price: reportPrice,
-            total_price: reportPrice,
-            reference_id: report.id
-          });
-        } else {
-          logger.warn('Lab report skipped due to zero price', {
-            reportId: report.id,
-            title: report.report_title,
-            price: reportPrice
-          });
-        }
-      });
-    } else if (labError) {
-      logger.error('Failed to fetch lab reports for invoice', {
-        admission_id,
-        error: labError.message
-      });
-    }
+    (services ?? []).forEach(service => serviceTaxLookup.set(service.id, service));
   }
 
   // Add custom items
   custom_items.forEach((item: any) => {
-    const itemTotal = Number(item.quantity || 1) * Number(item.unit_price || 0);
+    const service = item.service_id ? serviceTaxLookup.get(item.service_id) : undefined;
+    const itemType = item.item_type || 'other';
+    const chargeType = chargeTypeForItemType(itemType);
+    // Catalogued services are priced from the tariff; free-text items keep the price typed in
+    const itemPrice = item.service_id
+      ? resolveTariffPrice(tariffContext, {
+          chargeType: chargeType === 'other' ? 'service' : chargeType,
+          referenceIds: [item.service_id],
+          fallbackPrice: Number(item.unit_price || 0),
+        })
+      : null;
+    const unitPrice = itemPrice?.unit_price ?? Number(item.unit_price || 0);
+    const itemTotal = roundCurrency(Number(item.quantity || 1) * unitPrice);
+    const taxDefaults = resolveItemTaxDefaults(itemType, {
+      tax_category: item.tax_category ?? service?.tax_category,
+      hsn_sac_code: item.hsn_sac_code ?? service?.hsn_sac_code,
+    });
+
     totalAmount += itemTotal;
     invoiceItems.push({
-      item_type: item.item_type || 'other',
+      item_type: itemType,
       item_name: item.item_name,
       item_description: item.item_description,
       quantity: Number(item.quantity || 1),
-      unit_price: Number(item.unit_price || 0),
+      unit_price: unitPrice,
       total_price: itemTotal,
-      reference_id: item.reference_id
+      reference_id: item.reference_id ?? item.service_id,
+      ...taxDefaults,
+      ...tariffStamp(itemPrice)
     });
   });
 
-  if (totalAmount === 0) {
+  // An attached package absorbs the charges it covers; only the package line and extras are billed
+  const admissionPackage = await fetchActiveAdmissionPackage(admission.id);
+  const packagedItems = applyAdmissionPackage(invoiceItems, admissionPackage, {
+    billedPackageLine: admissionPackage ? await isPackageLineBilled(admissionPackage.id) : false,
+    consumed: admissionPackage ? await fetchPackageConsumption(admissionPackage.id) : undefined,
+  });
+  totalAmount = roundCurrency(packagedItems.reduce((sum, item) => sum + Number(item.total_price || 0), 0));
+
+  if (totalAmount === 0 && !packagedItems.some(item => item.admission_package_id)) {
     throw createError('No billable items found', 400);
   }
 
   // Generate invoice number
-  const { data: lastInvoice } = await supabase
-    .from('invoices')
-    .select('invoice_number')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
+  const invoice_number = await allocateDocumentNumber('invoice');
 
-  let nextId = 1;
-  if (lastInvoice?.invoice_number) {
-    const lastNum = parseInt(lastInvoice.invoice_number.replace('INV-', ''));
-    nextId = lastNum + 1;
-  }
-
-  const invoice_number = `INV-${nextId.toString().padStart(6, '0')}`;
+  const taxedInvoiceItems = applyLineTaxes(packagedItems, supply_type);
 
   // Separate items by type for JSONB storage
-  const medicationItems = invoiceItems.filter(item => item.item_type === 'medication');
-  const labItems = invoiceItems.filter(item => item.item_type === 'lab');
-  const customItems = invoiceItems.filter(item => 
+  const medicationItems = packagedItems.filter(item => item.item_type === 'medication');
+  const labItems = packagedItems.filter(item => item.item_type === 'lab');
+  const customItems = packagedItems.filter(item => 
     item.item_type !== 'medication' && 
     item.item_type !== 'lab' && 
     item.item_type !== 'room'
@@ -1503,8 +1149,14 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
     .insert({
       admission_id,
       invoice_number,
+      invoice_type: invoiceType,
+      period_from: billingWindow.from,
+      period_to: billingWindow.to,
       total_amount: totalAmount,
       status: 'pending',
+      lifecycle_status: 'draft',
+      gst_mode: 'line',
+      supply_type,
       generated_by: req.user!.staff_id,
       medication_items: medicationItems,
       lab_items: labItems,
@@ -1556,7 +1208,7 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
   };
 
   // Create bill items
-  const billItemsToInsert = invoiceItems.map(item => ({
+  const billItemsToInsert = taxedInvoiceItems.map(item => ({
     ...item,
     invoice_id: newInvoice.id
   }));
@@ -1567,21 +1219,47 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
 
   if (itemsError) {
     logger.error('Failed to create bill items', { error: itemsError });
-    // Try to cleanup the invoice
-    await supabase.from('invoices').delete().eq('id', newInvoice.id);
+    await cancelFailedInvoice(newInvoice.id, 'bill items could not be saved', req.user!.staff_id ?? null);
     throw createError('Failed to create bill items', 500);
   }
 
-  // Mark lab reports as billed
-  const labReportIdsInInvoice = invoiceItems
-    .filter(item => item.item_type === 'lab' && item.reference_id)
-    .map(item => item.reference_id);
+  try {
+    await markChargesBilled(newInvoice.id, admission.id, pulledCharges);
+  } catch (markError) {
+    await cancelFailedInvoice(newInvoice.id, 'charges were billed by another invoice', req.user!.staff_id ?? null);
+    throw markError;
+  }
+
+  const pricedInvoice = await refreshInvoiceTotals(newInvoice.id);
+  await recordInvoiceChange(newInvoice.id, 'Invoice created', req.user!.staff_id);
 
-  if (labReportIdsInInvoice.length > 0) {
-    await supabase
-      .from('lab_reports')
-      .update({ billing_status: 'billed' })
-      .in('id', labReportIdsInInvoice);
+  // Advance deposits settle interim bills as they are raised. The final settlement first clears
+  // any interim bill still owing, then itself; only then is the remainder refunded by voucher.
+  const depositPayments: any[] = [];
+  let refundVouchers: any[] = [];
+  let settlement: SettlementSummary | null = null;
+
+  if (invoiceType === 'final') {
+    await closeEmptyRunningBills(admission.id, { staffId: req.user!.staff_id ?? null, role: req.user!.role });
+
+    for (const interim of await fetchInterimInvoices(admission.id, newInvoice.id)) {
+      if (roundCurrency(Number(interim.amount_payable ?? 0) - Number(interim.paid_amount || 0)) > 0) {
+        const { payments } = await applyDepositsToInvoice(admission.id, interim.id, req.user!.staff_id);
+        depositPayments.push(...payments);
+      }
+    }
+  }
+
+  const { payments: finalDepositPayments, invoice: settledInvoice } = await applyDepositsToInvoice(
+    admission.id,
+    newInvoice.id,
+    req.user!.staff_id
+  );
+  depositPayments.push(...finalDepositPayments);
+
+  if (invoiceType === 'final') {
+    refundVouchers = await issueRefundVouchersForAdmission(admission.id, newInvoice.id, req.user!.staff_id);
+    settlement = await buildSettlementSummary({ ...newInvoice, ...pricedInvoice, ...(settledInvoice ?? {}) });
   }
 
   logger.info('Comprehensive invoice created', {
@@ -1591,38 +1269,64 @@ router.post('/comprehensive', authenticateToken, requireBilling, asyncHandler(as
     itemsCount: billItemsToInsert.length,
     medicationItemsCount: medicationItems.length,
     labItemsCount: labItems.length,
-    roomItemsCount: invoiceItems.filter(i => i.item_type === 'room').length,
+    roomItemsCount: packagedItems.filter(i => i.item_type === 'room').length,
     customItemsCount: customItems.length,
+    admissionPackageId: admissionPackage?.id ?? null,
+    invoiceType,
+    billingWindow,
     createdBy: req.user!.staff_id
   });
 
   res.status(201).json({
     success: true,
     data: {
-      invoice: invoiceWithRelations,
+      invoice: { ...invoiceWithRelations, ...pricedInvoice, ...(settledInvoice ?? {}) },
       billItems: billItemsToInsert,
-      totalAmount
+      totalAmount,
+      depositPayments,
+      refundVouchers,
+      settlement
     }
   });
 }));
 
 // Add bill item to existing invoice
 router.post('/:id/items', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { id } = req.params;
+  const id = getParamValue(req.params.id);
   const {
     item_type,
     item_name,
     item_description,
     quantity = 1,
     unit_price,
-    reference_id
+    reference_id,
+    tax_category,
+    hsn_sac_code
   } = req.body;
 
-  if (!item_type || !item_name || !unit_price) {
-    throw createError('item_type, item_name, and unit_price are required', 400);
+  if (!item_type || !item_name || (!unit_price && !reference_id)) {
+    throw createError('item_type, item_name, and unit_price (or a tariff reference_id) are required', 400);
   }
 
-  const total_price = Number(quantity) * Number(unit_price);
+  const invoice = await assertInvoiceEditable(id);
+
+  // Charges that reference a master record are priced from the admission's tariff
+  const itemPrice = reference_id
+    ? resolveTariffPrice(await loadTariffContext({ admissionId: invoice.admission_id }), {
+        chargeType: chargeTypeForItemType(item_type),
+        referenceIds: [reference_id],
+        fallbackPrice: Number(unit_price || 0),
+      })
+    : null;
+
+  if (!itemPrice && !unit_price) {
+    throw createError('No tariff price configured for this item; unit_price is required', 400);
+  }
+
+  const unitPrice = itemPrice?.unit_price ?? Number(unit_price);
+  const total_price = roundCurrency(Number(quantity) * unitPrice);
+  const taxDefaults = resolveItemTaxDefaults(item_type, { tax_category, hsn_sac_code });
+  const supplyType = await fetchInvoiceSupplyType(id);
 
   const { data: billItem, error } = await supabase
     .from('bill_items')
@@ -1632,9 +1336,11 @@ router.post('/:id/items', authenticateToken, requireBilling, asyncHandler(async
       item_name,
       item_description,
       quantity: Number(quantity),
-      unit_price: Number(unit_price),
+      unit_price: unitPrice,
       total_price,
-      reference_id
+      reference_id,
+      ...computeLineTax(total_price, taxDefaults.tax_category, taxDefaults.hsn_sac_code, supplyType),
+      ...tariffStamp(itemPrice)
     })
     .select(BILL_ITEM_SELECT)
     .single();
@@ -1643,21 +1349,9 @@ router.post('/:id/items', authenticateToken, requireBilling, asyncHandler(async
     throw createError('Failed to add bill item', 500);
   }
 
-  // Update invoice total
-  const { data: allItems } = await supabase
-    .from('bill_items')
-    .select('total_price')
-    .eq('invoice_id', id);
-
-  const newTotal = (allItems ?? []).reduce((sum, item) => sum + Number(item.total_price), 0);
-
-  await supabase
-    .from('invoices')
-    .update({ 
-      total_amount: newTotal,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', id);
+  // Update invoice totals and GST
+  await refreshInvoiceTotals(id);
+  await recordInvoiceChange(id, `Bill item added: ${item_name}`, req.user!.staff_id);
 
   res.status(201).json({
     success: true,
@@ -1684,17 +1378,18 @@ router.patch('/:id/status', authenticateToken, requireBilling, asyncHandler(asyn
     last_payment_date,
   } = req.body;
 
-  const { id } = req.params;
+  const id = getParamValue(req.params.id);
   const paidAmountValue = paid_amount ?? amount_paid;
 
   if (!status) {
     throw createError('status is required', 400);
   }
+  assertClientInvoiceStatus(status);
 
   // Fetch current invoice to calculate amounts
   const { data: currentInvoice, error: fetchError } = await supabase
     .from('invoices')
-    .select('total_amount, paid_amount, discount_type, discount_value, include_gst, gst_rate, gst_amount')
+    .select('total_amount, paid_amount, discount_type, discount_value, include_gst, gst_rate, gst_amount, lifecycle_status, gst_mode, tax_total')
     .eq('id', id)
     .single();
 
@@ -1702,23 +1397,30 @@ router.patch('/:id/status', authenticateToken, requireBilling, asyncHandler(asyn
     throw createError('Invoice not found', 404);
   }
 
+  // Payments can still be posted against a final invoice, but its pricing is frozen
+  const pricingFields = [include_gst, gst_rate, gst_amount, total_with_gst, discount_type, discount_value, discount_reason];
+  if (isInvoiceLocked(currentInvoice.lifecycle_status) && pricingFields.some((value) => value !== undefined)) {
+    await assertInvoiceEditable(id);
+  }
+
+  const paidAmountDelta = paidAmountValue !== undefined
+    ? roundCurrency(Number(paidAmountValue) - Number(currentInvoice.paid_amount || 0))
+    : 0;
+
+  if (paidAmountDelta < 0) {
+    throw createError('paid_amount cannot be reduced here; void the payment from /api/billing/:id/payments instead', 400);
+  }
+
   const updateData: Record<string, any> = {
     status,
     updated_at: new Date().toISOString(),
   };
 
-  if (paidAmountValue !== undefined) {
-    updateData.paid_amount = Number(paidAmountValue);
-    updateData.last_payment_date = last_payment_date ?? new Date().toISOString();
-  }
-
   if (include_gst !== undefined) updateData.include_gst = Boolean(include_gst);
   if (gst_rate !== undefined) updateData.gst_rate = Number(gst_rate);
   if (gst_amount !== undefined) updateData.gst_amount = Number(gst_amount);
   if (total_with_gst !== undefined) updateData.total_with_gst = Number(total_with_gst);
 
-  if (payment_method !== undefined) updateData.payment_method = payment_method || null;
-  if (payment_reference !== undefined) updateData.payment_reference = payment_reference || null;
   if (payment_notes !== undefined) updateData.payment_notes = payment_notes || null;
 
   if (discount_type !== undefined) {
@@ -1727,89 +1429,153 @@ router.patch('/:id/status', authenticateToken, requireBilling, asyncHandler(asyn
   if (discount_value !== undefined) updateData.discount_value = discount_value !== null ? Number(discount_value) : null;
   if (discount_reason !== undefined) updateData.discount_reason = discount_reason || null;
 
-  // Calculate amount_payable and balance
-  const totalAmount = currentInvoice.total_amount;
-  const discountTypeFinal = updateData.discount_type ?? currentInvoice.discount_type;
-  const discountValueFinal = updateData.discount_value ?? currentInvoice.discount_value ?? 0;
-  const includeGstFinal = updateData.include_gst ?? currentInvoice.include_gst ?? false;
-  const gstRateFinal = updateData.gst_rate ?? currentInvoice.gst_rate ?? 18.00;
+  // A changed discount is held to the requester's role ceiling; above it the invoice keeps its
+  // current discount and the change waits in the approval queue instead
+  let discountRequest: any = null;
+  let withinLimitDiscount: { input: DiscountInput; assessment: DiscountAssessment } | null = null;
+  const nextDiscountType = updateData.discount_type !== undefined ? updateData.discount_type : currentInvoice.discount_type;
+  const nextDiscountValue = Number((updateData.discount_value !== undefined ? updateData.discount_value : currentInvoice.discount_value) || 0);
+  const discountChanged = nextDiscountType !== currentInvoice.discount_type
+    || nextDiscountValue !== Number(currentInvoice.discount_value || 0);
+
+  if (discountChanged && nextDiscountType && nextDiscountValue > 0) {
+    if (!isDiscountType(nextDiscountType)) {
+      throw createError(`discount_type must be one of: none, ${DISCOUNT_TYPES.join(', ')}`, 400);
+    }
 
-  // Calculate discounted amount
-  let discountedAmount = totalAmount;
-  if (discountTypeFinal === 'percentage' && discountValueFinal > 0) {
-    discountedAmount = totalAmount * (1 - (discountValueFinal / 100));
-  } else if (discountTypeFinal === 'fixed' && discountValueFinal > 0) {
-    discountedAmount = Math.max(0, totalAmount - discountValueFinal);
+    const discountInput: DiscountInput = {
+      invoiceId: id,
+      discountType: nextDiscountType,
+      discountValue: nextDiscountValue,
+      reason: discount_reason,
+      requestedBy: req.user!.staff_id ?? null,
+      requestedRole: req.user!.role,
+    };
+    const assessment = await assessDiscount(Number(currentInvoice.total_amount || 0), nextDiscountType, nextDiscountValue, req.user!.role);
+
+    if (assessment.withinLimit) {
+      withinLimitDiscount = { input: discountInput, assessment };
+    } else {
+      discountRequest = await createPendingDiscountRequest(discountInput, assessment);
+      delete updateData.discount_type;
+      delete updateData.discount_value;
+      delete updateData.discount_reason;
+    }
   }
 
-  // Calculate GST and payable
-  const gstAmount = includeGstFinal ? (discountedAmount * gstRateFinal / 100) : 0;
-  const amountPayable = discountedAmount + gstAmount;
+  // Calculate amount_payable (paid_amount and balance come from the payments ledger)
+  const pricing = {
+    total_amount: currentInvoice.total_amount,
+    discount_type: updateData.discount_type !== undefined ? updateData.discount_type : currentInvoice.discount_type,
+    discount_value: updateData.discount_value ?? currentInvoice.discount_value ?? 0,
+    include_gst: updateData.include_gst ?? currentInvoice.include_gst ?? false,
+    gst_rate: updateData.gst_rate ?? currentInvoice.gst_rate ?? 18.00,
+    gst_mode: currentInvoice.gst_mode,
+    tax_total: currentInvoice.tax_total,
+  };
+  const amountPayable = calculateAmountPayable(pricing);
 
-  // Calculate balance
-  const paidAmount = paidAmountValue !== undefined ? paidAmountValue : (currentInvoice.paid_amount || 0);
-  const balance = Math.max(0, amountPayable - paidAmount);
+  // Line-taxed invoices derive GST from their items; the flat include_gst/gst_rate switch only applies to legacy invoices
+  if (currentInvoice.gst_mode === 'line') {
+    delete updateData.include_gst;
+    delete updateData.gst_rate;
+    updateData.gst_amount = calculateInvoiceGst(pricing);
+    updateData.total_with_gst = amountPayable;
+  }
 
   updateData.amount_payable = amountPayable;
-  updateData.balance = balance;
 
-  const { data: updatedInvoice, error } = await supabase
+  const { error } = await supabase
     .from('invoices')
     .update(updateData)
-    .eq('id', id)
-    .select('*')
-    .single();
+    .eq('id', id);
 
-  if (error || !updatedInvoice) {
+  if (error) {
     throw createError('Invoice not found or update failed', 404);
   }
 
+  if (withinLimitDiscount) {
+    await recordAutoApprovedDiscount(withinLimitDiscount.input, withinLimitDiscount.assessment);
+  }
+
+  // Legacy clients send the cumulative paid amount; post the increase to the payments ledger
+  if (paidAmountDelta > 0) {
+    await recordPayment({
+      invoiceId: id,
+      amount: paidAmountDelta,
+      paymentMethod: payment_method || 'cash',
+      paymentReference: payment_reference,
+      paymentDate: last_payment_date,
+      notes: payment_notes,
+      collectedBy: req.user!.staff_id,
+    });
+  }
+
+  const updatedInvoice = await recalculateInvoicePayments(id);
+  await recordInvoiceChange(id, 'Invoice billing details updated', req.user!.staff_id);
+
   logger.info('Invoice payment status updated', {
     invoiceId: id,
-    status,
-    paid_amount: paidAmount,
+    status: updatedInvoice.status,
+    paid_amount: updatedInvoice.paid_amount,
     amount_payable: amountPayable,
-    balance,
+    balance: updatedInvoice.balance,
     include_gst: updateData.include_gst,
     discount_type: updateData.discount_type,
     discount_value: updateData.discount_value,
-    payment_method: updateData.payment_method,
+    discountRequestId: discountRequest?.id,
     updatedBy: req.user?.id,
   });
 
   res.json({
     success: true,
-    message: 'Payment status updated successfully',
-    data: updatedInvoice,
+    message: discountRequest
+      ? 'Payment status updated; the discount exceeds your limit and has been sent for approval'
+      : 'Payment status updated successfully',
+    data: { ...updatedInvoice, discountRequest },
   });
 }));
 
 // Update bill item
 router.put('/items/:itemId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { itemId } = req.params;
+  const itemId = getParamValue(req.params.itemId);
   const {
     item_name,
     item_description,
     quantity,
-    unit_price
+    unit_price,
+    tax_category,
+    hsn_sac_code
   } = req.body;
 
+  const editableItem = await assertBillItemEditable(itemId);
+
   const updateData: any = {};
   if (item_name !== undefined) updateData.item_name = item_name;
   if (item_description !== undefined) updateData.item_description = item_description;
   if (quantity !== undefined) updateData.quantity = Number(quantity);
   if (unit_price !== undefined) updateData.unit_price = Number(unit_price);
 
-  if (quantity !== undefined || unit_price !== undefined) {
+  if (quantity !== undefined || unit_price !== undefined || tax_category !== undefined || hsn_sac_code !== undefined) {
     const { data: currentItem } = await supabase
       .from('bill_items')
-      .select('quantity, unit_price')
+      .select('item_type, quantity, unit_price, tax_category, hsn_sac_code')
       .eq('id', itemId)
       .single();
 
     const newQuantity = quantity !== undefined ? Number(quantity) : Number(currentItem?.quantity || 1);
     const newUnitPrice = unit_price !== undefined ? Number(unit_price) : Number(currentItem?.unit_price || 0);
+    const taxDefaults = resolveItemTaxDefaults(currentItem?.item_type, {
+      tax_category: tax_category ?? currentItem?.tax_category,
+      hsn_sac_code: hsn_sac_code ?? currentItem?.hsn_sac_code,
+    });
+    const supplyType = await fetchInvoiceSupplyType(editableItem.invoice_id);
+
     updateData.total_price = newQuantity * newUnitPrice;
+    Object.assign(
+      updateData,
+      computeLineTax(updateData.total_price, taxDefaults.tax_category, taxDefaults.hsn_sac_code, supplyType)
+    );
   }
 
   updateData.updated_at = new Date().toISOString();
@@ -1825,21 +1591,9 @@ router.put('/items/:itemId', authenticateToken, requireBilling, asyncHandler(asy
     throw createError('Bill item not found or update failed', 404);
   }
 
-  // Update invoice total
-  const { data: allItems } = await supabase
-    .from('bill_items')
-    .select('total_price')
-    .eq('invoice_id', billItem.invoice_id);
-
-  const newTotal = (allItems ?? []).reduce((sum, item) => sum + Number(item.total_price), 0);
-
-  await supabase
-    .from('invoices')
-    .update({ 
-      total_amount: newTotal,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', billItem.invoice_id);
+  // Update invoice totals and GST
+  await refreshInvoiceTotals(billItem.invoice_id);
+  await recordInvoiceChange(billItem.invoice_id, `Bill item updated: ${billItem.item_name}`, req.user!.staff_id);
 
   res.json({
     success: true,
@@ -1849,33 +1603,61 @@ router.put('/items/:itemId', authenticateToken, requireBilling, asyncHandler(asy
 
 // Delete bill item
 router.delete('/items/:itemId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { itemId } = req.params;
+  const itemId = getParamValue(req.params.itemId);
+
+  await assertBillItemEditable(itemId);
 
   const { data: billItem, error } = await supabase
     .from('bill_items')
     .delete()
     .eq('id', itemId)
-    .select('invoice_id, total_price')
+    .select('invoice_id, item_name, total_price')
     .single();
 
   if (error || !billItem) {
     throw createError('Bill item not found or deletion failed', 404);
   }
 
-  // Update invoice total
-  const { data: allItems } = await supabase
+  // Update invoice totals and GST
+  await refreshInvoiceTotals(billItem.invoice_id);
+  await recordInvoiceChange(billItem.invoice_id, `Bill item removed: ${billItem.item_name}`, req.user!.staff_id);
+
+  res.json({
+    success: true,
+    data: { billItem }
+  });
+}));
+
+// Reassign who pays for a line on an insured admission. Allowed on final invoices too: the
+// amount payable does not change, only how it is split between the insurer and the patient.
+router.patch('/items/:itemId/payer', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const itemId = getParamValue(req.params.itemId);
+  const { payer_responsibility } = req.body;
+
+  if (!isPayerResponsibility(payer_responsibility)) {
+    throw createError(`payer_responsibility must be one of: ${PAYER_RESPONSIBILITIES.join(', ')}`, 400);
+  }
+
+  const { data: billItem, error } = await supabase
     .from('bill_items')
-    .select('total_price')
-    .eq('invoice_id', billItem.invoice_id);
+    .update({ payer_responsibility, updated_at: new Date().toISOString() })
+    .eq('id', itemId)
+    .select(`${BILL_ITEM_SELECT}, invoices ( admission_id, lifecycle_status )`)
+    .single();
 
-  const newTotal = (allItems ?? []).reduce((sum, item) => sum + Number(item.total_price), 0);
+  if (error || !billItem) {
+    throw createError('Bill item not found or update failed', 404);
+  }
 
-  await supabase
-    .from('invoices')
-    .update({ 
-      total_amount: newTotal,
-    })
-    .eq('id', billItem.invoice_id);
+  const invoice: any = Array.isArray(billItem.invoices) ? billItem.invoices[0] : billItem.invoices;
+  if (invoice?.admission_id) {
+    await refreshAdmissionPayerSplit(invoice.admission_id);
+  } else {
+    await recalculateInvoicePayments(billItem.invoice_id);
+  }
+  await recordInvoiceChange(billItem.invoice_id, `Bill item payer set to ${payer_responsibility}: ${billItem.item_name}`, req.user!.staff_id);
+
+  logger.info('Bill item payer reassigned', { itemId, payer_responsibility, updatedBy: req.user?.staff_id });
 
   res.json({
     success: true,
@@ -1929,16 +1711,17 @@ const generateInvoiceHTML = (invoice: any, billItems: any[]) => {
     return baseAmount - calculateDiscountAmountForPDF();
   };
 
-  const calculateGSTAmountForPDF = () => {
-    if (!invoice.include_gst) return 0;
-    const discountedTotal = calculateDiscountedTotalForPDF();
-    return discountedTotal * 0.18;
-  };
+  const calculateGSTAmountForPDF = () => calculateInvoiceGst(invoice);
 
-  const calculateTotalWithGSTForPDF = () => {
-    const discountedTotal = calculateDiscountedTotalForPDF();
-    return invoice.include_gst ? discountedTotal + calculateGSTAmountForPDF() : discountedTotal;
-  };
+  const calculateTotalWithGSTForPDF = () => calculateAmountPayable(invoice);
+
+  // Invoices priced before line-level GST carry a single invoice-wide rate
+  const isLineGst = invoice.gst_mode === 'line';
+  const legacyGstRate = invoice.include_gst ? Number(invoice.gst_rate ?? 18) : 0;
+  const getLineTax = (item: any) =>
+    isLineGst ? Number(item.tax_amount || 0) : (Number(item.total_price || 0) * legacyGstRate) / 100;
+  const getLineTaxRate = (item: any) => (isLineGst ? Number(item.tax_rate || 0) : legacyGstRate);
+  const taxSummary = isLineGst ? summarizeTaxes(billItems, calculateDiscountRatio(invoice)) : [];
 
   const discountAmount = calculateDiscountAmountForPDF();
   const discountedTotal = calculateDiscountedTotalForPDF();
@@ -2126,9 +1909,11 @@ const generateInvoiceHTML = (invoice: any, billItems: any[]) => {
         <thead>
           <tr>
             <th>Particulars</th>
+            <th>HSN/SAC</th>
             <th class="amount-col">Rate</th>
             <th class="amount-col">Qty</th>
             <th class="amount-col">Amount</th>
+            <th class="amount-col">GST %</th>
             <th class="amount-col">GST</th>
             <th class="amount-col">Total</th>
           </tr>
@@ -2137,21 +1922,53 @@ const generateInvoiceHTML = (invoice: any, billItems: any[]) => {
           ${billItems.map(item => `
             <tr>
               <td>${item.item_name}</td>
+              <td>${item.hsn_sac_code || '--'}</td>
               <td class="amount-col">${Number(item.unit_price).toFixed(2)}</td>
               <td class="amount-col">${item.quantity}</td>
               <td class="amount-col">${Number(item.total_price).toFixed(2)}</td>
-              <td class="amount-col">${(Number(item.total_price) * 0.18).toFixed(2)}</td>
-              <td class="amount-col">${(Number(item.total_price) * 1.18).toFixed(2)}</td>
+              <td class="amount-col">${getLineTaxRate(item)}%</td>
+              <td class="amount-col">${getLineTax(item).toFixed(2)}</td>
+              <td class="amount-col">${(Number(item.total_price) + getLineTax(item)).toFixed(2)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      ${taxSummary.length ? `
+      <div class="section-title">TAX SUMMARY</div>
+      <table class="billing-table">
+        <thead>
+          <tr>
+            <th>HSN/SAC</th>
+            <th class="amount-col">GST %</th>
+            <th class="amount-col">Taxable</th>
+            <th class="amount-col">CGST</th>
+            <th class="amount-col">SGST</th>
+            <th class="amount-col">IGST</th>
+            <th class="amount-col">Total Tax</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${taxSummary.map(row => `
+            <tr>
+              <td>${row.hsn_sac_code || '--'}</td>
+              <td class="amount-col">${row.tax_rate}%</td>
+              <td class="amount-col">${row.taxable_amount.toFixed(2)}</td>
+              <td class="amount-col">${row.cgst_amount.toFixed(2)}</td>
+              <td class="amount-col">${row.sgst_amount.toFixed(2)}</td>
+              <td class="amount-col">${row.igst_amount.toFixed(2)}</td>
+              <td class="amount-col">${row.tax_amount.toFixed(2)}</td>
             </tr>
           `).join('')}
         </tbody>
       </table>
+      ` : ''}
 
       <div class="total-section">
         <div class="total-line"><strong>Subtotal: ${Number(invoice.total_amount || 0).toFixed(2)}</strong></div>
         ${discountAmount > 0 ? `<div class="total-line"><strong>Discount (${invoice.discount_type === 'percentage' ? invoice.discount_value + '%' : 'Fixed'}): -${discountAmount.toFixed(2)}</strong></div>` : ''}
         <div class="total-line"><strong>Discounted Total: ${discountedTotal.toFixed(2)}</strong></div>
-        ${invoice.include_gst ? `<div class="total-line"><strong>GST (18%): ${gstAmount.toFixed(2)}</strong></div>` : ''}
+        ${gstAmount > 0 ? `<div class="total-line"><strong>GST${isLineGst ? '' : ` (${legacyGstRate}%)`}: ${gstAmount.toFixed(2)}</strong></div>` : ''}
         <div class="total-line"><strong>Total Bill Amount: ${totalWithGST.toFixed(2)}</strong></div>
         <div class="total-line">Amount Payable: ${totalWithGST.toFixed(2)}</div>
         <div class="total-line">Amount Paid: ${Number(invoice.paid_amount || 0).toFixed(2)}</div>
@@ -2186,7 +2003,7 @@ const generateInvoiceHTML = (invoice: any, billItems: any[]) => {
         </tbody>
       </table>
 
-      <div class="billing-details">PROVISIONAL BILL</div>
+      <div class="billing-details">${getInvoiceTitle(invoice.lifecycle_status)}</div>
     </body>
     </html>
   `;
@@ -2278,12 +2095,18 @@ ${env.HOSPITAL_PHONE} | ${env.HOSPITAL_EMAIL}`;
       admissionSummary = summary;
     }
 
+    const upiPayment = await buildUpiPaymentQr(invoiceWithRelations);
+
     let pdfBuffer = await generateInvoicePDF({
       invoice: invoiceWithRelations,
       billItems: billItems || [],
       patientName,
       doctorName,
       admissionSummary,
+      settlement: await buildSettlementSummary(invoiceWithRelations),
+      payerSplit: await buildPayerSplitSummary(invoiceWithRelations, billItems || []),
+      eInvoice: await buildEInvoiceStamp(invoiceWithRelations.id),
+      upiPayment,
     });
 
     if (includeLabReports) {
@@ -2327,6 +2150,7 @@ ${env.HOSPITAL_PHONE} | ${env.HOSPITAL_EMAIL}`;
         totalAmount: Number(invoice.total_amount || 0),
         outstandingAmount,
         invoiceId: invoice.id,
+        upiPayment,
       }),
       attachments: [
         {
@@ -2334,6 +2158,9 @@ ${env.HOSPITAL_PHONE} | ${env.HOSPITAL_EMAIL}`;
           content: pdfBuffer,
           contentType: 'application/pdf',
         },
+        ...(upiPayment
+          ? [{ filename: 'upi-qr.png', content: upiPayment.qrCode, contentType: 'image/png', cid: UPI_QR_CID }]
+          : []),
       ],
     });
 
@@ -2360,6 +2187,9 @@ ${env.HOSPITAL_PHONE} | ${env.HOSPITAL_EMAIL}`;
   }
 }));
 
+// Content-ID of the UPI QR image attached inline to invoice emails
+const UPI_QR_CID = 'upi-qr@invoice';
+
 const escapeHtml = (value = ''): string =>
   value
     .replace(/&/g, '&amp;')
@@ -2383,6 +2213,7 @@ const buildInvoiceEmailHtml = ({
   totalAmount,
   outstandingAmount,
   invoiceId,
+  upiPayment,
 }: {
   patientName: string;
   message: string;
@@ -2391,6 +2222,7 @@ const buildInvoiceEmailHtml = ({
   totalAmount: number;
   outstandingAmount: number;
   invoiceId: string;
+  upiPayment?: { uri: string; amount: number } | null;
 }): string => {
   const formattedMessage = message
     .split('\n')
@@ -2428,6 +2260,13 @@ const buildInvoiceEmailHtml = ({
           </tbody>
         </table>
       </div>
+      ${upiPayment ? `
+      <div style="margin: 0 0 24px; padding: 16px; border: 1px solid #dfe6e9; border-radius: 10px; text-align: center;">
+        <h3 style="margin: 0 0 8px; color: #1a5f7a;">Pay ${formatCurrencyINR(upiPayment.amount)} by UPI</h3>
+        <img src="cid:${UPI_QR_CID}" alt="UPI QR code" width="180" height="180" style="display: block; margin: 0 auto 8px;" />
+        <p style="margin: 0 0 8px; font-size: 13px; color: #7f8c8d;">Scan with any UPI app. The payment is matched to invoice ${escapeHtml(invoiceNumber)} automatically.</p>
+        <a href="${escapeHtml(upiPayment.uri)}" style="font-size: 13px; color: #1a5f7a;">Open in a UPI app</a>
+      </div>` : ''}
       <p style="margin: 0 0 16px;">You can also view or download this invoice online:</p>
       <p style="margin: 0 0 24px;">
         <a href="${invoiceUrl}" style="display: inline-block; padding: 10px 18px; background: #1a5f7a; color: #ffffff; text-decoration: none; border-radius: 6px;">View Invoice</a>
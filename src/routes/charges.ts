@@ -0,0 +1,139 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from '../services/payment-service.js';
+import {
+  captureServiceCharge,
+  CHARGE_SELECT,
+  CHARGE_SOURCE_TYPES,
+  isChargeSourceType,
+  voidCharge,
+} from '../services/charge-capture-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const CHARGE_STATUSES = ['unbilled', 'billed', 'voided', 'all'];
+
+// Charge ledger of an admission; defaults to what is still waiting to be invoiced
+router.get('/admission/:admissionId/charges', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.admissionId);
+  const status = (req.query.status as string) || 'unbilled';
+  const sourceType = req.query.source_type as string | undefined;
+
+  if (!CHARGE_STATUSES.includes(status)) {
+    throw createError(`status must be one of: ${CHARGE_STATUSES.join(', ')}`, 400);
+  }
+  if (sourceType && !isChargeSourceType(sourceType)) {
+    throw createError(`source_type must be one of: ${CHARGE_SOURCE_TYPES.join(', ')}`, 400);
+  }
+
+  let query = supabase
+    .from('charge_entries')
+    .select(CHARGE_SELECT)
+    .eq('admission_id', admissionId)
+    .order('charge_date', { ascending: true })
+    .order('occurred_at', { ascending: true });
+
+  if (status === 'unbilled') {
+    query = query.is('voided_at', null).is('invoice_id', null);
+  } else if (status === 'billed') {
+    query = query.is('voided_at', null).not('invoice_id', 'is', null);
+  } else if (status === 'voided') {
+    query = query.not('voided_at', 'is', null);
+  }
+  if (sourceType) {
+    query = query.eq('source_type', sourceType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch admission charges', { admissionId, error: error.message });
+    throw createError('Failed to fetch charges', 500);
+  }
+
+  const charges = data ?? [];
+  const liveTotal = charges
+    .filter((charge) => !charge.voided_at)
+    .reduce((sum, charge) => sum + Number(charge.total_price || 0), 0);
+
+  res.json({
+    success: true,
+    data: {
+      charges,
+      total: roundCurrency(liveTotal),
+    },
+  });
+}));
+
+// Post a service rendered to an inpatient (procedure, consultation, nursing, ...)
+router.post('/admission/:admissionId/charges', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.admissionId);
+  const {
+    service_id,
+    item_name,
+    item_type,
+    item_description,
+    quantity,
+    unit_price,
+    charge_date,
+    tax_category,
+    hsn_sac_code,
+  } = req.body;
+
+  if (charge_date !== undefined && !isIstDateString(charge_date)) {
+    throw createError('charge_date must be in YYYY-MM-DD format', 400);
+  }
+
+  const { data: admission } = await supabase
+    .from('admissions')
+    .select('id')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (!admission) {
+    throw createError('Admission not found', 404);
+  }
+
+  const charge = await captureServiceCharge(admissionId, {
+    serviceId: service_id,
+    itemName: item_name,
+    itemType: item_type,
+    description: item_description,
+    quantity: quantity !== undefined ? Number(quantity) : undefined,
+    unitPrice: unit_price !== undefined ? Number(unit_price) : undefined,
+    chargeDate: charge_date,
+    taxCategory: tax_category,
+    hsnSacCode: hsn_sac_code,
+  }, req.user!.staff_id ?? null);
+
+  logger.info('Service charge posted', { admissionId, chargeId: charge?.id, postedBy: req.user!.staff_id });
+
+  res.status(201).json({
+    success: true,
+    data: { charge },
+  });
+}));
+
+router.post('/charges/:chargeId/void', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { reason } = req.body;
+
+  if (!reason || typeof reason !== 'string' || !reason.trim()) {
+    throw createError('reason is required', 400);
+  }
+
+  const charge = await voidCharge(getParamValue(req.params.chargeId), reason.trim(), req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { charge },
+  });
+}));
+
+export default router;
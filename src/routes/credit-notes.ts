@@ -0,0 +1,185 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { generateCreditNotePDF } from '../utils/pdf-generator.js';
+import {
+  createCreditNote,
+  CREDIT_NOTE_SELECT,
+  fetchCreditNoteWithItems,
+  reviewCreditNote,
+} from '../services/credit-note-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const resolveStaffNames = async (staffIds: Array<string | null | undefined>) => {
+  const ids = Array.from(new Set(staffIds.filter(Boolean))) as string[];
+  if (!ids.length) {
+    return new Map<string, string>();
+  }
+
+  const { data, error } = await supabase
+    .from('staff')
+    .select('id, first_name, last_name')
+    .in('id', ids);
+
+  if (error) {
+    logger.warn('Failed to resolve credit note staff', { error: error.message });
+  }
+
+  return new Map(
+    (data ?? []).map((member) => [member.id, `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim()])
+  );
+};
+
+// List credit notes, optionally filtered by status
+router.get('/credit-notes', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { status } = req.query;
+
+  let query = supabase
+    .from('credit_notes')
+    .select(`${CREDIT_NOTE_SELECT}, invoices ( invoice_number )`)
+    .order('created_at', { ascending: false });
+
+  if (typeof status === 'string' && status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch credit notes', { error: error.message });
+    throw createError('Failed to fetch credit notes', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { creditNotes: data ?? [] },
+  });
+}));
+
+router.get('/credit-notes/:creditNoteId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { creditNote, items } = await fetchCreditNoteWithItems(getParamValue(req.params.creditNoteId));
+
+  res.json({
+    success: true,
+    data: { creditNote, items },
+  });
+}));
+
+// Approve a pending credit note (admin only)
+router.patch('/credit-notes/:creditNoteId/approve', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const creditNote = await reviewCreditNote(getParamValue(req.params.creditNoteId), 'approved', req.user!.staff_id ?? null, {
+    refundReference: req.body?.refund_reference,
+  });
+
+  res.json({
+    success: true,
+    data: { creditNote },
+  });
+}));
+
+// Reject a pending credit note (admin only)
+router.patch('/credit-notes/:creditNoteId/reject', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const creditNote = await reviewCreditNote(getParamValue(req.params.creditNoteId), 'rejected', req.user!.staff_id ?? null, {
+    rejectionReason: req.body?.rejection_reason,
+  });
+
+  res.json({
+    success: true,
+    data: { creditNote },
+  });
+}));
+
+router.get('/credit-notes/:creditNoteId/pdf', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { creditNote, items } = await fetchCreditNoteWithItems(getParamValue(req.params.creditNoteId));
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      created_at,
+      admissions (
+        id,
+        patients (
+          patient_id,
+          first_name,
+          last_name
+        )
+      )
+    `)
+    .eq('id', creditNote.invoice_id)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found for credit note', 404);
+  }
+
+  const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+  const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+  const staffNames = await resolveStaffNames([creditNote.requested_by, creditNote.approved_by]);
+
+  const pdfBuffer = await generateCreditNotePDF({
+    creditNote,
+    items,
+    invoice,
+    patientName: patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : '',
+    patientUid: patient?.patient_id ?? null,
+    requestedByName: creditNote.requested_by ? staffNames.get(creditNote.requested_by) ?? null : null,
+    approvedByName: creditNote.approved_by ? staffNames.get(creditNote.approved_by) ?? null : null,
+  });
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="credit-note-${creditNote.credit_note_number}.pdf"`);
+  res.setHeader('Content-Length', pdfBuffer.length);
+  res.send(pdfBuffer);
+}));
+
+// List credit notes raised against an invoice
+router.get('/:id/credit-notes', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('credit_notes')
+    .select(`${CREDIT_NOTE_SELECT}, credit_note_items ( id, bill_item_id, item_name, quantity, unit_price, amount )`)
+    .eq('invoice_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch invoice credit notes', { invoiceId: id, error: error.message });
+    throw createError('Failed to fetch credit notes', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { creditNotes: data ?? [] },
+  });
+}));
+
+// Raise a credit note against specific bill items; it stays pending until an admin approves it
+router.post('/:id/credit-notes', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { reason, refund_mode, refund_reference, notes, items } = req.body;
+
+  const result = await createCreditNote({
+    invoiceId: id,
+    reason,
+    refundMode: refund_mode,
+    refundReference: refund_reference,
+    notes,
+    items,
+    requestedBy: req.user!.staff_id,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: result,
+  });
+}));
+
+export default router;
@@ -129,17 +129,17 @@ router.get('/alerts', authenticateToken, asyncHandler(async (req: AuthenticatedR
     }
 
     // Check overdue invoices
-    const { data: overdueInvoices } = await supabase
+    const { count: overdueCount } = await supabase
       .from('invoices')
-      .select('invoice_number')
+      .select('id', { count: 'exact', head: true })
       .eq('status', 'overdue')
-      .limit(1);
+      .neq('lifecycle_status', 'cancelled');
 
-    if (overdueInvoices && overdueInvoices.length > 0) {
+    if (overdueCount && overdueCount > 0) {
       alerts.push({
         id: 'overdue-payment',
         title: 'Overdue payments',
-        description: `${overdueInvoices.length} invoice(s) overdue`,
+        description: `${overdueCount} invoice(s) overdue`,
         severity: 'error',
         time: 'Current'
       });
@@ -0,0 +1,134 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString, toIstDateString } from '../utils/ist-date.js';
+import { generateDayBookPDF } from '../utils/pdf-generator.js';
+import {
+  buildDayBook,
+  closeBusinessDay,
+  DAY_BOOK_CLOSING_SELECT,
+  dayBookToCsv,
+  reopenBusinessDay,
+} from '../services/day-book-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getQueryValue = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Defaults to today (IST); the date must be a plain YYYY-MM-DD business date
+const resolveBusinessDate = (value: unknown): string => {
+  const businessDate = getQueryValue(value) ?? toIstDateString();
+  if (!isIstDateString(businessDate)) {
+    throw createError('date must be in YYYY-MM-DD format', 400);
+  }
+  return businessDate;
+};
+
+const fetchStaffName = async (staffId?: string | null) => {
+  if (!staffId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('staff')
+    .select('first_name, last_name')
+    .eq('id', staffId)
+    .maybeSingle();
+
+  return data ? `${data.first_name ?? ''} ${data.last_name ?? ''}`.trim() || null : null;
+};
+
+// Collections by payment method and by collecting staff, refunds issued and the net for a day
+router.get('/reports/day-book', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const dayBook = await buildDayBook(resolveBusinessDate(req.query.date), getQueryValue(req.query.staff_id) ?? null);
+
+  res.json({
+    success: true,
+    data: dayBook,
+  });
+}));
+
+router.get('/reports/day-book/pdf', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const staffId = getQueryValue(req.query.staff_id) ?? null;
+  const dayBook = await buildDayBook(resolveBusinessDate(req.query.date), staffId);
+
+  const pdfBuffer = await generateDayBookPDF({
+    dayBook,
+    staffName: await fetchStaffName(staffId),
+    closedByName: await fetchStaffName(dayBook.closing?.closed_by),
+    generatedBy: await fetchStaffName(req.user!.staff_id) ?? req.user!.email,
+  });
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="day-book-${dayBook.businessDate}.pdf"`);
+  res.setHeader('Content-Length', pdfBuffer.length);
+  res.send(pdfBuffer);
+}));
+
+router.get('/reports/day-book/csv', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const dayBook = await buildDayBook(resolveBusinessDate(req.query.date), getQueryValue(req.query.staff_id) ?? null);
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="day-book-${dayBook.businessDate}.csv"`);
+  res.send(dayBookToCsv(dayBook));
+}));
+
+router.get('/reports/day-book/closings', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const from = getQueryValue(req.query.from);
+  const to = getQueryValue(req.query.to);
+
+  if ((from && !isIstDateString(from)) || (to && !isIstDateString(to))) {
+    throw createError('from and to must be in YYYY-MM-DD format', 400);
+  }
+
+  let query = supabase
+    .from('day_book_closings')
+    .select(DAY_BOOK_CLOSING_SELECT)
+    .order('business_date', { ascending: false })
+    .order('closed_at', { ascending: false })
+    .limit(100);
+
+  if (from) query = query.gte('business_date', from);
+  if (to) query = query.lte('business_date', to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch day book closings', { error: error.message });
+    throw createError('Failed to fetch day book closings', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { closings: data ?? [] },
+  });
+}));
+
+// Freeze a day's figures; collections and refunds dated on it are refused until it is reopened
+router.post('/reports/day-book/close', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const businessDate = resolveBusinessDate(req.body?.date);
+  const closing = await closeBusinessDay(businessDate, req.user!.staff_id ?? null, req.body?.notes);
+
+  res.status(201).json({
+    success: true,
+    data: { closing },
+    message: `Day book for ${businessDate} closed`,
+  });
+}));
+
+router.post('/reports/day-book/reopen', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const businessDate = resolveBusinessDate(req.body?.date);
+  const closing = await reopenBusinessDay(businessDate, req.user!.staff_id ?? null, req.body?.reason);
+
+  res.json({
+    success: true,
+    data: { closing },
+    message: `Day book for ${businessDate} reopened`,
+  });
+}));
+
+export default router;
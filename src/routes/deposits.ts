@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling, requireReception } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import {
+  cancelRefundVoucher,
+  fetchAdmissionDeposits,
+  fetchAdmissionRefundVouchers,
+  recordDeposit,
+  REFUND_VOUCHER_SELECT,
+  summarizeDeposits,
+} from '../services/deposit-service.js';
+import { isPaymentMethod, PAYMENT_METHODS } from '../services/payment-service.js';
+import { assertBusinessDayOpen } from '../services/day-book-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// List deposits held against an admission along with the running credit
+router.get('/admission/:admissionId/deposits', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.admissionId);
+
+  const [deposits, refundVouchers] = await Promise.all([
+    fetchAdmissionDeposits(admissionId),
+    fetchAdmissionRefundVouchers(admissionId),
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      deposits,
+      refundVouchers,
+      summary: summarizeDeposits(deposits),
+    },
+  });
+}));
+
+// Collect an advance deposit after admission
+router.post('/admission/:admissionId/deposits', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.admissionId);
+  const { amount, payment_method, payment_reference, received_at, notes } = req.body;
+
+  if (amount === undefined || !payment_method) {
+    throw createError('amount and payment_method are required', 400);
+  }
+
+  const deposit = await recordDeposit({
+    admissionId,
+    amount: Number(amount),
+    paymentMethod: payment_method,
+    paymentReference: payment_reference,
+    receivedAt: received_at,
+    notes,
+    receivedBy: req.user!.staff_id,
+  });
+
+  const deposits = await fetchAdmissionDeposits(admissionId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      deposit,
+      summary: summarizeDeposits(deposits),
+    },
+  });
+}));
+
+// List refund vouchers, optionally filtered by status or admission
+router.get('/refund-vouchers', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { status, admission_id } = req.query;
+
+  let query = supabase
+    .from('refund_vouchers')
+    .select(REFUND_VOUCHER_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (typeof status === 'string' && status) {
+    query = query.eq('status', status);
+  }
+
+  if (typeof admission_id === 'string' && admission_id) {
+    query = query.eq('admission_id', admission_id);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch refund vouchers', { error: error.message });
+    throw createError('Failed to fetch refund vouchers', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { refundVouchers: data ?? [] },
+  });
+}));
+
+// Mark a refund voucher as paid out to the patient
+router.patch('/refund-vouchers/:voucherId/pay', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const voucherId = getParamValue(req.params.voucherId);
+  const { refund_mode, refund_reference } = req.body;
+
+  if (!refund_mode || !isPaymentMethod(refund_mode)) {
+    throw createError(`refund_mode must be one of: ${PAYMENT_METHODS.join(', ')}`, 400);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('refund_vouchers')
+    .select('id, status')
+    .eq('id', voucherId)
+    .maybeSingle();
+
+  if (fetchError || !existing) {
+    throw createError('Refund voucher not found', 404);
+  }
+
+  if (existing.status !== 'pending') {
+    throw createError(`Refund voucher is already ${existing.status}`, 400);
+  }
+
+  await assertBusinessDayOpen();
+
+  const nowIso = new Date().toISOString();
+
+  const { data: voucher, error } = await supabase
+    .from('refund_vouchers')
+    .update({
+      status: 'paid',
+      refund_mode,
+      refund_reference: refund_reference || null,
+      paid_by: req.user!.staff_id,
+      paid_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq('id', voucherId)
+    .select(REFUND_VOUCHER_SELECT)
+    .single();
+
+  if (error || !voucher) {
+    logger.error('Failed to mark refund voucher as paid', { voucherId, error: error?.message });
+    throw createError('Failed to update refund voucher', 500);
+  }
+
+  logger.info('Refund voucher paid', {
+    voucherId,
+    voucherNumber: voucher.voucher_number,
+    amount: voucher.amount,
+    paidBy: req.user!.staff_id,
+  });
+
+  res.json({
+    success: true,
+    data: { refundVoucher: voucher },
+  });
+}));
+
+// Cancel a refund voucher that has not been paid out; the amount returns to the deposit (admin only)
+router.patch('/refund-vouchers/:voucherId/cancel', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { voucher, deposit } = await cancelRefundVoucher(
+    getParamValue(req.params.voucherId),
+    typeof req.body?.reason === 'string' ? req.body.reason : '',
+    req.user!.staff_id ?? null
+  );
+
+  res.json({
+    success: true,
+    data: { refundVoucher: voucher, deposit },
+  });
+}));
+
+export default router;
@@ -0,0 +1,148 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString } from '../utils/ist-date.js';
+import {
+  DISCOUNT_REQUEST_SELECT,
+  DISCOUNT_REQUEST_STATUSES,
+  fetchDiscountLimits,
+  fetchDiscountRegister,
+  isDiscountRequestStatus,
+  reviewDiscountRequest,
+  setDiscountLimit,
+} from '../services/discount-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const DISCOUNT_ROLES = ['admin', 'billing'];
+
+router.get('/discount-limits', authenticateToken, requireBilling, asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  const limits = await fetchDiscountLimits();
+
+  res.json({
+    success: true,
+    data: { limits },
+  });
+}));
+
+// Set a role's discount ceiling in percent of the invoice subtotal; null removes the ceiling (admin only)
+router.put('/discount-limits/:role', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const role = getParamValue(req.params.role);
+  const { max_percent } = req.body;
+
+  if (!DISCOUNT_ROLES.includes(role)) {
+    throw createError(`role must be one of: ${DISCOUNT_ROLES.join(', ')}`, 400);
+  }
+
+  const maxPercent = max_percent === null ? null : Number(max_percent);
+  if (maxPercent !== null && (!Number.isFinite(maxPercent) || maxPercent < 0 || maxPercent > 100)) {
+    throw createError('max_percent must be between 0 and 100, or null for no limit', 400);
+  }
+
+  const limit = await setDiscountLimit(role, maxPercent, req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { limit },
+  });
+}));
+
+// Discount requests, pending approval by default
+router.get('/discount-requests', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const status = req.query.status ?? 'pending';
+
+  if (!isDiscountRequestStatus(status)) {
+    throw createError(`status must be one of: ${DISCOUNT_REQUEST_STATUSES.join(', ')}`, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('discount_requests')
+    .select(`${DISCOUNT_REQUEST_SELECT}, invoices ( invoice_number, lifecycle_status )`)
+    .eq('status', status)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch discount requests', { error: error.message });
+    throw createError('Failed to fetch discount requests', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { discountRequests: data ?? [] },
+  });
+}));
+
+// Approve a pending discount and apply it to the invoice (admin only)
+router.patch('/discount-requests/:requestId/approve', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const discountRequest = await reviewDiscountRequest(
+    getParamValue(req.params.requestId),
+    'approved',
+    req.user!.staff_id ?? null
+  );
+
+  res.json({
+    success: true,
+    data: { discountRequest },
+  });
+}));
+
+// Reject a pending discount; the invoice is left untouched (admin only)
+router.patch('/discount-requests/:requestId/reject', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const discountRequest = await reviewDiscountRequest(
+    getParamValue(req.params.requestId),
+    'rejected',
+    req.user!.staff_id ?? null,
+    { rejectionReason: req.body?.rejection_reason }
+  );
+
+  res.json({
+    success: true,
+    data: { discountRequest },
+  });
+}));
+
+// Discount register: every approved or within-limit discount, filtered by approval date (IST)
+router.get('/discount-register', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to } = req.query;
+
+  if (from !== undefined && !isIstDateString(from)) {
+    throw createError('from must be in YYYY-MM-DD format', 400);
+  }
+  if (to !== undefined && !isIstDateString(to)) {
+    throw createError('to must be in YYYY-MM-DD format', 400);
+  }
+
+  const register = await fetchDiscountRegister({ from: from ?? null, to: to ?? null });
+
+  res.json({
+    success: true,
+    data: register,
+  });
+}));
+
+router.get('/:id/discount-requests', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('discount_requests')
+    .select(DISCOUNT_REQUEST_SELECT)
+    .eq('invoice_id', id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch invoice discount requests', { invoiceId: id, error: error.message });
+    throw createError('Failed to fetch discount requests', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { discountRequests: data ?? [] },
+  });
+}));
+
+export default router;
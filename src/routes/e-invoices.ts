@@ -0,0 +1,62 @@
+import { Router, Response } from 'express';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import {
+  fetchEInvoice,
+  generateEInvoice,
+  registerEInvoice,
+  validateEInvoicePayload,
+} from '../services/e-invoice-service.js';
+
+const router = Router();
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+router.get('/:id/e-invoice', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const eInvoice = await fetchEInvoice(getParamValue(req.params.id));
+
+  if (!eInvoice) {
+    throw createError('No e-invoice has been generated for this invoice', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { eInvoice, validationErrors: validateEInvoicePayload(eInvoice.payload) },
+  });
+}));
+
+// The NIC schema JSON as a file, for upload through the GST portal by hand
+router.get('/:id/e-invoice/json', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const eInvoice = await fetchEInvoice(getParamValue(req.params.id));
+
+  if (!eInvoice) {
+    throw createError('No e-invoice has been generated for this invoice', 404);
+  }
+
+  const payload: any = eInvoice.payload;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="e-invoice-${String(payload?.DocDtls?.No ?? eInvoice.invoice_id).replace(/\//g, '-')}.json"`);
+  res.send(JSON.stringify([payload], null, 2));
+}));
+
+// Build the e-invoice for a TPA (details from the claim's partner) or a corporate (details in body.buyer)
+router.post('/:id/e-invoice', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const eInvoice = await generateEInvoice(getParamValue(req.params.id), req.body ?? {}, req.user!.staff_id ?? null);
+
+  res.status(201).json({
+    success: true,
+    data: { eInvoice },
+  });
+}));
+
+router.post('/:id/e-invoice/register', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const eInvoice = await registerEInvoice(getParamValue(req.params.id), req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { eInvoice },
+    message: `E-invoice registered with IRN ${eInvoice.irn}`,
+  });
+}));
+
+export default router;
@@ -0,0 +1,203 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireReception } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString } from '../utils/ist-date.js';
+import { generateEstimatePDF } from '../utils/pdf-generator.js';
+import {
+  computeEstimateVariance,
+  convertEstimateToAdmission,
+  createEstimate,
+  ESTIMATE_SELECT,
+  ESTIMATE_STATUSES,
+  fetchEstimateWithItems,
+  isEstimateStatus,
+  parseEstimateSelections,
+} from '../services/estimate-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// List estimates, optionally by status or patient
+router.get('/estimates', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { status, patient_id } = req.query;
+
+  if (status && !isEstimateStatus(status)) {
+    throw createError(`status must be one of: ${ESTIMATE_STATUSES.join(', ')}`, 400);
+  }
+
+  let query = supabase
+    .from('estimates')
+    .select(ESTIMATE_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status as string);
+  }
+  if (patient_id) {
+    query = query.eq('patient_id', patient_id as string);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch estimates', { error: error.message });
+    throw createError('Failed to fetch estimates', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { estimates: data ?? [] },
+  });
+}));
+
+// Quote a stay: room type and length, optional package, and the services and medicines expected
+router.post('/estimates', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const {
+    patient_id,
+    patient_name,
+    patient_phone,
+    price_list_id,
+    room_type,
+    expected_days,
+    package_id,
+    services,
+    medications,
+    valid_until,
+    notes,
+  } = req.body;
+
+  if (!room_type || typeof room_type !== 'string') {
+    throw createError('room_type is required', 400);
+  }
+
+  const expectedDays = Number(expected_days);
+  if (!Number.isInteger(expectedDays) || expectedDays <= 0) {
+    throw createError('expected_days must be a whole number greater than zero', 400);
+  }
+
+  if (valid_until !== undefined && valid_until !== null && !isIstDateString(valid_until)) {
+    throw createError('valid_until must be in YYYY-MM-DD format', 400);
+  }
+
+  const estimate = await createEstimate({
+    patientId: patient_id || null,
+    patientName: patient_name,
+    patientPhone: patient_phone,
+    priceListId: price_list_id || null,
+    roomType: room_type.trim(),
+    expectedDays,
+    packageId: package_id || null,
+    services: parseEstimateSelections(services, 'service_id', 'services'),
+    medications: parseEstimateSelections(medications, 'medication_catalog_id', 'medications'),
+    validUntil: valid_until ?? null,
+    notes,
+  }, req.user!.staff_id ?? null);
+
+  res.status(201).json({
+    success: true,
+    data: { estimate },
+  });
+}));
+
+router.get('/estimates/:estimateId', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const estimate = await fetchEstimateWithItems(getParamValue(req.params.estimateId));
+
+  res.json({
+    success: true,
+    data: { estimate },
+  });
+}));
+
+router.get('/estimates/:estimateId/pdf', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const estimate = await fetchEstimateWithItems(getParamValue(req.params.estimateId));
+
+  let preparedByName: string | null = null;
+  if (estimate.created_by) {
+    const { data: staff } = await supabase
+      .from('staff')
+      .select('first_name, last_name')
+      .eq('id', estimate.created_by)
+      .maybeSingle();
+    preparedByName = staff ? `${staff.first_name ?? ''} ${staff.last_name ?? ''}`.trim() : null;
+  }
+
+  const pdfBuffer = await generateEstimatePDF({
+    estimate,
+    items: estimate.estimate_items ?? [],
+    preparedByName,
+  });
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="estimate-${estimate.estimate_number.replace(/\//g, '-')}.pdf"`);
+  res.setHeader('Content-Length', pdfBuffer.length);
+  res.send(pdfBuffer);
+}));
+
+router.post('/estimates/:estimateId/convert', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { admission_id } = req.body;
+
+  if (!admission_id) {
+    throw createError('admission_id is required', 400);
+  }
+
+  const estimate = await convertEstimateToAdmission(
+    getParamValue(req.params.estimateId),
+    admission_id,
+    req.user!.staff_id ?? null
+  );
+
+  res.json({
+    success: true,
+    data: { estimate },
+  });
+}));
+
+router.post('/estimates/:estimateId/cancel', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const estimateId = getParamValue(req.params.estimateId);
+
+  const { data, error } = await supabase
+    .from('estimates')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', estimateId)
+    .eq('status', 'issued')
+    .select(ESTIMATE_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to cancel estimate', { estimateId, error: error.message });
+    throw createError('Failed to cancel estimate', 500);
+  }
+  if (!data) {
+    throw createError('Only issued estimates can be cancelled', 409);
+  }
+
+  res.json({
+    success: true,
+    data: { estimate: data },
+  });
+}));
+
+// Estimated vs actual for a converted estimate; the stored discharge report when there is one
+router.get('/estimates/:estimateId/variance', authenticateToken, requireReception, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const estimate = await fetchEstimateWithItems(getParamValue(req.params.estimateId));
+  const refresh = req.query.refresh === 'true';
+
+  const variance = estimate.variance && !refresh
+    ? estimate.variance
+    : await computeEstimateVariance(estimate);
+
+  res.json({
+    success: true,
+    data: {
+      estimateNumber: estimate.estimate_number,
+      reportedAt: refresh ? null : estimate.variance_reported_at,
+      variance,
+    },
+  });
+}));
+
+export default router;
@@ -5,6 +5,8 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
+import { allocateDocumentNumber } from '../services/sequence-service.js';
+import { refreshAdmissionPayerSplit } from '../services/payer-split-service.js';
 import { env } from '../config/env.js';
 
 const router = Router();
@@ -162,6 +164,14 @@ const mapClaimsWithRelations = async (claimsList: any[]) => {
   }));
 };
 
+const parseCopayPercent = (value: unknown) => {
+  const copay = Number(value);
+  if (!Number.isFinite(copay) || copay < 0 || copay > 100) {
+    throw createError('copay_percent must be between 0 and 100', 400);
+  }
+  return copay;
+};
+
 const auditClaimAction = (action: string, payload: Record<string, any>) => {
   logger.info(`Insurance claim ${action}`, payload);
 };
@@ -299,6 +309,7 @@ router.post('/claims', authenticateToken, requireBilling, asyncHandler(async (re
     claim_amount,
     documents_url,
     notes,
+    copay_percent,
     status = 'submitted'
   } = req.body;
 
@@ -311,18 +322,7 @@ router.post('/claims', authenticateToken, requireBilling, asyncHandler(async (re
     throw createError('Invalid claim status', 400);
   }
 
-  const { data: lastClaim } = await supabase
-    .from('insurance_claims')
-    .select('claim_number')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
-
-  let nextClaimNumber = 'CLM-000001';
-  if (lastClaim?.claim_number) {
-    const lastNumber = parseInt(lastClaim.claim_number.replace('CLM-', ''), 10);
-    nextClaimNumber = `CLM-${(lastNumber + 1).toString().padStart(6, '0')}`;
-  }
+  const nextClaimNumber = await allocateDocumentNumber('claim');
 
   const { data: newClaim, error } = await supabase
     .from('insurance_claims')
@@ -334,6 +334,7 @@ router.post('/claims', authenticateToken, requireBilling, asyncHandler(async (re
       documents_url: normalizeStorageKey(documents_url) || null,
       status,
       notes: notes || null,
+      copay_percent: copay_percent !== undefined ? parseCopayPercent(copay_percent) : 0,
       created_by: req.user?.staff_id || req.user?.id
     })
     .select('*')
@@ -350,6 +351,8 @@ router.post('/claims', authenticateToken, requireBilling, asyncHandler(async (re
     createdBy: req.user?.staff_id || req.user?.id
   });
 
+  await refreshAdmissionPayerSplit(newClaim.admission_id);
+
   const [claimWithRelations] = await mapClaimsWithRelations([newClaim]);
 
   res.status(201).json({
@@ -367,6 +370,7 @@ router.put('/claims/:id', authenticateToken, requireBilling, asyncHandler(async
     approved_amount,
     documents_url,
     notes,
+    copay_percent,
     status
   } = req.body;
 
@@ -386,6 +390,13 @@ router.put('/claims/:id', authenticateToken, requireBilling, asyncHandler(async
   if (documents_url !== undefined) updatePayload.documents_url = documents_url ? normalizeStorageKey(documents_url) : null;
   if (notes !== undefined) updatePayload.notes = notes;
   if (status !== undefined) updatePayload.status = status;
+  if (copay_percent !== undefined) updatePayload.copay_percent = parseCopayPercent(copay_percent);
+
+  const { data: previousClaim } = await supabase
+    .from('insurance_claims')
+    .select('admission_id')
+    .eq('id', id)
+    .maybeSingle();
 
   const { data: updatedClaim, error } = await supabase
     .from('insurance_claims')
@@ -403,6 +414,12 @@ router.put('/claims/:id', authenticateToken, requireBilling, asyncHandler(async
     updatedBy: req.user?.staff_id || req.user?.id
   });
 
+  // Moving a claim between admissions re-splits both stays
+  if (previousClaim?.admission_id && previousClaim.admission_id !== updatedClaim.admission_id) {
+    await refreshAdmissionPayerSplit(previousClaim.admission_id);
+  }
+  await refreshAdmissionPayerSplit(updatedClaim.admission_id);
+
   const [claimWithRelations] = await mapClaimsWithRelations([updatedClaim]);
 
   res.json({
@@ -442,6 +459,9 @@ router.patch('/claims/:id/status', authenticateToken, requireBilling, asyncHandl
     updatedBy: req.user?.staff_id || req.user?.id
   });
 
+  // Approval or settlement moves the approved amount off the patient's share
+  await refreshAdmissionPayerSplit(updatedClaim.admission_id);
+
   const [claimWithRelations] = await mapClaimsWithRelations([updatedClaim]);
 
   res.json({
@@ -457,7 +477,7 @@ router.delete('/claims/:id', authenticateToken, requireBilling, asyncHandler(asy
     .from('insurance_claims')
     .delete()
     .eq('id', id)
-    .select('id, claim_number')
+    .select('id, claim_number, admission_id')
     .single();
 
   if (error || !deletedClaim) {
@@ -470,6 +490,8 @@ router.delete('/claims/:id', authenticateToken, requireBilling, asyncHandler(asy
     deletedBy: req.user?.staff_id || req.user?.id
   });
 
+  await refreshAdmissionPayerSplit(deletedClaim.admission_id);
+
   res.json({
     success: true,
     data: { claim: deletedClaim }
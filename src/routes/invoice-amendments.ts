@@ -0,0 +1,277 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { getIstDayBounds, isIstDateString } from '../utils/ist-date.js';
+import { resolveAmountPayable, roundCurrency } from '../services/payment-service.js';
+import {
+  AMENDMENT_SELECT,
+  createAmendmentRequest,
+  reviewAmendment,
+  transitionInvoiceLifecycle,
+} from '../services/invoice-lifecycle-service.js';
+import { describeInvoiceDiff, diffInvoiceSnapshots, fetchInvoiceRevisions } from '../services/invoice-revision-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// Move an invoice through draft -> provisional -> final -> cancelled
+router.patch('/:id/lifecycle', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { lifecycle_status, reason, reason_code } = req.body;
+
+  if (!lifecycle_status) {
+    throw createError('lifecycle_status is required', 400);
+  }
+
+  const invoice = await transitionInvoiceLifecycle(
+    id,
+    lifecycle_status,
+    { staffId: req.user!.staff_id ?? null, role: req.user!.role },
+    reason,
+    reason_code
+  );
+
+  res.json({
+    success: true,
+    data: { invoice },
+  });
+}));
+
+// Pending and reviewed amendment requests across all invoices
+router.get('/amendments', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { status } = req.query;
+
+  let query = supabase
+    .from('invoice_amendments')
+    .select(`${AMENDMENT_SELECT}, invoices ( invoice_number )`)
+    .order('created_at', { ascending: false });
+
+  if (typeof status === 'string' && status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch invoice amendments', { error: error.message });
+    throw createError('Failed to fetch amendments', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { amendments: data ?? [] },
+  });
+}));
+
+// Every invoice number raised in the period, cancelled ones included, with write-offs, so the
+// series can be reconciled without gaps
+router.get('/invoice-register', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to } = req.query;
+
+  if (!isIstDateString(from) || !isIstDateString(to)) {
+    throw createError('from and to are required in YYYY-MM-DD format', 400);
+  }
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      created_at,
+      lifecycle_status,
+      status,
+      amount_payable,
+      total_amount,
+      paid_amount,
+      written_off_amount,
+      credited_amount,
+      balance,
+      cancelled_at,
+      cancellation_reason_code,
+      cancellation_reason
+    `)
+    .gte('created_at', getIstDayBounds(from).start.toISOString())
+    .lt('created_at', getIstDayBounds(to).end.toISOString())
+    .order('invoice_number', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch invoice register', { error: error.message });
+    throw createError('Failed to fetch invoice register', 500);
+  }
+
+  const invoices = data ?? [];
+  const cancelled = invoices.filter((invoice) => invoice.lifecycle_status === 'cancelled');
+  const live = invoices.filter((invoice) => invoice.lifecycle_status !== 'cancelled');
+  const sum = (rows: any[], field: string) => roundCurrency(rows.reduce((acc, row) => acc + Number(row[field] || 0), 0));
+
+  res.json({
+    success: true,
+    data: {
+      invoices,
+      totals: {
+        count: invoices.length,
+        billedAmount: roundCurrency(live.reduce((acc, invoice) => acc + resolveAmountPayable(invoice), 0)),
+        collectedAmount: sum(live, 'paid_amount'),
+        writtenOffAmount: sum(live, 'written_off_amount'),
+        creditedAmount: sum(live, 'credited_amount'),
+        outstandingAmount: sum(live, 'balance'),
+        cancelledCount: cancelled.length,
+        cancelledAmount: roundCurrency(cancelled.reduce((acc, invoice) => acc + resolveAmountPayable(invoice), 0)),
+      },
+    },
+  });
+}));
+
+router.patch('/amendments/:amendmentId/approve', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const amendment = await reviewAmendment(
+    getParamValue(req.params.amendmentId),
+    'approved',
+    req.user!.staff_id ?? null,
+    req.body?.review_notes
+  );
+
+  res.json({
+    success: true,
+    data: { amendment },
+  });
+}));
+
+router.patch('/amendments/:amendmentId/reject', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const amendment = await reviewAmendment(
+    getParamValue(req.params.amendmentId),
+    'rejected',
+    req.user!.staff_id ?? null,
+    req.body?.review_notes
+  );
+
+  res.json({
+    success: true,
+    data: { amendment },
+  });
+}));
+
+router.get('/:id/amendments', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('invoice_amendments')
+    .select(AMENDMENT_SELECT)
+    .eq('invoice_id', id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch invoice amendments', { invoiceId: id, error: error.message });
+    throw createError('Failed to fetch amendments', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { amendments: data ?? [] },
+  });
+}));
+
+// Request a change to a final invoice; nothing is applied until an admin approves it
+router.post('/:id/amendments', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { reason, changes } = req.body;
+
+  const amendment = await createAmendmentRequest(id, {
+    reason,
+    changes,
+    requestedBy: req.user!.staff_id ?? null,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { amendment },
+  });
+}));
+
+router.get('/:id/revisions', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const revisions = await fetchInvoiceRevisions(id);
+
+  res.json({
+    success: true,
+    data: {
+      revisions: revisions.map(({ snapshot, ...revision }) => revision),
+    },
+  });
+}));
+
+// A single revision with its diff against the one before it
+router.get('/:id/revisions/:revisionNumber', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const revisionNumber = Number(getParamValue(req.params.revisionNumber));
+
+  const revisions = await fetchInvoiceRevisions(id);
+  const index = revisions.findIndex((revision) => revision.revision_number === revisionNumber);
+
+  if (index === -1) {
+    throw createError('Revision not found', 404);
+  }
+
+  const revision = revisions[index];
+  const previous = index > 0 ? revisions[index - 1] : null;
+
+  res.json({
+    success: true,
+    data: {
+      revision,
+      previousRevisionNumber: previous?.revision_number ?? null,
+      diff: diffInvoiceSnapshots(previous?.snapshot ?? null, revision.snapshot),
+    },
+  });
+}));
+
+// Who changed the bill and when, with a readable diff between two revisions (?from=&to=, defaulting
+// to the latest revision against the one before it). from=0 compares against an empty bill.
+router.get('/:id/history', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const revisions = await fetchInvoiceRevisions(id);
+
+  if (!revisions.length) {
+    throw createError('No revisions recorded for this invoice', 404);
+  }
+
+  const latest = revisions[revisions.length - 1].revision_number;
+  const to = req.query.to !== undefined ? Number(req.query.to) : latest;
+  const from = req.query.from !== undefined ? Number(req.query.from) : to - 1;
+  const findRevision = (revisionNumber: number) => revisions.find((revision) => revision.revision_number === revisionNumber);
+
+  if (!Number.isInteger(from) || !Number.isInteger(to) || (from !== 0 && !findRevision(from)) || !findRevision(to)) {
+    throw createError('from and to must be revision numbers of this invoice', 400);
+  }
+
+  const staffIds = Array.from(new Set(revisions.map((revision) => revision.created_by).filter(Boolean)));
+  const { data: staff } = staffIds.length
+    ? await supabase.from('staff').select('id, first_name, last_name').in('id', staffIds)
+    : { data: [] };
+  const staffNames = new Map((staff ?? []).map((member) => [member.id, `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim()]));
+
+  const diff = diffInvoiceSnapshots(findRevision(from)?.snapshot ?? null, findRevision(to)!.snapshot);
+  const changes = describeInvoiceDiff(diff);
+
+  if (req.query.format === 'text') {
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.send(`Revision ${from} -> ${to}\n${changes.length ? changes.join('\n') : 'No changes'}\n`);
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      revisions: revisions.map(({ snapshot, ...revision }) => ({
+        ...revision,
+        created_by_name: revision.created_by ? staffNames.get(revision.created_by) ?? null : null,
+      })),
+      comparison: { from, to, changes, diff },
+    },
+  });
+}));
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router, Response } from 'express';
+import { asyncHandler } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import {
+  createInvoiceExportJob,
+  fetchInvoiceExportJob,
+  fetchInvoiceExportJobs,
+  getInvoiceExportDownloadUrl,
+  parseInvoiceExportFilters,
+} from '../services/invoice-export-service.js';
+
+const router = Router();
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// Queue a ZIP of invoice PDFs with a CSV index; poll the job for progress, then fetch the download link
+router.post('/exports/invoices', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const job = await createInvoiceExportJob(parseInvoiceExportFilters(req.body ?? {}), req.user!.staff_id ?? null);
+
+  res.status(202).json({
+    success: true,
+    data: { job },
+    message: 'Invoice export queued',
+  });
+}));
+
+router.get('/exports/invoices', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const jobs = await fetchInvoiceExportJobs();
+
+  res.json({
+    success: true,
+    data: { jobs },
+  });
+}));
+
+router.get('/exports/invoices/:jobId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const job = await fetchInvoiceExportJob(getParamValue(req.params.jobId));
+
+  res.json({
+    success: true,
+    data: { job },
+  });
+}));
+
+router.get('/exports/invoices/:jobId/download', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const download = await getInvoiceExportDownloadUrl(getParamValue(req.params.jobId));
+
+  res.json({
+    success: true,
+    data: download,
+  });
+}));
+
+export default router;
@@ -5,6 +5,7 @@ import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, AuthenticatedRequest, requireMedicalStaff } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
 import { uploadLabReportPDF } from '../utils/r2.js';
+import { assertSourceUnbilled, captureLabReport, recaptureSource, voidSourceCharges } from '../services/charge-capture-service.js';
 
 const router = Router();
 const supabase = createClient(
@@ -185,6 +186,13 @@ router.post('/', authenticateToken, requireMedicalStaff, upload.single('pdf'), a
     throw createError('Failed to fetch created lab report', 500);
   }
 
+  // The report is the clinical record; a failed charge is logged for billing to re-post
+  try {
+    await captureLabReport(labReport.id, req.user!.staff_id ?? null);
+  } catch (captureError: any) {
+    logger.error('Lab report created but charge capture failed', { labReportId: labReport.id, error: captureError?.message });
+  }
+
   logger.info('Lab report created', {
     labReportId: data.id,
     patientId: patient_id,
@@ -228,6 +236,22 @@ router.put('/:id', authenticateToken, requireMedicalStaff, upload.single('pdf'),
     updated_at: new Date().toISOString()
   };
 
+  // Results can be edited at any time; what the charge was priced from cannot once it is billed
+  const { data: currentReport } = await supabase
+    .from('lab_reports')
+    .select('test_type, test_date, price')
+    .eq('id', labReportId)
+    .maybeSingle();
+
+  const changesCharge = Boolean(currentReport) && (
+    (updateData.test_type !== undefined && updateData.test_type !== currentReport!.test_type) ||
+    (updateData.test_date !== undefined && new Date(updateData.test_date).getTime() !== new Date(currentReport!.test_date).getTime()) ||
+    (updateData.price !== undefined && Number(updateData.price) !== Number(currentReport!.price ?? 0))
+  );
+  if (changesCharge) {
+    await assertSourceUnbilled('lab_report', labReportId, 'Lab report has been billed; its test, date and price cannot change');
+  }
+
   // If PDF file is uploaded, upload to R2 first
   if (req.file) {
     const { data: existingReport } = await supabase
@@ -264,6 +288,10 @@ router.put('/:id', authenticateToken, requireMedicalStaff, upload.single('pdf'),
     throw createError('Lab report not found or update failed', 404);
   }
 
+  if (changesCharge) {
+    await recaptureSource('lab_report', labReportId, 'Lab report test, date or price changed', req.user!.staff_id ?? null);
+  }
+
   logger.info('Lab report updated', {
     labReportId: data.id,
     hasPDF: !!req.file,
@@ -322,6 +350,9 @@ router.get('/:id/pdf-url', authenticateToken, asyncHandler(async (req: Authentic
 // Delete lab report
 router.delete('/:id', authenticateToken, requireMedicalStaff, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const labReportId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+
+  await voidSourceCharges('lab_report', labReportId, 'Lab report deleted', req.user!.staff_id ?? null);
+
   const { data, error } = await supabase
     .from('lab_reports')
     .delete()
@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js';
 import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, AuthenticatedRequest, requireMedicalStaff } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
+import { loadTariffContext, resolveTariffPrice } from '../services/tariff-service.js';
+import { assertSourceUnbilled, captureMedicationDose, recaptureSource, voidSourceCharges } from '../services/charge-capture-service.js';
 
 const router = Router();
 const supabase = createClient(
@@ -195,7 +197,12 @@ router.post('/', authenticateToken, requireMedicalStaff, asyncHandler(async (req
       .eq('id', medication_catalog_id)
       .maybeSingle();
     if (catalog) {
-      pricePerUnit = Number(catalog.price_per_unit ?? 0);
+      const tariffPrice = resolveTariffPrice(await loadTariffContext({ admissionId: admission_id || null }), {
+        chargeType: 'medication',
+        referenceIds: [medication_catalog_id],
+        fallbackPrice: Number(catalog.price_per_unit ?? 0),
+      });
+      pricePerUnit = tariffPrice?.unit_price ?? 0;
       unitsPerDose = unitsPerDose ?? Number(catalog.default_units_per_dose ?? 1);
     }
   }
@@ -372,12 +379,21 @@ router.post('/:id/doses', authenticateToken, requireMedicalStaff, asyncHandler(a
     throw createError('Failed to log medication dose', 500);
   }
 
+  // The dose is the clinical record; a failed charge is logged for billing to re-post
+  let charge = null;
+  try {
+    charge = await captureMedicationDose(dose.id, req.user!.staff_id ?? null);
+  } catch (captureError: any) {
+    logger.error('Dose logged but charge capture failed', { doseId: dose.id, medicationId, error: captureError?.message });
+  }
+
   const updatedMedication = await refreshMedicationDoseStats(medicationId);
 
   res.status(201).json({
     success: true,
     data: {
       dose,
+      charge,
       medication: updatedMedication,
     },
   });
@@ -398,6 +414,8 @@ router.put('/doses/:doseId', authenticateToken, requireMedicalStaff, asyncHandle
     throw createError('Dose not found', 404);
   }
 
+  await assertSourceUnbilled('medication_dose', existingDose.id, 'Dose has already been billed and cannot be changed');
+
   const updates: Record<string, unknown> = {
     updated_at: new Date().toISOString(),
   };
@@ -424,6 +442,11 @@ router.put('/doses/:doseId', authenticateToken, requireMedicalStaff, asyncHandle
     throw createError('Failed to update medication dose', 500);
   }
 
+  // The charge date follows the time the dose was given
+  if (administered_at !== undefined) {
+    await recaptureSource('medication_dose', existingDose.id, 'Dose time corrected', req.user!.staff_id ?? null);
+  }
+
   const updatedMedication = await refreshMedicationDoseStats(existingDose.patient_medication_id);
 
   res.json({
@@ -449,6 +472,10 @@ router.delete('/doses/:doseId', authenticateToken, requireMedicalStaff, asyncHan
     throw createError('Dose not found', 404);
   }
 
+  await assertSourceUnbilled('medication_dose', existingDose.id, 'Dose has already been billed and cannot be changed');
+
+  await voidSourceCharges('medication_dose', existingDose.id, 'Dose deleted', req.user!.staff_id ?? null);
+
   const { error: deleteError } = await supabase
     .from('patient_medication_doses')
     .delete()
@@ -472,6 +499,18 @@ router.delete('/doses/:doseId', authenticateToken, requireMedicalStaff, asyncHan
 
 // Delete medication
 router.delete('/:id', authenticateToken, requireMedicalStaff, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { data: doses } = await supabase
+    .from('patient_medication_doses')
+    .select('id')
+    .eq('patient_medication_id', req.params.id);
+
+  for (const dose of doses ?? []) {
+    await assertSourceUnbilled('medication_dose', dose.id, 'Medication has billed doses and cannot be deleted');
+  }
+  for (const dose of doses ?? []) {
+    await voidSourceCharges('medication_dose', dose.id, 'Medication deleted', req.user!.staff_id ?? null);
+  }
+
   const { data, error } = await supabase
     .from('patient_medications')
     .delete()
@@ -0,0 +1,207 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import {
+  attachPackageToAdmission,
+  cancelAdmissionPackage,
+  fetchActiveAdmissionPackage,
+  fetchPackageWithInclusions,
+  PACKAGE_INCLUSION_SELECT,
+  PACKAGE_SELECT,
+  replacePackageInclusions,
+  validatePackageInclusions,
+} from '../services/package-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// Package catalog with what each package covers
+router.get('/', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const includeInactive = req.query.include_inactive === 'true';
+
+  let query = supabase
+    .from('billing_packages')
+    .select(`${PACKAGE_SELECT}, billing_package_inclusions ( ${PACKAGE_INCLUSION_SELECT} )`)
+    .order('name');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch billing packages', { error: error.message });
+    throw createError('Failed to fetch packages', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { packages: data ?? [] },
+  });
+}));
+
+router.get('/admission/:admissionId', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionPackage = await fetchActiveAdmissionPackage(getParamValue(req.params.admissionId));
+
+  res.json({
+    success: true,
+    data: { admissionPackage },
+  });
+}));
+
+// Attach a package to an admission; later invoices absorb the charges it covers
+router.post('/admission/:admissionId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionId = getParamValue(req.params.admissionId);
+  const { package_id, notes } = req.body;
+
+  if (!package_id) {
+    throw createError('package_id is required', 400);
+  }
+
+  const admissionPackage = await attachPackageToAdmission(admissionId, package_id, {
+    notes,
+    attachedBy: req.user!.staff_id ?? null,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { admissionPackage },
+  });
+}));
+
+router.delete('/admission/:admissionId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const admissionPackage = await cancelAdmissionPackage(
+    getParamValue(req.params.admissionId),
+    req.user!.staff_id ?? null
+  );
+
+  res.json({
+    success: true,
+    data: { admissionPackage },
+  });
+}));
+
+router.get('/:id', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const billingPackage = await fetchPackageWithInclusions(getParamValue(req.params.id));
+
+  res.json({
+    success: true,
+    data: { package: billingPackage },
+  });
+}));
+
+router.post('/', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const {
+    code,
+    name,
+    description,
+    package_price,
+    included_days = 0,
+    room_type,
+    inclusions = [],
+  } = req.body;
+
+  if (!code || !name) {
+    throw createError('code and name are required', 400);
+  }
+
+  const packagePrice = Number(package_price);
+  const includedDays = Number(included_days);
+
+  if (!Number.isFinite(packagePrice) || packagePrice < 0) {
+    throw createError('package_price must be zero or more', 400);
+  }
+  if (!Number.isInteger(includedDays) || includedDays < 0) {
+    throw createError('included_days must be a whole number of days', 400);
+  }
+
+  const validatedInclusions = validatePackageInclusions(inclusions);
+
+  const { data: created, error } = await supabase
+    .from('billing_packages')
+    .insert({
+      code: String(code).trim().toUpperCase(),
+      name,
+      description: description || null,
+      package_price: packagePrice,
+      included_days: includedDays,
+      room_type: room_type || null,
+      is_active: true,
+      created_by: req.user!.staff_id ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    logger.error('Failed to create billing package', { code, error: error?.message });
+    throw createError(error?.code === '23505' ? 'A package with this code already exists' : 'Failed to create package', error?.code === '23505' ? 409 : 500);
+  }
+
+  await replacePackageInclusions(created.id, validatedInclusions);
+  const billingPackage = await fetchPackageWithInclusions(created.id);
+
+  logger.info('Billing package created', { packageId: created.id, code: billingPackage.code, createdBy: req.user!.staff_id });
+
+  res.status(201).json({
+    success: true,
+    data: { package: billingPackage },
+  });
+}));
+
+// Changes only affect admissions attached afterwards; attached packages keep their price
+router.put('/:id', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { name, description, package_price, included_days, room_type, is_active, inclusions } = req.body;
+
+  await fetchPackageWithInclusions(id);
+
+  const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+  if (name !== undefined) updates.name = name;
+  if (description !== undefined) updates.description = description || null;
+  if (room_type !== undefined) updates.room_type = room_type || null;
+  if (is_active !== undefined) updates.is_active = Boolean(is_active);
+  if (package_price !== undefined) {
+    const packagePrice = Number(package_price);
+    if (!Number.isFinite(packagePrice) || packagePrice < 0) {
+      throw createError('package_price must be zero or more', 400);
+    }
+    updates.package_price = packagePrice;
+  }
+  if (included_days !== undefined) {
+    const includedDays = Number(included_days);
+    if (!Number.isInteger(includedDays) || includedDays < 0) {
+      throw createError('included_days must be a whole number of days', 400);
+    }
+    updates.included_days = includedDays;
+  }
+
+  const validatedInclusions = inclusions !== undefined ? validatePackageInclusions(inclusions) : null;
+
+  const { error } = await supabase
+    .from('billing_packages')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to update billing package', { packageId: id, error: error.message });
+    throw createError('Failed to update package', 500);
+  }
+
+  if (validatedInclusions) {
+    await replacePackageInclusions(id, validatedInclusions);
+  }
+
+  const billingPackage = await fetchPackageWithInclusions(id);
+
+  res.json({
+    success: true,
+    data: { package: billingPackage },
+  });
+}));
+
+export default router;
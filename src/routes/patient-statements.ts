@@ -0,0 +1,68 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import { isIstDateString } from '../utils/ist-date.js';
+import { generatePatientStatementPDF } from '../utils/pdf-generator.js';
+import { buildPatientStatement, PatientStatementOptions } from '../services/patient-statement-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const getQueryValue = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// from is optional (statement from the first admission); to defaults to today (IST)
+const resolveStatementOptions = (query: Record<string, unknown>): PatientStatementOptions => {
+  const from = getQueryValue(query.from) ?? null;
+  const to = getQueryValue(query.to) ?? null;
+
+  if ((from && !isIstDateString(from)) || (to && !isIstDateString(to))) {
+    throw createError('from and to must be in YYYY-MM-DD format', 400);
+  }
+
+  return { from, to, admissionId: getQueryValue(query.admission_id) ?? null };
+};
+
+const fetchStaffName = async (staffId?: string | null) => {
+  if (!staffId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('staff')
+    .select('first_name, last_name')
+    .eq('id', staffId)
+    .maybeSingle();
+
+  return data ? `${data.first_name ?? ''} ${data.last_name ?? ''}`.trim() || null : null;
+};
+
+// Invoices, payments, deposits, refunds and credit notes across a patient's admissions with running balances
+router.get('/patient/:patientId/statement', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const statement = await buildPatientStatement(getParamValue(req.params.patientId), resolveStatementOptions(req.query));
+
+  res.json({
+    success: true,
+    data: statement,
+  });
+}));
+
+router.get('/patient/:patientId/statement/pdf', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const statement = await buildPatientStatement(getParamValue(req.params.patientId), resolveStatementOptions(req.query));
+
+  const pdfBuffer = await generatePatientStatementPDF({
+    statement,
+    generatedBy: await fetchStaffName(req.user!.staff_id) ?? req.user!.email,
+  });
+
+  const fileRef = (statement.patient.patientId ?? statement.patient.id).replace(/[^A-Za-z0-9-]/g, '-');
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="statement-${fileRef}-${statement.to}.pdf"`);
+  res.setHeader('Content-Length', pdfBuffer.length);
+  res.send(pdfBuffer);
+}));
+
+export default router;
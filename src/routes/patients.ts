@@ -5,6 +5,7 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, requireReception, AuthenticatedRequest } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
+import { allocateDocumentNumber } from '../services/sequence-service.js';
 import { env } from '../config/env.js';
 
 const router = Router();
@@ -208,20 +209,7 @@ router.post('/', authenticateToken, requireReception, asyncHandler(async (req: A
   }
 
   // Generate patient ID
-  const { data: lastPatient } = await supabase
-    .from('patients')
-    .select('patient_id')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
-
-  let nextId = 1;
-  if (lastPatient?.patient_id) {
-    const lastNum = parseInt(lastPatient.patient_id.replace('P', ''));
-    nextId = lastNum + 1;
-  }
-
-  const patient_id = `P${nextId.toString().padStart(6, '0')}`;
+  const patient_id = await allocateDocumentNumber('patient');
 
   const aadhaarKey = extractKeyFromUrl(aadhaar_number ? aadhaar_url : null) ?? extractKeyFromUrl(aadhaar_url);
   const panKey = extractKeyFromUrl(pan_number ? pan_url : null) ?? extractKeyFromUrl(pan_url);
@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import {
+  buildSimulatedCallback,
+  GatewayCallback,
+  PAYMENT_GATEWAY_EVENT_SELECT,
+  processGatewayCallback,
+  verifyGatewaySignature,
+} from '../services/upi-payment-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const GATEWAY_EVENT_STATUSES = ['processing', 'posted', 'ignored', 'unmatched', 'failed'];
+
+const handleSignedCallback = async (
+  rawBody: Buffer,
+  signature?: string | null,
+  timestamp?: string | null,
+  options: { simulated?: boolean } = {}
+) => {
+  verifyGatewaySignature(rawBody, signature, timestamp);
+
+  let callback: GatewayCallback;
+  try {
+    callback = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw createError('Callback body is not valid JSON', 400);
+  }
+
+  return processGatewayCallback(callback, options);
+};
+
+// Gateway callbacks: app.ts hands this route the raw body so the signature can be checked byte for byte
+router.post('/webhook', asyncHandler(async (req: Request, res: Response) => {
+  if (!Buffer.isBuffer(req.body)) {
+    throw createError('Expected a raw JSON body', 400);
+  }
+
+  const event = await handleSignedCallback(req.body, req.get('x-gateway-signature'), req.get('x-gateway-timestamp'));
+
+  res.json({
+    success: true,
+    data: { status: event?.status ?? 'received' },
+  });
+}));
+
+// Signs a gateway-style success callback for an invoice and runs it through the webhook path.
+// Off unless PAYMENT_GATEWAY_SIMULATOR=true: it posts a payment without any money received.
+router.post('/simulate', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!env.PAYMENT_GATEWAY_SIMULATOR) {
+    throw createError('Payment gateway simulator is disabled', 404);
+  }
+
+  const { invoice_id, amount, vpa } = req.body ?? {};
+  if (!invoice_id) {
+    throw createError('invoice_id is required', 400);
+  }
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, balance, patient_balance')
+    .eq('id', invoice_id)
+    .maybeSingle();
+
+  if (error || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const simulated = buildSimulatedCallback(
+    invoice.invoice_number,
+    amount !== undefined ? Number(amount) : Number(invoice.patient_balance ?? invoice.balance ?? 0),
+    vpa
+  );
+
+  logger.info('Simulated gateway callback', { invoiceId: invoice.id, requestedBy: req.user!.staff_id });
+
+  const event = await handleSignedCallback(Buffer.from(simulated.rawBody), simulated.signature, simulated.timestamp, {
+    simulated: true,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      event,
+      request: {
+        headers: { 'x-gateway-signature': simulated.signature, 'x-gateway-timestamp': simulated.timestamp },
+        body: JSON.parse(simulated.rawBody),
+      },
+    },
+  });
+}));
+
+// Callbacks awaiting manual reconciliation by default
+router.get('/events', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const statusParam = (req.query.status as string | undefined) ?? 'unmatched,failed';
+  const statuses = statusParam.split(',').map((value) => value.trim()).filter(Boolean);
+
+  if (!statuses.length || statuses.some((status) => !GATEWAY_EVENT_STATUSES.includes(status))) {
+    throw createError(`status must be one or more of: ${GATEWAY_EVENT_STATUSES.join(', ')}`, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('payment_gateway_events')
+    .select(PAYMENT_GATEWAY_EVENT_SELECT)
+    .in('status', statuses)
+    .order('received_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    logger.error('Failed to fetch payment gateway events', { error: error.message });
+    throw createError('Failed to fetch payment gateway events', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { events: data ?? [] },
+  });
+}));
+
+export default router;
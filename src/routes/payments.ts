@@ -0,0 +1,479 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { sendEmail } from '../utils/mailer.js';
+import { generateReceiptPDF } from '../utils/pdf-generator.js';
+import {
+  PAYMENT_SELECT,
+  fetchInvoicePayments,
+  isPaymentMethod,
+  PAYMENT_METHODS,
+  recalculateInvoicePayments,
+  recordPayment,
+  resolveAmountPayable,
+  roundCurrency,
+} from '../services/payment-service.js';
+import { assertDepositApplicationReleasable, releaseDepositApplication } from '../services/deposit-service.js';
+import { assertBusinessDayOpen } from '../services/day-book-service.js';
+import { buildUpiPaymentQr } from '../services/upi-payment-service.js';
+import { fetchPaymentReceipt, markReceiptEmailed, PaymentReceipt } from '../services/receipt-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+const attachCollectorNames = async (payments: any[]) => {
+  const staffIds = Array.from(
+    new Set(payments.flatMap((payment) => [payment.collected_by, payment.voided_by]).filter(Boolean))
+  );
+
+  if (!staffIds.length) {
+    return payments.map((payment) => ({ ...payment, collected_by_name: null, voided_by_name: null }));
+  }
+
+  const { data: staffData, error } = await supabase
+    .from('staff')
+    .select('id, first_name, last_name')
+    .in('id', staffIds);
+
+  if (error) {
+    logger.warn('Failed to resolve payment collectors', { error: error.message });
+  }
+
+  const staffMap = new Map(
+    (staffData ?? []).map((member) => [
+      member.id,
+      `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim() || null,
+    ])
+  );
+
+  return payments.map((payment) => ({
+    ...payment,
+    collected_by_name: payment.collected_by ? staffMap.get(payment.collected_by) ?? null : null,
+    voided_by_name: payment.voided_by ? staffMap.get(payment.voided_by) ?? null : null,
+  }));
+};
+
+const escapeHtml = (value = ''): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const receiptFilename = (receipt: PaymentReceipt) =>
+  `receipt-${String(receipt.payment.receipt_number).replace(/\//g, '-')}.pdf`;
+
+const renderReceiptPdf = (receipt: PaymentReceipt) =>
+  generateReceiptPDF({
+    payment: receipt.payment,
+    invoice: receipt.invoice,
+    patientName: receipt.patientName,
+    patientUid: receipt.patientUid,
+    collectedByName: receipt.collectedByName,
+    amountInWords: receipt.amountInWords,
+    balanceAfter: receipt.balanceAfter,
+  });
+
+const buildReceiptEmailHtml = (receipt: PaymentReceipt, message?: string): string => {
+  const amount = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 })
+    .format(Number(receipt.payment.amount || 0));
+  const lines = (message || `Thank you for your payment. Your receipt ${receipt.payment.receipt_number} is attached for your records.`)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => `<p style="margin: 0 0 12px;">${escapeHtml(line)}</p>`)
+    .join('');
+
+  return `
+    <div style="font-family: 'Segoe UI', Arial, sans-serif; color: #2c3e50; line-height: 1.6;">
+      <p style="margin: 0 0 12px;">Dear ${escapeHtml(receipt.patientName || 'Patient')},</p>
+      ${lines}
+      <div style="margin: 24px 0; padding: 16px; border: 1px solid #dfe6e9; border-radius: 10px; background: #f8fbfc;">
+        <h3 style="margin: 0 0 12px; color: #1a5f7a;">Payment Receipt</h3>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          <tbody>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Receipt #</td>
+              <td style="padding: 6px 0; font-weight: 600;">${escapeHtml(receipt.payment.receipt_number)}</td>
+            </tr>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Invoice #</td>
+              <td style="padding: 6px 0; font-weight: 600;">${escapeHtml(receipt.invoice.invoice_number || '--')}</td>
+            </tr>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Amount</td>
+              <td style="padding: 6px 0; font-weight: 600;">${amount}<br/><span style="font-weight: 400; color: #7f8c8d;">${escapeHtml(receipt.amountInWords)}</span></td>
+            </tr>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Payment Mode</td>
+              <td style="padding: 6px 0; font-weight: 600; text-transform: uppercase;">${escapeHtml(String(receipt.payment.payment_method).replace(/_/g, ' '))}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p style="margin: 0 0 12px;">Regards,<br/>${escapeHtml(env.HOSPITAL_NAME)}<br/>${escapeHtml(env.HOSPITAL_PHONE)} | ${escapeHtml(env.HOSPITAL_EMAIL)}</p>
+    </div>
+  `;
+};
+
+const fetchPaymentForInvoice = async (invoiceId: string, paymentId: string) => {
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .select(PAYMENT_SELECT)
+    .eq('id', paymentId)
+    .eq('invoice_id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch payment', { invoiceId, paymentId, error: error.message });
+    throw createError('Failed to fetch payment', 500);
+  }
+
+  if (!payment) {
+    throw createError('Payment not found', 404);
+  }
+
+  return payment;
+};
+
+// List payments recorded against an invoice
+router.get('/:id/payments', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const includeVoided = req.query.includeVoided === 'true';
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, total_amount, amount_payable, paid_amount, balance, status')
+    .eq('id', id)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const payments = await attachCollectorNames(await fetchInvoicePayments(id, includeVoided));
+  const totalPaid = roundCurrency(
+    payments
+      .filter((payment) => payment.status === 'completed')
+      .reduce((sum, payment) => sum + Number(payment.amount || 0), 0)
+  );
+  const amountPayable = resolveAmountPayable(invoice);
+
+  res.json({
+    success: true,
+    data: {
+      invoice,
+      payments,
+      summary: {
+        amountPayable,
+        totalPaid,
+        balance: roundCurrency(Math.max(0, amountPayable - totalPaid)),
+      },
+    },
+  });
+}));
+
+// Record a payment against an invoice
+router.post('/:id/payments', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { amount, payment_method, payment_reference, payment_date, notes, payer } = req.body;
+
+  if (amount === undefined || !payment_method) {
+    throw createError('amount and payment_method are required', 400);
+  }
+
+  // payer 'tpa' posts an insurer settlement against the TPA share
+  const { payment, invoice } = await recordPayment({
+    invoiceId: id,
+    amount: Number(amount),
+    paymentMethod: payment_method,
+    paymentReference: payment_reference,
+    paymentDate: payment_date,
+    notes,
+    collectedBy: req.user!.staff_id,
+    payer: payer || undefined,
+  });
+
+  const [paymentWithCollector] = await attachCollectorNames([payment]);
+
+  res.status(201).json({
+    success: true,
+    data: { payment: paymentWithCollector, invoice },
+  });
+}));
+
+// Correct a recorded payment (method, reference, date, notes or amount)
+router.put('/:id/payments/:paymentId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const paymentId = getParamValue(req.params.paymentId);
+  const { amount, payment_method, payment_reference, payment_date, notes } = req.body;
+
+  const existing = await fetchPaymentForInvoice(id, paymentId);
+
+  if (existing.status !== 'completed') {
+    throw createError('Voided payments cannot be edited', 400);
+  }
+
+  if (existing.deposit_id) {
+    throw createError('Deposit applications cannot be edited; void the payment instead', 400);
+  }
+
+  await assertBusinessDayOpen(existing.payment_date);
+  if (payment_date !== undefined) {
+    await assertBusinessDayOpen(payment_date);
+  }
+
+  const updates: Record<string, any> = {
+    updated_at: new Date().toISOString(),
+  };
+
+  if (amount !== undefined) {
+    const newAmount = roundCurrency(Number(amount));
+    if (!Number.isFinite(newAmount) || newAmount <= 0) {
+      throw createError('Payment amount must be greater than zero', 400);
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('total_amount, amount_payable, paid_amount, written_off_amount, credited_amount')
+      .eq('id', id)
+      .single();
+
+    if (invoiceError || !invoice) {
+      throw createError('Invoice not found', 404);
+    }
+
+    const outstandingExcludingThis =
+      resolveAmountPayable(invoice) -
+      (Number(invoice.paid_amount || 0) - Number(existing.amount || 0)) -
+      Number(invoice.written_off_amount || 0) -
+      Number(invoice.credited_amount || 0);
+    if (newAmount > roundCurrency(outstandingExcludingThis)) {
+      throw createError(`Payment exceeds outstanding balance of ${roundCurrency(outstandingExcludingThis).toFixed(2)}`, 400);
+    }
+
+    updates.amount = newAmount;
+  }
+
+  if (payment_method !== undefined) {
+    if (!isPaymentMethod(payment_method)) {
+      throw createError(`payment_method must be one of: ${PAYMENT_METHODS.join(', ')}`, 400);
+    }
+    updates.payment_method = payment_method;
+  }
+
+  if (payment_reference !== undefined) updates.payment_reference = payment_reference || null;
+  if (payment_date !== undefined) updates.payment_date = new Date(payment_date).toISOString();
+  if (notes !== undefined) updates.notes = notes || null;
+
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .update(updates)
+    .eq('id', paymentId)
+    .select(PAYMENT_SELECT)
+    .single();
+
+  if (error || !payment) {
+    logger.error('Failed to update payment', { invoiceId: id, paymentId, error: error?.message });
+    throw createError('Payment not found or update failed', 404);
+  }
+
+  const invoice = await recalculateInvoicePayments(id);
+
+  logger.info('Payment updated', {
+    invoiceId: id,
+    paymentId,
+    updatedBy: req.user!.staff_id,
+  });
+
+  const [paymentWithCollector] = await attachCollectorNames([payment]);
+
+  res.json({
+    success: true,
+    data: { payment: paymentWithCollector, invoice },
+  });
+}));
+
+// Void a payment; the row is kept so cash drawers can still be reconciled
+router.delete('/:id/payments/:paymentId', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const paymentId = getParamValue(req.params.paymentId);
+  const reason = (req.body?.reason as string | undefined)?.trim();
+
+  if (!reason) {
+    throw createError('reason is required to void a payment', 400);
+  }
+
+  const existing = await fetchPaymentForInvoice(id, paymentId);
+
+  if (existing.status === 'voided') {
+    throw createError('Payment is already voided', 400);
+  }
+
+  if (existing.deposit_id) {
+    await assertDepositApplicationReleasable(existing.deposit_id);
+  } else {
+    await assertBusinessDayOpen(existing.payment_date);
+  }
+
+  const nowIso = new Date().toISOString();
+
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .update({
+      status: 'voided',
+      voided_by: req.user!.staff_id,
+      voided_at: nowIso,
+      void_reason: reason,
+      updated_at: nowIso,
+    })
+    .eq('id', paymentId)
+    .select(PAYMENT_SELECT)
+    .single();
+
+  if (error || !payment) {
+    logger.error('Failed to void payment', { invoiceId: id, paymentId, error: error?.message });
+    throw createError('Payment not found or void failed', 404);
+  }
+
+  if (payment.deposit_id) {
+    await releaseDepositApplication(payment.deposit_id, Number(payment.amount || 0));
+  }
+
+  const invoice = await recalculateInvoicePayments(id);
+
+  logger.info('Payment voided', {
+    invoiceId: id,
+    paymentId,
+    amount: payment.amount,
+    reason,
+    voidedBy: req.user!.staff_id,
+  });
+
+  const [paymentWithCollector] = await attachCollectorNames([payment]);
+
+  res.json({
+    success: true,
+    data: { payment: paymentWithCollector, invoice },
+  });
+}));
+
+// Receipt details for a payment; numbers legacy payments on first request
+router.get('/:id/payments/:paymentId/receipt', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const receipt = await fetchPaymentReceipt(getParamValue(req.params.id), getParamValue(req.params.paymentId));
+
+  res.json({
+    success: true,
+    data: {
+      receipt: {
+        receiptNumber: receipt.payment.receipt_number,
+        payment: receipt.payment,
+        invoiceNumber: receipt.invoice.invoice_number,
+        patientName: receipt.patientName,
+        patientUid: receipt.patientUid,
+        collectedByName: receipt.collectedByName,
+        amountInWords: receipt.amountInWords,
+        balanceAfter: receipt.balanceAfter,
+      },
+    },
+  });
+}));
+
+// UPI intent and QR (PNG data URL) for the balance still owed, for display at the billing counter
+router.get('/:id/upi-qr', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, lifecycle_status, balance, patient_balance')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const upiPayment = await buildUpiPaymentQr(invoice);
+  if (!upiPayment) {
+    throw createError('Nothing is owed on this invoice, or UPI collection is not configured', 409);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      uri: upiPayment.uri,
+      amount: upiPayment.amount,
+      qrCode: `data:image/png;base64,${upiPayment.qrCode.toString('base64')}`,
+    },
+  });
+}));
+
+router.get('/:id/payments/:paymentId/receipt/pdf', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const receipt = await fetchPaymentReceipt(getParamValue(req.params.id), getParamValue(req.params.paymentId));
+  const pdfBuffer = await renderReceiptPdf(receipt);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${receiptFilename(receipt)}"`);
+  res.setHeader('Content-Length', pdfBuffer.length);
+  res.send(pdfBuffer);
+}));
+
+router.post('/:id/payments/:paymentId/receipt/email', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { email, subject, message } = req.body;
+  const receipt = await fetchPaymentReceipt(getParamValue(req.params.id), getParamValue(req.params.paymentId));
+
+  if (receipt.payment.status !== 'completed') {
+    throw createError('Voided payments cannot be receipted by email', 400);
+  }
+
+  const recipient = email || receipt.patientEmail;
+  if (!recipient) {
+    throw createError('Patient email not found', 400);
+  }
+
+  try {
+    await sendEmail({
+      to: recipient,
+      subject: subject || `Receipt ${receipt.payment.receipt_number} - ${env.HOSPITAL_NAME}`,
+      html: buildReceiptEmailHtml(receipt, message),
+      attachments: [
+        {
+          filename: receiptFilename(receipt),
+          content: await renderReceiptPdf(receipt),
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+  } catch (error) {
+    logger.error('Failed to send receipt email', {
+      paymentId: receipt.payment.id,
+      error: error instanceof Error ? error.message : error,
+    });
+    throw createError('Failed to send receipt email', 500);
+  }
+
+  await markReceiptEmailed(receipt.payment.id);
+
+  logger.info('Receipt email sent', {
+    paymentId: receipt.payment.id,
+    receiptNumber: receipt.payment.receipt_number,
+    recipient,
+    sentBy: req.user!.staff_id,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      receipt_number: receipt.payment.receipt_number,
+      recipient,
+    },
+  });
+}));
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString, toIstDateString } from '../utils/ist-date.js';
+import { runDunningReminders, runOverdueMarking } from '../cron/index.js';
+import { buildAgingReport, setInvoiceDueDate } from '../services/receivables-service.js';
+import {
+  fetchDunningStages,
+  INVOICE_REMINDER_SELECT,
+  saveDunningStage,
+  sendInvoiceReminder,
+} from '../services/dunning-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// Outstanding patient and TPA balances in 0-30, 31-60, 61-90 and 90+ day buckets by invoice age
+router.get('/reports/aging', authenticateToken, requireBilling, asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  const report = await buildAgingReport();
+
+  res.json({
+    success: true,
+    data: report,
+  });
+}));
+
+router.get('/dunning-stages', authenticateToken, requireBilling, asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  const stages = await fetchDunningStages();
+
+  res.json({
+    success: true,
+    data: { stages },
+  });
+}));
+
+// Add a reminder stage: days after the due date, email subject and optional message (admin only)
+router.post('/dunning-stages', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const stage = await saveDunningStage(null, req.body ?? {}, req.user!.staff_id ?? null);
+
+  res.status(201).json({
+    success: true,
+    data: { stage },
+  });
+}));
+
+router.patch('/dunning-stages/:stageId', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const stage = await saveDunningStage(getParamValue(req.params.stageId), req.body ?? {}, req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { stage },
+  });
+}));
+
+// Mark overdue invoices and send today's reminders now; runs already completed today are skipped
+router.post('/dunning/run', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const today = toIstDateString();
+
+  logger.info('Manual dunning run requested', { runDate: today, requestedBy: req.user!.staff_id });
+
+  const overdue = await runOverdueMarking(today);
+  const reminders = await runDunningReminders(today);
+
+  res.json({
+    success: true,
+    data: { overdue, reminders },
+  });
+}));
+
+router.patch('/:id/due-date', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { due_date } = req.body;
+
+  if (!isIstDateString(due_date)) {
+    throw createError('due_date must be in YYYY-MM-DD format', 400);
+  }
+
+  const invoice = await setInvoiceDueDate(getParamValue(req.params.id), due_date);
+
+  res.json({
+    success: true,
+    data: { invoice },
+  });
+}));
+
+router.get('/:id/reminders', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('invoice_reminders')
+    .select(INVOICE_REMINDER_SELECT)
+    .eq('invoice_id', id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch invoice reminders', { invoiceId: id, error: error.message });
+    throw createError('Failed to fetch reminders', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { reminders: data ?? [] },
+  });
+}));
+
+// Send a payment reminder by hand, optionally to a different address
+router.post('/:id/reminders', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const reminder = await sendInvoiceReminder(getParamValue(req.params.id), {
+    sentBy: req.user!.staff_id ?? null,
+    email: req.body?.email,
+  });
+
+  if (reminder?.status !== 'sent') {
+    throw createError(`Reminder not sent: ${reminder?.error ?? 'unknown error'}`, reminder?.status === 'skipped' ? 400 : 502);
+  }
+
+  res.status(201).json({
+    success: true,
+    data: { reminder },
+  });
+}));
+
+export default router;
@@ -3,6 +3,7 @@ import { createClient } from '@supabase/supabase-js';
 import { asyncHandler, createError } from '../middlewares/errorHandler.js';
 import { authenticateToken, AuthenticatedRequest, requireAdmin } from '../middlewares/auth.js';
 import { logger } from '../utils/logger.js';
+import { moveAdmissionRoom } from '../services/admission-state-service.js';
 
 const router = Router();
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
@@ -39,78 +40,26 @@ router.get('/admission/:admissionId', authenticateToken, asyncHandler(async (req
   });
 }));
 
-// Add new room history entry (manual room change)
+// Manual room change: moved through the admission state machine as a transfer
 router.post('/admission/:admissionId', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { admissionId } = req.params;
-  const { roomId, bedId, roomType, ratePerDay, startDate } = req.body;
+  const { roomId, bedId, startDate, notes } = req.body;
 
-  const nowIso = new Date().toISOString();
-
-  // Determine current active room entry to release associated bed
-  const { data: activeEntries, error: activeError } = await supabase
-    .from('room_history')
-    .select('bed_id')
-    .eq('admission_id', admissionId)
-    .is('end_date', null);
-
-  if (activeError) {
-    logger.error('Failed to fetch active room entries before update', { admissionId, error: activeError });
-    throw createError('Failed to prepare room history update', 500);
-  }
-
-  // Fetch admission to access patient for bed assignment
-  const { data: admissionRecord, error: admissionError } = await supabase
-    .from('admissions')
-    .select('patient_id')
-    .eq('id', admissionId)
-    .maybeSingle();
-
-  if (admissionError || !admissionRecord) {
-    logger.error('Failed to fetch admission for room history update', { admissionId, error: admissionError });
-    throw createError('Admission not found for room history update', 404);
+  if (!roomId) {
+    throw createError('roomId is required', 400);
   }
 
-  // First, close any existing room history entries
-  await supabase
-    .from('room_history')
-    .update({ end_date: nowIso })
-    .eq('admission_id', admissionId)
-    .is('end_date', null);
-
-  // Release any previously occupied beds
-  if (activeEntries?.length) {
-    const bedIdsToRelease = activeEntries
-      .map((entry) => entry.bed_id)
-      .filter((value): value is string => Boolean(value));
-
-    if (bedIdsToRelease.length) {
-      const { error: releaseError } = await supabase
-        .from('beds')
-        .update({
-          current_patient_id: null,
-          status: 'available',
-          updated_at: nowIso,
-        })
-        .in('id', bedIdsToRelease);
-
-      if (releaseError) {
-        logger.error('Failed to release previous beds during room history update', { admissionId, releaseError });
-      }
-    }
-  }
+  await moveAdmissionRoom(String(admissionId), {
+    roomId,
+    bedId: bedId || null,
+    at: startDate || null,
+    notes: typeof notes === 'string' ? notes : null,
+    performedBy: req.user?.staff_id ?? null,
+    role: req.user?.role ?? null,
+  });
 
-  // Create new room history entry
   const { data: newEntry, error } = await supabase
     .from('room_history')
-    .insert({
-      admission_id: admissionId,
-      room_id: roomId,
-      bed_id: bedId || null,
-      room_type: roomType,
-      rate_per_day: ratePerDay,
-      start_date: startDate || new Date().toISOString(),
-      created_by: req.user?.id
-    })
     .select(`
       *,
       rooms (
@@ -123,42 +72,15 @@ router.post('/admission/:admissionId', authenticateToken, asyncHandler(async (re
         bed_number
       )
     `)
-    .single();
+    .eq('admission_id', admissionId)
+    .is('end_date', null)
+    .order('start_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
   if (error) {
-    logger.error('Failed to create room history entry', { admissionId, error });
-    throw createError('Failed to create room history entry', 500);
-  }
-
-  // Update admission with new room
-  await supabase
-    .from('admissions')
-    .update({
-      room_id: roomId,
-      bed_id: bedId,
-      updated_by: req.user?.id,
-      updated_at: nowIso
-    })
-    .eq('id', admissionId);
-
-  // Assign patient to new bed if provided
-  if (bedId) {
-    const { error: assignError } = await supabase
-      .from('beds')
-      .update({
-        current_patient_id: admissionRecord.patient_id,
-        status: 'occupied',
-        updated_at: nowIso,
-      })
-      .eq('id', bedId);
-
-    if (assignError) {
-      logger.error('Failed to assign patient to new bed during room history update', {
-        admissionId,
-        bedId,
-        assignError,
-      });
-    }
+    logger.error('Failed to fetch room history entry after room change', { admissionId, error });
+    throw createError('Room changed but the new room history entry could not be loaded', 500);
   }
 
   logger.info('Room history entry created', { admissionId, roomId, userId: req.user?.id });
@@ -0,0 +1,120 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { addIstDays, isIstDateString, toIstDateString } from '../utils/ist-date.js';
+import { CRON_RUN_SELECT } from '../cron/job-runner.js';
+import { runRoomChargeAccrual } from '../cron/index.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+// Live running bill of every inpatient: the open interim invoice each nightly accrual feeds
+router.get('/running-bills', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      admission_id,
+      total_amount,
+      tax_total,
+      amount_payable,
+      paid_amount,
+      balance,
+      updated_at,
+      admissions!inner (
+        id,
+        admission_date,
+        status,
+        patients ( id, patient_id, first_name, last_name ),
+        rooms ( room_number, room_type )
+      )
+    `)
+    .eq('invoice_type', 'interim')
+    .eq('lifecycle_status', 'draft')
+    .eq('admissions.status', 'active')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch running bills', { error: error.message });
+    throw createError('Failed to fetch running bills', 500);
+  }
+
+  const { data: roomDays } = await supabase
+    .from('charge_entries')
+    .select('admission_id, charge_date')
+    .eq('source_type', 'room_day')
+    .is('voided_at', null)
+    .in('admission_id', (data ?? []).map((invoice) => invoice.admission_id))
+    .order('charge_date', { ascending: false });
+
+  const lastAccrued = new Map<string, string>();
+  (roomDays ?? []).forEach((roomDay) => {
+    if (!lastAccrued.has(roomDay.admission_id)) {
+      lastAccrued.set(roomDay.admission_id, roomDay.charge_date);
+    }
+  });
+
+  res.json({
+    success: true,
+    data: {
+      runningBills: (data ?? []).map((invoice) => ({
+        ...invoice,
+        lastAccruedDate: lastAccrued.get(invoice.admission_id) ?? null,
+      })),
+    },
+  });
+}));
+
+router.get('/cron-runs', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { job_name } = req.query;
+  const limit = Math.min(100, parseInt(req.query.limit as string, 10) || 30);
+
+  let query = supabase
+    .from('cron_job_runs')
+    .select(CRON_RUN_SELECT)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (typeof job_name === 'string' && job_name) {
+    query = query.eq('job_name', job_name);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch cron runs', { error: error.message });
+    throw createError('Failed to fetch cron runs', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { runs: data ?? [] },
+  });
+}));
+
+// Re-run accrual for a day (defaults to yesterday); days already accrued are skipped
+router.post('/room-accruals/run', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const today = toIstDateString();
+  const accrualDate = req.body?.accrual_date ?? addIstDays(today, -1);
+
+  if (!isIstDateString(accrualDate)) {
+    throw createError('accrual_date must be in YYYY-MM-DD format', 400);
+  }
+  if (accrualDate >= today) {
+    throw createError('Only days that have ended can be accrued', 400);
+  }
+
+  logger.info('Manual room accrual requested', { accrualDate, requestedBy: req.user!.staff_id });
+
+  const result = await runRoomChargeAccrual(accrualDate);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+export default router;
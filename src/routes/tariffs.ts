@@ -0,0 +1,309 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import {
+  assertVersionEditable,
+  createPriceListVersion,
+  fetchPriceListVersion,
+  fetchTariffItems,
+  isPayerType,
+  isTariffChargeType,
+  loadTariffContext,
+  PAYER_TYPES,
+  PRICE_LIST_SELECT,
+  PRICE_LIST_VERSION_SELECT,
+  publishPriceListVersion,
+  resolveTariffPrice,
+  TARIFF_CHARGE_TYPES,
+  TARIFF_ITEM_SELECT,
+} from '../services/tariff-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// List price lists with their versions
+router.get('/', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const includeInactive = req.query.include_inactive === 'true';
+
+  let query = supabase
+    .from('price_lists')
+    .select(`${PRICE_LIST_SELECT}, price_list_versions ( ${PRICE_LIST_VERSION_SELECT} ), tpa_partners ( id, name )`)
+    .order('name');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch price lists', { error: error.message });
+    throw createError('Failed to fetch price lists', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { priceLists: data ?? [] },
+  });
+}));
+
+// Preview the price an admission (or an explicit price list) would be charged
+router.get('/resolve', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { admission_id, price_list_id, charge_type, reference_id, charge_code } = req.query;
+
+  if (!isTariffChargeType(charge_type)) {
+    throw createError(`charge_type must be one of: ${TARIFF_CHARGE_TYPES.join(', ')}`, 400);
+  }
+
+  const context = await loadTariffContext({
+    admissionId: typeof admission_id === 'string' ? admission_id : null,
+    priceListId: typeof price_list_id === 'string' ? price_list_id : null,
+  });
+
+  const price = resolveTariffPrice(context, {
+    chargeType: charge_type,
+    referenceIds: [typeof reference_id === 'string' ? reference_id : null],
+    chargeCode: typeof charge_code === 'string' ? charge_code : null,
+  });
+
+  if (!price) {
+    throw createError('No tariff price configured for this charge', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { price },
+  });
+}));
+
+router.post('/', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const {
+    code,
+    name,
+    description,
+    payer_type = 'self_pay',
+    tpa_partner_id,
+    room_type,
+    is_default = false,
+  } = req.body;
+
+  if (!code || !name) {
+    throw createError('code and name are required', 400);
+  }
+
+  if (!isPayerType(payer_type)) {
+    throw createError(`payer_type must be one of: ${PAYER_TYPES.join(', ')}`, 400);
+  }
+
+  if (payer_type === 'tpa' && !tpa_partner_id) {
+    throw createError('tpa_partner_id is required for TPA price lists', 400);
+  }
+
+  if (is_default) {
+    await supabase.from('price_lists').update({ is_default: false }).eq('is_default', true);
+  }
+
+  const { data: priceList, error } = await supabase
+    .from('price_lists')
+    .insert({
+      code: String(code).trim().toUpperCase(),
+      name,
+      description: description || null,
+      payer_type,
+      tpa_partner_id: payer_type === 'tpa' ? tpa_partner_id : null,
+      room_type: room_type || null,
+      is_default: Boolean(is_default),
+      is_active: true,
+      created_by: req.user!.staff_id ?? null,
+    })
+    .select(PRICE_LIST_SELECT)
+    .single();
+
+  if (error || !priceList) {
+    logger.error('Failed to create price list', { code, error: error?.message });
+    throw createError(error?.code === '23505' ? 'A price list with this code already exists' : 'Failed to create price list', error?.code === '23505' ? 409 : 500);
+  }
+
+  logger.info('Price list created', { priceListId: priceList.id, code: priceList.code, createdBy: req.user!.staff_id });
+
+  res.status(201).json({
+    success: true,
+    data: { priceList },
+  });
+}));
+
+router.put('/:id', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { name, description, room_type, is_default, is_active } = req.body;
+
+  const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+  if (name !== undefined) updates.name = name;
+  if (description !== undefined) updates.description = description || null;
+  if (room_type !== undefined) updates.room_type = room_type || null;
+  if (is_active !== undefined) updates.is_active = Boolean(is_active);
+  if (is_default !== undefined) updates.is_default = Boolean(is_default);
+
+  if (updates.is_default) {
+    await supabase.from('price_lists').update({ is_default: false }).eq('is_default', true).neq('id', id);
+  }
+
+  const { data: priceList, error } = await supabase
+    .from('price_lists')
+    .update(updates)
+    .eq('id', id)
+    .select(PRICE_LIST_SELECT)
+    .single();
+
+  if (error || !priceList) {
+    logger.error('Failed to update price list', { priceListId: id, error: error?.message });
+    throw createError('Failed to update price list', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { priceList },
+  });
+}));
+
+router.get('/:id/versions', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('price_list_versions')
+    .select(PRICE_LIST_VERSION_SELECT)
+    .eq('price_list_id', id)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch price list versions', { priceListId: id, error: error.message });
+    throw createError('Failed to fetch price list versions', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { versions: data ?? [] },
+  });
+}));
+
+// Start a new draft version, optionally copying the items of an earlier one
+router.post('/:id/versions', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+  const { copy_from_version_id, notes } = req.body;
+
+  if (copy_from_version_id) {
+    const source = await fetchPriceListVersion(copy_from_version_id);
+    if (source.price_list_id !== id) {
+      throw createError('copy_from_version_id belongs to a different price list', 400);
+    }
+  }
+
+  const version = await createPriceListVersion(id, {
+    copyFromVersionId: copy_from_version_id || null,
+    notes,
+    createdBy: req.user!.staff_id ?? null,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { version },
+  });
+}));
+
+router.get('/versions/:versionId/items', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const versionId = getParamValue(req.params.versionId);
+  const version = await fetchPriceListVersion(versionId);
+  const items = await fetchTariffItems(versionId);
+
+  res.json({
+    success: true,
+    data: { version, items },
+  });
+}));
+
+// Replace the items of a draft version
+router.put('/versions/:versionId/items', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const versionId = getParamValue(req.params.versionId);
+  const { items } = req.body;
+
+  if (!Array.isArray(items)) {
+    throw createError('items must be an array', 400);
+  }
+
+  await assertVersionEditable(versionId);
+
+  const rows = items.map((item: any, index: number) => {
+    const unitPrice = Number(item.unit_price);
+
+    if (!isTariffChargeType(item.charge_type)) {
+      throw createError(`items[${index}].charge_type must be one of: ${TARIFF_CHARGE_TYPES.join(', ')}`, 400);
+    }
+    if (!item.reference_id && !item.charge_code) {
+      throw createError(`items[${index}] needs a reference_id or charge_code`, 400);
+    }
+    if (!item.item_name) {
+      throw createError(`items[${index}].item_name is required`, 400);
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw createError(`items[${index}].unit_price must be zero or more`, 400);
+    }
+
+    return {
+      price_list_version_id: versionId,
+      charge_type: item.charge_type,
+      reference_id: item.reference_id || null,
+      charge_code: item.charge_code || null,
+      item_name: item.item_name,
+      unit: item.unit || 'unit',
+      unit_price: unitPrice,
+    };
+  });
+
+  const { error: deleteError } = await supabase
+    .from('tariff_items')
+    .delete()
+    .eq('price_list_version_id', versionId);
+
+  if (deleteError) {
+    logger.error('Failed to clear tariff items', { versionId, error: deleteError.message });
+    throw createError('Failed to update tariff items', 500);
+  }
+
+  let saved: any[] = [];
+  if (rows.length) {
+    const { data, error } = await supabase
+      .from('tariff_items')
+      .insert(rows)
+      .select(TARIFF_ITEM_SELECT);
+
+    if (error) {
+      logger.error('Failed to save tariff items', { versionId, error: error.message });
+      throw createError(error.code === '23505' ? 'Duplicate tariff items in request' : 'Failed to update tariff items', error.code === '23505' ? 409 : 500);
+    }
+    saved = data ?? [];
+  }
+
+  logger.info('Tariff items replaced', { versionId, itemsCount: saved.length, updatedBy: req.user!.staff_id });
+
+  res.json({
+    success: true,
+    data: { items: saved },
+  });
+}));
+
+router.patch('/versions/:versionId/publish', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const version = await publishPriceListVersion(getParamValue(req.params.versionId), {
+    effectiveFrom: req.body?.effective_from,
+    publishedBy: req.user!.staff_id ?? null,
+  });
+
+  res.json({
+    success: true,
+    data: { version },
+  });
+}));
+
+export default router;
@@ -0,0 +1,98 @@
+import { Router, Response } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler, createError } from '../middlewares/errorHandler.js';
+import { authenticateToken, AuthenticatedRequest, requireAdmin, requireBilling } from '../middlewares/auth.js';
+import { logger } from '../utils/logger.js';
+import { requestWriteOff, reviewWriteOff, WRITE_OFF_SELECT } from '../services/write-off-service.js';
+
+const router = Router();
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const getParamValue = (value: string | string[]): string => (Array.isArray(value) ? value[0] : value);
+
+// List write-offs, optionally filtered by status
+router.get('/write-offs', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { status } = req.query;
+
+  let query = supabase
+    .from('invoice_write_offs')
+    .select(`${WRITE_OFF_SELECT}, invoices ( invoice_number )`)
+    .order('created_at', { ascending: false });
+
+  if (typeof status === 'string' && status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch write-offs', { error: error.message });
+    throw createError('Failed to fetch write-offs', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { writeOffs: data ?? [] },
+  });
+}));
+
+// Approve a pending write-off (admin only, and not the requester)
+router.patch('/write-offs/:writeOffId/approve', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const writeOff = await reviewWriteOff(getParamValue(req.params.writeOffId), 'approved', req.user!.staff_id ?? null);
+
+  res.json({
+    success: true,
+    data: { writeOff },
+  });
+}));
+
+// Reject a pending write-off (admin only)
+router.patch('/write-offs/:writeOffId/reject', authenticateToken, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const writeOff = await reviewWriteOff(getParamValue(req.params.writeOffId), 'rejected', req.user!.staff_id ?? null, {
+    rejectionReason: req.body?.rejection_reason,
+  });
+
+  res.json({
+    success: true,
+    data: { writeOff },
+  });
+}));
+
+router.get('/:id/write-offs', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = getParamValue(req.params.id);
+
+  const { data, error } = await supabase
+    .from('invoice_write_offs')
+    .select(WRITE_OFF_SELECT)
+    .eq('invoice_id', id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch invoice write-offs', { invoiceId: id, error: error.message });
+    throw createError('Failed to fetch write-offs', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { writeOffs: data ?? [] },
+  });
+}));
+
+// Request a write-off of an uncollectable balance; amount defaults to the whole patient balance
+router.post('/:id/write-offs', authenticateToken, requireBilling, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { amount, reason_code, notes } = req.body;
+
+  const writeOff = await requestWriteOff(getParamValue(req.params.id), {
+    amount,
+    reasonCode: reason_code,
+    notes,
+    requestedBy: req.user!.staff_id ?? null,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { writeOff },
+  });
+}));
+
+export default router;
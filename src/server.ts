@@ -1,6 +1,7 @@
 import app from './app.js';
 import { logger } from './utils/logger.js';
-import { startCronJobs } from './cron/index.js';
+import { startCronJobs, stopCronJobs } from './cron/index.js';
+import { resumeInvoiceExportJobs } from './services/invoice-export-service.js';
 
 const PORT = process.env.PORT || 3001;
 
@@ -11,11 +12,15 @@ const server = app.listen(PORT, () => {
   // Start cron jobs for automated billing
   startCronJobs();
   logger.info('📅 Cron jobs started');
+
+  // Pick up bulk invoice exports interrupted by the last shutdown
+  resumeInvoiceExportJobs();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  stopCronJobs();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -24,6 +29,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  stopCronJobs();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
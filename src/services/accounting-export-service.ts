@@ -0,0 +1,501 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { getIstDayBounds, toIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+import { calculateDiscountedSubtotal, calculateInvoiceGst } from './tax-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const LEDGER_MAPPING_SCOPES = ['item_type', 'gst_rate', 'payment_method', 'system'] as const;
+export type LedgerMappingScope = (typeof LEDGER_MAPPING_SCOPES)[number];
+
+export const SYSTEM_LEDGER_KEYS = ['patient_receivable', 'tpa_receivable', 'discount', 'round_off'] as const;
+
+export const LEDGER_MAPPING_SELECT = `
+  id,
+  scope,
+  key,
+  ledger_name,
+  updated_by,
+  updated_at
+`;
+
+export const isLedgerMappingScope = (value: unknown): value is LedgerMappingScope =>
+  typeof value === 'string' && (LEDGER_MAPPING_SCOPES as readonly string[]).includes(value);
+
+export interface LedgerEntry {
+  ledger: string;
+  // Positive is a debit, negative a credit
+  amount: number;
+}
+
+export interface AccountingVoucher {
+  voucherType: 'Sales' | 'Receipt' | 'Journal';
+  voucherNumber: string;
+  date: string;
+  reference: string | null;
+  partyLedger: string;
+  narration: string;
+  entries: LedgerEntry[];
+}
+
+type LedgerMap = Map<string, string>;
+
+const SYSTEM_LEDGER_DEFAULTS: Record<string, string> = {
+  patient_receivable: 'Patient Receivables',
+  tpa_receivable: 'TPA Receivables',
+  discount: 'Discount Allowed',
+  round_off: 'Round Off',
+};
+
+const titleCase = (value: string) =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// Rates in keys drop trailing zeros so 12.00 and 12 find the same mapping
+const rateKey = (rate: number) => String(roundCurrency(rate));
+
+const incomeLedger = (ledgers: LedgerMap, itemType: string, rate: number) =>
+  ledgers.get(`item_type:${itemType}@${rateKey(rate)}`) ??
+  ledgers.get(`item_type:${itemType}`) ??
+  `${titleCase(itemType)} Income`;
+
+const taxLedger = (ledgers: LedgerMap, component: 'cgst' | 'sgst' | 'igst', rate: number) =>
+  ledgers.get(`gst_rate:${component}@${rateKey(rate)}`) ?? `Output ${component.toUpperCase()} @${rateKey(rate)}%`;
+
+// "deposit" is the advances held for patients: deposits are received into it and applied out of it
+const PAYMENT_LEDGER_DEFAULTS: Record<string, string> = {
+  cash: 'Cash',
+  deposit: 'Patient Advances',
+};
+
+const paymentLedger = (ledgers: LedgerMap, method: string) =>
+  ledgers.get(`payment_method:${method}`) ?? PAYMENT_LEDGER_DEFAULTS[method] ?? 'Bank';
+
+const systemLedger = (ledgers: LedgerMap, key: string) =>
+  ledgers.get(`system:${key}`) ?? SYSTEM_LEDGER_DEFAULTS[key];
+
+export const fetchLedgerMappings = async () => {
+  const { data, error } = await supabase
+    .from('accounting_ledger_mappings')
+    .select(LEDGER_MAPPING_SELECT)
+    .order('scope', { ascending: true })
+    .order('key', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch ledger mappings', { error: error.message });
+    throw createError('Failed to fetch ledger mappings', 500);
+  }
+
+  return data ?? [];
+};
+
+// Keys: item_type "room" or "room@12"; gst_rate "cgst@6", "sgst@6" or "igst@12";
+// payment_method "cash", "upi", ... or "deposit"; system one of SYSTEM_LEDGER_KEYS.
+export const saveLedgerMapping = async (
+  input: { scope?: unknown; key?: unknown; ledger_name?: unknown },
+  updatedBy: string | null
+) => {
+  if (!isLedgerMappingScope(input.scope)) {
+    throw createError(`scope must be one of: ${LEDGER_MAPPING_SCOPES.join(', ')}`, 400);
+  }
+
+  const key = typeof input.key === 'string' ? input.key.trim().toLowerCase() : '';
+  const ledgerName = typeof input.ledger_name === 'string' ? input.ledger_name.trim() : '';
+
+  if (!key || !ledgerName) {
+    throw createError('key and ledger_name are required', 400);
+  }
+  if (input.scope === 'gst_rate' && !/^(cgst|sgst|igst)@\d+(\.\d+)?$/.test(key)) {
+    throw createError('gst_rate keys look like cgst@6, sgst@6 or igst@12', 400);
+  }
+  if (input.scope === 'item_type' && !/^[a-z_]+(@\d+(\.\d+)?)?$/.test(key)) {
+    throw createError('item_type keys look like medication or medication@12', 400);
+  }
+  if (input.scope === 'system' && !(SYSTEM_LEDGER_KEYS as readonly string[]).includes(key)) {
+    throw createError(`system keys must be one of: ${SYSTEM_LEDGER_KEYS.join(', ')}`, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('accounting_ledger_mappings')
+    .upsert(
+      { scope: input.scope, key, ledger_name: ledgerName, updated_by: updatedBy, updated_at: new Date().toISOString() },
+      { onConflict: 'scope,key' }
+    )
+    .select(LEDGER_MAPPING_SELECT)
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to save ledger mapping', { scope: input.scope, key, error: error?.message });
+    throw createError('Failed to save ledger mapping', 500);
+  }
+
+  return data;
+};
+
+export const deleteLedgerMapping = async (mappingId: string) => {
+  const { data, error } = await supabase
+    .from('accounting_ledger_mappings')
+    .delete()
+    .eq('id', mappingId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to delete ledger mapping', { mappingId, error: error.message });
+    throw createError('Failed to delete ledger mapping', 500);
+  }
+  if (!data) {
+    throw createError('Ledger mapping not found', 404);
+  }
+};
+
+// Merge entries on the same ledger and drop any that net to zero
+const consolidate = (entries: LedgerEntry[]): LedgerEntry[] => {
+  const totals = new Map<string, number>();
+  entries.forEach((entry) => totals.set(entry.ledger, (totals.get(entry.ledger) ?? 0) + entry.amount));
+  return Array.from(totals.entries())
+    .map(([ledger, amount]) => ({ ledger, amount: roundCurrency(amount) }))
+    .filter((entry) => entry.amount !== 0)
+    .sort((a, b) => b.amount - a.amount);
+};
+
+const patientNameOf = (invoice: any) => {
+  const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+  const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+  return patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : '';
+};
+
+const buildSalesVoucher = (invoice: any, ledgers: LedgerMap): AccountingVoucher => {
+  const items: any[] = invoice.bill_items ?? [];
+  const lineMode = invoice.gst_mode === 'line';
+  const invoiceRate = invoice.include_gst ? Number(invoice.gst_rate ?? 18) : 0;
+  const entries: LedgerEntry[] = [];
+
+  items.forEach((item) => {
+    const rate = lineMode ? Number(item.tax_rate || 0) : invoiceRate;
+    entries.push({ ledger: incomeLedger(ledgers, item.item_type || 'custom', rate), amount: -Number(item.total_price || 0) });
+  });
+
+  const grossAmount = items.reduce((sum, item) => sum + Number(item.total_price || 0), 0);
+  const discount = roundCurrency(grossAmount - calculateDiscountedSubtotal({ ...invoice, total_amount: grossAmount }));
+  if (discount > 0) {
+    entries.push({ ledger: systemLedger(ledgers, 'discount'), amount: discount });
+  }
+
+  // Line taxes are scaled down by the invoice discount, exactly as the invoice itself prices them
+  const discountRatio = grossAmount > 0 ? (grossAmount - discount) / grossAmount : 1;
+  if (lineMode) {
+    items.forEach((item) => {
+      const rate = Number(item.tax_rate || 0);
+      if (Number(item.igst_amount || 0)) {
+        entries.push({ ledger: taxLedger(ledgers, 'igst', rate), amount: -Number(item.igst_amount) * discountRatio });
+      }
+      if (Number(item.cgst_amount || 0)) {
+        entries.push({ ledger: taxLedger(ledgers, 'cgst', rate / 2), amount: -Number(item.cgst_amount) * discountRatio });
+      }
+      if (Number(item.sgst_amount || 0)) {
+        entries.push({ ledger: taxLedger(ledgers, 'sgst', rate / 2), amount: -Number(item.sgst_amount) * discountRatio });
+      }
+    });
+  } else {
+    const gst = calculateInvoiceGst({ ...invoice, total_amount: grossAmount });
+    if (gst > 0 && invoice.supply_type === 'inter_state') {
+      entries.push({ ledger: taxLedger(ledgers, 'igst', invoiceRate), amount: -gst });
+    } else if (gst > 0) {
+      const cgst = roundCurrency(gst / 2);
+      entries.push({ ledger: taxLedger(ledgers, 'cgst', invoiceRate / 2), amount: -cgst });
+      entries.push({ ledger: taxLedger(ledgers, 'sgst', invoiceRate / 2), amount: -(gst - cgst) });
+    }
+  }
+
+  const amountPayable = roundCurrency(Number(invoice.amount_payable ?? invoice.total_amount ?? 0));
+  const tpaShare = roundCurrency(Math.min(Number(invoice.tpa_payable || 0), amountPayable));
+  if (tpaShare > 0) {
+    entries.push({ ledger: systemLedger(ledgers, 'tpa_receivable'), amount: tpaShare });
+  }
+  const patientLedger = systemLedger(ledgers, 'patient_receivable');
+  entries.push({ ledger: patientLedger, amount: amountPayable - tpaShare });
+
+  // Paisa lost to rounding when the discount is spread over lines keeps the voucher balanced.
+  // Worked out on the rounded ledger totals, which are what Tally adds up.
+  const rounded = consolidate(entries);
+  const imbalance = roundCurrency(rounded.reduce((sum, entry) => sum + entry.amount, 0));
+  if (imbalance !== 0) {
+    rounded.push({ ledger: systemLedger(ledgers, 'round_off'), amount: -imbalance });
+  }
+
+  const patientName = patientNameOf(invoice);
+
+  return {
+    voucherType: 'Sales',
+    voucherNumber: invoice.invoice_number,
+    date: toIstDateString(new Date(invoice.finalized_at)),
+    reference: invoice.invoice_number,
+    partyLedger: tpaShare >= amountPayable && tpaShare > 0 ? systemLedger(ledgers, 'tpa_receivable') : patientLedger,
+    narration: `Invoice ${invoice.invoice_number}${patientName ? ` - ${patientName}` : ''}`,
+    entries: consolidate(rounded),
+  };
+};
+
+const buildReceiptVoucher = (payment: any, ledgers: LedgerMap): AccountingVoucher => {
+  const invoice: any = Array.isArray(payment.invoices) ? payment.invoices[0] : payment.invoices;
+  const amount = roundCurrency(Number(payment.amount || 0));
+  const partyLedger = systemLedger(ledgers, payment.payer === 'tpa' ? 'tpa_receivable' : 'patient_receivable');
+  const patientName = invoice ? patientNameOf(invoice) : '';
+
+  return {
+    voucherType: payment.deposit_id ? 'Journal' : 'Receipt',
+    voucherNumber: payment.receipt_number ?? payment.id,
+    date: toIstDateString(new Date(payment.payment_date)),
+    reference: invoice?.invoice_number ?? null,
+    partyLedger,
+    narration: [
+      payment.deposit_id ? 'Deposit applied' : `Received by ${String(payment.payment_method).replace(/_/g, ' ')}`,
+      invoice?.invoice_number ? `against ${invoice.invoice_number}` : null,
+      patientName ? `- ${patientName}` : null,
+      payment.payment_reference ? `(Ref ${payment.payment_reference})` : null,
+    ]
+      .filter(Boolean)
+      .join(' '),
+    entries: [
+      {
+        ledger: paymentLedger(ledgers, payment.deposit_id ? 'deposit' : payment.payment_method),
+        amount,
+      },
+      { ledger: partyLedger, amount: -amount },
+    ],
+  };
+};
+
+// Advance taken at admission: the money is in hand but owed back to the patient until applied
+const buildDepositReceiptVoucher = (deposit: any, ledgers: LedgerMap): AccountingVoucher => {
+  const amount = roundCurrency(Number(deposit.amount || 0));
+  const advancesLedger = paymentLedger(ledgers, 'deposit');
+  const patient: any = Array.isArray(deposit.patients) ? deposit.patients[0] : deposit.patients;
+  const patientName = patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : '';
+
+  return {
+    voucherType: 'Receipt',
+    voucherNumber: deposit.id,
+    date: toIstDateString(new Date(deposit.received_at)),
+    reference: null,
+    partyLedger: advancesLedger,
+    narration: [
+      `Advance deposit received by ${String(deposit.payment_method).replace(/_/g, ' ')}`,
+      patientName ? `- ${patientName}` : null,
+      deposit.payment_reference ? `(Ref ${deposit.payment_reference})` : null,
+    ]
+      .filter(Boolean)
+      .join(' '),
+    entries: [
+      { ledger: paymentLedger(ledgers, deposit.payment_method), amount },
+      { ledger: advancesLedger, amount: -amount },
+    ],
+  };
+};
+
+// Sales vouchers for invoices finalised in the range, receipt vouchers for payments and advance
+// deposits taken in it, and journals for deposits applied to invoices.
+export const buildAccountingVouchers = async (
+  from: string,
+  to: string,
+  options: { invoices?: boolean; payments?: boolean } = {}
+): Promise<AccountingVoucher[]> => {
+  const rangeStart = getIstDayBounds(from).start.toISOString();
+  const rangeEnd = getIstDayBounds(to).end.toISOString();
+  const includeInvoices = options.invoices ?? true;
+  const includePayments = options.payments ?? true;
+
+  const ledgerRows = await fetchLedgerMappings();
+  const ledgers: LedgerMap = new Map(ledgerRows.map((row) => [`${row.scope}:${row.key}`, row.ledger_name]));
+
+  const [invoiceResult, paymentResult, depositResult] = await Promise.all([
+    includeInvoices
+      ? supabase
+        .from('invoices')
+        .select(`
+          id,
+          invoice_number,
+          finalized_at,
+          total_amount,
+          amount_payable,
+          discount_type,
+          discount_value,
+          include_gst,
+          gst_rate,
+          gst_mode,
+          supply_type,
+          tax_total,
+          tpa_payable,
+          admissions (
+            patients (
+              first_name,
+              last_name
+            )
+          ),
+          bill_items (
+            item_type,
+            total_price,
+            tax_rate,
+            cgst_amount,
+            sgst_amount,
+            igst_amount
+          )
+        `)
+        .eq('lifecycle_status', 'final')
+        .gte('finalized_at', rangeStart)
+        .lt('finalized_at', rangeEnd)
+        .order('finalized_at', { ascending: true })
+      : Promise.resolve({ data: [] as any[], error: null }),
+    includePayments
+      ? supabase
+        .from('payments')
+        .select(`
+          id,
+          receipt_number,
+          amount,
+          payment_method,
+          payment_reference,
+          payment_date,
+          payer,
+          deposit_id,
+          invoices (
+            invoice_number,
+            admissions (
+              patients (
+                first_name,
+                last_name
+              )
+            )
+          )
+        `)
+        .eq('status', 'completed')
+        .gte('payment_date', rangeStart)
+        .lt('payment_date', rangeEnd)
+        .order('payment_date', { ascending: true })
+      : Promise.resolve({ data: [] as any[], error: null }),
+    includePayments
+      ? supabase
+        .from('admission_deposits')
+        .select(`
+          id,
+          amount,
+          payment_method,
+          payment_reference,
+          received_at,
+          patients (
+            first_name,
+            last_name
+          )
+        `)
+        .gte('received_at', rangeStart)
+        .lt('received_at', rangeEnd)
+        .order('received_at', { ascending: true })
+      : Promise.resolve({ data: [] as any[], error: null }),
+  ]);
+
+  const failed = invoiceResult.error ?? paymentResult.error ?? depositResult.error;
+  if (failed) {
+    logger.error('Failed to fetch data for accounting export', { from, to, error: failed.message });
+    throw createError('Failed to build accounting export', 500);
+  }
+
+  const vouchers = [
+    ...(invoiceResult.data ?? []).map((invoice) => buildSalesVoucher(invoice, ledgers)),
+    ...(paymentResult.data ?? []).map((payment) => buildReceiptVoucher(payment, ledgers)),
+    ...(depositResult.data ?? []).map((deposit) => buildDepositReceiptVoucher(deposit, ledgers)),
+  ];
+
+  return vouchers.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const escapeXml = (value = ''): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Tally's import envelope. Debits go in as negative amounts flagged ISDEEMEDPOSITIVE, credits as positive.
+export const vouchersToTallyXml = (vouchers: AccountingVoucher[], companyName: string = env.HOSPITAL_NAME): string => {
+  const voucherXml = vouchers.map((voucher) => {
+    const ledgerXml = voucher.entries
+      .map((entry) => [
+        '        <ALLLEDGERENTRIES.LIST>',
+        `          <LEDGERNAME>${escapeXml(entry.ledger)}</LEDGERNAME>`,
+        `          <ISDEEMEDPOSITIVE>${entry.amount > 0 ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>`,
+        `          <AMOUNT>${(-entry.amount).toFixed(2)}</AMOUNT>`,
+        '        </ALLLEDGERENTRIES.LIST>',
+      ].join('\n'))
+      .join('\n');
+
+    return [
+      '    <TALLYMESSAGE xmlns:UDF="TallyUDF">',
+      `      <VOUCHER VCHTYPE="${voucher.voucherType}" ACTION="Create">`,
+      `        <DATE>${voucher.date.replace(/-/g, '')}</DATE>`,
+      `        <VOUCHERTYPENAME>${voucher.voucherType}</VOUCHERTYPENAME>`,
+      `        <VOUCHERNUMBER>${escapeXml(voucher.voucherNumber)}</VOUCHERNUMBER>`,
+      voucher.reference ? `        <REFERENCE>${escapeXml(voucher.reference)}</REFERENCE>` : null,
+      `        <PARTYLEDGERNAME>${escapeXml(voucher.partyLedger)}</PARTYLEDGERNAME>`,
+      `        <NARRATION>${escapeXml(voucher.narration)}</NARRATION>`,
+      ledgerXml,
+      '      </VOUCHER>',
+      '    </TALLYMESSAGE>',
+    ]
+      .filter((line) => line !== null)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ENVELOPE>',
+    '  <HEADER>',
+    '    <TALLYREQUEST>Import Data</TALLYREQUEST>',
+    '  </HEADER>',
+    '  <BODY>',
+    '   <IMPORTDATA>',
+    '    <REQUESTDESC>',
+    '     <REPORTNAME>Vouchers</REPORTNAME>',
+    '     <STATICVARIABLES>',
+    `      <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>`,
+    '     </STATICVARIABLES>',
+    '    </REQUESTDESC>',
+    '    <REQUESTDATA>',
+    ...voucherXml,
+    '    </REQUESTDATA>',
+    '   </IMPORTDATA>',
+    '  </BODY>',
+    '</ENVELOPE>',
+    '',
+  ].join('\n');
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per ledger line; every voucher's debits equal its credits.
+export const vouchersToCsvJournal = (vouchers: AccountingVoucher[]): string => {
+  const rows = [['Date', 'Voucher Type', 'Voucher No', 'Reference', 'Ledger', 'Debit', 'Credit', 'Narration']];
+
+  vouchers.forEach((voucher) => {
+    voucher.entries.forEach((entry) => {
+      rows.push([
+        voucher.date,
+        voucher.voucherType,
+        voucher.voucherNumber,
+        voucher.reference ?? '',
+        entry.ledger,
+        entry.amount > 0 ? entry.amount.toFixed(2) : '',
+        entry.amount < 0 ? (-entry.amount).toFixed(2) : '',
+        voucher.narration,
+      ]);
+    });
+  });
+
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\n')}\n`;
+};
@@ -0,0 +1,466 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { loadTariffContext, resolveRoomTariff } from './tariff-service.js';
+import { reportEstimateVariance } from './estimate-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const ADMISSION_STATES = [
+  'reserved',
+  'admitted',
+  'transfer_pending',
+  'discharge_initiated',
+  'discharged',
+  'cancelled',
+] as const;
+export type AdmissionState = (typeof ADMISSION_STATES)[number];
+
+export const ADMISSION_EVENTS = [
+  'admit',
+  'request_transfer',
+  'complete_transfer',
+  'cancel_transfer',
+  'initiate_discharge',
+  'cancel_discharge',
+  'discharge',
+  'cancel',
+] as const;
+export type AdmissionEvent = (typeof ADMISSION_EVENTS)[number];
+
+// Every move an admission can make. Effects on beds, rooms and room history run inside
+// apply_admission_transition() so they commit or roll back with the state change.
+export const ADMISSION_TRANSITIONS: Record<AdmissionEvent, { from: readonly AdmissionState[]; to: AdmissionState }> = {
+  admit: { from: ['reserved'], to: 'admitted' },
+  request_transfer: { from: ['admitted'], to: 'transfer_pending' },
+  complete_transfer: { from: ['transfer_pending'], to: 'admitted' },
+  cancel_transfer: { from: ['transfer_pending'], to: 'admitted' },
+  initiate_discharge: { from: ['admitted'], to: 'discharge_initiated' },
+  cancel_discharge: { from: ['discharge_initiated'], to: 'admitted' },
+  discharge: { from: ['discharge_initiated'], to: 'discharged' },
+  cancel: { from: ['reserved', 'admitted'], to: 'cancelled' },
+};
+
+// Legacy admissions.status values still sent by older clients, and the event each one now means
+export const LEGACY_STATUS_EVENTS: Record<string, AdmissionEvent | null> = {
+  pending: null,
+  active: 'admit',
+  completed: 'discharge',
+  discharged: 'discharge',
+  cancelled: 'cancel',
+};
+
+export const ADMISSION_EVENT_SELECT = `
+  id,
+  admission_id,
+  event,
+  from_state,
+  to_state,
+  payload,
+  notes,
+  performed_by,
+  created_at
+`;
+
+export const isAdmissionEvent = (value: unknown): value is AdmissionEvent =>
+  typeof value === 'string' && (ADMISSION_EVENTS as readonly string[]).includes(value);
+
+export const availableAdmissionEvents = (state?: string | null): AdmissionEvent[] =>
+  ADMISSION_EVENTS.filter((event) => (ADMISSION_TRANSITIONS[event].from as readonly string[]).includes(state ?? ''));
+
+export interface AdmissionTransitionInput {
+  event: AdmissionEvent;
+  performedBy?: string | null;
+  role?: string | null;
+  notes?: string | null;
+  roomId?: string | null;
+  bedId?: string | null;
+  at?: string | null;
+}
+
+const fetchAdmissionState = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('admissions')
+    .select('*')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch admission for transition', { admissionId, error: error.message });
+    throw createError('Failed to fetch admission', 500);
+  }
+  if (!data) {
+    throw createError('Admission not found', 404);
+  }
+
+  return data;
+};
+
+// Money taken or a bill issued means the stay happened: it has to be discharged, not cancelled
+const assertNoBillingActivity = async (admissionId: string) => {
+  const [invoices, deposits] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('id', { count: 'exact', head: true })
+      .eq('admission_id', admissionId)
+      .in('lifecycle_status', ['provisional', 'final']),
+    supabase
+      .from('admission_deposits')
+      .select('id', { count: 'exact', head: true })
+      .eq('admission_id', admissionId),
+  ]);
+
+  if (invoices.error || deposits.error) {
+    logger.error('Failed to check admission billing before cancel', {
+      admissionId,
+      error: invoices.error?.message ?? deposits.error?.message,
+    });
+    throw createError('Failed to check admission billing', 500);
+  }
+  if ((invoices.count ?? 0) > 0 || (deposits.count ?? 0) > 0) {
+    throw createError('This admission has invoices or deposits; discharge it instead of cancelling', 409);
+  }
+};
+
+// The settlement invoice bills the stay up to now, so it is raised before the patient leaves.
+// An admin may discharge without one, with the reason kept on the event.
+const assertFinalInvoiceRaised = async (admissionId: string, role?: string | null, notes?: string | null) => {
+  const { count, error } = await supabase
+    .from('invoices')
+    .select('id', { count: 'exact', head: true })
+    .eq('admission_id', admissionId)
+    .eq('invoice_type', 'final')
+    .in('lifecycle_status', ['provisional', 'final']);
+
+  if (error) {
+    logger.error('Failed to check final invoice before discharge', { admissionId, error: error.message });
+    throw createError('Failed to check admission billing', 500);
+  }
+  if ((count ?? 0) > 0) {
+    return;
+  }
+  if (role === 'admin' && notes?.trim()) {
+    return;
+  }
+
+  throw createError('Raise the final settlement invoice before discharge (admins may override with notes)', 409);
+};
+
+// One admission per room and one patient per bed; the same checks run again under lock in SQL
+export const assertRoomAndBedFree = async (target: {
+  roomId?: string | null;
+  bedId?: string | null;
+  patientId: string;
+  admissionId?: string | null;
+}) => {
+  if (target.roomId) {
+    let query = supabase
+      .from('admissions')
+      .select('id')
+      .eq('room_id', target.roomId)
+      .in('adt_state', ['admitted', 'transfer_pending', 'discharge_initiated'])
+      .limit(1);
+    if (target.admissionId) {
+      query = query.neq('id', target.admissionId);
+    }
+
+    const { data: roomActive } = await query.maybeSingle();
+    if (roomActive) {
+      throw createError('Room already has an active admission', 409);
+    }
+  }
+
+  if (target.bedId) {
+    const { data: bed } = await supabase
+      .from('beds')
+      .select('id, current_patient_id')
+      .eq('id', target.bedId)
+      .maybeSingle();
+
+    if (!bed) {
+      throw createError('Bed not found', 404);
+    }
+    if (bed.current_patient_id && bed.current_patient_id !== target.patientId) {
+      throw createError('Bed is occupied by another patient', 409);
+    }
+  }
+};
+
+const buildTransferPayload = async (admission: any, input: AdmissionTransitionInput) => {
+  if (!input.roomId) {
+    throw createError('room_id is required to request a transfer', 400);
+  }
+  if (input.roomId === admission.room_id && (input.bedId ?? null) === (admission.bed_id ?? null)) {
+    throw createError('The patient is already in that room and bed', 400);
+  }
+
+  const { data: room } = await supabase.from('rooms').select('id, room_type').eq('id', input.roomId).maybeSingle();
+  if (!room) {
+    throw createError('Room not found', 404);
+  }
+
+  await assertRoomAndBedFree({
+    roomId: input.roomId,
+    bedId: input.bedId,
+    patientId: admission.patient_id,
+    admissionId: admission.id,
+  });
+
+  return { room_id: room.id, bed_id: input.bedId ?? null, room_type: room.room_type ?? null };
+};
+
+// Rent for a room is priced from the admission's tariff as the patient moves into it
+const buildRoomPayload = async (admission: any, roomId: string, bedId: string | null, at: string | null) => {
+  const { data: room } = await supabase
+    .from('rooms')
+    .select('id, room_type, rate_per_day')
+    .eq('id', roomId)
+    .maybeSingle();
+
+  const price = resolveRoomTariff(
+    await loadTariffContext({ admissionId: admission.id, at: at ? new Date(at) : new Date() }),
+    {
+      roomId,
+      bedId,
+      roomType: room?.room_type,
+      fallbackPrice: Number(room?.rate_per_day || 0),
+    }
+  );
+
+  return {
+    room_type: room?.room_type ?? null,
+    rate_per_day: price?.unit_price ?? Number(room?.rate_per_day || 0),
+  };
+};
+
+const buildTransferCompletionPayload = async (admission: any, at: string | null) => {
+  if (!admission.pending_room_id) {
+    throw createError('No transfer is pending for this admission', 409);
+  }
+
+  return buildRoomPayload(admission, admission.pending_room_id, admission.pending_bed_id ?? null, at);
+};
+
+const assertEventAllowed = (state: string, event: AdmissionEvent) => {
+  if ((ADMISSION_TRANSITIONS[event].from as readonly string[]).includes(state)) {
+    return;
+  }
+
+  const allowed = availableAdmissionEvents(state);
+  throw createError(
+    `Cannot ${event.replace(/_/g, ' ')} an admission that is ${String(state).replace(/_/g, ' ')}` +
+      (allowed.length ? `; allowed: ${allowed.join(', ')}` : ''),
+    409
+  );
+};
+
+// Guards that read other tables; checked before anything is written. For admit, roomId and
+// bedId stand in for the admission's own when the caller is about to change them.
+const assertEventGuards = async (admission: any, event: AdmissionEvent, input: Omit<AdmissionTransitionInput, 'event'>) => {
+  if (event === 'admit') {
+    await assertRoomAndBedFree({
+      roomId: input.roomId !== undefined ? input.roomId : admission.room_id,
+      bedId: input.bedId !== undefined ? input.bedId : admission.bed_id,
+      patientId: admission.patient_id,
+      admissionId: admission.id,
+    });
+  } else if (event === 'cancel') {
+    await assertNoBillingActivity(admission.id);
+  } else if (event === 'discharge') {
+    await assertFinalInvoiceRaised(admission.id, input.role, input.notes);
+  }
+};
+
+export const transitionAdmission = async (admissionId: string, input: AdmissionTransitionInput) => {
+  const admission = await fetchAdmissionState(admissionId);
+  const transition = ADMISSION_TRANSITIONS[input.event];
+
+  assertEventAllowed(admission.adt_state, input.event);
+
+  if (input.at && Number.isNaN(Date.parse(input.at))) {
+    throw createError('at must be a valid date-time', 400);
+  }
+
+  let payload: Record<string, unknown> = {};
+  if (input.event === 'request_transfer') {
+    payload = await buildTransferPayload(admission, input);
+  } else if (input.event === 'complete_transfer') {
+    payload = await buildTransferCompletionPayload(admission, input.at ?? null);
+  } else {
+    await assertEventGuards(admission, input.event, { ...input, roomId: undefined, bedId: undefined });
+  }
+  if (input.event === 'admit' && admission.room_id) {
+    payload = await buildRoomPayload(
+      admission,
+      admission.room_id,
+      admission.bed_id ?? null,
+      input.at ?? admission.admission_date ?? null
+    );
+  }
+  if (input.at) {
+    payload.at = new Date(input.at).toISOString();
+  }
+
+  const { data: updated, error } = await supabase.rpc('apply_admission_transition', {
+    p_admission_id: admissionId,
+    p_event: input.event,
+    p_from_state: admission.adt_state,
+    p_to_state: transition.to,
+    p_payload: payload,
+    p_notes: input.notes?.trim() || null,
+    p_performed_by: input.performedBy ?? null,
+  });
+
+  if (error?.code === 'ADT01' || error?.code === 'ADT02') {
+    throw createError(error.message, 409);
+  }
+  if (error?.code === 'P0002') {
+    throw createError('Admission not found', 404);
+  }
+  if (error || !updated) {
+    logger.error('Admission transition failed', { admissionId, event: input.event, error: error?.message });
+    throw createError('Failed to update admission', 500);
+  }
+
+  logger.info('Admission transitioned', {
+    admissionId,
+    event: input.event,
+    from: admission.adt_state,
+    to: transition.to,
+    performedBy: input.performedBy ?? null,
+  });
+
+  // A quoted stay gets its estimate-vs-actual report at discharge; the discharge itself stands if it fails
+  let estimateVariance = null;
+  if (input.event === 'discharge') {
+    try {
+      estimateVariance = await reportEstimateVariance(updated, input.performedBy ?? null);
+    } catch (varianceError) {
+      logger.error('Failed to report estimate variance on discharge', {
+        admissionId,
+        error: (varianceError as Error)?.message,
+      });
+    }
+  }
+
+  return { admission: updated, estimateVariance };
+};
+
+// A room change on an admitted stay is a transfer requested and completed in one go. If the
+// completion is refused the request is withdrawn so the stay is left as it was.
+export const moveAdmissionRoom = async (
+  admissionId: string,
+  input: Omit<AdmissionTransitionInput, 'event'> & { roomId: string }
+) => {
+  const admission = await fetchAdmissionState(admissionId);
+  if (admission.adt_state !== 'admitted') {
+    throw createError(
+      `Rooms can only be changed for admitted stays; this admission is ${String(admission.adt_state).replace(/_/g, ' ')}`,
+      409
+    );
+  }
+
+  await transitionAdmission(admissionId, { ...input, event: 'request_transfer' });
+  try {
+    return await transitionAdmission(admissionId, { ...input, event: 'complete_transfer' });
+  } catch (completeError) {
+    await transitionAdmission(admissionId, {
+      event: 'cancel_transfer',
+      performedBy: input.performedBy ?? null,
+      notes: 'Room change could not be completed',
+    }).catch((cancelError) => {
+      logger.error('Failed to withdraw transfer after a refused room change', {
+        admissionId,
+        error: (cancelError as Error)?.message,
+      });
+    });
+    throw completeError;
+  }
+};
+
+// Older clients still PUT a status. Each one is replayed as the events that reach it from where
+// the admission is now; a discharge from the ward walks through discharge_initiated.
+const legacyStatusPath = (admission: any, status: string): AdmissionEvent[] => {
+  const event = LEGACY_STATUS_EVENTS[status];
+  const state = admission.adt_state as AdmissionState;
+
+  if (event === undefined) {
+    throw createError('Invalid status provided', 400);
+  }
+  if (event === null) {
+    if (state !== 'reserved') {
+      throw createError('An admission cannot return to pending once it has been admitted', 409);
+    }
+    return [];
+  }
+  if (admission.status === status || (event === 'discharge' && state === 'discharged')) {
+    return [];
+  }
+  if (event === 'discharge' && state === 'admitted') {
+    return ['initiate_discharge', 'discharge'];
+  }
+
+  assertEventAllowed(state, event);
+  return [event];
+};
+
+// Checks a legacy status change end to end without writing anything, so callers can refuse
+// the whole request before saving other fields
+export const planLegacyAdmissionStatus = async (
+  admissionId: string,
+  status: string,
+  input: Omit<AdmissionTransitionInput, 'event'>
+) => {
+  const admission = await fetchAdmissionState(admissionId);
+  const path = legacyStatusPath(admission, status);
+
+  for (const event of path) {
+    await assertEventGuards(admission, event, input);
+  }
+
+  return { admission, path };
+};
+
+export const applyLegacyAdmissionStatus = async (
+  admissionId: string,
+  status: string,
+  input: Omit<AdmissionTransitionInput, 'event'>
+) => {
+  const { admission, path } = await planLegacyAdmissionStatus(admissionId, status, input);
+
+  let result: Awaited<ReturnType<typeof transitionAdmission>> = { admission, estimateVariance: null };
+  for (const event of path) {
+    result = await transitionAdmission(admissionId, { ...input, event });
+  }
+
+  return result;
+};
+
+export const recordAdmissionReserved = async (admissionId: string, performedBy?: string | null) => {
+  const { error } = await supabase.from('admission_events').insert({
+    admission_id: admissionId,
+    event: 'reserve',
+    from_state: null,
+    to_state: 'reserved',
+    performed_by: performedBy ?? null,
+  });
+
+  if (error) {
+    logger.error('Failed to record admission reservation', { admissionId, error: error.message });
+  }
+};
+
+export const fetchAdmissionEvents = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('admission_events')
+    .select(ADMISSION_EVENT_SELECT)
+    .eq('admission_id', admissionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch admission events', { admissionId, error: error.message });
+    throw createError('Failed to fetch admission history', 500);
+  }
+
+  return data ?? [];
+};
@@ -0,0 +1,735 @@
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { addIstDays, getIstDayBounds, toIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+import { refreshInvoiceTotals } from './tax-service.js';
+import { recordInvoiceChange } from './invoice-revision-service.js';
+import {
+  chargeTypeForItemType,
+  loadTariffContext,
+  ResolvedPrice,
+  resolveRoomTariff,
+  resolveTariffPrice,
+  tariffStamp,
+} from './tariff-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const CHARGE_SOURCE_TYPES = ['medication_dose', 'lab_report', 'room_day', 'service'] as const;
+export type ChargeSourceType = (typeof CHARGE_SOURCE_TYPES)[number];
+
+export const CHARGE_SELECT = `
+  id,
+  admission_id,
+  source_type,
+  source_id,
+  charge_date,
+  occurred_at,
+  item_type,
+  item_name,
+  item_description,
+  quantity,
+  unit_price,
+  total_price,
+  reference_id,
+  medication_catalog_id,
+  test_type,
+  room_type,
+  tax_category,
+  hsn_sac_code,
+  price_list_id,
+  price_list_version_id,
+  price_list_version,
+  tariff_item_id,
+  invoice_id,
+  bill_item_id,
+  posted_by,
+  voided_at,
+  voided_by,
+  void_reason,
+  created_at
+`;
+
+// Inclusive IST calendar dates
+export interface ChargeWindow {
+  from: string;
+  to: string;
+}
+
+interface PostChargeInput {
+  admissionId: string;
+  sourceType: ChargeSourceType;
+  sourceId: string;
+  chargeDate: string;
+  occurredAt?: string;
+  line: {
+    item_type: string;
+    item_name: string;
+    item_description?: string | null;
+    quantity?: number;
+    unit_price: number;
+    reference_id?: string | null;
+    medication_catalog_id?: string | null;
+    test_type?: string | null;
+    room_type?: string | null;
+    tax_category?: string | null;
+    hsn_sac_code?: string | null;
+  };
+  price: ResolvedPrice | null;
+  postedBy?: string | null;
+}
+
+export const isChargeSourceType = (value: unknown): value is ChargeSourceType =>
+  typeof value === 'string' && (CHARGE_SOURCE_TYPES as readonly string[]).includes(value);
+
+// Posting is idempotent: a live charge for the same source and day is returned as is.
+const postCharge = async (input: PostChargeInput) => {
+  const quantity = Number(input.line.quantity ?? 1);
+
+  const { data, error } = await supabase
+    .from('charge_entries')
+    .insert({
+      admission_id: input.admissionId,
+      source_type: input.sourceType,
+      source_id: input.sourceId,
+      charge_date: input.chargeDate,
+      occurred_at: input.occurredAt ?? new Date().toISOString(),
+      ...input.line,
+      quantity,
+      total_price: roundCurrency(quantity * input.line.unit_price),
+      ...tariffStamp(input.price),
+      posted_by: input.postedBy ?? null,
+    })
+    .select(CHARGE_SELECT)
+    .single();
+
+  if (!error && data) {
+    return { charge: data, created: true };
+  }
+
+  if (error?.code === '23505') {
+    const { data: existing } = await supabase
+      .from('charge_entries')
+      .select(CHARGE_SELECT)
+      .eq('source_type', input.sourceType)
+      .eq('source_id', input.sourceId)
+      .eq('charge_date', input.chargeDate)
+      .is('voided_at', null)
+      .maybeSingle();
+
+    return { charge: existing, created: false };
+  }
+
+  logger.error('Failed to post charge', {
+    admissionId: input.admissionId,
+    sourceType: input.sourceType,
+    sourceId: input.sourceId,
+    error: error?.message,
+  });
+  throw createError('Failed to post charge', 500);
+};
+
+export const fetchSourceCharges = async (sourceType: ChargeSourceType, sourceId: string) => {
+  const { data, error } = await supabase
+    .from('charge_entries')
+    .select(CHARGE_SELECT)
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .is('voided_at', null);
+
+  if (error) {
+    logger.error('Failed to fetch charges for source', { sourceType, sourceId, error: error.message });
+    throw createError('Failed to fetch charges', 500);
+  }
+
+  return data ?? [];
+};
+
+export const assertSourceUnbilled = async (sourceType: ChargeSourceType, sourceId: string, message: string) => {
+  const charges = await fetchSourceCharges(sourceType, sourceId);
+  if (charges.some((charge) => charge.invoice_id)) {
+    throw createError(message, 409);
+  }
+  return charges;
+};
+
+// Charges are never edited; an unbilled one is voided (and re-posted if the source changed).
+// A billed charge can only be corrected through a credit note on its invoice.
+export const voidCharge = async (chargeId: string, reason: string, voidedBy?: string | null) => {
+  const { data: charge, error } = await supabase
+    .from('charge_entries')
+    .select(CHARGE_SELECT)
+    .eq('id', chargeId)
+    .maybeSingle();
+
+  if (error || !charge) {
+    throw createError('Charge not found', 404);
+  }
+  if (charge.voided_at) {
+    throw createError('Charge is already voided', 409);
+  }
+  if (charge.invoice_id) {
+    throw createError('Charge has already been billed; raise a credit note on its invoice instead', 409);
+  }
+
+  const { data: voided, error: updateError } = await supabase
+    .from('charge_entries')
+    .update({ voided_at: new Date().toISOString(), voided_by: voidedBy ?? null, void_reason: reason })
+    .eq('id', chargeId)
+    .is('invoice_id', null)
+    .is('voided_at', null)
+    .select(CHARGE_SELECT)
+    .maybeSingle();
+
+  if (updateError || !voided) {
+    logger.error('Failed to void charge', { chargeId, error: updateError?.message });
+    throw createError('Charge could not be voided; it may have just been billed', 409);
+  }
+
+  logger.info('Charge voided', { chargeId, sourceType: charge.source_type, reason, voidedBy });
+
+  return voided;
+};
+
+export const voidSourceCharges = async (
+  sourceType: ChargeSourceType,
+  sourceId: string,
+  reason: string,
+  voidedBy?: string | null
+) => {
+  const charges = await assertSourceUnbilled(sourceType, sourceId, 'Charge has already been billed; raise a credit note on its invoice instead');
+  for (const charge of charges) {
+    await voidCharge(charge.id, reason, voidedBy);
+  }
+  return charges.length;
+};
+
+// Price a dose at the tariff in force when it was given. Doses outside an admission are not billed here.
+export const captureMedicationDose = async (doseId: string, postedBy?: string | null) => {
+  const { data: dose, error } = await supabase
+    .from('patient_medication_doses')
+    .select(`
+      id,
+      administered_at,
+      patient_medications (
+        id,
+        admission_id,
+        name,
+        price_per_unit,
+        units_per_dose,
+        medication_catalog_id
+      )
+    `)
+    .eq('id', doseId)
+    .maybeSingle();
+
+  if (error || !dose) {
+    logger.error('Failed to load dose for charge capture', { doseId, error: error?.message });
+    throw createError('Dose not found', 404);
+  }
+
+  const medication = dose.patient_medications as any;
+  if (!medication?.admission_id) {
+    return null;
+  }
+
+  let catalog: any = null;
+  if (medication.medication_catalog_id) {
+    const { data } = await supabase
+      .from('medication_catalog')
+      .select('id, price_per_unit, default_units_per_dose, tax_category, hsn_sac_code')
+      .eq('id', medication.medication_catalog_id)
+      .maybeSingle();
+    catalog = data;
+  }
+
+  const administeredAt = new Date(dose.administered_at);
+  const directPrice = Number(medication.price_per_unit ?? 0);
+  const price = resolveTariffPrice(await loadTariffContext({ admissionId: medication.admission_id, at: administeredAt }), {
+    chargeType: 'medication',
+    referenceIds: [medication.medication_catalog_id],
+    fallbackPrice: directPrice > 0 ? directPrice : Number(catalog?.price_per_unit ?? 0),
+  });
+  const directUnits = Number(medication.units_per_dose ?? 0);
+  const unitsPerDose = directUnits > 0 ? directUnits : Number(catalog?.default_units_per_dose ?? 1);
+  const dosePrice = roundCurrency((price?.unit_price ?? 0) * unitsPerDose);
+
+  if (dosePrice <= 0) {
+    logger.warn('Dose not charged: no tariff or price for medication', {
+      doseId,
+      medicationId: medication.id,
+      name: medication.name,
+    });
+    return null;
+  }
+
+  const { charge } = await postCharge({
+    admissionId: medication.admission_id,
+    sourceType: 'medication_dose',
+    sourceId: dose.id,
+    chargeDate: toIstDateString(administeredAt),
+    occurredAt: administeredAt.toISOString(),
+    line: {
+      item_type: 'medication',
+      item_name: medication.name,
+      item_description: 'Medication dose',
+      unit_price: dosePrice,
+      reference_id: medication.id,
+      medication_catalog_id: medication.medication_catalog_id,
+      tax_category: catalog?.tax_category ?? null,
+      hsn_sac_code: catalog?.hsn_sac_code ?? null,
+    },
+    price,
+    postedBy,
+  });
+
+  return charge;
+};
+
+export const captureLabReport = async (labReportId: string, postedBy?: string | null) => {
+  const { data: report, error } = await supabase
+    .from('lab_reports')
+    .select('id, admission_id, report_title, test_type, price, test_date, created_at')
+    .eq('id', labReportId)
+    .maybeSingle();
+
+  if (error || !report) {
+    logger.error('Failed to load lab report for charge capture', { labReportId, error: error?.message });
+    throw createError('Lab report not found', 404);
+  }
+
+  if (!report.admission_id) {
+    return null;
+  }
+
+  const testedAt = new Date(report.test_date ?? report.created_at);
+  const price = resolveTariffPrice(await loadTariffContext({ admissionId: report.admission_id, at: testedAt }), {
+    chargeType: 'lab',
+    chargeCode: report.test_type,
+    fallbackPrice: Number(report.price ?? 0),
+  });
+
+  if (!price || price.unit_price <= 0) {
+    logger.warn('Lab report not charged: no tariff or price', { labReportId, testType: report.test_type });
+    return null;
+  }
+
+  const { charge } = await postCharge({
+    admissionId: report.admission_id,
+    sourceType: 'lab_report',
+    sourceId: report.id,
+    chargeDate: toIstDateString(testedAt),
+    occurredAt: testedAt.toISOString(),
+    line: {
+      item_type: 'lab',
+      item_name: report.report_title || report.test_type || 'Lab Report',
+      item_description: `Lab Test: ${report.test_type}`,
+      unit_price: price.unit_price,
+      reference_id: report.id,
+      test_type: report.test_type,
+    },
+    price,
+    postedBy,
+  });
+
+  return charge;
+};
+
+// A changed report or dose (price, test, time given) voids its unbilled charge and posts afresh.
+export const recaptureSource = async (
+  sourceType: 'medication_dose' | 'lab_report',
+  sourceId: string,
+  reason: string,
+  actor?: string | null
+) => {
+  await voidSourceCharges(sourceType, sourceId, reason, actor);
+  return sourceType === 'medication_dose'
+    ? captureMedicationDose(sourceId, actor)
+    : captureLabReport(sourceId, actor);
+};
+
+// Each IST day is charged to the latest room_history entry overlapping it, so the admission day
+// and the discharge day are billed and a mid-day transfer bills the new room once. Days that
+// already carry a live charge are left alone.
+export const captureRoomDays = async (admissionId: string, window: ChargeWindow, postedBy?: string | null) => {
+  const { data: entries, error } = await supabase
+    .from('room_history')
+    .select('id, room_id, bed_id, room_type, rate_per_day, start_date, end_date, rooms ( room_number, room_type )')
+    .eq('admission_id', admissionId)
+    .order('start_date', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch room history for charge capture', { admissionId, error: error.message });
+    throw createError('Failed to fetch room history', 500);
+  }
+
+  const result = { posted: [] as any[], existing: 0, unpriced: 0 };
+  if (!entries?.length) {
+    return result;
+  }
+
+  // One tariff snapshot per run: the nightly job captures a single day, invoices the tail of a stay
+  const tariffContext = await loadTariffContext({ admissionId, at: getIstDayBounds(window.to).start });
+  const latestFirst = [...entries].reverse();
+
+  for (let date = window.from; date <= window.to; date = addIstDays(date, 1)) {
+    const { start, end } = getIstDayBounds(date);
+    const entry = latestFirst.find((candidate: any) =>
+      new Date(candidate.start_date) < end && (!candidate.end_date || new Date(candidate.end_date) > start)
+    ) as any;
+
+    if (!entry) {
+      continue;
+    }
+
+    const roomType = entry.room_type ?? entry.rooms?.room_type ?? null;
+    const price = resolveRoomTariff(tariffContext, {
+      roomId: entry.room_id,
+      bedId: entry.bed_id,
+      roomType,
+      fallbackPrice: Number(entry.rate_per_day || 0),
+    });
+
+    if (!price || price.unit_price <= 0) {
+      result.unpriced += 1;
+      logger.warn('No tariff or rate for room day; day not charged', { admissionId, roomHistoryId: entry.id, date });
+      continue;
+    }
+
+    const { charge, created } = await postCharge({
+      admissionId,
+      sourceType: 'room_day',
+      sourceId: entry.id,
+      chargeDate: date,
+      occurredAt: start.toISOString(),
+      line: {
+        item_type: 'room',
+        item_name: `Room/Bed - ${roomType || 'N/A'}`,
+        item_description: `Room rent for ${date}${entry.rooms?.room_number ? ` (Room ${entry.rooms.room_number})` : ''}`,
+        unit_price: price.unit_price,
+        reference_id: entry.room_id,
+        room_type: roomType,
+      },
+      price,
+      postedBy,
+    });
+
+    if (created) {
+      result.posted.push(charge);
+    } else {
+      result.existing += 1;
+    }
+  }
+
+  return result;
+};
+
+// Procedures, consultations and other services rendered to an inpatient
+export const captureServiceCharge = async (
+  admissionId: string,
+  input: {
+    serviceId?: string | null;
+    itemName?: string | null;
+    itemType?: string | null;
+    description?: string | null;
+    quantity?: number;
+    unitPrice?: number;
+    chargeDate?: string;
+    taxCategory?: string | null;
+    hsnSacCode?: string | null;
+  },
+  postedBy?: string | null
+) => {
+  let service: any = null;
+  if (input.serviceId) {
+    const { data, error } = await supabase
+      .from('hospital_services')
+      .select('*')
+      .eq('id', input.serviceId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw createError('Hospital service not found', 404);
+    }
+    service = data;
+  }
+
+  const itemName = input.itemName || service?.service_name;
+  if (!itemName) {
+    throw createError('item_name or service_id is required', 400);
+  }
+
+  const quantity = Number(input.quantity ?? 1);
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw createError('quantity must be greater than zero', 400);
+  }
+
+  const itemType = input.itemType || 'service';
+  const chargeType = chargeTypeForItemType(itemType);
+  // Catalogued services are priced from the tariff; free-text services keep the price entered
+  const price = service
+    ? resolveTariffPrice(await loadTariffContext({ admissionId }), {
+        chargeType: chargeType === 'other' ? 'service' : chargeType,
+        referenceIds: [service.id],
+        fallbackPrice: Number(input.unitPrice ?? 0),
+      })
+    : null;
+  const unitPrice = price?.unit_price ?? Number(input.unitPrice ?? 0);
+
+  if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+    throw createError('unit_price must be zero or more', 400);
+  }
+
+  const { charge } = await postCharge({
+    admissionId,
+    sourceType: 'service',
+    sourceId: randomUUID(),
+    chargeDate: input.chargeDate ?? toIstDateString(),
+    line: {
+      item_type: itemType,
+      item_name: itemName,
+      item_description: input.description ?? null,
+      quantity,
+      unit_price: unitPrice,
+      reference_id: service?.id ?? null,
+      tax_category: input.taxCategory ?? service?.tax_category ?? null,
+      hsn_sac_code: input.hsnSacCode ?? service?.hsn_sac_code ?? null,
+    },
+    price,
+    postedBy,
+  });
+
+  return charge;
+};
+
+// Draft running bills with nothing paid can hand their nightly room lines to a new invoice.
+const fetchTransferableRunningBillIds = async (admissionId: string): Promise<string[]> => {
+  const { data } = await supabase
+    .from('invoices')
+    .select('id, paid_amount')
+    .eq('admission_id', admissionId)
+    .eq('invoice_type', 'interim')
+    .eq('lifecycle_status', 'draft');
+
+  return (data ?? []).filter((bill) => Number(bill.paid_amount || 0) === 0).map((bill) => bill.id);
+};
+
+const unbilledFilter = (runningBillIds: string[]) =>
+  runningBillIds.length
+    ? `invoice_id.is.null,invoice_id.in.(${runningBillIds.join(',')})`
+    : 'invoice_id.is.null';
+
+export const fetchUnbilledCharges = async (
+  admissionId: string,
+  options: {
+    window?: ChargeWindow | null;
+    sourceTypes?: ChargeSourceType[];
+    medicationIds?: string[];
+    labReportIds?: string[];
+    excludeInvoiceId?: string;
+  } = {}
+) => {
+  const runningBillIds = (await fetchTransferableRunningBillIds(admissionId))
+    .filter((id) => id !== options.excludeInvoiceId);
+
+  let query = supabase
+    .from('charge_entries')
+    .select(CHARGE_SELECT)
+    .eq('admission_id', admissionId)
+    .is('voided_at', null)
+    .or(unbilledFilter(runningBillIds))
+    .order('charge_date', { ascending: true })
+    .order('occurred_at', { ascending: true });
+
+  if (options.window) {
+    query = query.gte('charge_date', options.window.from).lte('charge_date', options.window.to);
+  }
+  if (options.sourceTypes) {
+    query = query.in('source_type', options.sourceTypes);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch unbilled charges', { admissionId, error: error.message });
+    throw createError('Failed to fetch unbilled charges', 500);
+  }
+
+  const medicationIds = options.medicationIds?.length ? new Set(options.medicationIds) : null;
+  const labReportIds = options.labReportIds?.length ? new Set(options.labReportIds) : null;
+
+  return (data ?? []).filter((charge) =>
+    !(charge.source_type === 'medication_dose' && medicationIds && !medicationIds.has(charge.reference_id)) &&
+    !(charge.source_type === 'lab_report' && labReportIds && !labReportIds.has(charge.source_id))
+  );
+};
+
+const chargeLine = (charge: any) => ({
+  item_type: charge.item_type,
+  item_name: charge.item_name,
+  item_description: charge.item_description,
+  quantity: Number(charge.quantity),
+  unit_price: Number(charge.unit_price),
+  total_price: Number(charge.total_price),
+  date_from: charge.charge_date,
+  date_to: charge.charge_date,
+  reference_id: charge.reference_id,
+  medication_catalog_id: charge.medication_catalog_id,
+  test_type: charge.test_type,
+  room_type: charge.room_type,
+  tax_category: charge.tax_category,
+  hsn_sac_code: charge.hsn_sac_code,
+  price_list_id: charge.price_list_id,
+  price_list_version_id: charge.price_list_version_id,
+  price_list_version: charge.price_list_version,
+  tariff_item_id: charge.tariff_item_id,
+});
+
+// Fold charges into invoice lines: consecutive room days in one room at one rate make a line,
+// as do all doses of a medication at one price; lab reports and services stay one line each.
+export const buildChargeLines = (charges: any[]): any[] => {
+  const lines: any[] = [];
+  const medicationLines = new Map<string, any>();
+  let roomRun: { line: any; sourceId: string } | null = null;
+
+  charges.forEach((charge) => {
+    if (charge.source_type === 'room_day') {
+      if (
+        roomRun &&
+        roomRun.sourceId === charge.source_id &&
+        roomRun.line.unit_price === Number(charge.unit_price) &&
+        addIstDays(roomRun.line.date_to, 1) === charge.charge_date
+      ) {
+        roomRun.line.quantity += 1;
+        roomRun.line.total_price = roundCurrency(roomRun.line.total_price + Number(charge.total_price));
+        roomRun.line.date_to = charge.charge_date;
+        roomRun.line.item_description = `Room rent ${roomRun.line.date_from} to ${charge.charge_date}`;
+        return;
+      }
+      roomRun = { line: chargeLine(charge), sourceId: charge.source_id };
+      lines.push(roomRun.line);
+      return;
+    }
+
+    if (charge.source_type === 'medication_dose') {
+      const key = `${charge.reference_id}|${charge.unit_price}`;
+      const existing = medicationLines.get(key);
+      if (existing) {
+        existing.quantity += Number(charge.quantity);
+        existing.total_price = roundCurrency(existing.total_price + Number(charge.total_price));
+        existing.date_to = charge.charge_date;
+        existing.item_description = `Medication administered - ${existing.quantity} doses`;
+        return;
+      }
+      const line = { ...chargeLine(charge), item_description: 'Medication administered - 1 dose' };
+      medicationLines.set(key, line);
+      lines.push(line);
+      return;
+    }
+
+    lines.push(chargeLine(charge));
+  });
+
+  return lines;
+};
+
+// Put charges claimed by a failed billing back where they were: unbilled, or on the running bill
+// line they came from. Only the given charges are touched, never others on the invoice.
+const restoreClaimedCharges = async (invoiceId: string, charges: any[]) => {
+  const unbilledIds = charges.filter((charge) => !charge.invoice_id).map((charge) => charge.id);
+  const restores = [
+    ...(unbilledIds.length
+      ? [supabase.from('charge_entries').update({ invoice_id: null, bill_item_id: null }).in('id', unbilledIds).eq('invoice_id', invoiceId)]
+      : []),
+    ...charges
+      .filter((charge) => charge.invoice_id)
+      .map((charge) =>
+        supabase
+          .from('charge_entries')
+          .update({ invoice_id: charge.invoice_id, bill_item_id: charge.bill_item_id ?? null })
+          .eq('id', charge.id)
+          .eq('invoice_id', invoiceId)
+      ),
+  ];
+
+  const failed = (await Promise.all(restores)).find((result) => result.error);
+  if (failed?.error) {
+    logger.error('Failed to restore claimed charges', { invoiceId, error: failed.error.message });
+  }
+};
+
+// Stamp the pulled charges with the invoice. If another invoice billed or voided any of them
+// first, the ones this call did claim are put back and 409 is raised.
+export const markChargesBilled = async (invoiceId: string, admissionId: string, charges: any[]) => {
+  if (!charges.length) {
+    return;
+  }
+
+  const runningBillIds = await fetchTransferableRunningBillIds(admissionId);
+  const chargeIds = charges.map((charge) => charge.id);
+
+  const { data: claimed, error } = await supabase
+    .from('charge_entries')
+    .update({ invoice_id: invoiceId, bill_item_id: null })
+    .in('id', chargeIds)
+    .is('voided_at', null)
+    .or(unbilledFilter(runningBillIds))
+    .select('id');
+
+  if (error) {
+    logger.error('Failed to mark charges billed', { invoiceId, error: error.message });
+    throw createError('Failed to mark charges billed', 500);
+  }
+  if ((claimed ?? []).length !== chargeIds.length) {
+    const claimedIds = new Set((claimed ?? []).map((charge) => charge.id));
+    await restoreClaimedCharges(invoiceId, charges.filter((charge) => claimedIds.has(charge.id)));
+    throw createError('Some charges were billed or voided by someone else; please retry', 409);
+  }
+
+  const labReportIds = charges.filter((charge) => charge.source_type === 'lab_report').map((charge) => charge.source_id);
+  if (labReportIds.length) {
+    await supabase
+      .from('lab_reports')
+      .update({ billing_status: 'billed', updated_at: new Date().toISOString() })
+      .in('id', labReportIds);
+  }
+
+  // Room days taken over from the running bill leave it once the claim has succeeded
+  const transferred = charges.filter((charge) => charge.invoice_id && charge.invoice_id !== invoiceId);
+  const runningBillItemIds = transferred.map((charge) => charge.bill_item_id).filter(Boolean);
+
+  if (runningBillItemIds.length) {
+    await supabase.from('bill_items').delete().in('id', runningBillItemIds);
+  }
+
+  for (const runningInvoiceId of new Set<string>(transferred.map((charge) => charge.invoice_id))) {
+    await refreshInvoiceTotals(runningInvoiceId);
+    await recordInvoiceChange(runningInvoiceId, 'Room days moved to another invoice');
+  }
+};
+
+// Hand an invoice's charges back to the unbilled pool (failed creation or deleted invoice).
+export const releaseInvoiceCharges = async (invoiceId: string) => {
+  const { data: released, error } = await supabase
+    .from('charge_entries')
+    .update({ invoice_id: null, bill_item_id: null })
+    .eq('invoice_id', invoiceId)
+    .select('source_type, source_id');
+
+  if (error) {
+    logger.error('Failed to release invoice charges', { invoiceId, error: error.message });
+    throw createError('Failed to release invoice charges', 500);
+  }
+
+  const labReportIds = (released ?? []).filter((charge) => charge.source_type === 'lab_report').map((charge) => charge.source_id);
+  if (labReportIds.length) {
+    await supabase
+      .from('lab_reports')
+      .update({ billing_status: 'pending', updated_at: new Date().toISOString() })
+      .in('id', labReportIds);
+  }
+
+  return (released ?? []).length;
+};
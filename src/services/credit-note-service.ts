@@ -0,0 +1,425 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import {
+  PAYMENT_METHODS,
+  recalculateInvoicePayments,
+  resolveAmountPayable,
+  roundCurrency,
+} from './payment-service.js';
+import { allocateDocumentNumber } from './sequence-service.js';
+import { assertBusinessDayOpen } from './day-book-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+// Money refunds go back by a payment method; an adjustment only lowers what the patient still owes
+export const CREDIT_NOTE_ADJUSTMENT = 'adjustment';
+export const CREDIT_NOTE_REFUND_MODES = [...PAYMENT_METHODS, CREDIT_NOTE_ADJUSTMENT] as const;
+
+export const isCreditNoteRefundMode = (value: unknown): value is (typeof CREDIT_NOTE_REFUND_MODES)[number] =>
+  typeof value === 'string' && (CREDIT_NOTE_REFUND_MODES as readonly string[]).includes(value);
+
+const CREDIT_NOTE_INVOICE_SELECT =
+  'id, invoice_number, admission_id, total_amount, amount_payable, paid_amount, written_off_amount, credited_amount, include_gst, gst_rate, gst_mode';
+
+export const CREDIT_NOTE_SELECT = `
+  id,
+  credit_note_number,
+  invoice_id,
+  admission_id,
+  reason,
+  refund_mode,
+  refund_reference,
+  total_amount,
+  status,
+  notes,
+  requested_by,
+  approved_by,
+  approved_at,
+  rejection_reason,
+  created_at,
+  updated_at
+`;
+
+export const CREDIT_NOTE_ITEM_SELECT = `
+  id,
+  credit_note_id,
+  bill_item_id,
+  item_type,
+  item_name,
+  quantity,
+  unit_price,
+  amount,
+  tax_amount,
+  created_at
+`;
+
+export interface CreditNoteItemInput {
+  bill_item_id: string;
+  quantity?: number;
+  amount?: number;
+}
+
+export interface CreateCreditNoteInput {
+  invoiceId: string;
+  reason: string;
+  refundMode: string;
+  refundReference?: string | null;
+  notes?: string | null;
+  items: CreditNoteItemInput[];
+  requestedBy?: string | null;
+}
+
+// Amount already credited per bill item across notes that have not been rejected.
+const fetchCreditedAmounts = async (billItemIds: string[]) => {
+  const credited = new Map<string, number>();
+  if (!billItemIds.length) {
+    return credited;
+  }
+
+  const { data, error } = await supabase
+    .from('credit_note_items')
+    .select('bill_item_id, amount, credit_notes!inner(status)')
+    .in('bill_item_id', billItemIds)
+    .neq('credit_notes.status', 'rejected');
+
+  if (error) {
+    logger.error('Failed to fetch existing credit note items', { error: error.message });
+    throw createError('Failed to validate credit note items', 500);
+  }
+
+  (data ?? []).forEach((row: any) => {
+    credited.set(row.bill_item_id, roundCurrency((credited.get(row.bill_item_id) ?? 0) + Number(row.amount || 0)));
+  });
+
+  return credited;
+};
+
+// GST on the credited part of a line, in the same proportion the line was taxed. Invoices from
+// before line-level GST were taxed at one rate on the whole bill.
+const creditedLineTax = (invoice: any, billItem: any, amount: number): number => {
+  if (invoice.gst_mode === 'invoice') {
+    return invoice.include_gst ? roundCurrency((amount * Number(invoice.gst_rate || 0)) / 100) : 0;
+  }
+
+  const taxable = Number(billItem.total_price || 0);
+  return taxable > 0 ? roundCurrency((Number(billItem.tax_amount || 0) * amount) / taxable) : 0;
+};
+
+// A refund can only hand back money that was collected, less what earlier refunds returned; an
+// adjustment can only clear what is still owed. Notes still pending count against both.
+const assertCreditWithinLimits = async (
+  invoice: any,
+  refundMode: string,
+  totalAmount: number,
+  excludeCreditNoteId?: string
+) => {
+  let query = supabase
+    .from('credit_notes')
+    .select('id, total_amount, refund_mode, status')
+    .eq('invoice_id', invoice.id)
+    .neq('status', 'rejected');
+  if (excludeCreditNoteId) {
+    query = query.neq('id', excludeCreditNoteId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    logger.error('Failed to fetch earlier credit notes', { invoiceId: invoice.id, error: error.message });
+    throw createError('Failed to validate credit note', 500);
+  }
+
+  const earlier = data ?? [];
+  const sumOf = (notes: any[]) => roundCurrency(notes.reduce((sum, note) => sum + Number(note.total_amount || 0), 0));
+
+  const creditable = roundCurrency(resolveAmountPayable(invoice) - sumOf(earlier));
+  if (totalAmount > creditable) {
+    throw createError(`Credit note total exceeds the remaining creditable invoice amount of ${Math.max(0, creditable).toFixed(2)}`, 400);
+  }
+
+  if (refundMode === CREDIT_NOTE_ADJUSTMENT) {
+    const outstanding = roundCurrency(
+      resolveAmountPayable(invoice) -
+        Number(invoice.paid_amount || 0) -
+        Number(invoice.written_off_amount || 0) -
+        Number(invoice.credited_amount || 0) -
+        sumOf(earlier.filter((note) => note.refund_mode === CREDIT_NOTE_ADJUSTMENT && note.status === 'pending'))
+    );
+    if (totalAmount > outstanding) {
+      throw createError(`Adjustment exceeds the outstanding balance of ${Math.max(0, outstanding).toFixed(2)}`, 400);
+    }
+    return;
+  }
+
+  const refundable = roundCurrency(
+    Number(invoice.paid_amount || 0) - sumOf(earlier.filter((note) => note.refund_mode !== CREDIT_NOTE_ADJUSTMENT))
+  );
+  if (totalAmount > refundable) {
+    throw createError(`Refund exceeds the amount paid less earlier refunds (${Math.max(0, refundable).toFixed(2)})`, 400);
+  }
+};
+
+export const fetchCreditNoteWithItems = async (creditNoteId: string) => {
+  const { data: creditNote, error } = await supabase
+    .from('credit_notes')
+    .select(CREDIT_NOTE_SELECT)
+    .eq('id', creditNoteId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch credit note', { creditNoteId, error: error.message });
+    throw createError('Failed to fetch credit note', 500);
+  }
+
+  if (!creditNote) {
+    throw createError('Credit note not found', 404);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('credit_note_items')
+    .select(CREDIT_NOTE_ITEM_SELECT)
+    .eq('credit_note_id', creditNoteId)
+    .order('created_at', { ascending: true });
+
+  if (itemsError) {
+    logger.error('Failed to fetch credit note items', { creditNoteId, error: itemsError.message });
+    throw createError('Failed to fetch credit note items', 500);
+  }
+
+  return { creditNote, items: items ?? [] };
+};
+
+export const createCreditNote = async ({
+  invoiceId,
+  reason,
+  refundMode,
+  refundReference,
+  notes,
+  items,
+  requestedBy,
+}: CreateCreditNoteInput) => {
+  if (!reason?.trim()) {
+    throw createError('reason is required', 400);
+  }
+
+  if (!isCreditNoteRefundMode(refundMode)) {
+    throw createError(`refund_mode must be one of: ${CREDIT_NOTE_REFUND_MODES.join(', ')}`, 400);
+  }
+
+  if (!Array.isArray(items) || !items.length) {
+    throw createError('At least one bill item must be credited', 400);
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(CREDIT_NOTE_INVOICE_SELECT)
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const billItemIds = Array.from(new Set(items.map((item) => item.bill_item_id).filter(Boolean)));
+  if (billItemIds.length !== items.length) {
+    throw createError('Each credit note line must reference a distinct bill_item_id', 400);
+  }
+
+  const { data: billItems, error: billItemsError } = await supabase
+    .from('bill_items')
+    .select('id, invoice_id, item_type, item_name, quantity, unit_price, total_price, tax_amount')
+    .in('id', billItemIds);
+
+  if (billItemsError) {
+    logger.error('Failed to fetch bill items for credit note', { invoiceId, error: billItemsError.message });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  const billItemMap = new Map((billItems ?? []).map((item) => [item.id, item]));
+  const creditedAmounts = await fetchCreditedAmounts(billItemIds);
+
+  const lines = items.map((input) => {
+    const billItem = billItemMap.get(input.bill_item_id);
+    if (!billItem || billItem.invoice_id !== invoiceId) {
+      throw createError(`Bill item ${input.bill_item_id} does not belong to this invoice`, 400);
+    }
+
+    const unitPrice = Number(billItem.unit_price || 0);
+    const quantity = input.quantity !== undefined ? Number(input.quantity) : Number(billItem.quantity || 1);
+    const amount = roundCurrency(
+      input.amount !== undefined
+        ? Number(input.amount)
+        : input.quantity !== undefined
+          ? quantity * unitPrice
+          : Number(billItem.total_price || 0)
+    );
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw createError(`Credit amount for ${billItem.item_name} must be greater than zero`, 400);
+    }
+
+    const creditable = roundCurrency(Number(billItem.total_price || 0) - (creditedAmounts.get(billItem.id) ?? 0));
+    if (amount > creditable) {
+      throw createError(`Credit for ${billItem.item_name} exceeds remaining creditable amount of ${creditable.toFixed(2)}`, 400);
+    }
+
+    return {
+      bill_item_id: billItem.id,
+      item_type: billItem.item_type,
+      item_name: billItem.item_name,
+      quantity,
+      unit_price: unitPrice,
+      amount,
+      tax_amount: creditedLineTax(invoice, billItem, amount),
+    };
+  });
+
+  const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + line.amount + line.tax_amount, 0));
+  await assertCreditWithinLimits(invoice, refundMode, totalAmount);
+
+  const creditNoteNumber = await allocateDocumentNumber('credit_note');
+
+  const { data: creditNote, error } = await supabase
+    .from('credit_notes')
+    .insert({
+      credit_note_number: creditNoteNumber,
+      invoice_id: invoiceId,
+      admission_id: invoice.admission_id ?? null,
+      reason: reason.trim(),
+      refund_mode: refundMode,
+      refund_reference: refundReference || null,
+      total_amount: totalAmount,
+      status: 'pending',
+      notes: notes || null,
+      requested_by: requestedBy ?? null,
+    })
+    .select(CREDIT_NOTE_SELECT)
+    .single();
+
+  if (error || !creditNote) {
+    logger.error('Failed to create credit note', { invoiceId, error: error?.message });
+    throw createError('Failed to create credit note', 500);
+  }
+
+  const { data: insertedItems, error: itemsError } = await supabase
+    .from('credit_note_items')
+    .insert(lines.map((line) => ({ ...line, credit_note_id: creditNote.id })))
+    .select(CREDIT_NOTE_ITEM_SELECT);
+
+  if (itemsError) {
+    logger.error('Failed to create credit note items', { creditNoteId: creditNote.id, error: itemsError.message });
+    await supabase.from('credit_notes').delete().eq('id', creditNote.id);
+    throw createError('Failed to create credit note items', 500);
+  }
+
+  logger.info('Credit note raised', {
+    creditNoteId: creditNote.id,
+    creditNoteNumber,
+    invoiceId,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount,
+    requestedBy,
+  });
+
+  return { creditNote, items: insertedItems ?? [] };
+};
+
+export const reviewCreditNote = async (
+  creditNoteId: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string | null,
+  options: { refundReference?: string | null; rejectionReason?: string | null } = {}
+) => {
+  const { creditNote: existing } = await fetchCreditNoteWithItems(creditNoteId);
+
+  if (existing.status !== 'pending') {
+    throw createError(`Credit note is already ${existing.status}`, 400);
+  }
+
+  if (decision === 'rejected' && !options.rejectionReason?.trim()) {
+    throw createError('rejection_reason is required', 400);
+  }
+
+  // Payments may have been voided since the note was raised, so the limits are checked again
+  const isAdjustment = existing.refund_mode === CREDIT_NOTE_ADJUSTMENT;
+  let invoice: any = null;
+  if (decision === 'approved') {
+    const { data, error: invoiceError } = await supabase
+      .from('invoices')
+      .select(CREDIT_NOTE_INVOICE_SELECT)
+      .eq('id', existing.invoice_id)
+      .single();
+
+    if (invoiceError || !data) {
+      throw createError('Invoice not found', 404);
+    }
+    invoice = data;
+
+    await assertCreditWithinLimits(invoice, existing.refund_mode, Number(existing.total_amount || 0), creditNoteId);
+
+    // An approved refund is paid out the same day and lands in today's day book
+    if (!isAdjustment) {
+      await assertBusinessDayOpen();
+    }
+  }
+
+  const nowIso = new Date().toISOString();
+  const updates: Record<string, any> = {
+    status: decision,
+    approved_by: reviewedBy,
+    approved_at: nowIso,
+    updated_at: nowIso,
+  };
+
+  if (decision === 'approved' && options.refundReference !== undefined) {
+    updates.refund_reference = options.refundReference || null;
+  }
+
+  if (decision === 'rejected') {
+    updates.rejection_reason = options.rejectionReason!.trim();
+  }
+
+  const { data: creditNote, error } = await supabase
+    .from('credit_notes')
+    .update(updates)
+    .eq('id', creditNoteId)
+    .eq('status', 'pending')
+    .select(CREDIT_NOTE_SELECT)
+    .single();
+
+  if (error || !creditNote) {
+    logger.error('Failed to review credit note', { creditNoteId, decision, error: error?.message });
+    throw createError('Failed to update credit note', 500);
+  }
+
+  // An adjustment lowers the invoice balance the same way an approved write-off does
+  if (decision === 'approved' && isAdjustment) {
+    const { error: creditError } = await supabase
+      .from('invoices')
+      .update({
+        credited_amount: roundCurrency(Number(invoice.credited_amount || 0) + Number(creditNote.total_amount || 0)),
+        updated_at: nowIso,
+      })
+      .eq('id', invoice.id);
+
+    if (creditError) {
+      logger.error('Failed to apply credit note to invoice', { creditNoteId, error: creditError.message });
+      await supabase
+        .from('credit_notes')
+        .update({ status: 'pending', approved_by: null, approved_at: null, updated_at: nowIso })
+        .eq('id', creditNoteId);
+      throw createError('Failed to apply credit note to invoice', 500);
+    }
+
+    await recalculateInvoicePayments(invoice.id);
+  }
+
+  logger.info(`Credit note ${decision}`, {
+    creditNoteId,
+    creditNoteNumber: creditNote.credit_note_number,
+    totalAmount: creditNote.total_amount,
+    reviewedBy,
+  });
+
+  return creditNote;
+};
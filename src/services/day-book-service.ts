@@ -0,0 +1,363 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { getIstDayBounds, toIstDateString } from '../utils/ist-date.js';
+import { PAYMENT_METHODS, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const DAY_BOOK_CLOSING_SELECT = `
+  id,
+  business_date,
+  status,
+  total_collections,
+  total_refunds,
+  net_collection,
+  notes,
+  closed_by,
+  closed_at,
+  reopened_by,
+  reopened_at,
+  reopen_reason
+`;
+
+export type DayBookEntryKind = 'payment' | 'deposit' | 'refund_voucher' | 'credit_note';
+
+export interface DayBookEntry {
+  kind: DayBookEntryKind;
+  id: string;
+  documentNumber: string | null;
+  invoiceNumber: string | null;
+  method: string;
+  reference: string | null;
+  staffId: string | null;
+  staffName: string | null;
+  amount: number;
+  at: string;
+}
+
+export interface DayBookTotals {
+  collections: number;
+  refunds: number;
+  net: number;
+}
+
+export interface DayBook {
+  businessDate: string;
+  staffId: string | null;
+  closing: any | null;
+  collections: DayBookEntry[];
+  refunds: DayBookEntry[];
+  byMethod: Array<{ method: string } & DayBookTotals>;
+  byStaff: Array<{ staffId: string | null; staffName: string; byMethod: Record<string, number> } & DayBookTotals>;
+  totals: DayBookTotals & { collectionCount: number; refundCount: number };
+}
+
+const fetchClosing = async (businessDate: string) => {
+  const { data, error } = await supabase
+    .from('day_book_closings')
+    .select(`${DAY_BOOK_CLOSING_SELECT}, snapshot`)
+    .eq('business_date', businessDate)
+    .eq('status', 'closed')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch day book closing', { businessDate, error: error.message });
+    throw createError('Failed to fetch day book closing', 500);
+  }
+
+  return data;
+};
+
+// Refuse money movements dated on a day whose figures have been frozen.
+export const assertBusinessDayOpen = async (at?: string | Date | null) => {
+  const instant = at ? new Date(at) : new Date();
+  if (Number.isNaN(instant.getTime())) {
+    return;
+  }
+
+  const businessDate = toIstDateString(instant);
+  if (await fetchClosing(businessDate)) {
+    throw createError(`The day book for ${businessDate} is closed; an admin must reopen it before its collections or refunds change`, 409);
+  }
+};
+
+const resolveStaffNames = async (staffIds: Array<string | null>) => {
+  const ids = Array.from(new Set(staffIds.filter(Boolean))) as string[];
+  if (!ids.length) {
+    return new Map<string, string>();
+  }
+
+  const { data } = await supabase.from('staff').select('id, first_name, last_name').in('id', ids);
+  return new Map((data ?? []).map((member) => [member.id, `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim()]));
+};
+
+const invoiceNumberOf = (row: any): string | null => {
+  const invoice: any = Array.isArray(row.invoices) ? row.invoices[0] : row.invoices;
+  return invoice?.invoice_number ?? null;
+};
+
+// Collections and refunds of an IST day, straight from the ledgers
+const collectDayEntries = async (businessDate: string) => {
+  const { start, end } = getIstDayBounds(businessDate);
+  const from = start.toISOString();
+  const to = end.toISOString();
+
+  const [payments, deposits, vouchers, creditNotes] = await Promise.all([
+    // Deposit applications move money already counted when the deposit was taken
+    supabase
+      .from('payments')
+      .select('id, receipt_number, amount, payment_method, payment_reference, payment_date, collected_by, invoices ( invoice_number )')
+      .eq('status', 'completed')
+      .is('deposit_id', null)
+      .gte('payment_date', from)
+      .lt('payment_date', to),
+    supabase
+      .from('admission_deposits')
+      .select('id, amount, payment_method, payment_reference, received_at, received_by')
+      .gte('received_at', from)
+      .lt('received_at', to),
+    supabase
+      .from('refund_vouchers')
+      .select('id, voucher_number, amount, refund_mode, refund_reference, paid_by, paid_at, invoices ( invoice_number )')
+      .eq('status', 'paid')
+      .gte('paid_at', from)
+      .lt('paid_at', to),
+    supabase
+      .from('credit_notes')
+      .select('id, credit_note_number, total_amount, refund_mode, refund_reference, approved_by, approved_at, invoices ( invoice_number )')
+      .eq('status', 'approved')
+      .neq('refund_mode', 'adjustment')
+      .gte('approved_at', from)
+      .lt('approved_at', to),
+  ]);
+
+  const failed = [payments, deposits, vouchers, creditNotes].find((result) => result.error);
+  if (failed?.error) {
+    logger.error('Failed to fetch day book entries', { businessDate, error: failed.error.message });
+    throw createError('Failed to build day book', 500);
+  }
+
+  const collections: DayBookEntry[] = [
+    ...(payments.data ?? []).map((payment: any) => ({
+      kind: 'payment' as const,
+      id: payment.id,
+      documentNumber: payment.receipt_number ?? null,
+      invoiceNumber: invoiceNumberOf(payment),
+      method: payment.payment_method,
+      reference: payment.payment_reference ?? null,
+      staffId: payment.collected_by ?? null,
+      staffName: null,
+      amount: roundCurrency(Number(payment.amount || 0)),
+      at: payment.payment_date,
+    })),
+    ...(deposits.data ?? []).map((deposit: any) => ({
+      kind: 'deposit' as const,
+      id: deposit.id,
+      documentNumber: null,
+      invoiceNumber: null,
+      method: deposit.payment_method,
+      reference: deposit.payment_reference ?? null,
+      staffId: deposit.received_by ?? null,
+      staffName: null,
+      amount: roundCurrency(Number(deposit.amount || 0)),
+      at: deposit.received_at,
+    })),
+  ];
+
+  const refunds: DayBookEntry[] = [
+    ...(vouchers.data ?? []).map((voucher: any) => ({
+      kind: 'refund_voucher' as const,
+      id: voucher.id,
+      documentNumber: voucher.voucher_number,
+      invoiceNumber: invoiceNumberOf(voucher),
+      method: voucher.refund_mode ?? 'cash',
+      reference: voucher.refund_reference ?? null,
+      staffId: voucher.paid_by ?? null,
+      staffName: null,
+      amount: roundCurrency(Number(voucher.amount || 0)),
+      at: voucher.paid_at,
+    })),
+    ...(creditNotes.data ?? []).map((creditNote: any) => ({
+      kind: 'credit_note' as const,
+      id: creditNote.id,
+      documentNumber: creditNote.credit_note_number,
+      invoiceNumber: invoiceNumberOf(creditNote),
+      method: creditNote.refund_mode ?? 'cash',
+      reference: creditNote.refund_reference ?? null,
+      staffId: creditNote.approved_by ?? null,
+      staffName: null,
+      amount: roundCurrency(Number(creditNote.total_amount || 0)),
+      at: creditNote.approved_at,
+    })),
+  ];
+
+  const names = await resolveStaffNames([...collections, ...refunds].map((entry) => entry.staffId));
+  const named = (entries: DayBookEntry[]) =>
+    entries
+      .map((entry) => ({ ...entry, staffName: entry.staffId ? names.get(entry.staffId) ?? null : null }))
+      .sort((a, b) => a.at.localeCompare(b.at));
+
+  return { collections: named(collections), refunds: named(refunds) };
+};
+
+const totalsOf = (collections: DayBookEntry[], refunds: DayBookEntry[]): DayBookTotals => {
+  const collected = roundCurrency(collections.reduce((sum, entry) => sum + entry.amount, 0));
+  const refunded = roundCurrency(refunds.reduce((sum, entry) => sum + entry.amount, 0));
+  return { collections: collected, refunds: refunded, net: roundCurrency(collected - refunded) };
+};
+
+const summarizeDayBook = (
+  businessDate: string,
+  collections: DayBookEntry[],
+  refunds: DayBookEntry[],
+  closing: any | null,
+  staffId: string | null
+): DayBook => {
+  const methods = Array.from(new Set<string>([...PAYMENT_METHODS, ...collections.map((e) => e.method), ...refunds.map((e) => e.method)]));
+  const byMethod = methods.map((method) => ({
+    method,
+    ...totalsOf(collections.filter((e) => e.method === method), refunds.filter((e) => e.method === method)),
+  }));
+
+  const staffKeys = Array.from(new Set([...collections, ...refunds].map((entry) => entry.staffId)));
+  const byStaff = staffKeys.map((key) => {
+    const staffCollections = collections.filter((e) => e.staffId === key);
+    const staffRefunds = refunds.filter((e) => e.staffId === key);
+    const staffName = [...staffCollections, ...staffRefunds].find((e) => e.staffName)?.staffName ?? 'Unattributed';
+    const staffByMethod: Record<string, number> = {};
+    staffCollections.forEach((e) => {
+      staffByMethod[e.method] = roundCurrency((staffByMethod[e.method] ?? 0) + e.amount);
+    });
+    staffRefunds.forEach((e) => {
+      staffByMethod[e.method] = roundCurrency((staffByMethod[e.method] ?? 0) - e.amount);
+    });
+
+    return { staffId: key, staffName, byMethod: staffByMethod, ...totalsOf(staffCollections, staffRefunds) };
+  });
+
+  return {
+    businessDate,
+    staffId,
+    closing,
+    collections,
+    refunds,
+    byMethod,
+    byStaff: byStaff.sort((a, b) => b.net - a.net),
+    totals: {
+      ...totalsOf(collections, refunds),
+      collectionCount: collections.length,
+      refundCount: refunds.length,
+    },
+  };
+};
+
+// The day book for a date: the frozen snapshot once the day is closed, the live ledgers until then.
+export const buildDayBook = async (businessDate: string, staffId: string | null = null): Promise<DayBook> => {
+  const closing = await fetchClosing(businessDate);
+  const entries = closing ? closing.snapshot : await collectDayEntries(businessDate);
+
+  const forStaff = (list: DayBookEntry[]) => (staffId ? list.filter((entry) => entry.staffId === staffId) : list);
+  const closingSummary = closing ? (({ snapshot: _snapshot, ...rest }) => rest)(closing) : null;
+
+  return summarizeDayBook(businessDate, forStaff(entries.collections ?? []), forStaff(entries.refunds ?? []), closingSummary, staffId);
+};
+
+export const closeBusinessDay = async (businessDate: string, closedBy: string | null, notes?: string | null) => {
+  if (businessDate > toIstDateString()) {
+    throw createError('A day cannot be closed before it has started', 400);
+  }
+
+  const entries = await collectDayEntries(businessDate);
+  const totals = totalsOf(entries.collections, entries.refunds);
+
+  const { data, error } = await supabase
+    .from('day_book_closings')
+    .insert({
+      business_date: businessDate,
+      status: 'closed',
+      snapshot: entries,
+      total_collections: totals.collections,
+      total_refunds: totals.refunds,
+      net_collection: totals.net,
+      notes: notes?.trim() || null,
+      closed_by: closedBy,
+    })
+    .select(DAY_BOOK_CLOSING_SELECT)
+    .single();
+
+  if (error?.code === '23505') {
+    throw createError(`The day book for ${businessDate} is already closed`, 409);
+  }
+  if (error || !data) {
+    logger.error('Failed to close day book', { businessDate, error: error?.message });
+    throw createError('Failed to close day book', 500);
+  }
+
+  logger.info('Day book closed', { businessDate, ...totals, closedBy });
+
+  return data;
+};
+
+export const reopenBusinessDay = async (businessDate: string, reopenedBy: string | null, reason?: string | null) => {
+  if (!reason?.trim()) {
+    throw createError('reason is required to reopen a closed day', 400);
+  }
+
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('day_book_closings')
+    .update({
+      status: 'reopened',
+      reopened_by: reopenedBy,
+      reopened_at: nowIso,
+      reopen_reason: reason.trim(),
+    })
+    .eq('business_date', businessDate)
+    .eq('status', 'closed')
+    .select(DAY_BOOK_CLOSING_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to reopen day book', { businessDate, error: error.message });
+    throw createError('Failed to reopen day book', 500);
+  }
+  if (!data) {
+    throw createError(`The day book for ${businessDate} is not closed`, 409);
+  }
+
+  logger.info('Day book reopened', { businessDate, reopenedBy, reason: data.reopen_reason });
+
+  return data;
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: unknown[]) => cells.map(csvCell).join(',');
+
+export const dayBookToCsv = (dayBook: DayBook): string => {
+  const lines: string[] = [
+    csvRow(['Day Book', dayBook.businessDate, dayBook.closing ? `Closed ${dayBook.closing.closed_at}` : 'Open']),
+    '',
+    csvRow(['Type', 'Time', 'Document No', 'Invoice No', 'Method', 'Reference', 'Staff', 'Amount']),
+    ...dayBook.collections.map((entry) =>
+      csvRow([entry.kind, entry.at, entry.documentNumber, entry.invoiceNumber, entry.method, entry.reference, entry.staffName, entry.amount.toFixed(2)])
+    ),
+    ...dayBook.refunds.map((entry) =>
+      csvRow([entry.kind, entry.at, entry.documentNumber, entry.invoiceNumber, entry.method, entry.reference, entry.staffName, (-entry.amount).toFixed(2)])
+    ),
+    '',
+    csvRow(['Method', 'Collections', 'Refunds', 'Net']),
+    ...dayBook.byMethod.map((row) => csvRow([row.method, row.collections.toFixed(2), row.refunds.toFixed(2), row.net.toFixed(2)])),
+    '',
+    csvRow(['Staff', 'Collections', 'Refunds', 'Net']),
+    ...dayBook.byStaff.map((row) => csvRow([row.staffName, row.collections.toFixed(2), row.refunds.toFixed(2), row.net.toFixed(2)])),
+    '',
+    csvRow(['Total', dayBook.totals.collections.toFixed(2), dayBook.totals.refunds.toFixed(2), dayBook.totals.net.toFixed(2)]),
+  ];
+
+  return `${lines.join('\n')}\n`;
+};
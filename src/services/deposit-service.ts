@@ -0,0 +1,475 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import {
+  isPaymentMethod,
+  PAYMENT_METHODS,
+  recordPayment,
+  resolveAmountPayable,
+  roundCurrency,
+} from './payment-service.js';
+import { allocateDocumentNumber } from './sequence-service.js';
+import { assertBusinessDayOpen } from './day-book-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const DEPOSIT_PAYMENT_METHOD = 'deposit';
+
+export const DEPOSIT_SELECT = `
+  id,
+  admission_id,
+  patient_id,
+  amount,
+  payment_method,
+  payment_reference,
+  received_at,
+  received_by,
+  notes,
+  applied_amount,
+  refunded_amount,
+  status,
+  created_at,
+  updated_at
+`;
+
+export const REFUND_VOUCHER_SELECT = `
+  id,
+  voucher_number,
+  admission_id,
+  patient_id,
+  deposit_id,
+  invoice_id,
+  amount,
+  reason,
+  status,
+  refund_mode,
+  refund_reference,
+  issued_by,
+  paid_by,
+  paid_at,
+  cancelled_by,
+  cancelled_at,
+  cancellation_reason,
+  created_at,
+  updated_at
+`;
+
+export interface RecordDepositInput {
+  admissionId: string;
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string | null;
+  receivedAt?: string | null;
+  notes?: string | null;
+  receivedBy?: string | null;
+}
+
+export interface DepositSummary {
+  totalDeposited: number;
+  totalApplied: number;
+  totalRefunded: number;
+  availableCredit: number;
+}
+
+export const remainingDepositAmount = (deposit: {
+  amount?: number | null;
+  applied_amount?: number | null;
+  refunded_amount?: number | null;
+}): number =>
+  roundCurrency(
+    Math.max(0, Number(deposit.amount || 0) - Number(deposit.applied_amount || 0) - Number(deposit.refunded_amount || 0))
+  );
+
+export const deriveDepositStatus = (amount: number, appliedAmount: number, refundedAmount: number): string => {
+  const remaining = roundCurrency(amount - appliedAmount - refundedAmount);
+  if (remaining > 0) {
+    return appliedAmount > 0 ? 'partially_applied' : 'held';
+  }
+  return refundedAmount > 0 ? 'refunded' : 'applied';
+};
+
+export const summarizeDeposits = (deposits: any[]): DepositSummary => {
+  const totals = deposits.reduce(
+    (acc, deposit) => ({
+      totalDeposited: acc.totalDeposited + Number(deposit.amount || 0),
+      totalApplied: acc.totalApplied + Number(deposit.applied_amount || 0),
+      totalRefunded: acc.totalRefunded + Number(deposit.refunded_amount || 0),
+    }),
+    { totalDeposited: 0, totalApplied: 0, totalRefunded: 0 }
+  );
+
+  return {
+    totalDeposited: roundCurrency(totals.totalDeposited),
+    totalApplied: roundCurrency(totals.totalApplied),
+    totalRefunded: roundCurrency(totals.totalRefunded),
+    availableCredit: roundCurrency(deposits.reduce((sum, deposit) => sum + remainingDepositAmount(deposit), 0)),
+  };
+};
+
+export const fetchAdmissionDeposits = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('admission_deposits')
+    .select(DEPOSIT_SELECT)
+    .eq('admission_id', admissionId)
+    .order('received_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch admission deposits', { admissionId, error: error.message });
+    throw createError('Failed to fetch deposits', 500);
+  }
+
+  return data ?? [];
+};
+
+export const fetchAdmissionRefundVouchers = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('refund_vouchers')
+    .select(REFUND_VOUCHER_SELECT)
+    .eq('admission_id', admissionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch refund vouchers', { admissionId, error: error.message });
+    throw createError('Failed to fetch refund vouchers', 500);
+  }
+
+  return data ?? [];
+};
+
+export const recordDeposit = async ({
+  admissionId,
+  amount,
+  paymentMethod,
+  paymentReference,
+  receivedAt,
+  notes,
+  receivedBy,
+}: RecordDepositInput) => {
+  const depositAmount = roundCurrency(amount);
+
+  if (!Number.isFinite(depositAmount) || depositAmount <= 0) {
+    throw createError('Deposit amount must be greater than zero', 400);
+  }
+
+  if (!isPaymentMethod(paymentMethod)) {
+    throw createError(`payment_method must be one of: ${PAYMENT_METHODS.join(', ')}`, 400);
+  }
+
+  const { data: admission, error: admissionError } = await supabase
+    .from('admissions')
+    .select('id, patient_id, status')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (admissionError || !admission) {
+    throw createError('Admission not found', 404);
+  }
+
+  if (admission.status === 'cancelled') {
+    throw createError('Deposits cannot be recorded against a cancelled admission', 400);
+  }
+
+  await assertBusinessDayOpen(receivedAt);
+
+  const { data: deposit, error } = await supabase
+    .from('admission_deposits')
+    .insert({
+      admission_id: admissionId,
+      patient_id: admission.patient_id,
+      amount: depositAmount,
+      payment_method: paymentMethod,
+      payment_reference: paymentReference || null,
+      received_at: receivedAt ? new Date(receivedAt).toISOString() : new Date().toISOString(),
+      received_by: receivedBy ?? null,
+      notes: notes || null,
+      status: 'held',
+    })
+    .select(DEPOSIT_SELECT)
+    .single();
+
+  if (error || !deposit) {
+    logger.error('Failed to record deposit', { admissionId, error: error?.message });
+    throw createError('Failed to record deposit', 500);
+  }
+
+  logger.info('Admission deposit recorded', {
+    depositId: deposit.id,
+    admissionId,
+    amount: depositAmount,
+    paymentMethod,
+    receivedBy,
+  });
+
+  return deposit;
+};
+
+const updateDepositBalances = async (deposit: any, appliedAmount: number, refundedAmount: number) => {
+  const { data, error } = await supabase
+    .from('admission_deposits')
+    .update({
+      applied_amount: roundCurrency(appliedAmount),
+      refunded_amount: roundCurrency(refundedAmount),
+      status: deriveDepositStatus(Number(deposit.amount || 0), appliedAmount, refundedAmount),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', deposit.id)
+    .select(DEPOSIT_SELECT)
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to update deposit balances', { depositId: deposit.id, error: error?.message });
+    throw createError('Failed to update deposit', 500);
+  }
+
+  return data;
+};
+
+// Draw down held deposits (oldest first) against the invoice's outstanding balance.
+export const applyDepositsToInvoice = async (admissionId: string, invoiceId: string, appliedBy?: string | null) => {
+  const deposits = await fetchAdmissionDeposits(admissionId);
+  const payments: any[] = [];
+  let invoice: any = null;
+
+  for (const deposit of deposits) {
+    const available = remainingDepositAmount(deposit);
+    if (available <= 0) {
+      continue;
+    }
+
+    if (!invoice) {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('id, total_amount, amount_payable, paid_amount')
+        .eq('id', invoiceId)
+        .single();
+
+      if (error || !data) {
+        throw createError('Invoice not found', 404);
+      }
+      invoice = data;
+    }
+
+    const outstanding = roundCurrency(resolveAmountPayable(invoice) - Number(invoice.paid_amount || 0));
+    if (outstanding <= 0) {
+      break;
+    }
+
+    const amountToApply = Math.min(available, outstanding);
+    const result = await recordPayment({
+      invoiceId,
+      amount: amountToApply,
+      paymentMethod: DEPOSIT_PAYMENT_METHOD,
+      paymentReference: deposit.payment_reference,
+      notes: 'Applied from advance deposit',
+      collectedBy: appliedBy,
+      depositId: deposit.id,
+    });
+
+    await updateDepositBalances(
+      deposit,
+      Number(deposit.applied_amount || 0) + amountToApply,
+      Number(deposit.refunded_amount || 0)
+    );
+
+    payments.push(result.payment);
+    invoice = result.invoice;
+  }
+
+  if (payments.length) {
+    logger.info('Advance deposits applied to invoice', {
+      admissionId,
+      invoiceId,
+      appliedAmount: roundCurrency(payments.reduce((sum, payment) => sum + Number(payment.amount || 0), 0)),
+      paymentsCount: payments.length,
+    });
+  }
+
+  return { payments, invoice };
+};
+
+// Once the leftover of a deposit has gone out on a refund voucher, reversing an application would
+// show credit that was already handed back. A pending voucher can be cancelled first; a paid one
+// means the money has left and the application stands.
+export const assertDepositApplicationReleasable = async (depositId: string) => {
+  const { data, error } = await supabase
+    .from('refund_vouchers')
+    .select('id, voucher_number, status')
+    .eq('deposit_id', depositId)
+    .neq('status', 'cancelled');
+
+  if (error) {
+    logger.error('Failed to check refund vouchers for deposit', { depositId, error: error.message });
+    throw createError('Failed to check deposit refunds', 500);
+  }
+
+  const paid = (data ?? []).find((voucher) => voucher.status === 'paid');
+  if (paid) {
+    throw createError(`Refund voucher ${paid.voucher_number} for this deposit has been paid out; the deposit payment cannot be voided`, 409);
+  }
+  if (data?.length) {
+    throw createError(`Cancel refund voucher ${data[0].voucher_number} before voiding the deposit payment`, 409);
+  }
+};
+
+// Put a voided deposit application back into the deposit's available credit.
+export const releaseDepositApplication = async (depositId: string, amount: number) => {
+  const { data: deposit, error } = await supabase
+    .from('admission_deposits')
+    .select(DEPOSIT_SELECT)
+    .eq('id', depositId)
+    .single();
+
+  if (error || !deposit) {
+    throw createError('Deposit not found', 404);
+  }
+
+  return updateDepositBalances(
+    deposit,
+    Math.max(0, Number(deposit.applied_amount || 0) - Number(amount || 0)),
+    Number(deposit.refunded_amount || 0)
+  );
+};
+
+// Any credit left after the final invoice is settled is owed back to the patient.
+export const issueRefundVouchersForAdmission = async (
+  admissionId: string,
+  invoiceId: string | null,
+  issuedBy?: string | null
+) => {
+  const deposits = await fetchAdmissionDeposits(admissionId);
+  const vouchers: any[] = [];
+
+  for (const deposit of deposits) {
+    const remaining = remainingDepositAmount(deposit);
+    if (remaining <= 0) {
+      continue;
+    }
+
+    const voucherNumber = await allocateDocumentNumber('refund_voucher');
+    const { data: voucher, error } = await supabase
+      .from('refund_vouchers')
+      .insert({
+        voucher_number: voucherNumber,
+        admission_id: admissionId,
+        patient_id: deposit.patient_id,
+        deposit_id: deposit.id,
+        invoice_id: invoiceId,
+        amount: remaining,
+        reason: 'Unused advance deposit',
+        status: 'pending',
+        issued_by: issuedBy ?? null,
+      })
+      .select(REFUND_VOUCHER_SELECT)
+      .single();
+
+    if (error || !voucher) {
+      logger.error('Failed to issue refund voucher', { admissionId, depositId: deposit.id, error: error?.message });
+      throw createError('Failed to issue refund voucher', 500);
+    }
+
+    await updateDepositBalances(
+      deposit,
+      Number(deposit.applied_amount || 0),
+      Number(deposit.refunded_amount || 0) + remaining
+    );
+
+    vouchers.push(voucher);
+  }
+
+  if (vouchers.length) {
+    logger.info('Refund vouchers issued for unused deposits', {
+      admissionId,
+      invoiceId,
+      vouchers: vouchers.map((voucher) => voucher.voucher_number),
+    });
+  }
+
+  return vouchers;
+};
+
+// Withdraw a voucher that has not been paid out; its amount goes back into the deposit's credit
+export const cancelRefundVoucher = async (voucherId: string, reason: string, cancelledBy?: string | null) => {
+  if (!reason?.trim()) {
+    throw createError('A reason is required to cancel a refund voucher', 400);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('refund_vouchers')
+    .select(REFUND_VOUCHER_SELECT)
+    .eq('id', voucherId)
+    .maybeSingle();
+
+  if (fetchError) {
+    logger.error('Failed to fetch refund voucher', { voucherId, error: fetchError.message });
+    throw createError('Failed to fetch refund voucher', 500);
+  }
+  if (!existing) {
+    throw createError('Refund voucher not found', 404);
+  }
+  if (existing.status !== 'pending') {
+    throw createError(`Refund voucher is already ${existing.status}`, 409);
+  }
+
+  const nowIso = new Date().toISOString();
+
+  // Claimed while still pending so a voucher being paid out at the same time cannot also be cancelled
+  const { data: voucher, error } = await supabase
+    .from('refund_vouchers')
+    .update({
+      status: 'cancelled',
+      cancelled_by: cancelledBy ?? null,
+      cancelled_at: nowIso,
+      cancellation_reason: reason.trim(),
+      updated_at: nowIso,
+    })
+    .eq('id', voucherId)
+    .eq('status', 'pending')
+    .select(REFUND_VOUCHER_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to cancel refund voucher', { voucherId, error: error.message });
+    throw createError('Failed to cancel refund voucher', 500);
+  }
+  if (!voucher) {
+    throw createError('Refund voucher is no longer pending', 409);
+  }
+
+  let deposit = null;
+  if (voucher.deposit_id) {
+    try {
+      const { data: current, error: depositError } = await supabase
+        .from('admission_deposits')
+        .select(DEPOSIT_SELECT)
+        .eq('id', voucher.deposit_id)
+        .single();
+
+      if (depositError || !current) {
+        throw createError('Deposit not found', 404);
+      }
+
+      deposit = await updateDepositBalances(
+        current,
+        Number(current.applied_amount || 0),
+        Math.max(0, Number(current.refunded_amount || 0) - Number(voucher.amount || 0))
+      );
+    } catch (releaseError) {
+      await supabase
+        .from('refund_vouchers')
+        .update({ status: 'pending', cancelled_by: null, cancelled_at: null, cancellation_reason: null, updated_at: nowIso })
+        .eq('id', voucherId);
+      throw releaseError;
+    }
+  }
+
+  logger.info('Refund voucher cancelled', {
+    voucherId,
+    voucherNumber: voucher.voucher_number,
+    depositId: voucher.deposit_id,
+    amount: voucher.amount,
+    cancelledBy,
+    reason: voucher.cancellation_reason,
+  });
+
+  return { voucher, deposit };
+};
@@ -0,0 +1,436 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { getIstDayBounds } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+import { calculateDiscountedSubtotal, refreshInvoiceTotals } from './tax-service.js';
+import { assertInvoiceEditable } from './invoice-lifecycle-service.js';
+import { recordInvoiceChange } from './invoice-revision-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+export const DISCOUNT_REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'auto_approved'] as const;
+export type DiscountRequestStatus = (typeof DISCOUNT_REQUEST_STATUSES)[number];
+
+// Statuses whose discount actually reached the invoice
+const REGISTER_STATUSES: DiscountRequestStatus[] = ['approved', 'auto_approved'];
+
+export const DISCOUNT_REQUEST_SELECT = `
+  id,
+  invoice_id,
+  discount_type,
+  discount_value,
+  discount_percent,
+  discount_amount,
+  invoice_total,
+  reason,
+  status,
+  requested_by,
+  requested_role,
+  approved_by,
+  approved_at,
+  rejection_reason,
+  amendment_id,
+  created_at,
+  updated_at
+`;
+
+export interface DiscountAssessment {
+  discountPercent: number;
+  discountAmount: number;
+  invoiceTotal: number;
+  // Null when the role has no ceiling
+  limitPercent: number | null;
+  withinLimit: boolean;
+}
+
+export interface DiscountInput {
+  invoiceId: string;
+  discountType: DiscountType;
+  discountValue: number;
+  reason?: string | null;
+  requestedBy: string | null;
+  requestedRole: string;
+}
+
+export const isDiscountType = (value: unknown): value is DiscountType =>
+  typeof value === 'string' && (DISCOUNT_TYPES as readonly string[]).includes(value);
+
+export const isDiscountRequestStatus = (value: unknown): value is DiscountRequestStatus =>
+  typeof value === 'string' && (DISCOUNT_REQUEST_STATUSES as readonly string[]).includes(value);
+
+export const fetchDiscountLimits = async () => {
+  const { data, error } = await supabase
+    .from('discount_limits')
+    .select('role, max_percent, updated_by, updated_at')
+    .order('role', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch discount limits', { error: error.message });
+    throw createError('Failed to fetch discount limits', 500);
+  }
+
+  return data ?? [];
+};
+
+export const setDiscountLimit = async (role: string, maxPercent: number | null, updatedBy: string | null) => {
+  const { data, error } = await supabase
+    .from('discount_limits')
+    .upsert({
+      role,
+      max_percent: maxPercent,
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'role' })
+    .select('role, max_percent, updated_by, updated_at')
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to save discount limit', { role, error: error?.message });
+    throw createError('Failed to save discount limit', 500);
+  }
+
+  logger.info('Discount limit updated', { role, maxPercent, updatedBy });
+
+  return data;
+};
+
+// Ceiling for a role as a percentage of the invoice subtotal; null means unlimited, no row means none allowed.
+const fetchRoleLimit = async (role: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('discount_limits')
+    .select('max_percent')
+    .eq('role', role)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch discount limit', { role, error: error.message });
+    throw createError('Failed to fetch discount limit', 500);
+  }
+
+  if (!data) {
+    return 0;
+  }
+  return data.max_percent === null ? null : Number(data.max_percent);
+};
+
+const priceDiscount = (totalAmount: number, discountType: DiscountType, discountValue: number) => {
+  const invoiceTotal = roundCurrency(totalAmount);
+  const discountAmount = roundCurrency(
+    invoiceTotal - calculateDiscountedSubtotal({ total_amount: invoiceTotal, discount_type: discountType, discount_value: discountValue })
+  );
+  const discountPercent = discountType === 'percentage'
+    ? roundCurrency(discountValue)
+    : invoiceTotal > 0 ? roundCurrency((Math.min(discountValue, invoiceTotal) / invoiceTotal) * 100) : 100;
+
+  return { invoiceTotal, discountAmount, discountPercent };
+};
+
+// Weigh a proposed discount against the requester's ceiling, as an effective share of the invoice subtotal.
+export const assessDiscount = async (
+  totalAmount: number,
+  discountType: DiscountType,
+  discountValue: number,
+  role: string
+): Promise<DiscountAssessment> => {
+  const priced = priceDiscount(totalAmount, discountType, discountValue);
+  const limitPercent = await fetchRoleLimit(role);
+
+  return {
+    ...priced,
+    limitPercent,
+    withinLimit: limitPercent === null || priced.discountPercent <= limitPercent,
+  };
+};
+
+const insertDiscountRequest = async (input: DiscountInput, assessment: DiscountAssessment, status: DiscountRequestStatus) => {
+  const nowIso = new Date().toISOString();
+  const autoApproved = status === 'auto_approved';
+
+  const { data, error } = await supabase
+    .from('discount_requests')
+    .insert({
+      invoice_id: input.invoiceId,
+      discount_type: input.discountType,
+      discount_value: input.discountValue,
+      discount_percent: assessment.discountPercent,
+      discount_amount: assessment.discountAmount,
+      invoice_total: assessment.invoiceTotal,
+      reason: input.reason?.trim() || null,
+      status,
+      requested_by: input.requestedBy,
+      requested_role: input.requestedRole,
+      approved_by: autoApproved ? input.requestedBy : null,
+      approved_at: autoApproved ? nowIso : null,
+    })
+    .select(DISCOUNT_REQUEST_SELECT)
+    .single();
+
+  if (error?.code === '23505') {
+    throw createError('A discount request is already pending for this invoice', 409);
+  }
+  if (error || !data) {
+    logger.error('Failed to record discount request', { invoiceId: input.invoiceId, status, error: error?.message });
+    throw createError('Failed to record discount request', 500);
+  }
+
+  return data;
+};
+
+// Queue a discount above the requester's ceiling; the invoice is left as it is until an admin approves.
+export const createPendingDiscountRequest = async (input: DiscountInput, assessment: DiscountAssessment) => {
+  if (!input.reason?.trim()) {
+    throw createError('discount_reason is required for a discount above your approval limit', 400);
+  }
+
+  const request = await insertDiscountRequest(input, assessment, 'pending');
+
+  logger.info('Discount request queued for approval', {
+    discountRequestId: request.id,
+    invoiceId: input.invoiceId,
+    discountPercent: assessment.discountPercent,
+    limitPercent: assessment.limitPercent,
+    requestedBy: input.requestedBy,
+  });
+
+  return request;
+};
+
+// Log a discount applied within the requester's own ceiling so it appears on the register.
+export const recordAutoApprovedDiscount = async (input: DiscountInput, assessment: DiscountAssessment) => {
+  const request = await insertDiscountRequest(input, assessment, 'auto_approved');
+
+  logger.info('Discount applied within limit', {
+    discountRequestId: request.id,
+    invoiceId: input.invoiceId,
+    discountPercent: assessment.discountPercent,
+    requestedBy: input.requestedBy,
+  });
+
+  return request;
+};
+
+export const fetchDiscountRequest = async (requestId: string) => {
+  const { data, error } = await supabase
+    .from('discount_requests')
+    .select(DISCOUNT_REQUEST_SELECT)
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch discount request', { requestId, error: error.message });
+    throw createError('Failed to fetch discount request', 500);
+  }
+  if (!data) {
+    throw createError('Discount request not found', 404);
+  }
+
+  return data;
+};
+
+export const reviewDiscountRequest = async (
+  requestId: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string | null,
+  options: { rejectionReason?: string | null } = {}
+) => {
+  const existing = await fetchDiscountRequest(requestId);
+
+  if (existing.status !== 'pending') {
+    throw createError(`Discount request is already ${existing.status}`, 400);
+  }
+
+  if (decision === 'rejected' && !options.rejectionReason?.trim()) {
+    throw createError('rejection_reason is required', 400);
+  }
+
+  const nowIso = new Date().toISOString();
+  const updates: Record<string, any> = {
+    status: decision,
+    approved_by: reviewedBy,
+    approved_at: nowIso,
+    updated_at: nowIso,
+  };
+
+  if (decision === 'rejected') {
+    updates.rejection_reason = options.rejectionReason!.trim();
+  }
+
+  if (decision === 'approved') {
+    await assertInvoiceEditable(existing.invoice_id);
+
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('total_amount')
+      .eq('id', existing.invoice_id)
+      .single();
+
+    // Re-price against the invoice as it stands now; items may have changed while the request waited
+    const priced = priceDiscount(Number(invoice?.total_amount || 0), existing.discount_type, Number(existing.discount_value));
+    updates.discount_percent = priced.discountPercent;
+    updates.discount_amount = priced.discountAmount;
+    updates.invoice_total = priced.invoiceTotal;
+  }
+
+  const { data: request, error } = await supabase
+    .from('discount_requests')
+    .update(updates)
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select(DISCOUNT_REQUEST_SELECT)
+    .single();
+
+  if (error || !request) {
+    logger.error('Failed to review discount request', { requestId, decision, error: error?.message });
+    throw createError('Failed to update discount request', 500);
+  }
+
+  if (decision === 'approved') {
+    const { error: invoiceError } = await supabase
+      .from('invoices')
+      .update({
+        discount_type: request.discount_type,
+        discount_value: request.discount_value,
+        discount_reason: request.reason,
+        updated_at: nowIso,
+      })
+      .eq('id', request.invoice_id);
+
+    if (invoiceError) {
+      logger.error('Failed to apply approved discount', { requestId, invoiceId: request.invoice_id, error: invoiceError.message });
+      await supabase
+        .from('discount_requests')
+        .update({ status: 'pending', approved_by: null, approved_at: null, updated_at: nowIso })
+        .eq('id', requestId);
+      throw createError('Failed to apply discount to invoice', 500);
+    }
+
+    await refreshInvoiceTotals(request.invoice_id);
+    await recordInvoiceChange(request.invoice_id, `Discount approved: ${request.reason}`, reviewedBy);
+  }
+
+  logger.info(`Discount request ${decision}`, {
+    discountRequestId: requestId,
+    invoiceId: request.invoice_id,
+    discountPercent: request.discount_percent,
+    reviewedBy,
+  });
+
+  return request;
+};
+
+// The register entry for a discount an amendment sets, priced on the amended total. It is weighed
+// against the requester's ceiling like any other: within it the entry is auto-approved, above it
+// the admin approving the amendment is the approver. Written in the same transaction as the amendment.
+export const buildAmendmentDiscountEntry = async (
+  amendment: any,
+  pricing: { total_amount: number; discount_type?: string | null; discount_value?: number | null; discount_reason?: string | null },
+  approvedBy: string | null
+) => {
+  if (!isDiscountType(pricing.discount_type) || !(Number(pricing.discount_value) > 0)) {
+    return null;
+  }
+
+  const { data: requester } = amendment.requested_by
+    ? await supabase.from('staff').select('role').eq('id', amendment.requested_by).maybeSingle()
+    : { data: null };
+  const requestedRole = requester?.role ?? '';
+
+  const assessment = await assessDiscount(
+    Number(pricing.total_amount || 0),
+    pricing.discount_type,
+    Number(pricing.discount_value),
+    requestedRole
+  );
+
+  return {
+    discount_type: pricing.discount_type,
+    discount_value: Number(pricing.discount_value),
+    discount_percent: assessment.discountPercent,
+    discount_amount: assessment.discountAmount,
+    invoice_total: assessment.invoiceTotal,
+    reason: pricing.discount_reason || amendment.reason || null,
+    status: (assessment.withinLimit ? 'auto_approved' : 'approved') as DiscountRequestStatus,
+    requested_by: amendment.requested_by ?? null,
+    requested_role: requestedRole || null,
+    approved_by: assessment.withinLimit ? amendment.requested_by ?? null : approvedBy,
+  };
+};
+
+// Every discount that reached an invoice, by approval date (IST), with who asked and who approved.
+export const fetchDiscountRegister = async (filters: { from?: string | null; to?: string | null } = {}) => {
+  let query = supabase
+    .from('discount_requests')
+    .select(`
+      ${DISCOUNT_REQUEST_SELECT},
+      invoices (
+        invoice_number,
+        admissions (
+          patients (
+            patient_id,
+            first_name,
+            last_name
+          )
+        )
+      )
+    `)
+    .in('status', REGISTER_STATUSES)
+    .order('approved_at', { ascending: true });
+
+  if (filters.from) {
+    query = query.gte('approved_at', getIstDayBounds(filters.from).start.toISOString());
+  }
+  if (filters.to) {
+    query = query.lt('approved_at', getIstDayBounds(filters.to).end.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch discount register', { error: error.message });
+    throw createError('Failed to fetch discount register', 500);
+  }
+
+  const rows = data ?? [];
+  const staffIds = Array.from(
+    new Set(rows.flatMap((row: any) => [row.requested_by, row.approved_by]).filter(Boolean))
+  ) as string[];
+  const { data: staff } = staffIds.length
+    ? await supabase.from('staff').select('id, first_name, last_name').in('id', staffIds)
+    : { data: [] as any[] };
+  const staffNames = new Map(
+    (staff ?? []).map((member: any) => [member.id, `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim()])
+  );
+
+  const entries = rows.map((row: any) => {
+    const invoice: any = Array.isArray(row.invoices) ? row.invoices[0] : row.invoices;
+    const admission: any = Array.isArray(invoice?.admissions) ? invoice?.admissions[0] : invoice?.admissions;
+    const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+    const { invoices: _invoice, ...request } = row;
+
+    return {
+      ...request,
+      invoice_number: invoice?.invoice_number ?? null,
+      patient_uid: patient?.patient_id ?? null,
+      patient_name: patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : null,
+      requested_by_name: staffNames.get(row.requested_by) ?? null,
+      approved_by_name: staffNames.get(row.approved_by) ?? null,
+    };
+  });
+
+  return {
+    entries,
+    totals: {
+      count: entries.length,
+      discountAmount: roundCurrency(entries.reduce((sum, entry) => sum + Number(entry.discount_amount || 0), 0)),
+      autoApprovedAmount: roundCurrency(
+        entries
+          .filter((entry) => entry.status === 'auto_approved')
+          .reduce((sum, entry) => sum + Number(entry.discount_amount || 0), 0)
+      ),
+    },
+  };
+};
@@ -0,0 +1,307 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { sendEmail } from '../utils/mailer.js';
+import { toIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+import { daysBetweenIstDates } from './receivables-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const DUNNING_STAGE_SELECT = `
+  id,
+  days_after_due,
+  subject,
+  message,
+  is_active,
+  updated_by,
+  created_at,
+  updated_at
+`;
+
+export const INVOICE_REMINDER_SELECT = `
+  id,
+  invoice_id,
+  stage_id,
+  days_overdue,
+  balance,
+  sent_to,
+  status,
+  error,
+  sent_by,
+  created_at
+`;
+
+const REMINDER_INVOICE_SELECT = `
+  id,
+  invoice_number,
+  created_at,
+  lifecycle_status,
+  due_date,
+  amount_payable,
+  total_amount,
+  paid_amount,
+  balance,
+  patient_balance,
+  admissions (
+    patients (
+      first_name,
+      last_name,
+      email
+    )
+  )
+`;
+
+const escapeHtml = (value = ''): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatInr = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+
+export const fetchDunningStages = async (activeOnly = false) => {
+  let query = supabase
+    .from('dunning_stages')
+    .select(DUNNING_STAGE_SELECT)
+    .order('days_after_due', { ascending: true });
+
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch dunning stages', { error: error.message });
+    throw createError('Failed to fetch dunning stages', 500);
+  }
+
+  return data ?? [];
+};
+
+export const saveDunningStage = async (
+  stageId: string | null,
+  input: { days_after_due?: unknown; subject?: unknown; message?: unknown; is_active?: unknown },
+  updatedBy: string | null
+) => {
+  const updates: Record<string, any> = { updated_by: updatedBy, updated_at: new Date().toISOString() };
+
+  if (input.days_after_due !== undefined) {
+    const days = Number(input.days_after_due);
+    if (!Number.isInteger(days) || days < 0) {
+      throw createError('days_after_due must be a whole number of days, zero or more', 400);
+    }
+    updates.days_after_due = days;
+  }
+  if (input.subject !== undefined) {
+    if (typeof input.subject !== 'string' || !input.subject.trim()) {
+      throw createError('subject cannot be empty', 400);
+    }
+    updates.subject = input.subject.trim();
+  }
+  if (input.message !== undefined) updates.message = typeof input.message === 'string' && input.message.trim() ? input.message : null;
+  if (input.is_active !== undefined) updates.is_active = Boolean(input.is_active);
+
+  if (!stageId && (updates.days_after_due === undefined || !updates.subject)) {
+    throw createError('days_after_due and subject are required', 400);
+  }
+
+  const query = stageId
+    ? supabase.from('dunning_stages').update(updates).eq('id', stageId)
+    : supabase.from('dunning_stages').insert(updates);
+
+  const { data, error } = await query.select(DUNNING_STAGE_SELECT).maybeSingle();
+
+  if (error?.code === '23505') {
+    throw createError('A dunning stage already exists for that many days after due', 409);
+  }
+  if (error) {
+    logger.error('Failed to save dunning stage', { stageId, error: error.message });
+    throw createError('Failed to save dunning stage', 500);
+  }
+  if (!data) {
+    throw createError('Dunning stage not found', 404);
+  }
+
+  return data;
+};
+
+const buildReminderEmailHtml = (invoice: any, patientName: string, balance: number, daysOverdue: number, message?: string | null) => {
+  const lines = (message || `This is a reminder that a balance remains due on invoice ${invoice.invoice_number}. Please arrange payment at the earliest, or contact our billing desk if you have already paid.`)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => `<p style="margin: 0 0 12px;">${escapeHtml(line)}</p>`)
+    .join('');
+
+  return `
+    <div style="font-family: 'Segoe UI', Arial, sans-serif; color: #2c3e50; line-height: 1.6;">
+      <p style="margin: 0 0 12px;">Dear ${escapeHtml(patientName || 'Patient')},</p>
+      ${lines}
+      <div style="margin: 24px 0; padding: 16px; border: 1px solid #dfe6e9; border-radius: 10px; background: #f8fbfc;">
+        <h3 style="margin: 0 0 12px; color: #1a5f7a;">Outstanding Balance</h3>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          <tbody>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Invoice #</td>
+              <td style="padding: 6px 0; font-weight: 600;">${escapeHtml(invoice.invoice_number || '--')}</td>
+            </tr>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Due Date</td>
+              <td style="padding: 6px 0; font-weight: 600;">${escapeHtml(invoice.due_date || '--')}${daysOverdue > 0 ? ` (${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue)` : ''}</td>
+            </tr>
+            <tr>
+              <td style="padding: 6px 0; color: #7f8c8d;">Balance Due</td>
+              <td style="padding: 6px 0; font-weight: 600;">${formatInr(balance)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p style="margin: 0 0 12px;">Regards,<br/>${escapeHtml(env.HOSPITAL_NAME)}<br/>${escapeHtml(env.HOSPITAL_PHONE)} | ${escapeHtml(env.HOSPITAL_EMAIL)}</p>
+    </div>
+  `;
+};
+
+const logReminder = async (entry: Record<string, any>) => {
+  const { data, error } = await supabase
+    .from('invoice_reminders')
+    .insert(entry)
+    .select(INVOICE_REMINDER_SELECT)
+    .single();
+
+  if (error) {
+    logger.error('Failed to log invoice reminder', { invoiceId: entry.invoice_id, stageId: entry.stage_id, error: error.message });
+  }
+
+  return data;
+};
+
+// Email the patient what is still owed on an invoice and log the attempt, sent or not.
+export const sendInvoiceReminder = async (
+  invoiceOrId: string | any,
+  options: { stage?: any | null; sentBy?: string | null; email?: string | null; asOfDate?: string } = {}
+) => {
+  let invoice = invoiceOrId;
+  if (typeof invoiceOrId === 'string') {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select(REMINDER_INVOICE_SELECT)
+      .eq('id', invoiceOrId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw createError('Invoice not found', 404);
+    }
+    if (data.lifecycle_status === 'cancelled') {
+      throw createError('Invoice is cancelled; nothing is owed on it', 409);
+    }
+    invoice = data;
+  }
+
+  const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+  const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+  const patientName = patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : '';
+  const recipient = options.email || patient?.email || null;
+  const balance = roundCurrency(Number(invoice.patient_balance ?? invoice.balance ?? 0));
+  const daysOverdue = invoice.due_date
+    ? Math.max(0, daysBetweenIstDates(invoice.due_date, options.asOfDate ?? toIstDateString()))
+    : 0;
+
+  const entry: Record<string, any> = {
+    invoice_id: invoice.id,
+    stage_id: options.stage?.id ?? null,
+    days_overdue: daysOverdue,
+    balance,
+    sent_to: recipient,
+    sent_by: options.sentBy ?? null,
+  };
+
+  if (balance <= 0) {
+    return logReminder({ ...entry, status: 'skipped', error: 'Nothing owed by the patient' });
+  }
+  if (!recipient) {
+    return logReminder({ ...entry, status: 'skipped', error: 'Patient has no email address' });
+  }
+
+  try {
+    await sendEmail({
+      to: recipient,
+      subject: `${options.stage?.subject ?? 'Payment reminder'} - Invoice ${invoice.invoice_number} - ${env.HOSPITAL_NAME}`,
+      html: buildReminderEmailHtml(invoice, patientName, balance, daysOverdue, options.stage?.message),
+    });
+  } catch (error: any) {
+    return logReminder({ ...entry, status: 'failed', error: error?.message ?? String(error) });
+  }
+
+  logger.info('Invoice reminder sent', { invoiceId: invoice.id, stageId: entry.stage_id, daysOverdue, to: recipient });
+
+  return logReminder({ ...entry, status: 'sent' });
+};
+
+// Send each overdue invoice the latest active stage it has reached but not yet been sent.
+// Stages it skipped past (e.g. while the job was not running) are not sent late; a failed
+// send is retried on the next run, one skipped for want of an email address is not.
+export const runDunning = async (runDate: string = toIstDateString()) => {
+  const stages = await fetchDunningStages(true);
+  if (!stages.length) {
+    return { runDate, considered: 0, sent: 0, failed: 0, skipped: 0 };
+  }
+
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select(REMINDER_INVOICE_SELECT)
+    .in('lifecycle_status', ['provisional', 'final'])
+    .in('status', ['pending', 'partial', 'overdue'])
+    .lt('due_date', runDate)
+    .gt('balance', 0);
+
+  if (error) {
+    logger.error('Failed to fetch invoices for dunning', { runDate, error: error.message });
+    throw new Error(`Failed to fetch invoices for dunning: ${error.message}`);
+  }
+
+  const invoiceIds = (invoices ?? []).map((invoice) => invoice.id);
+  const { data: sentReminders } = invoiceIds.length
+    ? await supabase
+      .from('invoice_reminders')
+      .select('invoice_id, stage_id')
+      .in('invoice_id', invoiceIds)
+      .in('status', ['sent', 'skipped'])
+      .not('stage_id', 'is', null)
+    : { data: [] as any[] };
+
+  const stageDays = new Map(stages.map((stage) => [stage.id, stage.days_after_due]));
+  const furthestSent = new Map<string, number>();
+  (sentReminders ?? []).forEach((reminder: any) => {
+    const days = stageDays.get(reminder.stage_id);
+    if (days !== undefined) {
+      furthestSent.set(reminder.invoice_id, Math.max(furthestSent.get(reminder.invoice_id) ?? -1, days));
+    }
+  });
+
+  const summary = { runDate, considered: (invoices ?? []).length, sent: 0, failed: 0, skipped: 0 };
+
+  for (const invoice of invoices ?? []) {
+    const daysOverdue = daysBetweenIstDates(invoice.due_date, runDate);
+    const reached = stages.filter((stage) => stage.days_after_due <= daysOverdue);
+    const stage = reached[reached.length - 1];
+
+    if (!stage || stage.days_after_due <= (furthestSent.get(invoice.id) ?? -1)) {
+      continue;
+    }
+
+    const reminder = await sendInvoiceReminder(invoice, { stage, asOfDate: runDate });
+    if (reminder?.status === 'sent') summary.sent += 1;
+    else if (reminder?.status === 'failed') summary.failed += 1;
+    else summary.skipped += 1;
+  }
+
+  logger.info('Dunning run finished', summary);
+
+  return summary;
+};
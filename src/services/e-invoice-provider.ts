@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { env } from '../config/env.js';
+import { getFinancialYear } from './sequence-service.js';
+
+export interface EInvoiceRegistration {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  signedInvoice: string;
+  signedQrCode: string;
+}
+
+// An IRP (Invoice Registration Portal) client: takes the NIC schema JSON and returns what the IRP issues.
+export interface EInvoiceProvider {
+  name: string;
+  register: (payload: Record<string, any>) => Promise<EInvoiceRegistration>;
+}
+
+const base64Url = (value: string) => Buffer.from(value).toString('base64url');
+
+// Unsigned JWT-shaped token carrying the same claims the IRP signs, so QR printing can be exercised offline
+const stubToken = (claims: Record<string, any>) =>
+  `${base64Url(JSON.stringify({ alg: 'none', typ: 'JWT', provider: 'stub' }))}.${base64Url(JSON.stringify(claims))}.`;
+
+// The IRP derives the IRN as SHA-256 of GSTIN, financial year, document type and number; the stub does the same.
+const stubProvider: EInvoiceProvider = {
+  name: 'stub',
+  register: async (payload) => {
+    const now = new Date();
+    const irn = crypto
+      .createHash('sha256')
+      .update(`${payload.SellerDtls.Gstin}${getFinancialYear(now)}${payload.DocDtls.Typ}${payload.DocDtls.No}`)
+      .digest('hex');
+    const ackNo = `${now.getTime()}`.padStart(15, '0').slice(-15);
+    const ackDate = now.toISOString();
+    const items: any[] = payload.ItemList ?? [];
+    const mainItem = items.reduce((top, item) => (!top || item.TotItemVal > top.TotItemVal ? item : top), null as any);
+
+    return {
+      irn,
+      ackNo,
+      ackDate,
+      signedInvoice: stubToken({ data: JSON.stringify({ ...payload, Irn: irn, AckNo: ackNo, AckDt: ackDate }) }),
+      signedQrCode: stubToken({
+        data: JSON.stringify({
+          SellerGstin: payload.SellerDtls.Gstin,
+          BuyerGstin: payload.BuyerDtls.Gstin,
+          DocNo: payload.DocDtls.No,
+          DocTyp: payload.DocDtls.Typ,
+          DocDt: payload.DocDtls.Dt,
+          TotInvVal: payload.ValDtls.TotInvVal,
+          ItemCnt: items.length,
+          MainHsnCode: mainItem?.HsnCd ?? null,
+          Irn: irn,
+          IrnDt: ackDate,
+        }),
+      }),
+    };
+  },
+};
+
+const providers = new Map<string, EInvoiceProvider>([[stubProvider.name, stubProvider]]);
+
+// GSP/IRP integrations register themselves here and are picked by E_INVOICE_PROVIDER.
+export const registerEInvoiceProvider = (provider: EInvoiceProvider) => {
+  providers.set(provider.name, provider);
+};
+
+export const getEInvoiceProvider = (name: string = env.E_INVOICE_PROVIDER): EInvoiceProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`E-invoice provider "${name}" is not registered`);
+  }
+  return provider;
+};
@@ -0,0 +1,451 @@
+import { createClient } from '@supabase/supabase-js';
+import QRCode from 'qrcode';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { toIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+import { calculateDiscountRatio, resolveItemTaxDefaults } from './tax-service.js';
+import { getEInvoiceProvider } from './e-invoice-provider.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const E_INVOICE_BUYER_TYPES = ['corporate', 'tpa'] as const;
+export type EInvoiceBuyerType = (typeof E_INVOICE_BUYER_TYPES)[number];
+
+export const E_INVOICE_SELECT = `
+  id,
+  invoice_id,
+  buyer_type,
+  buyer,
+  payload,
+  status,
+  provider,
+  irn,
+  ack_no,
+  ack_date,
+  signed_qr_code,
+  error,
+  generated_by,
+  registered_by,
+  registered_at,
+  created_at,
+  updated_at
+`;
+
+export const isEInvoiceBuyerType = (value: unknown): value is EInvoiceBuyerType =>
+  typeof value === 'string' && (E_INVOICE_BUYER_TYPES as readonly string[]).includes(value);
+
+export interface EInvoiceBuyer {
+  gstin: string;
+  legal_name: string;
+  address: string;
+  location: string;
+  pincode: string;
+  state_code: string;
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const DOC_NUMBER_PATTERN = /^[A-Z1-9][A-Z0-9/-]{0,15}$/;
+const HSN_PATTERN = /^[0-9]{4}([0-9]{2}([0-9]{2})?)?$/;
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// Totals the IRP recomputes may differ from ours by up to a rupee
+const TOLERANCE = 1;
+
+const E_INVOICE_INVOICE_SELECT = `
+  id,
+  invoice_number,
+  lifecycle_status,
+  created_at,
+  finalized_at,
+  total_amount,
+  amount_payable,
+  discount_type,
+  discount_value,
+  include_gst,
+  gst_rate,
+  gst_mode,
+  insurance_claims (
+    tpa_partners (
+      id,
+      name,
+      gstin,
+      legal_name,
+      address,
+      city,
+      pincode,
+      state_code
+    )
+  )
+`;
+
+// INV/2026-27/000123 is 18 characters; the NIC limit is 16, so the year is written 26-27.
+export const toEInvoiceDocNumber = (invoiceNumber: string) =>
+  invoiceNumber.toUpperCase().replace(/(\d{2})(\d{2})-(\d{2})/, '$2-$3');
+
+const toNicDate = (istDate: string) => istDate.split('-').reverse().join('/');
+
+const normalizeBuyer = (input: Record<string, any>): EInvoiceBuyer => {
+  const gstin = String(input.gstin ?? '').trim().toUpperCase();
+  return {
+    gstin,
+    legal_name: String(input.legal_name ?? '').trim(),
+    address: String(input.address ?? '').trim(),
+    location: String(input.location ?? input.city ?? '').trim(),
+    pincode: String(input.pincode ?? '').trim(),
+    // State code defaults to the GSTIN's first two digits
+    state_code: String(input.state_code ?? '').trim() || gstin.slice(0, 2),
+  };
+};
+
+export const buildEInvoicePayload = (invoice: any, billItems: any[], buyer: EInvoiceBuyer) => {
+  const sellerState = env.HOSPITAL_STATE_CODE;
+  const intraState = buyer.state_code === sellerState;
+  const discountRatio = calculateDiscountRatio(invoice);
+  const invoiceRate = invoice.include_gst ? Number(invoice.gst_rate ?? 18) : 0;
+
+  const items = billItems.map((item, index) => {
+    const hsn = item.hsn_sac_code || resolveItemTaxDefaults(item.item_type).hsn_sac_code;
+    const isService = String(hsn).startsWith('99');
+    const totalAmount = roundCurrency(Number(item.total_price || 0));
+    const discount = roundCurrency(totalAmount * (1 - discountRatio));
+    const assessable = roundCurrency(totalAmount - discount);
+    const rate = invoice.gst_mode === 'line' ? Number(item.tax_rate || 0) : invoiceRate;
+    const tax = roundCurrency((assessable * rate) / 100);
+    const cgst = intraState ? roundCurrency(tax / 2) : 0;
+
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: String(item.item_name || item.item_type || 'Hospital services').slice(0, 300),
+      IsServc: isService ? 'Y' : 'N',
+      HsnCd: hsn,
+      Qty: Number(item.quantity || 1),
+      Unit: isService ? 'OTH' : 'NOS',
+      UnitPrice: roundCurrency(Number(item.unit_price ?? totalAmount)),
+      TotAmt: totalAmount,
+      Discount: discount,
+      AssAmt: assessable,
+      GstRt: rate,
+      IgstAmt: intraState ? 0 : tax,
+      CgstAmt: cgst,
+      SgstAmt: intraState ? roundCurrency(tax - cgst) : 0,
+      TotItemVal: roundCurrency(assessable + tax),
+    };
+  });
+
+  const sum = (field: keyof (typeof items)[number]) =>
+    roundCurrency(items.reduce((acc, item) => acc + Number(item[field] || 0), 0));
+  const itemsTotal = sum('TotItemVal');
+  const invoiceValue = roundCurrency(Number(invoice.amount_payable ?? itemsTotal));
+
+  return {
+    Version: '1.1',
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: {
+      Typ: 'INV',
+      No: toEInvoiceDocNumber(invoice.invoice_number),
+      Dt: toNicDate(toIstDateString(new Date(invoice.finalized_at ?? invoice.created_at))),
+    },
+    SellerDtls: {
+      Gstin: env.HOSPITAL_GSTIN.toUpperCase(),
+      LglNm: env.HOSPITAL_LEGAL_NAME,
+      TrdNm: env.HOSPITAL_NAME,
+      Addr1: env.HOSPITAL_ADDRESS.slice(0, 100),
+      Loc: env.HOSPITAL_LOCATION,
+      Pin: Number(env.HOSPITAL_PINCODE),
+      Stcd: sellerState,
+      Ph: env.HOSPITAL_PHONE.replace(/\D/g, '').slice(0, 12) || undefined,
+      Em: env.HOSPITAL_EMAIL || undefined,
+    },
+    BuyerDtls: {
+      Gstin: buyer.gstin,
+      LglNm: buyer.legal_name,
+      Pos: buyer.state_code,
+      Addr1: buyer.address.slice(0, 100),
+      Loc: buyer.location,
+      Pin: Number(buyer.pincode),
+      Stcd: buyer.state_code,
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum('AssAmt'),
+      CgstVal: sum('CgstAmt'),
+      SgstVal: sum('SgstAmt'),
+      IgstVal: sum('IgstAmt'),
+      Discount: 0,
+      RndOffAmt: roundCurrency(invoiceValue - itemsTotal),
+      TotInvVal: invoiceValue,
+    },
+  };
+};
+
+const checkParty = (errors: string[], label: string, party: any, withPos = false) => {
+  if (!party) {
+    errors.push(`${label} is required`);
+    return;
+  }
+  if (!GSTIN_PATTERN.test(String(party.Gstin ?? ''))) errors.push(`${label}.Gstin is not a valid GSTIN`);
+  if (String(party.LglNm ?? '').length < 3 || String(party.LglNm).length > 100) errors.push(`${label}.LglNm must be 3-100 characters`);
+  if (!party.Addr1 || String(party.Addr1).length > 100) errors.push(`${label}.Addr1 must be 1-100 characters`);
+  if (String(party.Loc ?? '').length < 3 || String(party.Loc).length > 50) errors.push(`${label}.Loc must be 3-50 characters`);
+  if (!Number.isInteger(party.Pin) || party.Pin < 100000 || party.Pin > 999999) errors.push(`${label}.Pin must be a 6 digit PIN code`);
+  if (!/^[0-9]{1,2}$/.test(String(party.Stcd ?? ''))) errors.push(`${label}.Stcd must be a state code`);
+  if (GSTIN_PATTERN.test(String(party.Gstin ?? '')) && String(party.Gstin).slice(0, 2) !== String(party.Stcd).padStart(2, '0')) {
+    errors.push(`${label}.Stcd does not match the state in the GSTIN`);
+  }
+  if (withPos && !/^[0-9]{1,2}$/.test(String(party.Pos ?? ''))) errors.push(`${label}.Pos must be a state code`);
+};
+
+const differs = (a: number, b: number) => Math.abs(Number(a || 0) - Number(b || 0)) > TOLERANCE;
+
+// Offline check against the NIC e-invoice schema (v1.1) and the IRP's arithmetic validations.
+export const validateEInvoicePayload = (payload: any): string[] => {
+  const errors: string[] = [];
+
+  if (payload?.Version !== '1.1') errors.push('Version must be 1.1');
+  if (payload?.TranDtls?.TaxSch !== 'GST') errors.push('TranDtls.TaxSch must be GST');
+  if (payload?.TranDtls?.SupTyp !== 'B2B') errors.push('TranDtls.SupTyp must be B2B');
+  if (!['INV', 'CRN', 'DBN'].includes(payload?.DocDtls?.Typ)) errors.push('DocDtls.Typ must be INV, CRN or DBN');
+  if (!DOC_NUMBER_PATTERN.test(String(payload?.DocDtls?.No ?? ''))) {
+    errors.push('DocDtls.No must be at most 16 characters of A-Z, 0-9, / and -, not starting with 0, / or -');
+  }
+  if (!/^[0-3][0-9]\/[0-1][0-9]\/20[0-9]{2}$/.test(String(payload?.DocDtls?.Dt ?? ''))) errors.push('DocDtls.Dt must be DD/MM/YYYY');
+
+  checkParty(errors, 'SellerDtls', payload?.SellerDtls);
+  checkParty(errors, 'BuyerDtls', payload?.BuyerDtls, true);
+  if (payload?.SellerDtls?.Gstin && payload.SellerDtls.Gstin === payload?.BuyerDtls?.Gstin) {
+    errors.push('BuyerDtls.Gstin cannot be the seller GSTIN');
+  }
+
+  const items: any[] = Array.isArray(payload?.ItemList) ? payload.ItemList : [];
+  if (items.length < 1 || items.length > 1000) errors.push('ItemList must have 1-1000 items');
+
+  const intraState = String(payload?.SellerDtls?.Stcd) === String(payload?.BuyerDtls?.Pos);
+  items.forEach((item) => {
+    const label = `ItemList[${item.SlNo ?? '?'}]`;
+    if (!item.SlNo) errors.push(`${label}.SlNo is required`);
+    if (!HSN_PATTERN.test(String(item.HsnCd ?? ''))) errors.push(`${label}.HsnCd must be a 4, 6 or 8 digit HSN/SAC code`);
+    if (item.IsServc !== 'Y' && item.IsServc !== 'N') errors.push(`${label}.IsServc must be Y or N`);
+    if (!GST_RATES.includes(Number(item.GstRt))) errors.push(`${label}.GstRt ${item.GstRt} is not a valid GST rate`);
+    ['Qty', 'UnitPrice', 'TotAmt', 'Discount', 'AssAmt', 'IgstAmt', 'CgstAmt', 'SgstAmt', 'TotItemVal'].forEach((field) => {
+      if (!Number.isFinite(Number(item[field])) || Number(item[field]) < 0) errors.push(`${label}.${field} must be zero or more`);
+    });
+    if (differs(item.AssAmt, item.TotAmt - item.Discount)) errors.push(`${label}.AssAmt must equal TotAmt less Discount`);
+    if (differs(item.IgstAmt + item.CgstAmt + item.SgstAmt, (item.AssAmt * item.GstRt) / 100)) {
+      errors.push(`${label} tax does not match AssAmt at GstRt`);
+    }
+    if (intraState ? Number(item.IgstAmt) > 0 : Number(item.CgstAmt) > 0 || Number(item.SgstAmt) > 0) {
+      errors.push(`${label} must use ${intraState ? 'CGST/SGST for an intra-state' : 'IGST for an inter-state'} supply`);
+    }
+    if (differs(item.TotItemVal, item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt)) {
+      errors.push(`${label}.TotItemVal must equal AssAmt plus taxes`);
+    }
+  });
+
+  const values = payload?.ValDtls;
+  if (!values) {
+    errors.push('ValDtls is required');
+  } else {
+    const total = (field: string) => items.reduce((acc, item) => acc + Number(item[field] || 0), 0);
+    if (differs(values.AssVal, total('AssAmt'))) errors.push('ValDtls.AssVal must equal the items\' AssAmt');
+    if (differs(values.CgstVal, total('CgstAmt'))) errors.push('ValDtls.CgstVal must equal the items\' CgstAmt');
+    if (differs(values.SgstVal, total('SgstAmt'))) errors.push('ValDtls.SgstVal must equal the items\' SgstAmt');
+    if (differs(values.IgstVal, total('IgstAmt'))) errors.push('ValDtls.IgstVal must equal the items\' IgstAmt');
+    if (Math.abs(Number(values.RndOffAmt || 0)) > 99.99) errors.push('ValDtls.RndOffAmt must be between -99.99 and 99.99');
+    if (differs(values.TotInvVal, total('TotItemVal') - Number(values.Discount || 0) + Number(values.RndOffAmt || 0))) {
+      errors.push('ValDtls.TotInvVal must equal the items\' TotItemVal less Discount plus RndOffAmt');
+    }
+  }
+
+  return errors;
+};
+
+export const fetchEInvoice = async (invoiceId: string) => {
+  const { data, error } = await supabase
+    .from('e_invoices')
+    .select(E_INVOICE_SELECT)
+    .eq('invoice_id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch e-invoice', { invoiceId, error: error.message });
+    throw createError('Failed to fetch e-invoice', 500);
+  }
+
+  return data;
+};
+
+// Build and validate the NIC JSON for a final invoice; rebuilding replaces it until it is registered.
+export const generateEInvoice = async (
+  invoiceId: string,
+  input: { buyer_type?: unknown; buyer?: Record<string, any> | null },
+  generatedBy: string | null
+) => {
+  if (!isEInvoiceBuyerType(input.buyer_type)) {
+    throw createError(`buyer_type must be one of: ${E_INVOICE_BUYER_TYPES.join(', ')}`, 400);
+  }
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select(E_INVOICE_INVOICE_SELECT)
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+  if (invoice.lifecycle_status !== 'final') {
+    throw createError('Only final invoices can be e-invoiced', 409);
+  }
+
+  const existing = await fetchEInvoice(invoiceId);
+  if (existing?.status === 'registered') {
+    throw createError(`E-invoice already registered with IRN ${existing.irn}`, 409);
+  }
+
+  let buyer: EInvoiceBuyer;
+  if (input.buyer_type === 'tpa') {
+    const claim: any = Array.isArray(invoice.insurance_claims) ? invoice.insurance_claims[0] : invoice.insurance_claims;
+    const partner: any = Array.isArray(claim?.tpa_partners) ? claim?.tpa_partners[0] : claim?.tpa_partners;
+    if (!partner) {
+      throw createError('Invoice has no insurance claim with a TPA to bill', 400);
+    }
+    buyer = normalizeBuyer({ ...partner, legal_name: partner.legal_name || partner.name, ...(input.buyer ?? {}) });
+  } else {
+    if (!input.buyer || typeof input.buyer !== 'object') {
+      throw createError('buyer details (gstin, legal_name, address, location, pincode) are required for a corporate', 400);
+    }
+    buyer = normalizeBuyer(input.buyer);
+  }
+
+  const { data: billItems, error: itemsError } = await supabase
+    .from('bill_items')
+    .select('item_type, item_name, quantity, unit_price, total_price, tax_rate, hsn_sac_code')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: true });
+
+  if (itemsError) {
+    logger.error('Failed to fetch bill items for e-invoice', { invoiceId, error: itemsError.message });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  const payload = buildEInvoicePayload(invoice, billItems ?? [], buyer);
+  const errors = validateEInvoicePayload(payload);
+  if (errors.length) {
+    throw createError(`E-invoice payload failed validation: ${errors.join('; ')}`, 400);
+  }
+
+  const { data, error: saveError } = await supabase
+    .from('e_invoices')
+    .upsert(
+      {
+        invoice_id: invoiceId,
+        buyer_type: input.buyer_type,
+        buyer,
+        payload,
+        status: 'generated',
+        error: null,
+        generated_by: generatedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'invoice_id' }
+    )
+    .select(E_INVOICE_SELECT)
+    .single();
+
+  if (saveError || !data) {
+    logger.error('Failed to save e-invoice', { invoiceId, error: saveError?.message });
+    throw createError('Failed to save e-invoice', 500);
+  }
+
+  logger.info('E-invoice generated', { invoiceId, buyerType: input.buyer_type, buyerGstin: buyer.gstin, generatedBy });
+
+  return data;
+};
+
+// Upload the stored JSON through the configured provider and keep the IRN and signed QR it returns.
+export const registerEInvoice = async (invoiceId: string, registeredBy: string | null) => {
+  const existing = await fetchEInvoice(invoiceId);
+
+  if (!existing) {
+    throw createError('Generate the e-invoice before registering it', 404);
+  }
+  if (existing.status === 'registered') {
+    throw createError(`E-invoice already registered with IRN ${existing.irn}`, 409);
+  }
+
+  const errors = validateEInvoicePayload(existing.payload);
+  if (errors.length) {
+    throw createError(`E-invoice payload failed validation: ${errors.join('; ')}`, 400);
+  }
+
+  const provider = getEInvoiceProvider();
+  const nowIso = new Date().toISOString();
+
+  try {
+    const registration = await provider.register(existing.payload);
+
+    const { data, error } = await supabase
+      .from('e_invoices')
+      .update({
+        status: 'registered',
+        provider: provider.name,
+        irn: registration.irn,
+        ack_no: registration.ackNo,
+        ack_date: registration.ackDate,
+        signed_invoice: registration.signedInvoice,
+        signed_qr_code: registration.signedQrCode,
+        error: null,
+        registered_by: registeredBy,
+        registered_at: nowIso,
+        updated_at: nowIso,
+      })
+      .eq('id', existing.id)
+      .neq('status', 'registered')
+      .select(E_INVOICE_SELECT)
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to store e-invoice registration', { invoiceId, irn: registration.irn, error: error?.message });
+      throw createError('E-invoice was registered but the IRN could not be saved', 500);
+    }
+
+    logger.info('E-invoice registered', { invoiceId, irn: registration.irn, provider: provider.name, registeredBy });
+
+    return data;
+  } catch (error: any) {
+    if (error?.statusCode) {
+      throw error;
+    }
+
+    await supabase
+      .from('e_invoices')
+      .update({ status: 'failed', provider: provider.name, error: error?.message ?? String(error), updated_at: nowIso })
+      .eq('id', existing.id);
+
+    logger.error('E-invoice registration failed', { invoiceId, provider: provider.name, error: error?.message });
+    throw createError(`E-invoice registration failed: ${error?.message ?? 'unknown error'}`, 502);
+  }
+};
+
+// IRN, acknowledgement and QR image for printing on a registered invoice
+export const buildEInvoiceStamp = async (invoiceId: string) => {
+  const { data } = await supabase
+    .from('e_invoices')
+    .select('irn, ack_no, ack_date, signed_qr_code')
+    .eq('invoice_id', invoiceId)
+    .eq('status', 'registered')
+    .maybeSingle();
+
+  if (!data?.irn || !data.signed_qr_code) {
+    return null;
+  }
+
+  return {
+    irn: data.irn,
+    ackNo: data.ack_no ?? null,
+    ackDate: data.ack_date ?? null,
+    qrCode: await QRCode.toBuffer(data.signed_qr_code, { errorCorrectionLevel: 'M', margin: 1 }),
+  };
+};
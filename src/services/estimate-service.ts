@@ -0,0 +1,591 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { toIstDateString } from '../utils/ist-date.js';
+import { allocateDocumentNumber } from './sequence-service.js';
+import { resolveAmountPayable, roundCurrency } from './payment-service.js';
+import { applyLineTaxes } from './tax-service.js';
+import { chargeTypeForItemType, loadTariffContext, resolveTariffPrice, tariffStamp, TariffContext } from './tariff-service.js';
+import {
+  applyAdmissionPackage,
+  attachPackageToAdmission,
+  fetchActiveAdmissionPackage,
+  fetchPackageConsumption,
+  fetchPackageWithInclusions,
+  isPackageLineBilled,
+} from './package-service.js';
+import { captureRoomDays, fetchUnbilledCharges } from './charge-capture-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const ESTIMATE_STATUSES = ['issued', 'converted', 'cancelled'] as const;
+export type EstimateStatus = (typeof ESTIMATE_STATUSES)[number];
+
+export const ESTIMATE_SELECT = `
+  id,
+  estimate_number,
+  patient_id,
+  patient_name,
+  patient_phone,
+  price_list_id,
+  package_id,
+  room_type,
+  expected_days,
+  subtotal,
+  tax_total,
+  estimated_total,
+  status,
+  valid_until,
+  notes,
+  admission_id,
+  converted_at,
+  converted_by,
+  variance,
+  variance_reported_at,
+  created_by,
+  created_at,
+  updated_at
+`;
+
+export const ESTIMATE_ITEM_SELECT = `
+  id,
+  estimate_id,
+  item_type,
+  item_name,
+  item_description,
+  quantity,
+  unit_price,
+  total_price,
+  reference_id,
+  package_id,
+  tax_category,
+  hsn_sac_code,
+  tax_rate,
+  tax_amount,
+  price_list_id,
+  price_list_version_id,
+  price_list_version,
+  tariff_item_id
+`;
+
+const DEFAULT_VALIDITY_DAYS = 30;
+
+export interface EstimateSelection {
+  id: string;
+  quantity: number;
+}
+
+export interface EstimateInput {
+  patientId?: string | null;
+  patientName?: string | null;
+  patientPhone?: string | null;
+  priceListId?: string | null;
+  roomType: string;
+  expectedDays: number;
+  packageId?: string | null;
+  services: EstimateSelection[];
+  medications: EstimateSelection[];
+  validUntil?: string | null;
+  notes?: string | null;
+}
+
+export interface VarianceRow {
+  category: string;
+  estimated: number;
+  actual: number;
+  variance: number;
+}
+
+export interface EstimateVariance {
+  categories: VarianceRow[];
+  estimatedSubtotal: number;
+  actualSubtotal: number;
+  estimatedTotal: number;
+  invoicedTotal: number;
+  unbilledTotal: number;
+  actualTotal: number;
+  variance: number;
+  variancePercent: number | null;
+  computedAt: string;
+}
+
+export const isEstimateStatus = (value: unknown): value is EstimateStatus =>
+  typeof value === 'string' && (ESTIMATE_STATUSES as readonly string[]).includes(value);
+
+// Picked services or medicines: [{ id, quantity }] with the id under `key` in the request body.
+export const parseEstimateSelections = (value: unknown, key: string, label: string): EstimateSelection[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw createError(`${label} must be an array`, 400);
+  }
+
+  return value.map((entry: any, index: number) => {
+    if (!entry?.[key]) {
+      throw createError(`${label}[${index}].${key} is required`, 400);
+    }
+    const quantity = entry.quantity === undefined ? 1 : Number(entry.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw createError(`${label}[${index}].quantity must be greater than zero`, 400);
+    }
+    return { id: String(entry[key]), quantity };
+  });
+};
+
+// Lab services are priced like lab reports (by test name); everything else by service id.
+const priceServiceLine = (context: TariffContext, service: any, quantity: number) => {
+  const category = String(service.service_category ?? '').toLowerCase();
+  const chargeType = chargeTypeForItemType(category);
+  const itemType = chargeType === 'other' ? 'service' : chargeType;
+  const price = resolveTariffPrice(context, {
+    chargeType: itemType,
+    referenceIds: [service.id],
+    chargeCode: itemType === 'lab' ? service.service_name : null,
+    fallbackPrice: Number(service.unit_price ?? 0),
+  });
+  const unitPrice = price?.unit_price ?? 0;
+
+  return {
+    item_type: itemType,
+    item_name: service.service_name,
+    item_description: service.description ?? null,
+    quantity,
+    unit_price: unitPrice,
+    total_price: roundCurrency(unitPrice * quantity),
+    reference_id: service.id,
+    tax_category: service.tax_category ?? null,
+    hsn_sac_code: service.hsn_sac_code ?? null,
+    test_type: itemType === 'lab' ? service.service_name : null,
+    ...tariffStamp(price),
+  };
+};
+
+// Quantity is the number of doses expected; each dose is charged like an administered one.
+const priceMedicationLine = (context: TariffContext, medication: any, quantity: number) => {
+  const price = resolveTariffPrice(context, {
+    chargeType: 'medication',
+    referenceIds: [medication.id],
+    fallbackPrice: Number(medication.price_per_unit ?? 0),
+  });
+  const unitsPerDose = Number(medication.default_units_per_dose || 1);
+  const unitPrice = roundCurrency((price?.unit_price ?? 0) * unitsPerDose);
+
+  return {
+    item_type: 'medication',
+    item_name: medication.name,
+    item_description: unitsPerDose !== 1 ? `${unitsPerDose} units per dose` : null,
+    quantity,
+    unit_price: unitPrice,
+    total_price: roundCurrency(unitPrice * quantity),
+    reference_id: medication.id,
+    medication_catalog_id: medication.id,
+    tax_category: medication.tax_category ?? null,
+    hsn_sac_code: medication.hsn_sac_code ?? null,
+    ...tariffStamp(price),
+  };
+};
+
+const priceRoomLine = async (context: TariffContext, roomType: string, expectedDays: number) => {
+  // Without a room-type tariff, quote the going rate of a room of that type
+  const { data: room } = await supabase
+    .from('rooms')
+    .select('id, rate_per_day')
+    .ilike('room_type', roomType)
+    .not('rate_per_day', 'is', null)
+    .order('rate_per_day', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  const price = resolveTariffPrice(context, {
+    chargeType: 'room',
+    chargeCode: roomType,
+    fallbackPrice: Number(room?.rate_per_day ?? 0),
+  });
+  const unitPrice = price?.unit_price ?? 0;
+
+  return {
+    item_type: 'room',
+    item_name: `Room/Bed - ${roomType}`,
+    item_description: `${expectedDays} day${expectedDays === 1 ? '' : 's'} expected stay`,
+    quantity: expectedDays,
+    unit_price: unitPrice,
+    total_price: roundCurrency(unitPrice * expectedDays),
+    reference_id: null,
+    room_type: roomType,
+    ...tariffStamp(price),
+  };
+};
+
+const fetchByIds = async (table: string, ids: string[], label: string) => {
+  if (!ids.length) {
+    return new Map<string, any>();
+  }
+
+  const { data, error } = await supabase.from(table).select('*').in('id', ids);
+
+  if (error) {
+    logger.error(`Failed to fetch ${label} for estimate`, { error: error.message });
+    throw createError(`Failed to fetch ${label}`, 500);
+  }
+
+  const found = new Map<string, any>((data ?? []).map((row: any) => [row.id, row]));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length) {
+    throw createError(`Unknown ${label}: ${missing.join(', ')}`, 404);
+  }
+
+  return found;
+};
+
+// Price every line through the same tariff and package rules an invoice would use.
+export const priceEstimate = async (input: EstimateInput) => {
+  const context = await loadTariffContext({ priceListId: input.priceListId });
+
+  const [services, medications] = await Promise.all([
+    fetchByIds('hospital_services', input.services.map((entry) => entry.id), 'hospital services'),
+    fetchByIds('medication_catalog', input.medications.map((entry) => entry.id), 'medications'),
+  ]);
+
+  const lines: any[] = [
+    await priceRoomLine(context, input.roomType, input.expectedDays),
+    ...input.services.map((entry) => priceServiceLine(context, services.get(entry.id), entry.quantity)),
+    ...input.medications.map((entry) => priceMedicationLine(context, medications.get(entry.id), entry.quantity)),
+  ];
+
+  let quotedPackage: any = null;
+  if (input.packageId) {
+    const billingPackage = await fetchPackageWithInclusions(input.packageId);
+    if (!billingPackage.is_active) {
+      throw createError('Package is inactive', 400);
+    }
+    const packagePrice = resolveTariffPrice(context, {
+      chargeType: 'procedure',
+      referenceIds: [input.packageId],
+      fallbackPrice: Number(billingPackage.package_price || 0),
+    });
+    // Shaped like an admission package so the invoice splitting rules apply unchanged
+    quotedPackage = {
+      id: input.packageId,
+      package_id: input.packageId,
+      package_price: packagePrice?.unit_price ?? Number(billingPackage.package_price || 0),
+      billing_packages: billingPackage,
+    };
+  }
+
+  const items = applyLineTaxes(
+    applyAdmissionPackage(lines, quotedPackage).map(({ admission_package_id, package_inclusion_id, ...line }: any) => ({
+      ...line,
+      package_id: admission_package_id ?? null,
+    }))
+  );
+
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + Number(item.total_price || 0), 0));
+  const taxTotal = roundCurrency(items.reduce((sum, item) => sum + Number(item.tax_amount || 0), 0));
+
+  return {
+    items,
+    subtotal,
+    taxTotal,
+    estimatedTotal: roundCurrency(subtotal + taxTotal),
+  };
+};
+
+export const createEstimate = async (input: EstimateInput, createdBy?: string | null) => {
+  let patientName = input.patientName?.trim() || null;
+  let patientPhone = input.patientPhone?.trim() || null;
+
+  if (input.patientId) {
+    const { data: patient } = await supabase
+      .from('patients')
+      .select('id, first_name, last_name, phone')
+      .eq('id', input.patientId)
+      .maybeSingle();
+
+    if (!patient) {
+      throw createError('Patient not found', 404);
+    }
+    patientName = patientName ?? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim();
+    patientPhone = patientPhone ?? patient.phone ?? null;
+  }
+
+  if (!patientName) {
+    throw createError('patient_id or patient_name is required', 400);
+  }
+
+  const priced = await priceEstimate(input);
+  const estimateNumber = await allocateDocumentNumber('estimate');
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .insert({
+      estimate_number: estimateNumber,
+      patient_id: input.patientId || null,
+      patient_name: patientName,
+      patient_phone: patientPhone,
+      price_list_id: input.priceListId || null,
+      package_id: input.packageId || null,
+      room_type: input.roomType,
+      expected_days: input.expectedDays,
+      subtotal: priced.subtotal,
+      tax_total: priced.taxTotal,
+      estimated_total: priced.estimatedTotal,
+      status: 'issued',
+      valid_until: input.validUntil ?? toIstDateString(new Date(Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000)),
+      notes: input.notes || null,
+      created_by: createdBy ?? null,
+    })
+    .select(ESTIMATE_SELECT)
+    .single();
+
+  if (error || !estimate) {
+    logger.error('Failed to create estimate', { error: error?.message });
+    throw createError('Failed to create estimate', 500);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('estimate_items')
+    .insert(priced.items.map((item: any) => ({
+      estimate_id: estimate.id,
+      item_type: item.item_type,
+      item_name: item.item_name,
+      item_description: item.item_description ?? null,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      total_price: item.total_price,
+      reference_id: item.reference_id ?? null,
+      package_id: item.package_id ?? null,
+      tax_category: item.tax_category,
+      hsn_sac_code: item.hsn_sac_code,
+      tax_rate: item.tax_rate,
+      tax_amount: item.tax_amount,
+      price_list_id: item.price_list_id ?? null,
+      price_list_version_id: item.price_list_version_id ?? null,
+      price_list_version: item.price_list_version ?? null,
+      tariff_item_id: item.tariff_item_id ?? null,
+    })))
+    .select(ESTIMATE_ITEM_SELECT);
+
+  if (itemsError) {
+    logger.error('Failed to save estimate items', { estimateId: estimate.id, error: itemsError.message });
+    await supabase.from('estimates').delete().eq('id', estimate.id);
+    throw createError('Failed to create estimate', 500);
+  }
+
+  logger.info('Estimate issued', {
+    estimateId: estimate.id,
+    estimateNumber,
+    estimatedTotal: priced.estimatedTotal,
+    createdBy,
+  });
+
+  return { ...estimate, estimate_items: items ?? [] };
+};
+
+export const fetchEstimateWithItems = async (estimateId: string) => {
+  const { data, error } = await supabase
+    .from('estimates')
+    .select(`${ESTIMATE_SELECT}, estimate_items ( ${ESTIMATE_ITEM_SELECT} )`)
+    .eq('id', estimateId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw createError('Estimate not found', 404);
+  }
+
+  return data;
+};
+
+// An estimate can become an admission while it is issued, unexpired and for the same patient.
+export const fetchConvertibleEstimate = async (estimateId: string, patientId?: string | null) => {
+  const estimate = await fetchEstimateWithItems(estimateId);
+
+  if (estimate.status !== 'issued') {
+    throw createError(`Estimate is ${estimate.status} and cannot be converted`, 409);
+  }
+  if (estimate.valid_until && estimate.valid_until < toIstDateString()) {
+    throw createError('Estimate has expired; issue a fresh estimate', 409);
+  }
+  if (estimate.patient_id && patientId && estimate.patient_id !== patientId) {
+    throw createError('Estimate was issued for a different patient', 400);
+  }
+
+  return estimate;
+};
+
+// Link the estimate to the admission it became and carry its price list and package over,
+// so the stay is billed on the terms that were quoted.
+export const convertEstimateToAdmission = async (estimateId: string, admissionId: string, convertedBy?: string | null) => {
+  const { data: admission } = await supabase
+    .from('admissions')
+    .select('id, patient_id, price_list_id')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (!admission) {
+    throw createError('Admission not found', 404);
+  }
+
+  const estimate = await fetchConvertibleEstimate(estimateId, admission.patient_id);
+
+  const { data, error } = await supabase
+    .from('estimates')
+    .update({
+      status: 'converted',
+      patient_id: estimate.patient_id ?? admission.patient_id,
+      admission_id: admissionId,
+      converted_at: new Date().toISOString(),
+      converted_by: convertedBy ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', estimateId)
+    .eq('status', 'issued')
+    .select(ESTIMATE_SELECT)
+    .maybeSingle();
+
+  if (error?.code === '23505') {
+    throw createError('Admission already has an estimate', 409);
+  }
+  if (error || !data) {
+    logger.error('Failed to convert estimate', { estimateId, admissionId, error: error?.message });
+    throw createError('Failed to convert estimate', error ? 500 : 409);
+  }
+
+  if (estimate.price_list_id && !admission.price_list_id) {
+    await supabase
+      .from('admissions')
+      .update({ price_list_id: estimate.price_list_id })
+      .eq('id', admissionId);
+  }
+
+  if (estimate.package_id && !(await fetchActiveAdmissionPackage(admissionId))) {
+    await attachPackageToAdmission(admissionId, estimate.package_id, {
+      notes: `Quoted on estimate ${estimate.estimate_number}`,
+      attachedBy: convertedBy,
+    });
+  }
+
+  logger.info('Estimate converted to admission', { estimateId, admissionId, convertedBy });
+
+  return data;
+};
+
+const addToCategory = (totals: Map<string, number>, category: string | null | undefined, amount: number) => {
+  const key = category || 'other';
+  totals.set(key, (totals.get(key) ?? 0) + Number(amount || 0));
+};
+
+// Estimated vs actual by charge category. Actual covers every live invoice of the admission
+// plus charges captured but not yet invoiced.
+export const computeEstimateVariance = async (estimate: any): Promise<EstimateVariance> => {
+  if (!estimate.admission_id) {
+    throw createError('Estimate has not been converted to an admission', 400);
+  }
+
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select('id, total_amount, amount_payable, bill_items ( item_type, total_price )')
+    .eq('admission_id', estimate.admission_id)
+    .neq('lifecycle_status', 'cancelled');
+
+  if (error) {
+    logger.error('Failed to fetch invoices for estimate variance', { estimateId: estimate.id, error: error.message });
+    throw createError('Failed to compute estimate variance', 500);
+  }
+
+  // Lines already sitting on a running bill are counted with that invoice
+  const pending = (await fetchUnbilledCharges(estimate.admission_id)).filter((charge) => !charge.invoice_id);
+  const admissionPackage = await fetchActiveAdmissionPackage(estimate.admission_id);
+  const unbilled = applyLineTaxes(applyAdmissionPackage(pending, admissionPackage, {
+    billedPackageLine: admissionPackage ? await isPackageLineBilled(admissionPackage.id) : false,
+    consumed: admissionPackage ? await fetchPackageConsumption(admissionPackage.id) : undefined,
+  }));
+
+  const estimated = new Map<string, number>();
+  const actual = new Map<string, number>();
+
+  (estimate.estimate_items ?? []).forEach((item: any) => addToCategory(estimated, item.item_type, item.total_price));
+  (invoices ?? []).forEach((invoice: any) =>
+    (invoice.bill_items ?? []).forEach((item: any) => addToCategory(actual, item.item_type, item.total_price))
+  );
+  unbilled.forEach((charge: any) => addToCategory(actual, charge.item_type, charge.total_price));
+
+  const categories = [...new Set([...estimated.keys(), ...actual.keys()])].map((category) => {
+    const estimatedAmount = roundCurrency(estimated.get(category) ?? 0);
+    const actualAmount = roundCurrency(actual.get(category) ?? 0);
+    return {
+      category,
+      estimated: estimatedAmount,
+      actual: actualAmount,
+      variance: roundCurrency(actualAmount - estimatedAmount),
+    };
+  });
+
+  const invoicedTotal = roundCurrency((invoices ?? []).reduce((sum, invoice) => sum + resolveAmountPayable(invoice), 0));
+  const unbilledTotal = roundCurrency(
+    unbilled.reduce((sum, charge: any) => sum + Number(charge.total_price || 0) + Number(charge.tax_amount || 0), 0)
+  );
+  const estimatedTotal = roundCurrency(Number(estimate.estimated_total || 0));
+  const actualTotal = roundCurrency(invoicedTotal + unbilledTotal);
+  const variance = roundCurrency(actualTotal - estimatedTotal);
+
+  return {
+    categories,
+    estimatedSubtotal: roundCurrency(Number(estimate.subtotal || 0)),
+    actualSubtotal: roundCurrency(categories.reduce((sum, row) => sum + row.actual, 0)),
+    estimatedTotal,
+    invoicedTotal,
+    unbilledTotal,
+    actualTotal,
+    variance,
+    variancePercent: estimatedTotal > 0 ? roundCurrency((variance / estimatedTotal) * 100) : null,
+    computedAt: new Date().toISOString(),
+  };
+};
+
+// Called on discharge: capture the stay's room days so they count, then store the variance
+// on the estimate. Returns null when the admission was not quoted.
+export const reportEstimateVariance = async (
+  admission: { id: string; admission_date: string },
+  reportedBy?: string | null
+) => {
+  const { data: estimate } = await supabase
+    .from('estimates')
+    .select(`${ESTIMATE_SELECT}, estimate_items ( ${ESTIMATE_ITEM_SELECT} )`)
+    .eq('admission_id', admission.id)
+    .maybeSingle();
+
+  if (!estimate) {
+    return null;
+  }
+
+  await captureRoomDays(admission.id, {
+    from: toIstDateString(new Date(admission.admission_date)),
+    to: toIstDateString(),
+  }, reportedBy);
+
+  const variance = await computeEstimateVariance(estimate);
+
+  const { error } = await supabase
+    .from('estimates')
+    .update({
+      variance,
+      variance_reported_at: variance.computedAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', estimate.id);
+
+  if (error) {
+    logger.error('Failed to store estimate variance', { estimateId: estimate.id, error: error.message });
+  }
+
+  logger.info('Estimate variance reported', {
+    estimateId: estimate.id,
+    admissionId: admission.id,
+    estimatedTotal: variance.estimatedTotal,
+    actualTotal: variance.actualTotal,
+    variance: variance.variance,
+  });
+
+  return { estimateId: estimate.id, estimateNumber: estimate.estimate_number, ...variance };
+};
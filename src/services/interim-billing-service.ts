@@ -0,0 +1,125 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { isIstDateString, toIstDateString } from '../utils/ist-date.js';
+import { resolveAmountPayable, roundCurrency } from './payment-service.js';
+import { ChargeWindow } from './charge-capture-service.js';
+import { transitionInvoiceLifecycle } from './invoice-lifecycle-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const INVOICE_TYPES = ['interim', 'final'] as const;
+export type InvoiceType = (typeof INVOICE_TYPES)[number];
+
+export interface SettlementSummary {
+  interimInvoices: any[];
+  interimInvoicedTotal: number;
+  interimPaidTotal: number;
+  currentCharges: number;
+  currentPaid: number;
+  totalStayCharges: number;
+  netPayable: number;
+}
+
+export const isInvoiceType = (value: unknown): value is InvoiceType =>
+  typeof value === 'string' && (INVOICE_TYPES as readonly string[]).includes(value);
+
+// Interim invoices bill the window asked for; the final settlement bill sweeps the whole stay.
+export const resolveBillingWindow = (
+  admission: { admission_date: string },
+  invoiceType: InvoiceType,
+  periodFrom?: unknown,
+  periodTo?: unknown
+): ChargeWindow => {
+  const admittedOn = toIstDateString(new Date(admission.admission_date));
+  const today = toIstDateString();
+
+  if (invoiceType === 'final') {
+    return { from: admittedOn, to: today };
+  }
+
+  if (!isIstDateString(periodFrom) || !isIstDateString(periodTo)) {
+    throw createError('period_from and period_to (YYYY-MM-DD) are required for an interim invoice', 400);
+  }
+  if (periodFrom > periodTo) {
+    throw createError('period_from must be on or before period_to', 400);
+  }
+  if (periodFrom < admittedOn) {
+    throw createError('period_from cannot be before the admission date', 400);
+  }
+  if (periodTo > today) {
+    throw createError('period_to cannot be in the future', 400);
+  }
+
+  return { from: periodFrom, to: periodTo };
+};
+
+// After the final settlement sweeps the stay, an emptied running bill has nothing left to issue.
+export const closeEmptyRunningBills = async (admissionId: string, actor: { staffId?: string | null; role?: string | null }) => {
+  const { data: runningBills } = await supabase
+    .from('invoices')
+    .select('id, bill_items ( id )')
+    .eq('admission_id', admissionId)
+    .eq('invoice_type', 'interim')
+    .eq('lifecycle_status', 'draft');
+
+  for (const bill of (runningBills ?? []) as any[]) {
+    if ((bill.bill_items ?? []).length === 0) {
+      await transitionInvoiceLifecycle(bill.id, 'cancelled', actor, 'Running bill folded into final settlement', 'consolidated');
+    }
+  }
+};
+
+// Interim invoices of the admission that a final settlement bill lists as already invoiced
+export const fetchInterimInvoices = async (admissionId: string, excludeInvoiceId?: string) => {
+  let query = supabase
+    .from('invoices')
+    .select('id, invoice_number, period_from, period_to, lifecycle_status, total_amount, amount_payable, paid_amount, balance, created_at')
+    .eq('admission_id', admissionId)
+    .eq('invoice_type', 'interim')
+    .neq('lifecycle_status', 'cancelled')
+    .order('created_at', { ascending: true });
+
+  if (excludeInvoiceId) {
+    query = query.neq('id', excludeInvoiceId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch interim invoices', { admissionId, error: error.message });
+    throw createError('Failed to fetch interim invoices', 500);
+  }
+
+  return (data ?? []).filter((invoice) => resolveAmountPayable(invoice) > 0);
+};
+
+export const buildSettlementSummary = async (invoice: {
+  id: string;
+  admission_id: string;
+  invoice_type?: string | null;
+  amount_payable?: number | null;
+  total_amount?: number | null;
+  paid_amount?: number | null;
+}): Promise<SettlementSummary | null> => {
+  if (invoice.invoice_type === 'interim') {
+    return null;
+  }
+
+  const interimInvoices = await fetchInterimInvoices(invoice.admission_id, invoice.id);
+  const interimInvoicedTotal = roundCurrency(interimInvoices.reduce((sum, interim) => sum + resolveAmountPayable(interim), 0));
+  const interimPaidTotal = roundCurrency(interimInvoices.reduce((sum, interim) => sum + Number(interim.paid_amount || 0), 0));
+  const currentCharges = resolveAmountPayable(invoice);
+  const currentPaid = roundCurrency(Number(invoice.paid_amount || 0));
+  const totalStayCharges = roundCurrency(currentCharges + interimInvoicedTotal);
+
+  return {
+    interimInvoices,
+    interimInvoicedTotal,
+    interimPaidTotal,
+    currentCharges,
+    currentPaid,
+    totalStayCharges,
+    netPayable: roundCurrency(totalStayCharges - interimPaidTotal - currentPaid),
+  };
+};
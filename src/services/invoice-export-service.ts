@@ -0,0 +1,386 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { getIstDayBounds, isIstDateString, toIstDateString } from '../utils/ist-date.js';
+import { createZipWriter, ZipWriter } from '../utils/zip-writer.js';
+import { getSignedDownloadUrl, uploadFileToR2 } from '../utils/r2.js';
+import { INVOICE_LIFECYCLE_STATES, isInvoiceLifecycleStatus } from './invoice-lifecycle-service.js';
+import { renderInvoicePdf } from './invoice-pdf-service.js';
+import { resolveAmountPayable } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const INVOICE_EXPORT_JOB_SELECT = `
+  id,
+  status,
+  filters,
+  total_invoices,
+  processed_invoices,
+  failed_invoices,
+  file_path,
+  file_size,
+  error,
+  requested_by,
+  created_at,
+  started_at,
+  completed_at
+`;
+
+export const INVOICE_EXPORT_PAYERS = ['all', 'self_pay', 'tpa'] as const;
+export type InvoiceExportPayer = (typeof INVOICE_EXPORT_PAYERS)[number];
+
+export const INVOICE_PAYMENT_STATUSES = ['pending', 'partial', 'paid', 'overdue', 'written_off'] as const;
+
+// Keeps one job to a size that renders in reasonable time on the API server
+const MAX_EXPORT_INVOICES = 2000;
+const MAX_EXPORT_DAYS = 366;
+const DOWNLOAD_LINK_SECONDS = 3600;
+
+export interface InvoiceExportFilters {
+  from: string;
+  to: string;
+  lifecycle_status: string[];
+  payment_status: string[] | null;
+  payer: InvoiceExportPayer;
+  tpa_partner_id: string | null;
+  include_lab_reports: boolean;
+}
+
+export const isInvoiceExportPayer = (value: unknown): value is InvoiceExportPayer =>
+  typeof value === 'string' && (INVOICE_EXPORT_PAYERS as readonly string[]).includes(value);
+
+const toList = (value: unknown): string[] | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const list = (Array.isArray(value) ? value : String(value).split(',')).map((entry) => String(entry).trim()).filter(Boolean);
+  return list.length ? list : null;
+};
+
+export const parseInvoiceExportFilters = (body: Record<string, any>): InvoiceExportFilters => {
+  const { from, to } = body;
+  if (!isIstDateString(from) || !isIstDateString(to)) {
+    throw createError('from and to are required in YYYY-MM-DD format', 400);
+  }
+  if (from > to) {
+    throw createError('from must not be after to', 400);
+  }
+  if ((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) >= MAX_EXPORT_DAYS) {
+    throw createError(`An export can cover at most ${MAX_EXPORT_DAYS} days`, 400);
+  }
+
+  // Drafts are work in progress and never go to auditors unless asked for
+  const lifecycleStatus = toList(body.lifecycle_status) ?? ['provisional', 'final'];
+  if (lifecycleStatus.some((status) => !isInvoiceLifecycleStatus(status))) {
+    throw createError(`lifecycle_status must be one or more of: ${INVOICE_LIFECYCLE_STATES.join(', ')}`, 400);
+  }
+
+  const paymentStatus = toList(body.payment_status);
+  if (paymentStatus?.some((status) => !(INVOICE_PAYMENT_STATUSES as readonly string[]).includes(status))) {
+    throw createError(`payment_status must be one or more of: ${INVOICE_PAYMENT_STATUSES.join(', ')}`, 400);
+  }
+
+  const payer = body.payer ?? 'all';
+  if (!isInvoiceExportPayer(payer)) {
+    throw createError(`payer must be one of: ${INVOICE_EXPORT_PAYERS.join(', ')}`, 400);
+  }
+
+  return {
+    from,
+    to,
+    lifecycle_status: lifecycleStatus,
+    payment_status: paymentStatus,
+    payer: body.tpa_partner_id ? 'tpa' : payer,
+    tpa_partner_id: body.tpa_partner_id || null,
+    include_lab_reports: body.include_lab_reports === true || body.include_lab_reports === 'true',
+  };
+};
+
+const fetchExportInvoices = async (filters: InvoiceExportFilters) => {
+  let claimIds: string[] | null = null;
+  if (filters.tpa_partner_id) {
+    const { data: claims, error: claimsError } = await supabase
+      .from('insurance_claims')
+      .select('id')
+      .eq('tpa_partner_id', filters.tpa_partner_id);
+
+    if (claimsError) {
+      throw new Error(`Failed to fetch claims for TPA: ${claimsError.message}`);
+    }
+    claimIds = (claims ?? []).map((claim) => claim.id);
+    if (!claimIds.length) {
+      return [];
+    }
+  }
+
+  let query = supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      created_at,
+      lifecycle_status,
+      status,
+      amount_payable,
+      total_amount,
+      paid_amount,
+      balance,
+      tpa_payable,
+      patient_payable,
+      claim_id,
+      admissions (
+        patients (
+          patient_id,
+          first_name,
+          last_name
+        )
+      ),
+      insurance_claims (
+        claim_number,
+        tpa_partners (
+          name
+        )
+      )
+    `)
+    .gte('created_at', getIstDayBounds(filters.from).start.toISOString())
+    .lt('created_at', getIstDayBounds(filters.to).end.toISOString())
+    .in('lifecycle_status', filters.lifecycle_status)
+    .order('created_at', { ascending: true })
+    .limit(MAX_EXPORT_INVOICES + 1);
+
+  if (filters.payment_status) {
+    query = query.in('status', filters.payment_status);
+  }
+  if (claimIds) {
+    query = query.in('claim_id', claimIds);
+  } else if (filters.payer === 'tpa') {
+    query = query.not('claim_id', 'is', null);
+  } else if (filters.payer === 'self_pay') {
+    query = query.is('claim_id', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch invoices for export: ${error.message}`);
+  }
+  if ((data ?? []).length > MAX_EXPORT_INVOICES) {
+    throw new Error(`More than ${MAX_EXPORT_INVOICES} invoices match; narrow the date range or filters`);
+  }
+
+  return data ?? [];
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: unknown[]) => cells.map(csvCell).join(',');
+
+const amount = (value: unknown) => Number(value || 0).toFixed(2);
+
+const updateJob = async (jobId: string, updates: Record<string, any>) => {
+  const { error } = await supabase.from('invoice_export_jobs').update(updates).eq('id', jobId);
+  if (error) {
+    logger.error('Failed to update invoice export job', { jobId, error: error.message });
+  }
+};
+
+// Render every matching invoice into a ZIP on local disk, then upload it. A PDF that fails to
+// render is listed in the index with its error instead of failing the whole export.
+const runInvoiceExportJob = async (jobId: string) => {
+  const { data: job } = await supabase
+    .from('invoice_export_jobs')
+    .select(INVOICE_EXPORT_JOB_SELECT)
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (!job || job.status === 'completed' || job.status === 'failed') {
+    return;
+  }
+
+  const filters = job.filters as InvoiceExportFilters;
+  const zipPath = path.join(os.tmpdir(), `invoice-export-${jobId}.zip`);
+  let zip: ZipWriter | null = null;
+
+  try {
+    zip = await createZipWriter(zipPath);
+    await updateJob(jobId, { status: 'running', started_at: new Date().toISOString(), processed_invoices: 0, failed_invoices: 0 });
+
+    const invoices = await fetchExportInvoices(filters);
+    await updateJob(jobId, { total_invoices: invoices.length });
+
+    const index: string[] = [
+      csvRow([
+        'Invoice No',
+        'Invoice Date',
+        'Patient ID',
+        'Patient Name',
+        'Lifecycle',
+        'Payment Status',
+        'Payer',
+        'Claim No',
+        'Amount Payable',
+        'TPA Payable',
+        'Paid',
+        'Balance',
+        'File',
+        'Error',
+      ]),
+    ];
+    let processed = 0;
+    let failed = 0;
+
+    for (const invoice of invoices as any[]) {
+      const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+      const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+      const claim: any = Array.isArray(invoice.insurance_claims) ? invoice.insurance_claims[0] : invoice.insurance_claims;
+      const tpa: any = Array.isArray(claim?.tpa_partners) ? claim?.tpa_partners[0] : claim?.tpa_partners;
+      const fileName = `invoices/${String(invoice.invoice_number ?? invoice.id).replace(/[^A-Za-z0-9-]/g, '-')}.pdf`;
+      let renderError: string | null = null;
+
+      try {
+        const { pdfBuffer } = await renderInvoicePdf(invoice.id, { includeLabReports: filters.include_lab_reports });
+        await zip.addFile(fileName, pdfBuffer);
+      } catch (error: any) {
+        renderError = error?.message ?? String(error);
+        failed += 1;
+        logger.warn('Invoice left out of export', { jobId, invoiceId: invoice.id, error: renderError });
+      }
+
+      index.push(
+        csvRow([
+          invoice.invoice_number,
+          toIstDateString(new Date(invoice.created_at)),
+          patient?.patient_id,
+          patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : null,
+          invoice.lifecycle_status,
+          invoice.status,
+          tpa?.name ?? (invoice.claim_id ? 'TPA' : 'Self pay'),
+          claim?.claim_number,
+          amount(resolveAmountPayable(invoice)),
+          amount(invoice.tpa_payable),
+          amount(invoice.paid_amount),
+          amount(invoice.balance),
+          renderError ? null : fileName,
+          renderError,
+        ])
+      );
+
+      processed += 1;
+      await updateJob(jobId, { processed_invoices: processed, failed_invoices: failed });
+    }
+
+    await zip.addFile('index.csv', Buffer.from(`${index.join('\n')}\n`, 'utf8'));
+    await zip.finalize();
+
+    const { path: filePath, size } = await uploadFileToR2(zipPath, `exports/invoices/${jobId}.zip`, 'application/zip');
+    await fs.rm(zipPath, { force: true });
+
+    await updateJob(jobId, {
+      status: 'completed',
+      file_path: filePath,
+      file_size: size,
+      completed_at: new Date().toISOString(),
+    });
+
+    logger.info('Invoice export completed', { jobId, invoices: invoices.length, failed, size });
+  } catch (error: any) {
+    await zip?.abort();
+    await updateJob(jobId, { status: 'failed', error: error?.message ?? String(error), completed_at: new Date().toISOString() });
+    logger.error('Invoice export failed', { jobId, error: error?.message });
+  }
+};
+
+// Exports run one at a time so a large job cannot starve the API of CPU
+let exportQueue: Promise<void> = Promise.resolve();
+
+const enqueueInvoiceExport = (jobId: string) => {
+  exportQueue = exportQueue.then(() => runInvoiceExportJob(jobId)).catch((error: any) => {
+    logger.error('Invoice export job crashed', { jobId, error: error?.message });
+  });
+};
+
+export const createInvoiceExportJob = async (filters: InvoiceExportFilters, requestedBy: string | null) => {
+  const { data: job, error } = await supabase
+    .from('invoice_export_jobs')
+    .insert({ filters, requested_by: requestedBy })
+    .select(INVOICE_EXPORT_JOB_SELECT)
+    .single();
+
+  if (error || !job) {
+    logger.error('Failed to create invoice export job', { error: error?.message });
+    throw createError('Failed to start invoice export', 500);
+  }
+
+  logger.info('Invoice export queued', { jobId: job.id, filters, requestedBy });
+  enqueueInvoiceExport(job.id);
+
+  return job;
+};
+
+// Jobs cut short by a restart start again from the beginning
+export const resumeInvoiceExportJobs = async () => {
+  const { data, error } = await supabase
+    .from('invoice_export_jobs')
+    .select('id')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to look up unfinished invoice exports', { error: error.message });
+    return;
+  }
+
+  (data ?? []).forEach((job) => enqueueInvoiceExport(job.id));
+};
+
+export const fetchInvoiceExportJob = async (jobId: string) => {
+  const { data, error } = await supabase
+    .from('invoice_export_jobs')
+    .select(INVOICE_EXPORT_JOB_SELECT)
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch invoice export job', { jobId, error: error.message });
+    throw createError('Failed to fetch invoice export', 500);
+  }
+  if (!data) {
+    throw createError('Invoice export not found', 404);
+  }
+
+  return {
+    ...data,
+    progress_percent: data.total_invoices ? Math.floor((data.processed_invoices / data.total_invoices) * 100) : data.status === 'completed' ? 100 : 0,
+  };
+};
+
+export const fetchInvoiceExportJobs = async (limit = 50) => {
+  const { data, error } = await supabase
+    .from('invoice_export_jobs')
+    .select(INVOICE_EXPORT_JOB_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to fetch invoice export jobs', { error: error.message });
+    throw createError('Failed to fetch invoice exports', 500);
+  }
+
+  return data ?? [];
+};
+
+export const getInvoiceExportDownloadUrl = async (jobId: string) => {
+  const job = await fetchInvoiceExportJob(jobId);
+
+  if (job.status !== 'completed' || !job.file_path) {
+    throw createError(`Invoice export is ${job.status}; the archive is not ready`, 409);
+  }
+
+  return { signedUrl: await getSignedDownloadUrl(job.file_path, DOWNLOAD_LINK_SECONDS), expiresIn: DOWNLOAD_LINK_SECONDS };
+};
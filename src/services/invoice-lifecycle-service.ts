@@ -0,0 +1,572 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { addIstDays, toIstDateString } from '../utils/ist-date.js';
+import { recalculateInvoicePayments, roundCurrency } from './payment-service.js';
+import {
+  applyLineTaxes,
+  computeInvoiceTotals,
+  computeLineTax,
+  isSupplyType,
+  isTaxCategory,
+  resolveItemTaxDefaults,
+  SupplyType,
+  TAX_CATEGORIES,
+} from './tax-service.js';
+import { captureInvoiceSnapshot, createInvoiceRevision, recordInvoiceChange } from './invoice-revision-service.js';
+import { releaseInvoiceCharges } from './charge-capture-service.js';
+import { refreshAdmissionPayerSplit } from './payer-split-service.js';
+import { buildAmendmentDiscountEntry, DISCOUNT_TYPES, isDiscountType } from './discount-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const INVOICE_LIFECYCLE_STATES = ['draft', 'provisional', 'final', 'cancelled'] as const;
+export type InvoiceLifecycleStatus = (typeof INVOICE_LIFECYCLE_STATES)[number];
+
+const LIFECYCLE_TRANSITIONS: Record<InvoiceLifecycleStatus, InvoiceLifecycleStatus[]> = {
+  draft: ['provisional', 'final', 'cancelled'],
+  provisional: ['draft', 'final', 'cancelled'],
+  final: ['cancelled'],
+  cancelled: [],
+};
+
+// Cancelled invoices keep their number; the code says why it was never collected on
+export const CANCELLATION_REASON_CODES = ['duplicate', 'raised_in_error', 'patient_request', 'consolidated', 'other'] as const;
+export type CancellationReasonCode = (typeof CANCELLATION_REASON_CODES)[number];
+
+export const AMENDABLE_INVOICE_FIELDS = ['discount_type', 'discount_value', 'discount_reason', 'include_gst', 'gst_rate'] as const;
+
+export interface AmendmentItemChange {
+  id?: string;
+  item_type?: string;
+  item_name?: string;
+  item_description?: string | null;
+  quantity?: number;
+  unit_price?: number;
+  reference_id?: string | null;
+  tax_category?: string | null;
+  hsn_sac_code?: string | null;
+}
+
+export interface AmendmentChanges {
+  invoice?: Partial<Record<(typeof AMENDABLE_INVOICE_FIELDS)[number], any>>;
+  add_items?: AmendmentItemChange[];
+  update_items?: AmendmentItemChange[];
+  remove_item_ids?: string[];
+}
+
+export const AMENDMENT_SELECT = `
+  id,
+  invoice_id,
+  reason,
+  changes,
+  status,
+  base_revision,
+  resulting_revision,
+  requested_by,
+  reviewed_by,
+  reviewed_at,
+  review_notes,
+  created_at,
+  updated_at
+`;
+
+export const isInvoiceLifecycleStatus = (value: unknown): value is InvoiceLifecycleStatus =>
+  typeof value === 'string' && (INVOICE_LIFECYCLE_STATES as readonly string[]).includes(value);
+
+export const isCancellationReasonCode = (value: unknown): value is CancellationReasonCode =>
+  typeof value === 'string' && (CANCELLATION_REASON_CODES as readonly string[]).includes(value);
+
+export const isInvoiceLocked = (lifecycleStatus?: string | null): boolean =>
+  lifecycleStatus === 'final' || lifecycleStatus === 'cancelled';
+
+export const fetchInvoiceLifecycle = async (invoiceId: string) => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, admission_id, lifecycle_status, current_revision, paid_amount, written_off_amount, credited_amount, due_date')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  return invoice;
+};
+
+export const assertInvoiceEditable = async (invoiceId: string) => {
+  const invoice = await fetchInvoiceLifecycle(invoiceId);
+
+  if (invoice.lifecycle_status === 'final') {
+    throw createError('Invoice is final; submit an amendment request via POST /api/billing/:id/amendments', 409);
+  }
+  if (invoice.lifecycle_status === 'cancelled') {
+    throw createError('Invoice is cancelled and cannot be changed', 409);
+  }
+
+  return invoice;
+};
+
+export const transitionInvoiceLifecycle = async (
+  invoiceId: string,
+  target: string,
+  actor: { staffId?: string | null; role?: string | null },
+  reason?: string | null,
+  reasonCode?: string | null
+) => {
+  if (!isInvoiceLifecycleStatus(target)) {
+    throw createError(`lifecycle_status must be one of: ${INVOICE_LIFECYCLE_STATES.join(', ')}`, 400);
+  }
+
+  const invoice = await fetchInvoiceLifecycle(invoiceId);
+  const current = (invoice.lifecycle_status ?? 'draft') as InvoiceLifecycleStatus;
+
+  if (!LIFECYCLE_TRANSITIONS[current].includes(target)) {
+    throw createError(`Invoice cannot move from ${current} to ${target}`, 409);
+  }
+
+  const nowIso = new Date().toISOString();
+  const updates: Record<string, any> = {
+    lifecycle_status: target,
+    updated_at: nowIso,
+  };
+
+  if (target === 'final') {
+    updates.finalized_at = nowIso;
+    updates.finalized_by = actor.staffId ?? null;
+    // Payment terms run from finalisation unless billing already agreed a date
+    updates.due_date = invoice.due_date ?? addIstDays(toIstDateString(), env.INVOICE_PAYMENT_TERMS_DAYS);
+  }
+
+  if (target === 'cancelled') {
+    if (current === 'final' && actor.role !== 'admin') {
+      throw createError('Only an admin can cancel a final invoice', 403);
+    }
+    if (!isCancellationReasonCode(reasonCode)) {
+      throw createError(`reason_code must be one of: ${CANCELLATION_REASON_CODES.join(', ')}`, 400);
+    }
+    if (!reason?.trim()) {
+      throw createError('reason is required to cancel an invoice', 400);
+    }
+    if (Number(invoice.paid_amount || 0) > 0) {
+      throw createError('Invoice has payments recorded; void them or raise a credit note before cancelling', 409);
+    }
+    if (Number(invoice.written_off_amount || 0) > 0) {
+      throw createError('Invoice has an approved write-off and cannot be cancelled', 409);
+    }
+    if (Number(invoice.credited_amount || 0) > 0) {
+      throw createError('Invoice has an approved credit note adjustment and cannot be cancelled', 409);
+    }
+    updates.cancelled_at = nowIso;
+    updates.cancelled_by = actor.staffId ?? null;
+    updates.cancellation_reason = reason.trim();
+    updates.cancellation_reason_code = reasonCode;
+  }
+
+  const { data: updatedInvoice, error } = await supabase
+    .from('invoices')
+    .update(updates)
+    .eq('id', invoiceId)
+    .eq('lifecycle_status', current)
+    .select('*')
+    .single();
+
+  if (error || !updatedInvoice) {
+    logger.error('Failed to change invoice lifecycle', { invoiceId, from: current, to: target, error: error?.message });
+    throw createError('Failed to update invoice lifecycle', 500);
+  }
+
+  // A cancelled invoice bills nothing: its charges return to the unbilled pool and the stay's
+  // insurer cover is spread again over the invoices that remain
+  if (target === 'cancelled') {
+    await releaseInvoiceCharges(invoiceId);
+    if (invoice.admission_id) {
+      await refreshAdmissionPayerSplit(invoice.admission_id);
+    }
+  }
+
+  // The finalised invoice becomes the baseline revision every later amendment is diffed against
+  if (target === 'final' || target === 'cancelled') {
+    await createInvoiceRevision(invoiceId, {
+      reason: target === 'final' ? 'Invoice finalised' : `Invoice cancelled: ${updates.cancellation_reason}`,
+      createdBy: actor.staffId,
+    });
+  } else {
+    await recordInvoiceChange(invoiceId, `Invoice moved from ${current} to ${target}`, actor.staffId);
+  }
+
+  logger.info('Invoice lifecycle changed', {
+    invoiceId,
+    invoiceNumber: invoice.invoice_number,
+    from: current,
+    to: target,
+    changedBy: actor.staffId,
+  });
+
+  return updatedInvoice;
+};
+
+// An invoice whose creation failed after its number was allocated is cancelled rather than
+// deleted, so the number stays in the series with the reason it was never issued
+export const cancelFailedInvoice = async (invoiceId: string, reason: string, staffId?: string | null) => {
+  const nowIso = new Date().toISOString();
+  const { error } = await supabase
+    .from('invoices')
+    .update({
+      lifecycle_status: 'cancelled',
+      cancelled_at: nowIso,
+      cancelled_by: staffId ?? null,
+      cancellation_reason: `Invoice creation failed: ${reason}`,
+      cancellation_reason_code: 'raised_in_error',
+      updated_at: nowIso,
+    })
+    .eq('id', invoiceId);
+
+  if (error) {
+    logger.error('Failed to cancel invoice after failed creation', { invoiceId, error: error.message });
+    return;
+  }
+
+  await recordInvoiceChange(invoiceId, `Invoice cancelled: creation failed (${reason})`, staffId ?? null);
+};
+
+const validateAmendmentChanges = (changes: AmendmentChanges, itemIds: Set<string>) => {
+  if (!changes || typeof changes !== 'object') {
+    throw createError('changes are required', 400);
+  }
+
+  const invoiceChanges = changes.invoice ?? {};
+  const unknownFields = Object.keys(invoiceChanges).filter(
+    (field) => !(AMENDABLE_INVOICE_FIELDS as readonly string[]).includes(field)
+  );
+  if (unknownFields.length) {
+    throw createError(`These invoice fields cannot be amended: ${unknownFields.join(', ')}`, 400);
+  }
+
+  const hasChanges =
+    Object.keys(invoiceChanges).length > 0 ||
+    Boolean(changes.add_items?.length) ||
+    Boolean(changes.update_items?.length) ||
+    Boolean(changes.remove_item_ids?.length);
+
+  if (!hasChanges) {
+    throw createError('Amendment does not change anything', 400);
+  }
+
+  if (invoiceChanges.discount_type != null && invoiceChanges.discount_type !== 'none' && !isDiscountType(invoiceChanges.discount_type)) {
+    throw createError(`discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}, none`, 400);
+  }
+  if (invoiceChanges.discount_value !== undefined) {
+    const discountValue = Number(invoiceChanges.discount_value);
+    if (!Number.isFinite(discountValue) || discountValue < 0) {
+      throw createError('discount_value must be zero or more', 400);
+    }
+    if (invoiceChanges.discount_type === 'percentage' && discountValue > 100) {
+      throw createError('A percentage discount cannot exceed 100', 400);
+    }
+  }
+
+  (changes.add_items ?? []).forEach((item) => {
+    if (!item.item_type || !item.item_name || item.unit_price === undefined) {
+      throw createError('New items need item_type, item_name and unit_price', 400);
+    }
+  });
+
+  [...(changes.add_items ?? []), ...(changes.update_items ?? [])].forEach((item) => {
+    if (item.tax_category != null && !isTaxCategory(item.tax_category)) {
+      throw createError(`tax_category must be one of: ${Object.keys(TAX_CATEGORIES).join(', ')}`, 400);
+    }
+  });
+
+  [...(changes.update_items ?? []).map((item) => item.id), ...(changes.remove_item_ids ?? [])].forEach((id) => {
+    if (!id || !itemIds.has(id)) {
+      throw createError(`Bill item ${id ?? ''} does not belong to this invoice`, 400);
+    }
+  });
+};
+
+export const createAmendmentRequest = async (
+  invoiceId: string,
+  input: { reason?: string; changes: AmendmentChanges; requestedBy?: string | null }
+) => {
+  if (!input.reason?.trim()) {
+    throw createError('reason is required', 400);
+  }
+
+  const invoice = await fetchInvoiceLifecycle(invoiceId);
+
+  if (invoice.lifecycle_status !== 'final') {
+    throw createError('Only final invoices need an amendment; edit draft or provisional invoices directly', 400);
+  }
+
+  const snapshot = await captureInvoiceSnapshot(invoiceId);
+  validateAmendmentChanges(input.changes, new Set(snapshot.items.map((item) => item.id)));
+
+  const { data: amendment, error } = await supabase
+    .from('invoice_amendments')
+    .insert({
+      invoice_id: invoiceId,
+      reason: input.reason.trim(),
+      changes: input.changes,
+      status: 'pending',
+      base_revision: Number(invoice.current_revision || 0),
+      requested_by: input.requestedBy ?? null,
+    })
+    .select(AMENDMENT_SELECT)
+    .single();
+
+  if (error || !amendment) {
+    logger.error('Failed to create invoice amendment', { invoiceId, error: error?.message });
+    throw createError('Failed to create amendment request', 500);
+  }
+
+  logger.info('Invoice amendment requested', {
+    amendmentId: amendment.id,
+    invoiceId,
+    requestedBy: input.requestedBy,
+  });
+
+  return amendment;
+};
+
+// Price an amendment's changes against an invoice and its bill items: the changed and added lines,
+// the invoice fields the amendment sets and the totals the invoice ends up with.
+export const priceAmendment = (invoice: any, items: any[], changes: AmendmentChanges) => {
+  const supplyType: SupplyType = isSupplyType(invoice.supply_type) ? invoice.supply_type : 'intra_state';
+  const currentItems = new Map(items.map((item) => [item.id, item]));
+  const removeItemIds = changes.remove_item_ids ?? [];
+
+  const updateItems = (changes.update_items ?? []).map((item) => {
+    const current = currentItems.get(item.id!);
+    const quantity = item.quantity !== undefined ? Number(item.quantity) : Number(current?.quantity || 1);
+    const unitPrice = item.unit_price !== undefined ? Number(item.unit_price) : Number(current?.unit_price || 0);
+    const totalPrice = roundCurrency(quantity * unitPrice);
+    const taxDefaults = resolveItemTaxDefaults(current?.item_type, {
+      tax_category: item.tax_category ?? current?.tax_category,
+      hsn_sac_code: item.hsn_sac_code ?? current?.hsn_sac_code,
+    });
+
+    const updates: Record<string, any> = {
+      id: item.id,
+      quantity,
+      unit_price: unitPrice,
+      total_price: totalPrice,
+      ...computeLineTax(totalPrice, taxDefaults.tax_category, taxDefaults.hsn_sac_code, supplyType),
+    };
+    if (item.item_name !== undefined) updates.item_name = item.item_name;
+    if (item.item_description !== undefined) updates.item_description = item.item_description;
+
+    return updates;
+  });
+
+  const addItems = applyLineTaxes(
+    (changes.add_items ?? []).map((item) => {
+      const quantity = Number(item.quantity ?? 1);
+      const unitPrice = Number(item.unit_price);
+      return {
+        item_type: item.item_type,
+        item_name: item.item_name,
+        item_description: item.item_description ?? null,
+        quantity,
+        unit_price: unitPrice,
+        total_price: roundCurrency(quantity * unitPrice),
+        reference_id: item.reference_id ?? null,
+        tax_category: item.tax_category,
+        hsn_sac_code: item.hsn_sac_code,
+      };
+    }),
+    supplyType
+  );
+
+  const updatesById = new Map(updateItems.map((item) => [item.id, item]));
+  const resultingItems = [
+    ...items
+      .filter((item) => !removeItemIds.includes(item.id))
+      .map((item) => ({ ...item, ...(updatesById.get(item.id) ?? {}) })),
+    ...addItems,
+  ];
+
+  const invoiceFields: Record<string, any> = { ...(changes.invoice ?? {}) };
+  if (invoiceFields.discount_type === 'none') invoiceFields.discount_type = null;
+
+  const pricing = { ...invoice, ...invoiceFields };
+  const totals = computeInvoiceTotals(pricing, resultingItems);
+
+  return { removeItemIds, updateItems, addItems, invoiceFields, pricing, totals };
+};
+
+// Price an amendment against the invoice as it stands, with the discount register entry, ready to be
+// applied in one transaction.
+const planAmendment = async (amendment: any, reviewedBy: string | null) => {
+  const invoiceId = amendment.invoice_id;
+  const changes = amendment.changes as AmendmentChanges;
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, supply_type, gst_mode, discount_type, discount_value, discount_reason, include_gst, gst_rate')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('bill_items')
+    .select('*')
+    .eq('invoice_id', invoiceId);
+
+  if (itemsError) {
+    logger.error('Failed to fetch bill items for amendment', { invoiceId, error: itemsError.message });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  const { removeItemIds, updateItems, addItems, invoiceFields, pricing, totals } = priceAmendment(
+    invoice,
+    items ?? [],
+    changes
+  );
+
+  const touchesDiscount = invoiceFields.discount_type !== undefined || invoiceFields.discount_value !== undefined;
+  const discount = touchesDiscount
+    ? await buildAmendmentDiscountEntry(amendment, { ...pricing, total_amount: totals.total_amount }, reviewedBy)
+    : null;
+
+  return {
+    removeItemIds,
+    updateItems,
+    addItems,
+    invoice: { ...invoiceFields, ...totals },
+    discount,
+  };
+};
+
+export const reviewAmendment = async (
+  amendmentId: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string | null,
+  reviewNotes?: string | null
+) => {
+  const { data: amendment, error: fetchError } = await supabase
+    .from('invoice_amendments')
+    .select(AMENDMENT_SELECT)
+    .eq('id', amendmentId)
+    .maybeSingle();
+
+  if (fetchError || !amendment) {
+    throw createError('Amendment not found', 404);
+  }
+
+  if (amendment.status !== 'pending') {
+    throw createError(`Amendment is already ${amendment.status}`, 400);
+  }
+
+  if (decision === 'approved') {
+    const invoice = await fetchInvoiceLifecycle(amendment.invoice_id);
+
+    if (invoice.lifecycle_status !== 'final') {
+      throw createError('Only final invoices can be amended', 409);
+    }
+
+    if (Number(invoice.current_revision || 0) !== Number(amendment.base_revision)) {
+      throw createError('Invoice has changed since this amendment was requested; raise a new amendment', 409);
+    }
+  } else if (!reviewNotes?.trim()) {
+    throw createError('review_notes are required when rejecting an amendment', 400);
+  }
+
+  const nowIso = new Date().toISOString();
+  let reviewed: any;
+  let resultingRevision: number | null = null;
+
+  if (decision === 'approved') {
+    // Claimed, checked and applied under lock in one transaction; a second reviewer gets AMD02
+    const plan = await planAmendment(amendment, reviewedBy);
+    const { data: applied, error } = await supabase.rpc('apply_invoice_amendment', {
+      p_amendment_id: amendmentId,
+      p_review: { reviewed_by: reviewedBy, review_notes: reviewNotes || null },
+      p_remove_item_ids: plan.removeItemIds,
+      p_update_items: plan.updateItems,
+      p_add_items: plan.addItems,
+      p_invoice: plan.invoice,
+      p_discount: plan.discount,
+    });
+
+    if (error?.code === 'AMD01' || error?.code === 'AMD02') {
+      throw createError(error.message, 409);
+    }
+    if (error?.code === 'P0002') {
+      throw createError('Amendment not found', 404);
+    }
+    if (error || !applied) {
+      logger.error('Failed to apply invoice amendment', { amendmentId, error: error?.message });
+      throw createError('Failed to apply amendment', 500);
+    }
+
+    reviewed = applied;
+
+    // Balances, payer split and the revision follow from the committed lines; the amendment stands if they fail
+    try {
+      await recalculateInvoicePayments(amendment.invoice_id);
+      const revision = await createInvoiceRevision(amendment.invoice_id, {
+        reason: amendment.reason,
+        amendmentId,
+        createdBy: reviewedBy,
+      });
+      resultingRevision = revision.revision_number;
+
+      const { data: withRevision, error: revisionError } = await supabase
+        .from('invoice_amendments')
+        .update({ resulting_revision: resultingRevision })
+        .eq('id', amendmentId)
+        .select(AMENDMENT_SELECT)
+        .single();
+
+      if (revisionError || !withRevision) {
+        logger.error('Failed to record amendment revision', { amendmentId, resultingRevision, error: revisionError?.message });
+      } else {
+        reviewed = withRevision;
+      }
+    } catch (followUpError) {
+      logger.error('Amendment applied but its balances or revision could not be recorded', {
+        amendmentId,
+        invoiceId: amendment.invoice_id,
+        error: (followUpError as Error)?.message,
+      });
+    }
+  } else {
+    // Claim the amendment while it is still pending so two reviewers cannot both decide it
+    const { data: rejected, error } = await supabase
+      .from('invoice_amendments')
+      .update({
+        status: decision,
+        reviewed_by: reviewedBy,
+        reviewed_at: nowIso,
+        review_notes: reviewNotes || null,
+        updated_at: nowIso,
+      })
+      .eq('id', amendmentId)
+      .eq('status', 'pending')
+      .select(AMENDMENT_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to update amendment', { amendmentId, decision, error: error.message });
+      throw createError('Failed to update amendment', 500);
+    }
+    if (!rejected) {
+      throw createError('Amendment has already been reviewed', 409);
+    }
+    reviewed = rejected;
+  }
+
+  logger.info(`Invoice amendment ${decision}`, {
+    amendmentId,
+    invoiceId: amendment.invoice_id,
+    resultingRevision,
+    reviewedBy,
+  });
+
+  return reviewed;
+};
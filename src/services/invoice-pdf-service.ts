@@ -0,0 +1,221 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { generateInvoicePDF } from '../utils/pdf-generator.js';
+import { mergeInvoiceWithLabReports } from '../utils/pdf-merger.js';
+import { getSignedDownloadUrl } from '../utils/r2.js';
+import { env } from '../config/env.js';
+import { buildSettlementSummary } from './interim-billing-service.js';
+import { buildPayerSplitSummary } from './payer-split-service.js';
+import { buildEInvoiceStamp } from './e-invoice-service.js';
+import { buildUpiPaymentQr } from './upi-payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const ADMISSION_SELECT = `
+  *,
+  patients (
+    id,
+    patient_id,
+    first_name,
+    last_name,
+    date_of_birth,
+    gender,
+    phone,
+    email,
+    address
+  ),
+  beds:bed_id (
+    id,
+    bed_number
+  ),
+  rooms:room_id (
+    id,
+    room_number,
+    room_type,
+    floor
+  ),
+  staff:doctor_id (
+    id,
+    first_name,
+    last_name,
+    department,
+    employment_role
+  )
+`;
+
+export interface InvoicePdfOptions {
+  includeLabReports?: boolean;
+  includeSummary?: boolean;
+  doctorName?: string | null;
+}
+
+export interface RenderedInvoicePdf {
+  invoice: any;
+  pdfBuffer: Buffer;
+  labReportsMerged: number;
+}
+
+// Signed or public URLs for the lab report PDFs billed on the invoice
+const resolveLabReportUrls = async (invoiceId: string, billItems: any[]): Promise<string[]> => {
+  const labReportIds = billItems
+    .filter((item) => item.item_type === 'lab' && item.reference_id)
+    .map((item) => item.reference_id);
+
+  if (!labReportIds.length) {
+    logger.warn('No lab bill items found in invoice', { invoiceId, totalBillItems: billItems.length });
+    return [];
+  }
+
+  const { data: labReports, error } = await supabase
+    .from('lab_reports')
+    .select('id, pdf_url, pdf_storage_path')
+    .in('id', labReportIds);
+
+  if (error || !labReports?.length) {
+    logger.warn('No lab reports found in database', { invoiceId, labReportIds, error: error?.message });
+    return [];
+  }
+
+  const labPdfUrls: string[] = [];
+  for (const report of labReports) {
+    if (report.pdf_url) {
+      labPdfUrls.push(report.pdf_url);
+      continue;
+    }
+
+    if (!report.pdf_storage_path) {
+      logger.warn('Lab report has no PDF URL or storage path', { invoiceId, reportId: report.id });
+      continue;
+    }
+
+    try {
+      labPdfUrls.push(
+        env.R2_PUBLIC_URL
+          ? `${env.R2_PUBLIC_URL}/${report.pdf_storage_path}`
+          : await getSignedDownloadUrl(report.pdf_storage_path, 3600)
+      );
+    } catch (urlError: any) {
+      logger.warn('Failed to generate URL for lab report PDF', {
+        invoiceId,
+        reportId: report.id,
+        storagePath: report.pdf_storage_path,
+        error: urlError.message,
+      });
+    }
+  }
+
+  return labPdfUrls;
+};
+
+// The printed invoice exactly as the billing desk downloads it, optionally followed by the lab reports it bills.
+export const renderInvoicePdf = async (invoiceId: string, options: InvoicePdfOptions = {}): Promise<RenderedInvoicePdf> => {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*')
+    .match({ id: invoiceId })
+    .maybeSingle();
+
+  if (invoiceError || !invoice) {
+    logger.error('Invoice lookup failed', { invoiceId, error: invoiceError });
+    throw createError('Invoice not found', 404);
+  }
+
+  // Fetch admission details manually since Supabase relationship is missing
+  let admissionRecord = null;
+  if (invoice.admission_id) {
+    const { data: admissionData, error: admissionError } = await supabase
+      .from('admissions')
+      .select(ADMISSION_SELECT)
+      .match({ id: invoice.admission_id })
+      .maybeSingle();
+
+    if (admissionError) {
+      logger.error('Failed to fetch admission data for invoice PDF', {
+        invoiceId,
+        admissionId: invoice.admission_id,
+        error: admissionError,
+      });
+    }
+
+    admissionRecord = admissionData;
+  }
+
+  const invoiceWithRelations = {
+    ...invoice,
+    admissions: admissionRecord,
+  };
+
+  const { data: billItems, error: billItemsError } = await supabase
+    .from('bill_items')
+    .select('*')
+    .eq('invoice_id', invoiceId);
+
+  if (billItemsError) {
+    logger.error('Failed to fetch bill items', { invoiceId, error: billItemsError });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  let staffName = 'Unknown Doctor';
+  if (invoiceWithRelations.admissions?.doctor_id) {
+    const { data: staff } = await supabase
+      .from('staff')
+      .select('first_name, last_name, specialization')
+      .eq('id', invoiceWithRelations.admissions.doctor_id)
+      .single();
+
+    if (staff) {
+      staffName = `${staff.first_name} ${staff.last_name}${staff.specialization ? ` (${staff.specialization})` : ''}`;
+    }
+  }
+
+  // Apply admin-typed doctor override (takes precedence over fetched staff)
+  if (options.doctorName) {
+    staffName = options.doctorName;
+    logger.info('Using overridden doctor name for PDF', { invoiceId, staffName });
+  }
+
+  // Expose staff.name on admissions so the PDF generator's helpers can read it
+  if (invoiceWithRelations.admissions) {
+    invoiceWithRelations.admissions.staff = {
+      ...(invoiceWithRelations.admissions.staff || {}),
+      name: staffName,
+    };
+  }
+
+  let admissionSummary = null;
+  if (options.includeSummary && invoiceWithRelations.admission_id) {
+    const { data: summary } = await supabase
+      .from('admission_summaries')
+      .select('chief_complaint, diagnosis, treatment_provided, outcome, recommendations')
+      .eq('admission_id', invoiceWithRelations.admission_id)
+      .maybeSingle();
+
+    admissionSummary = summary;
+  }
+
+  let pdfBuffer = await generateInvoicePDF({
+    invoice: invoiceWithRelations,
+    billItems: billItems || [],
+    patientName: invoiceWithRelations.admissions?.patients
+      ? `${invoiceWithRelations.admissions.patients.first_name || ''} ${invoiceWithRelations.admissions.patients.last_name || ''}`.trim()
+      : '',
+    doctorName: staffName,
+    admissionSummary,
+    settlement: await buildSettlementSummary(invoiceWithRelations),
+    payerSplit: await buildPayerSplitSummary(invoiceWithRelations, billItems || []),
+    eInvoice: await buildEInvoiceStamp(invoiceWithRelations.id),
+    upiPayment: await buildUpiPaymentQr(invoiceWithRelations),
+  });
+
+  let labReportsMerged = 0;
+  if (options.includeLabReports) {
+    const labPdfUrls = await resolveLabReportUrls(invoiceId, billItems || []);
+    if (labPdfUrls.length) {
+      pdfBuffer = await mergeInvoiceWithLabReports(pdfBuffer, labPdfUrls);
+      labReportsMerged = labPdfUrls.length;
+    }
+  }
+
+  return { invoice: invoiceWithRelations, pdfBuffer, labReportsMerged };
+};
@@ -0,0 +1,262 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+// Fields captured in each revision; anything else on the row is operational metadata.
+export const INVOICE_SNAPSHOT_FIELDS = [
+  'invoice_number',
+  'lifecycle_status',
+  'status',
+  'total_amount',
+  'discount_type',
+  'discount_value',
+  'discount_reason',
+  'include_gst',
+  'gst_rate',
+  'gst_amount',
+  'supply_type',
+  'tax_total',
+  'amount_payable',
+  'paid_amount',
+  'balance',
+  'patient_payable',
+  'tpa_payable',
+] as const;
+
+export const BILL_ITEM_SNAPSHOT_FIELDS = [
+  'item_type',
+  'item_name',
+  'item_description',
+  'quantity',
+  'unit_price',
+  'total_price',
+  'tax_category',
+  'hsn_sac_code',
+  'tax_amount',
+  'price_list_version_id',
+  'reference_id',
+  'payer_responsibility',
+] as const;
+
+export interface InvoiceSnapshot {
+  invoice: Record<string, any>;
+  items: Array<Record<string, any>>;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface InvoiceDiff {
+  invoice: FieldChange[];
+  items: {
+    added: Array<Record<string, any>>;
+    removed: Array<Record<string, any>>;
+    changed: Array<{ id: string; item_name: string; changes: FieldChange[] }>;
+  };
+}
+
+const pickFields = (source: Record<string, any>, fields: readonly string[]) =>
+  fields.reduce<Record<string, any>>((acc, field) => {
+    acc[field] = source[field] ?? null;
+    return acc;
+  }, {});
+
+const diffFields = (before: Record<string, any>, after: Record<string, any>, fields: readonly string[]): FieldChange[] =>
+  fields
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+
+export const captureInvoiceSnapshot = async (invoiceId: string): Promise<InvoiceSnapshot> => {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('bill_items')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: true });
+
+  if (itemsError) {
+    logger.error('Failed to fetch bill items for invoice snapshot', { invoiceId, error: itemsError.message });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  return {
+    invoice: pickFields(invoice, INVOICE_SNAPSHOT_FIELDS),
+    items: (items ?? []).map((item) => ({ id: item.id, ...pickFields(item, BILL_ITEM_SNAPSHOT_FIELDS) })),
+  };
+};
+
+export const diffInvoiceSnapshots = (before: InvoiceSnapshot | null, after: InvoiceSnapshot): InvoiceDiff => {
+  const previous: InvoiceSnapshot = before ?? { invoice: {}, items: [] };
+  const previousItems = new Map(previous.items.map((item) => [item.id, item]));
+  const nextItems = new Map(after.items.map((item) => [item.id, item]));
+
+  return {
+    invoice: diffFields(previous.invoice, after.invoice, INVOICE_SNAPSHOT_FIELDS),
+    items: {
+      added: after.items.filter((item) => !previousItems.has(item.id)),
+      removed: previous.items.filter((item) => !nextItems.has(item.id)),
+      changed: after.items
+        .filter((item) => previousItems.has(item.id))
+        .map((item) => ({
+          id: item.id,
+          item_name: item.item_name,
+          changes: diffFields(previousItems.get(item.id)!, item, BILL_ITEM_SNAPSHOT_FIELDS),
+        }))
+        .filter((entry) => entry.changes.length > 0),
+    },
+  };
+};
+
+export const fetchInvoiceRevisions = async (invoiceId: string) => {
+  const { data, error } = await supabase
+    .from('invoice_revisions')
+    .select('id, invoice_id, revision_number, snapshot, reason, amendment_id, created_by, created_at')
+    .eq('invoice_id', invoiceId)
+    .order('revision_number', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch invoice revisions', { invoiceId, error: error.message });
+    throw createError('Failed to fetch invoice revisions', 500);
+  }
+
+  return data ?? [];
+};
+
+// Snapshot the invoice as it stands now and bump invoices.current_revision.
+export const createInvoiceRevision = async (
+  invoiceId: string,
+  options: { reason?: string | null; amendmentId?: string | null; createdBy?: string | null; snapshot?: InvoiceSnapshot } = {}
+) => {
+  const snapshot = options.snapshot ?? (await captureInvoiceSnapshot(invoiceId));
+
+  const { data: latest } = await supabase
+    .from('invoice_revisions')
+    .select('revision_number')
+    .eq('invoice_id', invoiceId)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const revisionNumber = Number(latest?.revision_number ?? 0) + 1;
+
+  const { data: revision, error } = await supabase
+    .from('invoice_revisions')
+    .insert({
+      invoice_id: invoiceId,
+      revision_number: revisionNumber,
+      snapshot,
+      reason: options.reason ?? null,
+      amendment_id: options.amendmentId ?? null,
+      created_by: options.createdBy ?? null,
+    })
+    .select('id, invoice_id, revision_number, snapshot, reason, amendment_id, created_by, created_at')
+    .single();
+
+  if (error || !revision) {
+    logger.error('Failed to create invoice revision', { invoiceId, revisionNumber, error: error?.message });
+    throw createError('Failed to record invoice revision', 500);
+  }
+
+  await supabase
+    .from('invoices')
+    .update({ current_revision: revisionNumber })
+    .eq('id', invoiceId);
+
+  return revision;
+};
+
+const hasChanges = (diff: InvoiceDiff) =>
+  diff.invoice.length > 0 || diff.items.added.length > 0 || diff.items.removed.length > 0 || diff.items.changed.length > 0;
+
+// Record an edit to an invoice or its lines as a new revision. Nothing is written when the invoice
+// matches its latest revision. The edit itself has already been saved, so a failure here is logged
+// rather than failing the request. Payments and write-offs are not recorded on their own: they have
+// their own ledgers, and the balances they move show up in the next revision.
+export const recordInvoiceChange = async (invoiceId: string, reason: string, createdBy?: string | null) => {
+  try {
+    const snapshot = await captureInvoiceSnapshot(invoiceId);
+
+    const { data: latest } = await supabase
+      .from('invoice_revisions')
+      .select('snapshot')
+      .eq('invoice_id', invoiceId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest && !hasChanges(diffInvoiceSnapshots(latest.snapshot as InvoiceSnapshot, snapshot))) {
+      return null;
+    }
+
+    return await createInvoiceRevision(invoiceId, { reason, createdBy, snapshot });
+  } catch (error: any) {
+    logger.error('Failed to record invoice change', { invoiceId, reason, error: error?.message });
+    return null;
+  }
+};
+
+const MONEY_FIELDS = new Set([
+  'total_amount',
+  'gst_amount',
+  'tax_total',
+  'amount_payable',
+  'paid_amount',
+  'balance',
+  'patient_payable',
+  'tpa_payable',
+  'unit_price',
+  'total_price',
+  'tax_amount',
+]);
+
+const FIELD_LABELS: Record<string, string> = {
+  gst_amount: 'GST amount',
+  gst_rate: 'GST rate',
+  include_gst: 'GST applied',
+  hsn_sac_code: 'HSN/SAC code',
+  tpa_payable: 'TPA payable',
+  price_list_version_id: 'tariff version',
+};
+
+const labelOf = (field: string) => FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+
+const formatValue = (field: string, value: any): string => {
+  if (value === null || value === undefined || value === '') {
+    return '(none)';
+  }
+  if (MONEY_FIELDS.has(field) && Number.isFinite(Number(value))) {
+    return Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'yes' : 'no';
+  }
+  return String(value);
+};
+
+const describeChanges = (changes: FieldChange[]) =>
+  changes.map((change) => `${labelOf(change.field)} ${formatValue(change.field, change.from)} -> ${formatValue(change.field, change.to)}`).join('; ');
+
+const describeItem = (item: Record<string, any>) =>
+  `${item.item_name ?? 'Unnamed item'} (${formatValue('quantity', item.quantity)} x ${formatValue('unit_price', item.unit_price)} = ${formatValue('total_price', item.total_price)})`;
+
+// One line per added, removed or edited bill item, then the invoice fields and totals that moved.
+export const describeInvoiceDiff = (diff: InvoiceDiff): string[] => [
+  ...diff.items.added.map((item) => `Added ${describeItem(item)}`),
+  ...diff.items.removed.map((item) => `Removed ${describeItem(item)}`),
+  ...diff.items.changed.map((item) => `Changed ${item.item_name ?? 'Unnamed item'}: ${describeChanges(item.changes)}`),
+  ...diff.invoice.map((change) => `${labelOf(change.field).replace(/^./, (first) => first.toUpperCase())}: ${formatValue(change.field, change.from)} -> ${formatValue(change.field, change.to)}`),
+];
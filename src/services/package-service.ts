@@ -0,0 +1,434 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { roundCurrency } from './payment-service.js';
+import { resolveItemTaxDefaults } from './tax-service.js';
+import { loadTariffContext, resolveTariffPrice } from './tariff-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const PACKAGE_INCLUSION_TYPES = ['medication', 'lab'] as const;
+export type PackageInclusionType = (typeof PACKAGE_INCLUSION_TYPES)[number];
+
+export const PACKAGE_SELECT = `
+  id,
+  code,
+  name,
+  description,
+  package_price,
+  included_days,
+  room_type,
+  is_active,
+  created_by,
+  created_at,
+  updated_at
+`;
+
+export const PACKAGE_INCLUSION_SELECT = `
+  id,
+  package_id,
+  charge_type,
+  reference_id,
+  charge_code,
+  item_name,
+  max_quantity,
+  created_at
+`;
+
+export const ADMISSION_PACKAGE_SELECT = `
+  id,
+  admission_id,
+  package_id,
+  package_price,
+  status,
+  notes,
+  attached_by,
+  attached_at,
+  cancelled_by,
+  cancelled_at
+`;
+
+export interface PackageInclusionInput {
+  charge_type: PackageInclusionType;
+  reference_id?: string | null;
+  charge_code?: string | null;
+  item_name: string;
+  max_quantity?: number | null;
+}
+
+// Keys used only to match a charge against the package; they are not bill_items columns.
+export interface PackageMatchKeys {
+  room_type?: string | null;
+  medication_catalog_id?: string | null;
+  test_type?: string | null;
+}
+
+export const isPackageInclusionType = (value: unknown): value is PackageInclusionType =>
+  typeof value === 'string' && (PACKAGE_INCLUSION_TYPES as readonly string[]).includes(value);
+
+export const validatePackageInclusions = (inclusions: unknown): PackageInclusionInput[] => {
+  if (!Array.isArray(inclusions)) {
+    throw createError('inclusions must be an array', 400);
+  }
+
+  return inclusions.map((inclusion: any, index: number) => {
+    if (!isPackageInclusionType(inclusion?.charge_type)) {
+      throw createError(`inclusions[${index}].charge_type must be one of: ${PACKAGE_INCLUSION_TYPES.join(', ')}`, 400);
+    }
+    if (!inclusion.reference_id && !inclusion.charge_code) {
+      throw createError(`inclusions[${index}] needs a reference_id or charge_code`, 400);
+    }
+    if (!inclusion.item_name) {
+      throw createError(`inclusions[${index}].item_name is required`, 400);
+    }
+
+    const maxQuantity = inclusion.max_quantity === undefined || inclusion.max_quantity === null || inclusion.max_quantity === ''
+      ? null
+      : Number(inclusion.max_quantity);
+    if (maxQuantity !== null && (!Number.isFinite(maxQuantity) || maxQuantity <= 0)) {
+      throw createError(`inclusions[${index}].max_quantity must be greater than zero`, 400);
+    }
+
+    return {
+      charge_type: inclusion.charge_type,
+      reference_id: inclusion.reference_id || null,
+      charge_code: inclusion.charge_code || null,
+      item_name: inclusion.item_name,
+      max_quantity: maxQuantity,
+    };
+  });
+};
+
+export const fetchPackageWithInclusions = async (packageId: string) => {
+  const { data, error } = await supabase
+    .from('billing_packages')
+    .select(`${PACKAGE_SELECT}, billing_package_inclusions ( ${PACKAGE_INCLUSION_SELECT} )`)
+    .eq('id', packageId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw createError('Package not found', 404);
+  }
+
+  return data;
+};
+
+export const replacePackageInclusions = async (packageId: string, inclusions: PackageInclusionInput[]) => {
+  const { error: deleteError } = await supabase
+    .from('billing_package_inclusions')
+    .delete()
+    .eq('package_id', packageId);
+
+  if (deleteError) {
+    logger.error('Failed to clear package inclusions', { packageId, error: deleteError.message });
+    throw createError('Failed to update package inclusions', 500);
+  }
+
+  if (!inclusions.length) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('billing_package_inclusions')
+    .insert(inclusions.map((inclusion) => ({ ...inclusion, package_id: packageId })));
+
+  if (error) {
+    logger.error('Failed to save package inclusions', { packageId, error: error.message });
+    throw createError('Failed to update package inclusions', 500);
+  }
+};
+
+export const fetchActiveAdmissionPackage = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('admission_packages')
+    .select(`${ADMISSION_PACKAGE_SELECT}, billing_packages ( ${PACKAGE_SELECT}, billing_package_inclusions ( ${PACKAGE_INCLUSION_SELECT} ) )`)
+    .eq('admission_id', admissionId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch admission package', { admissionId, error: error.message });
+    throw createError('Failed to fetch admission package', 500);
+  }
+
+  return data;
+};
+
+export const attachPackageToAdmission = async (
+  admissionId: string,
+  packageId: string,
+  options: { notes?: string | null; attachedBy?: string | null } = {}
+) => {
+  const billingPackage = await fetchPackageWithInclusions(packageId);
+
+  if (!billingPackage.is_active) {
+    throw createError('Package is inactive', 400);
+  }
+
+  const existing = await fetchActiveAdmissionPackage(admissionId);
+  if (existing) {
+    throw createError('Admission already has an active package; cancel it before attaching another', 409);
+  }
+
+  // The admission's tariff can carry a payer-specific package rate
+  const tariffPrice = resolveTariffPrice(await loadTariffContext({ admissionId }), {
+    chargeType: 'procedure',
+    referenceIds: [packageId],
+    fallbackPrice: Number(billingPackage.package_price || 0),
+  });
+
+  const { data, error } = await supabase
+    .from('admission_packages')
+    .insert({
+      admission_id: admissionId,
+      package_id: packageId,
+      package_price: tariffPrice?.unit_price ?? Number(billingPackage.package_price || 0),
+      status: 'active',
+      notes: options.notes || null,
+      attached_by: options.attachedBy ?? null,
+    })
+    .select(ADMISSION_PACKAGE_SELECT)
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to attach package to admission', { admissionId, packageId, error: error?.message });
+    throw createError('Failed to attach package', 500);
+  }
+
+  logger.info('Package attached to admission', {
+    admissionId,
+    packageId,
+    admissionPackageId: data.id,
+    packagePrice: data.package_price,
+    attachedBy: options.attachedBy,
+  });
+
+  return { ...data, billing_packages: billingPackage };
+};
+
+export const cancelAdmissionPackage = async (admissionId: string, cancelledBy?: string | null) => {
+  const existing = await fetchActiveAdmissionPackage(admissionId);
+  if (!existing) {
+    throw createError('Admission has no active package', 404);
+  }
+
+  // Lines on cancelled invoices were never billed
+  const { count, error: billedError } = await supabase
+    .from('bill_items')
+    .select('id, invoices!inner ( lifecycle_status )', { count: 'exact', head: true })
+    .eq('admission_package_id', existing.id)
+    .neq('invoices.lifecycle_status', 'cancelled');
+
+  if (billedError) {
+    logger.error('Failed to check package billing before cancel', { admissionId, error: billedError.message });
+    throw createError('Failed to check package billing', 500);
+  }
+  if ((count ?? 0) > 0) {
+    throw createError('Package has already been billed; raise a credit note instead', 409);
+  }
+
+  const { data, error } = await supabase
+    .from('admission_packages')
+    .update({
+      status: 'cancelled',
+      cancelled_by: cancelledBy ?? null,
+      cancelled_at: new Date().toISOString(),
+    })
+    .eq('id', existing.id)
+    .select(ADMISSION_PACKAGE_SELECT)
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to cancel admission package', { admissionId, error: error?.message });
+    throw createError('Failed to cancel package', 500);
+  }
+
+  logger.info('Admission package cancelled', { admissionId, admissionPackageId: existing.id, cancelledBy });
+
+  return data;
+};
+
+const stripMatchKeys = <T extends PackageMatchKeys>(item: T) => {
+  const { room_type, medication_catalog_id, test_type, ...rest } = item;
+  return rest;
+};
+
+// Split a line into the part the package absorbs (billed at zero) and the excess billed as usual.
+const splitLine = (
+  item: any,
+  coveredQuantity: number,
+  admissionPackage: any,
+  packageName: string,
+  inclusionId: string | null
+) => {
+  const quantity = Number(item.quantity || 0);
+  const covered = Math.min(quantity, coveredQuantity);
+  const extra = roundCurrency(quantity - covered);
+  const lines: any[] = [];
+
+  if (covered > 0) {
+    lines.push({
+      ...item,
+      item_description: `${item.item_description ?? item.item_name} - included in package ${packageName}`,
+      quantity: covered,
+      unit_price: 0,
+      total_price: 0,
+      admission_package_id: admissionPackage.id,
+      package_inclusion_id: inclusionId,
+    });
+  }
+
+  if (extra > 0) {
+    lines.push({
+      ...item,
+      item_description: covered > 0
+        ? `${item.item_description ?? item.item_name} - beyond package limit`
+        : item.item_description,
+      quantity: extra,
+      total_price: roundCurrency(extra * Number(item.unit_price || 0)),
+    });
+  }
+
+  return { lines, covered };
+};
+
+export interface PackageConsumption {
+  days: number;
+  byInclusion: Map<string, number>;
+}
+
+// What earlier live invoices of the admission already absorbed: covered room days and the
+// covered quantity of each inclusion. Lines on cancelled invoices give their allowance back.
+export const fetchPackageConsumption = async (admissionPackageId: string): Promise<PackageConsumption> => {
+  const { data, error } = await supabase
+    .from('bill_items')
+    .select('item_type, quantity, package_inclusion_id, invoices!inner ( lifecycle_status )')
+    .eq('admission_package_id', admissionPackageId)
+    .neq('item_type', 'package')
+    .neq('invoices.lifecycle_status', 'cancelled');
+
+  if (error) {
+    logger.error('Failed to fetch package consumption', { admissionPackageId, error: error.message });
+    throw createError('Failed to check package billing', 500);
+  }
+
+  const consumption: PackageConsumption = { days: 0, byInclusion: new Map() };
+  (data ?? []).forEach((item: any) => {
+    const quantity = Number(item.quantity || 0);
+    if (item.item_type === 'room') {
+      consumption.days += quantity;
+    } else if (item.package_inclusion_id) {
+      consumption.byInclusion.set(
+        item.package_inclusion_id,
+        (consumption.byInclusion.get(item.package_inclusion_id) ?? 0) + quantity
+      );
+    }
+  });
+
+  return consumption;
+};
+
+// Absorb charges covered by the admission's package and add the package line itself.
+// Room days are consumed in charge order; listed medicines and tests up to their caps, less
+// whatever earlier invoices of the stay already absorbed.
+export const applyAdmissionPackage = <T extends PackageMatchKeys>(
+  items: T[],
+  admissionPackage: any | null,
+  options: { billedPackageLine?: boolean; consumed?: PackageConsumption } = {}
+) => {
+  if (!admissionPackage) {
+    return items.map(stripMatchKeys);
+  }
+
+  const billingPackage = admissionPackage.billing_packages;
+  const inclusions: any[] = billingPackage?.billing_package_inclusions ?? [];
+  const packageName = billingPackage?.name ?? 'Package';
+  const packageRoomType = String(billingPackage?.room_type ?? '').toLowerCase();
+
+  let remainingDays = Math.max(0, Number(billingPackage?.included_days || 0) - (options.consumed?.days ?? 0));
+  const remainingByInclusion = new Map<string, number>(
+    inclusions.map((inclusion) => [
+      inclusion.id,
+      inclusion.max_quantity === null
+        ? Infinity
+        : Math.max(0, Number(inclusion.max_quantity) - (options.consumed?.byInclusion.get(inclusion.id) ?? 0)),
+    ])
+  );
+
+  const result: any[] = [];
+
+  items.forEach((item: any) => {
+    const line = stripMatchKeys(item);
+    let allowance = 0;
+    let inclusionId: string | null = null;
+
+    if (item.item_type === 'room') {
+      const roomType = String(item.room_type ?? '').toLowerCase();
+      // A higher room class than the package allows is billed in full
+      if (!packageRoomType || roomType === packageRoomType) {
+        allowance = remainingDays;
+      }
+    } else if (item.item_type === 'medication' || item.item_type === 'lab') {
+      const inclusion = inclusions.find((candidate) =>
+        candidate.charge_type === item.item_type &&
+        ((candidate.reference_id && candidate.reference_id === item.medication_catalog_id) ||
+          (candidate.charge_code && String(candidate.charge_code).toLowerCase() === String(item.test_type ?? '').toLowerCase()))
+      );
+      if (inclusion) {
+        inclusionId = inclusion.id;
+        allowance = remainingByInclusion.get(inclusion.id) ?? 0;
+      }
+    }
+
+    if (allowance <= 0) {
+      result.push(line);
+      return;
+    }
+
+    const { lines, covered } = splitLine(line, allowance, admissionPackage, packageName, inclusionId);
+    if (item.item_type === 'room') {
+      remainingDays -= covered;
+    } else if (inclusionId) {
+      remainingByInclusion.set(inclusionId, allowance - covered);
+    }
+    result.push(...lines);
+  });
+
+  if (!options.billedPackageLine) {
+    const packagePrice = Number(admissionPackage.package_price || 0);
+    result.unshift({
+      item_type: 'package',
+      item_name: `Package - ${packageName}`,
+      item_description: [
+        billingPackage?.included_days ? `${billingPackage.included_days} day stay${billingPackage.room_type ? ` (${billingPackage.room_type})` : ''}` : null,
+        inclusions.length ? `includes ${inclusions.map((inclusion) => inclusion.item_name).join(', ')}` : null,
+      ].filter(Boolean).join('; ') || packageName,
+      quantity: 1,
+      unit_price: packagePrice,
+      total_price: packagePrice,
+      reference_id: admissionPackage.package_id,
+      admission_package_id: admissionPackage.id,
+      ...resolveItemTaxDefaults('package'),
+    });
+  }
+
+  return result;
+};
+
+// The package line is billed once per admission, on whichever live invoice reaches it first;
+// if that invoice is cancelled the next one bills it again.
+export const isPackageLineBilled = async (admissionPackageId: string) => {
+  const { count, error } = await supabase
+    .from('bill_items')
+    .select('id, invoices!inner ( lifecycle_status )', { count: 'exact', head: true })
+    .eq('admission_package_id', admissionPackageId)
+    .eq('item_type', 'package')
+    .neq('invoices.lifecycle_status', 'cancelled');
+
+  if (error) {
+    logger.error('Failed to check package billing', { admissionPackageId, error: error.message });
+    throw createError('Failed to check package billing', 500);
+  }
+
+  return (count ?? 0) > 0;
+};
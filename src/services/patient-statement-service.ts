@@ -0,0 +1,317 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { addIstDays, getIstDayBounds, toIstDateString } from '../utils/ist-date.js';
+import { roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type StatementEntryKind = 'invoice' | 'payment' | 'deposit' | 'refund' | 'credit_note' | 'write_off';
+
+export interface StatementEntry {
+  kind: StatementEntryKind;
+  id: string;
+  at: string;
+  documentNumber: string | null;
+  invoiceNumber: string | null;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementTotals {
+  openingBalance: number;
+  debits: number;
+  credits: number;
+  closingBalance: number;
+}
+
+export interface StatementAdmission extends StatementTotals {
+  admissionId: string;
+  admissionDate: string | null;
+  dischargeDate: string | null;
+  status: string | null;
+  entries: StatementEntry[];
+}
+
+export interface PatientStatement {
+  patient: { id: string; patientId: string | null; name: string; phone: string | null };
+  from: string | null;
+  to: string;
+  admissions: StatementAdmission[];
+  totals: StatementTotals;
+}
+
+export interface PatientStatementOptions {
+  from?: string | null;
+  to?: string | null;
+  admissionId?: string | null;
+}
+
+// Patients are looked up by their row id or by the hospital UID printed on their card
+export const resolvePatient = async (patientRef: string) => {
+  const query = supabase.from('patients').select('id, patient_id, first_name, last_name, phone');
+  const { data, error } = await (UUID_PATTERN.test(patientRef) ? query.eq('id', patientRef) : query.eq('patient_id', patientRef)).maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch patient', { patientRef, error: error.message });
+    throw createError('Failed to fetch patient', 500);
+  }
+  if (!data) {
+    throw createError('Patient not found', 404);
+  }
+
+  return data;
+};
+
+export const fetchPatientAdmissions = async (patientId: string, admissionId?: string | null) => {
+  let query = supabase
+    .from('admissions')
+    .select('id, admission_date, discharge_date, status')
+    .eq('patient_id', patientId)
+    .order('admission_date', { ascending: true });
+
+  if (admissionId) {
+    query = query.eq('id', admissionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch patient admissions', { patientId, admissionId, error: error.message });
+    throw createError('Failed to fetch patient admissions', 500);
+  }
+
+  return data ?? [];
+};
+
+type LedgerLine = Omit<StatementEntry, 'balance'> & { admissionId: string };
+
+const invoiceNumberOf = (row: any): string | null => {
+  const invoice: any = Array.isArray(row.invoices) ? row.invoices[0] : row.invoices;
+  return invoice?.invoice_number ?? null;
+};
+
+// Every movement on the patient's side of the given admissions up to `until`. What the insurer owes
+// stays off the statement, and deposit applications are skipped because the deposit itself was credited
+// when it was received. A credit note reverses part of a bill and its amount goes straight back to the
+// patient, so it appears as a credit paired with the refund that paid it out.
+const collectLedgerLines = async (admissionIds: string[], until: string): Promise<LedgerLine[]> => {
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('invoices')
+    .select('id, admission_id, invoice_number, lifecycle_status, created_at, amount_payable, patient_payable')
+    .in('admission_id', admissionIds)
+    .in('lifecycle_status', ['provisional', 'final'])
+    .lt('created_at', until);
+
+  if (invoicesError) {
+    logger.error('Failed to fetch statement invoices', { error: invoicesError.message });
+    throw createError('Failed to build patient statement', 500);
+  }
+
+  const invoiceIds = (invoices ?? []).map((invoice) => invoice.id);
+  const admissionByInvoice = new Map((invoices ?? []).map((invoice) => [invoice.id, invoice.admission_id as string]));
+
+  const [payments, deposits, vouchers, creditNotes, writeOffs] = await Promise.all([
+    invoiceIds.length
+      ? supabase
+          .from('payments')
+          .select('id, invoice_id, receipt_number, amount, payment_method, payment_reference, payment_date, invoices ( invoice_number )')
+          .in('invoice_id', invoiceIds)
+          .eq('status', 'completed')
+          .eq('payer', 'patient')
+          .is('deposit_id', null)
+          .lt('payment_date', until)
+      : { data: [], error: null },
+    supabase
+      .from('admission_deposits')
+      .select('id, admission_id, amount, payment_method, payment_reference, received_at')
+      .in('admission_id', admissionIds)
+      .lt('received_at', until),
+    supabase
+      .from('refund_vouchers')
+      .select('id, admission_id, voucher_number, amount, refund_mode, paid_at, invoices ( invoice_number )')
+      .in('admission_id', admissionIds)
+      .eq('status', 'paid')
+      .lt('paid_at', until),
+    invoiceIds.length
+      ? supabase
+          .from('credit_notes')
+          .select('id, invoice_id, credit_note_number, total_amount, refund_mode, approved_at, invoices ( invoice_number )')
+          .in('invoice_id', invoiceIds)
+          .eq('status', 'approved')
+          .lt('approved_at', until)
+      : { data: [], error: null },
+    invoiceIds.length
+      ? supabase
+          .from('invoice_write_offs')
+          .select('id, invoice_id, amount, reason_code, approved_at, invoices ( invoice_number )')
+          .in('invoice_id', invoiceIds)
+          .eq('status', 'approved')
+          .lt('approved_at', until)
+      : { data: [], error: null },
+  ]);
+
+  const failed = [payments, deposits, vouchers, creditNotes, writeOffs].find((result) => result.error);
+  if (failed?.error) {
+    logger.error('Failed to fetch statement entries', { error: failed.error.message });
+    throw createError('Failed to build patient statement', 500);
+  }
+
+  const amountOf = (value: unknown) => roundCurrency(Number(value || 0));
+
+  return [
+    ...(invoices ?? []).map((invoice: any) => ({
+      kind: 'invoice' as const,
+      admissionId: invoice.admission_id,
+      id: invoice.id,
+      at: invoice.created_at,
+      documentNumber: invoice.invoice_number,
+      invoiceNumber: invoice.invoice_number,
+      description: invoice.lifecycle_status === 'final' ? 'Final bill' : 'Interim bill',
+      debit: amountOf(invoice.patient_payable ?? invoice.amount_payable),
+      credit: 0,
+    })),
+    ...((payments.data ?? []) as any[]).map((payment) => ({
+      kind: 'payment' as const,
+      admissionId: admissionByInvoice.get(payment.invoice_id)!,
+      id: payment.id,
+      at: payment.payment_date,
+      documentNumber: payment.receipt_number ?? null,
+      invoiceNumber: invoiceNumberOf(payment),
+      description: `Payment (${payment.payment_method}${payment.payment_reference ? ` ${payment.payment_reference}` : ''})`,
+      debit: 0,
+      credit: amountOf(payment.amount),
+    })),
+    ...(deposits.data ?? []).map((deposit: any) => ({
+      kind: 'deposit' as const,
+      admissionId: deposit.admission_id,
+      id: deposit.id,
+      at: deposit.received_at,
+      documentNumber: null,
+      invoiceNumber: null,
+      description: `Advance deposit (${deposit.payment_method}${deposit.payment_reference ? ` ${deposit.payment_reference}` : ''})`,
+      debit: 0,
+      credit: amountOf(deposit.amount),
+    })),
+    ...(vouchers.data ?? []).map((voucher: any) => ({
+      kind: 'refund' as const,
+      admissionId: voucher.admission_id,
+      id: voucher.id,
+      at: voucher.paid_at,
+      documentNumber: voucher.voucher_number,
+      invoiceNumber: invoiceNumberOf(voucher),
+      description: `Refund (${voucher.refund_mode ?? 'cash'})`,
+      debit: amountOf(voucher.amount),
+      credit: 0,
+    })),
+    ...((creditNotes.data ?? []) as any[]).flatMap((creditNote) => {
+      const common = {
+        admissionId: admissionByInvoice.get(creditNote.invoice_id)!,
+        id: creditNote.id,
+        at: creditNote.approved_at,
+        documentNumber: creditNote.credit_note_number,
+        invoiceNumber: invoiceNumberOf(creditNote),
+      };
+      const credit = { ...common, kind: 'credit_note' as const, description: 'Credit note', debit: 0, credit: amountOf(creditNote.total_amount) };
+      if (creditNote.refund_mode === 'adjustment') {
+        return [credit];
+      }
+      return [
+        credit,
+        {
+          ...common,
+          kind: 'refund' as const,
+          description: `Credit note refund (${creditNote.refund_mode ?? 'cash'})`,
+          debit: amountOf(creditNote.total_amount),
+          credit: 0,
+        },
+      ];
+    }),
+    ...((writeOffs.data ?? []) as any[]).map((writeOff) => ({
+      kind: 'write_off' as const,
+      admissionId: admissionByInvoice.get(writeOff.invoice_id)!,
+      id: writeOff.id,
+      at: writeOff.approved_at,
+      documentNumber: null,
+      invoiceNumber: invoiceNumberOf(writeOff),
+      description: `Written off (${String(writeOff.reason_code).replace(/_/g, ' ')})`,
+      debit: 0,
+      credit: amountOf(writeOff.amount),
+    })),
+  ];
+};
+
+const sumTotals = (rows: StatementTotals[]): StatementTotals => ({
+  openingBalance: roundCurrency(rows.reduce((sum, row) => sum + row.openingBalance, 0)),
+  debits: roundCurrency(rows.reduce((sum, row) => sum + row.debits, 0)),
+  credits: roundCurrency(rows.reduce((sum, row) => sum + row.credits, 0)),
+  closingBalance: roundCurrency(rows.reduce((sum, row) => sum + row.closingBalance, 0)),
+});
+
+// Account statement for a patient across admissions over an IST date range. Activity before `from`
+// is carried in as each admission's opening balance; a positive balance is owed by the patient and a
+// negative one is held for them (unapplied deposits, refunds due).
+export const buildPatientStatement = async (patientRef: string, options: PatientStatementOptions = {}): Promise<PatientStatement> => {
+  const to = options.to ?? toIstDateString();
+  const from = options.from ?? null;
+  if (from && from > to) {
+    throw createError('from must not be after to', 400);
+  }
+
+  const patient = await resolvePatient(patientRef);
+  const admissions = await fetchPatientAdmissions(patient.id, options.admissionId);
+  if (options.admissionId && !admissions.length) {
+    throw createError('Admission not found for this patient', 404);
+  }
+
+  const until = getIstDayBounds(addIstDays(to, 1)).start.toISOString();
+  const since = from ? getIstDayBounds(from).start.toISOString() : null;
+  const lines = admissions.length ? await collectLedgerLines(admissions.map((admission) => admission.id), until) : [];
+
+  const statementAdmissions = admissions
+    .map((admission): StatementAdmission => {
+      const own = lines
+        .filter((line) => line.admissionId === admission.id)
+        .sort((a, b) => a.at.localeCompare(b.at) || b.debit - a.debit);
+      const before = since ? own.filter((line) => new Date(line.at) < new Date(since)) : [];
+      const within = since ? own.filter((line) => new Date(line.at) >= new Date(since)) : own;
+
+      const openingBalance = roundCurrency(before.reduce((sum, line) => sum + line.debit - line.credit, 0));
+      let balance = openingBalance;
+      const entries = within.map(({ admissionId: _admissionId, ...line }) => {
+        balance = roundCurrency(balance + line.debit - line.credit);
+        return { ...line, balance };
+      });
+
+      return {
+        admissionId: admission.id,
+        admissionDate: admission.admission_date ?? null,
+        dischargeDate: admission.discharge_date ?? null,
+        status: admission.status ?? null,
+        openingBalance,
+        debits: roundCurrency(entries.reduce((sum, entry) => sum + entry.debit, 0)),
+        credits: roundCurrency(entries.reduce((sum, entry) => sum + entry.credit, 0)),
+        closingBalance: balance,
+        entries,
+      };
+    })
+    // Admissions with nothing in the period and nothing carried forward add only noise
+    .filter((admission) => admission.entries.length || admission.openingBalance !== 0);
+
+  return {
+    patient: {
+      id: patient.id,
+      patientId: patient.patient_id ?? null,
+      name: `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim(),
+      phone: patient.phone ?? null,
+    },
+    from,
+    to,
+    admissions: statementAdmissions,
+    totals: sumTotals(statementAdmissions),
+  };
+};
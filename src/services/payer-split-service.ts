@@ -0,0 +1,275 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { recalculateInvoicePayments, resolveAmountPayable, roundCurrency } from './payment-service.js';
+import { calculateDiscountRatio } from './tax-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const PAYER_RESPONSIBILITIES = ['tpa', 'patient', 'non_admissible'] as const;
+export type PayerResponsibility = (typeof PAYER_RESPONSIBILITIES)[number];
+
+export const PAYERS = ['patient', 'tpa'] as const;
+export type Payer = (typeof PAYERS)[number];
+
+// Never claimable from an insurer, whatever the policy
+const NON_ADMISSIBLE_ITEM_TYPES = ['consumable', 'registration'];
+
+// Claim states in which the insurer has committed to pay
+const TPA_LIABLE_CLAIM_STATUSES = ['approved', 'settled'];
+
+export interface PayerSplit {
+  claim_id: string | null;
+  tpa_claimable: number;
+  tpa_payable: number;
+  patient_payable: number;
+  tpa_paid: number;
+  patient_paid: number;
+  tpa_balance: number;
+  patient_balance: number;
+}
+
+export interface PayerSplitSummary {
+  claimId: string;
+  claimNumber: string | null;
+  claimStatus: string;
+  approvedAmount: number | null;
+  copayPercent: number;
+  tpaPartnerName: string | null;
+  tpaItemsTotal: number;
+  patientItemsTotal: number;
+  nonAdmissibleTotal: number;
+  tpaClaimable: number;
+  tpaPayable: number;
+  tpaPaid: number;
+  tpaBalance: number;
+  patientPayable: number;
+  patientPaid: number;
+  patientBalance: number;
+}
+
+interface SplitInvoice {
+  id: string;
+  admission_id?: string | null;
+  created_at?: string | null;
+  total_amount?: number | null;
+  amount_payable?: number | null;
+  discount_type?: string | null;
+  discount_value?: number | null;
+  include_gst?: boolean | null;
+  gst_rate?: number | null;
+  gst_mode?: string | null;
+  tax_total?: number | null;
+  written_off_amount?: number | null;
+  credited_amount?: number | null;
+}
+
+export const isPayerResponsibility = (value: unknown): value is PayerResponsibility =>
+  typeof value === 'string' && (PAYER_RESPONSIBILITIES as readonly string[]).includes(value);
+
+export const isPayer = (value: unknown): value is Payer =>
+  typeof value === 'string' && (PAYERS as readonly string[]).includes(value);
+
+// The admission's live claim; a rejected claim only counts when there is nothing newer.
+export const fetchAdmissionClaim = async (admissionId: string) => {
+  const { data, error } = await supabase
+    .from('insurance_claims')
+    .select('id, claim_number, status, approved_amount, copay_percent, tpa_partner_id, created_at')
+    .eq('admission_id', admissionId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch admission claim', { admissionId, error: error.message });
+    throw createError('Failed to fetch insurance claim', 500);
+  }
+
+  const claims = data ?? [];
+  return claims.find((claim) => claim.status !== 'rejected') ?? claims[0] ?? null;
+};
+
+// Items not yet assigned a payer get the default: non-admissible by type or by service, else TPA.
+const assignDefaultResponsibility = async (items: any[]) => {
+  const unassigned = items.filter((item) => !item.payer_responsibility);
+  if (!unassigned.length) {
+    return items;
+  }
+
+  const serviceIds = Array.from(new Set(unassigned.map((item) => item.reference_id).filter(Boolean)));
+  const { data: excludedServices } = serviceIds.length
+    ? await supabase.from('hospital_services').select('id').in('id', serviceIds).eq('tpa_admissible', false)
+    : { data: [] as any[] };
+  const excluded = new Set((excludedServices ?? []).map((service: any) => service.id));
+
+  const assigned = new Map<string, PayerResponsibility>(
+    unassigned.map((item) => [
+      item.id,
+      NON_ADMISSIBLE_ITEM_TYPES.includes(item.item_type) || excluded.has(item.reference_id) ? 'non_admissible' : 'tpa',
+    ])
+  );
+
+  for (const responsibility of PAYER_RESPONSIBILITIES) {
+    const ids = unassigned.filter((item) => assigned.get(item.id) === responsibility).map((item) => item.id);
+    if (!ids.length) continue;
+
+    const { error } = await supabase
+      .from('bill_items')
+      .update({ payer_responsibility: responsibility })
+      .in('id', ids);
+
+    if (error) {
+      logger.error('Failed to assign bill item payer', { error: error.message });
+      throw createError('Failed to assign bill item payer', 500);
+    }
+  }
+
+  return items.map((item) => ({ ...item, payer_responsibility: item.payer_responsibility ?? assigned.get(item.id) }));
+};
+
+// What the line adds to amount payable: after the invoice discount, with its GST.
+const linePayable = (invoice: SplitInvoice, item: any, discountRatio: number) => {
+  const base = Number(item.total_price || 0) * discountRatio;
+  if (invoice.gst_mode === 'line') {
+    return base + Number(item.tax_amount || 0) * discountRatio;
+  }
+  return invoice.include_gst ? base * (1 + Number(invoice.gst_rate ?? 18) / 100) : base;
+};
+
+// Approved amount left for this invoice once earlier invoices of the stay have taken their share.
+const remainingApprovedAmount = async (invoice: SplitInvoice, approvedAmount: number | null) => {
+  if (approvedAmount === null) {
+    return Infinity;
+  }
+
+  const { data: earlier } = await supabase
+    .from('invoices')
+    .select('id, tpa_payable')
+    .eq('admission_id', invoice.admission_id)
+    .neq('id', invoice.id)
+    .neq('lifecycle_status', 'cancelled')
+    .lt('created_at', invoice.created_at);
+
+  const used = (earlier ?? []).reduce((sum, other) => sum + Number(other.tpa_payable || 0), 0);
+  return Math.max(0, approvedAmount - used);
+};
+
+export const computePayerSplit = async (invoice: SplitInvoice, payments: any[]): Promise<PayerSplit> => {
+  const amountPayable = resolveAmountPayable(invoice);
+  const tpaPaid = roundCurrency(
+    payments.filter((payment) => payment.payer === 'tpa').reduce((sum, payment) => sum + Number(payment.amount || 0), 0)
+  );
+  const patientPaid = roundCurrency(
+    payments.filter((payment) => payment.payer !== 'tpa').reduce((sum, payment) => sum + Number(payment.amount || 0), 0)
+  );
+
+  const claim = invoice.admission_id ? await fetchAdmissionClaim(invoice.admission_id) : null;
+  let tpaClaimable = 0;
+  let tpaPayable = 0;
+
+  if (claim && claim.status !== 'rejected') {
+    const { data: items, error } = await supabase
+      .from('bill_items')
+      .select('id, item_type, reference_id, total_price, tax_amount, payer_responsibility')
+      .eq('invoice_id', invoice.id);
+
+    if (error) {
+      logger.error('Failed to fetch bill items for payer split', { invoiceId: invoice.id, error: error.message });
+      throw createError('Failed to fetch bill items', 500);
+    }
+
+    const assigned = await assignDefaultResponsibility(items ?? []);
+    const discountRatio = calculateDiscountRatio(invoice);
+    const insuredShare = 1 - Number(claim.copay_percent || 0) / 100;
+
+    tpaClaimable = roundCurrency(Math.min(
+      amountPayable,
+      assigned
+        .filter((item) => item.payer_responsibility === 'tpa')
+        .reduce((sum, item) => sum + linePayable(invoice, item, discountRatio) * insuredShare, 0)
+    ));
+
+    if (TPA_LIABLE_CLAIM_STATUSES.includes(claim.status)) {
+      const approvedAmount = claim.approved_amount === null ? null : Number(claim.approved_amount);
+      tpaPayable = roundCurrency(Math.min(tpaClaimable, await remainingApprovedAmount(invoice, approvedAmount)));
+    }
+  }
+
+  const patientPayable = roundCurrency(amountPayable - tpaPayable);
+
+  return {
+    claim_id: claim?.id ?? null,
+    tpa_claimable: tpaClaimable,
+    tpa_payable: tpaPayable,
+    patient_payable: patientPayable,
+    tpa_paid: tpaPaid,
+    patient_paid: patientPaid,
+    tpa_balance: roundCurrency(Math.max(0, tpaPayable - tpaPaid)),
+    // Write-offs and adjustment credit notes only ever cover the patient's share
+    patient_balance: roundCurrency(Math.max(
+      0,
+      patientPayable - patientPaid - Number(invoice.written_off_amount || 0) - Number(invoice.credited_amount || 0)
+    )),
+  };
+};
+
+// Re-split every invoice of the stay in the order raised, so the approved amount is used up in order.
+export const refreshAdmissionPayerSplit = async (admissionId: string) => {
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('admission_id', admissionId)
+    .neq('lifecycle_status', 'cancelled')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch invoices for payer split', { admissionId, error: error.message });
+    throw createError('Failed to refresh payer split', 500);
+  }
+
+  for (const invoice of invoices ?? []) {
+    await recalculateInvoicePayments(invoice.id);
+  }
+
+  logger.info('Payer split refreshed', { admissionId, invoices: (invoices ?? []).length });
+};
+
+export const buildPayerSplitSummary = async (invoice: any, billItems: any[]): Promise<PayerSplitSummary | null> => {
+  if (!invoice.claim_id) {
+    return null;
+  }
+
+  const { data: claim } = await supabase
+    .from('insurance_claims')
+    .select('id, claim_number, status, approved_amount, copay_percent, tpa_partners ( name )')
+    .eq('id', invoice.claim_id)
+    .maybeSingle();
+
+  if (!claim) {
+    return null;
+  }
+
+  const itemsTotal = (responsibility: PayerResponsibility) => roundCurrency(
+    billItems
+      .filter((item) => (item.payer_responsibility ?? 'patient') === responsibility)
+      .reduce((sum, item) => sum + Number(item.total_price || 0), 0)
+  );
+  const partner: any = Array.isArray(claim.tpa_partners) ? claim.tpa_partners[0] : claim.tpa_partners;
+
+  return {
+    claimId: claim.id,
+    claimNumber: claim.claim_number ?? null,
+    claimStatus: claim.status,
+    approvedAmount: claim.approved_amount === null ? null : Number(claim.approved_amount),
+    copayPercent: Number(claim.copay_percent || 0),
+    tpaPartnerName: partner?.name ?? null,
+    tpaItemsTotal: itemsTotal('tpa'),
+    patientItemsTotal: itemsTotal('patient'),
+    nonAdmissibleTotal: itemsTotal('non_admissible'),
+    tpaClaimable: Number(invoice.tpa_claimable || 0),
+    tpaPayable: Number(invoice.tpa_payable || 0),
+    tpaPaid: Number(invoice.tpa_paid || 0),
+    tpaBalance: Number(invoice.tpa_balance || 0),
+    patientPayable: Number(invoice.patient_payable ?? resolveAmountPayable(invoice)),
+    patientPaid: Number(invoice.patient_paid || 0),
+    patientBalance: Number(invoice.patient_balance ?? invoice.balance ?? 0),
+  };
+};
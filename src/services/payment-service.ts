@@ -0,0 +1,252 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { documentNumberFormat } from './sequence-service.js';
+import { computePayerSplit, isPayer, PAYERS } from './payer-split-service.js';
+import { assertBusinessDayOpen } from './day-book-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const PAYMENT_METHODS = ['cash', 'upi', 'card', 'cheque', 'bank_transfer'] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_SELECT = `
+  id,
+  invoice_id,
+  amount,
+  payment_method,
+  payment_reference,
+  payment_date,
+  notes,
+  status,
+  collected_by,
+  voided_by,
+  voided_at,
+  void_reason,
+  deposit_id,
+  payer,
+  receipt_number,
+  receipt_emailed_at,
+  created_at,
+  updated_at
+`;
+
+export interface RecordPaymentInput {
+  invoiceId: string;
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string | null;
+  paymentDate?: string | null;
+  notes?: string | null;
+  collectedBy?: string | null;
+  depositId?: string | null;
+  payer?: string | null;
+}
+
+export const roundCurrency = (value: number): number => Math.round((Number(value) || 0) * 100) / 100;
+
+export const isPaymentMethod = (value: unknown): value is PaymentMethod =>
+  typeof value === 'string' && (PAYMENT_METHODS as readonly string[]).includes(value);
+
+// amount_payable is only populated once discounts/GST have been applied; fall back to the raw total.
+export const resolveAmountPayable = (invoice: { amount_payable?: number | null; total_amount?: number | null }): number =>
+  roundCurrency(Number(invoice.amount_payable ?? invoice.total_amount ?? 0));
+
+// Set only by the server: written_off when an approved write-off clears the balance, overdue by
+// the receivables job. Clients never send them, or a write-off could skip its approval.
+export const SERVER_DERIVED_INVOICE_STATUSES = ['written_off', 'overdue'] as const;
+
+export const assertClientInvoiceStatus = (status: unknown) => {
+  if (typeof status === 'string' && (SERVER_DERIVED_INVOICE_STATUSES as readonly string[]).includes(status)) {
+    throw createError(`Invoice status ${status} is set by the system and cannot be sent`, 400);
+  }
+};
+
+export const derivePaymentStatus = (amountPayable: number, paidAmount: number, currentStatus?: string | null): string => {
+  if (amountPayable > 0 && paidAmount >= amountPayable) {
+    return 'paid';
+  }
+  if (paidAmount > 0) {
+    return 'partial';
+  }
+  if (!currentStatus || currentStatus === 'paid' || currentStatus === 'partial') {
+    return 'pending';
+  }
+  return currentStatus;
+};
+
+export const fetchInvoicePayments = async (invoiceId: string, includeVoided = false) => {
+  let query = supabase
+    .from('payments')
+    .select(PAYMENT_SELECT)
+    .eq('invoice_id', invoiceId)
+    .order('payment_date', { ascending: true });
+
+  if (!includeVoided) {
+    query = query.eq('status', 'completed');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch invoice payments', { invoiceId, error: error.message });
+    throw createError('Failed to fetch payments', 500);
+  }
+
+  return data ?? [];
+};
+
+// Recompute paid_amount, balance and status on the invoice from the payments ledger,
+// along with the insurer / patient split of both.
+export const recalculateInvoicePayments = async (invoiceId: string) => {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, admission_id, created_at, total_amount, amount_payable, status, discount_type, discount_value, include_gst, gst_rate, gst_mode, tax_total, written_off_amount, credited_amount')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const payments = await fetchInvoicePayments(invoiceId);
+  const paidAmount = roundCurrency(payments.reduce((sum, payment) => sum + Number(payment.amount || 0), 0));
+  // Adjustment credit notes reduce what is owed; refunds leave the balance where it was
+  const amountPayable = roundCurrency(resolveAmountPayable(invoice) - Number(invoice.credited_amount || 0));
+  const writtenOff = roundCurrency(Number(invoice.written_off_amount || 0));
+  const latestPayment = payments.length ? payments[payments.length - 1] : null;
+
+  const updates = {
+    paid_amount: paidAmount,
+    balance: roundCurrency(Math.max(0, amountPayable - paidAmount - writtenOff)),
+    status: writtenOff > 0 && paidAmount + writtenOff >= amountPayable
+      ? 'written_off'
+      : derivePaymentStatus(amountPayable, paidAmount, invoice.status),
+    last_payment_date: latestPayment?.payment_date ?? null,
+    payment_method: latestPayment?.payment_method ?? null,
+    payment_reference: latestPayment?.payment_reference ?? null,
+    ...(await computePayerSplit(invoice, payments)),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: updatedInvoice, error: updateError } = await supabase
+    .from('invoices')
+    .update(updates)
+    .eq('id', invoiceId)
+    .select('*')
+    .single();
+
+  if (updateError || !updatedInvoice) {
+    logger.error('Failed to update invoice from payments ledger', { invoiceId, error: updateError?.message });
+    throw createError('Failed to update invoice balance', 500);
+  }
+
+  return updatedInvoice;
+};
+
+export const recordPayment = async ({
+  invoiceId,
+  amount,
+  paymentMethod,
+  paymentReference,
+  paymentDate,
+  notes,
+  collectedBy,
+  depositId,
+  payer = 'patient',
+}: RecordPaymentInput) => {
+  const paymentAmount = roundCurrency(amount);
+
+  if (!Number.isFinite(paymentAmount) || paymentAmount <= 0) {
+    throw createError('Payment amount must be greater than zero', 400);
+  }
+
+  // Deposit applications are posted internally with their own method so they never count as fresh cash
+  if (depositId ? paymentMethod !== 'deposit' : !isPaymentMethod(paymentMethod)) {
+    throw createError(`payment_method must be one of: ${PAYMENT_METHODS.join(', ')}`, 400);
+  }
+
+  if (!isPayer(payer) || (depositId && payer !== 'patient')) {
+    throw createError(`payer must be one of: ${PAYERS.join(', ')}`, 400);
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, total_amount, amount_payable, paid_amount, lifecycle_status, claim_id, tpa_balance, written_off_amount, credited_amount')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  if (invoice.lifecycle_status === 'cancelled') {
+    throw createError('Payments cannot be recorded against a cancelled invoice', 409);
+  }
+
+  const outstanding = roundCurrency(
+    resolveAmountPayable(invoice) -
+      Number(invoice.paid_amount || 0) -
+      Number(invoice.written_off_amount || 0) -
+      Number(invoice.credited_amount || 0)
+  );
+  if (paymentAmount > outstanding) {
+    throw createError(`Payment exceeds outstanding balance of ${outstanding.toFixed(2)}`, 400);
+  }
+
+  if (payer === 'tpa') {
+    if (!invoice.claim_id) {
+      throw createError('Invoice has no insurance claim to receive a TPA payment against', 400);
+    }
+    if (paymentAmount > Number(invoice.tpa_balance || 0)) {
+      throw createError(`Payment exceeds TPA balance of ${Number(invoice.tpa_balance || 0).toFixed(2)}`, 400);
+    }
+  }
+
+  if (!depositId) {
+    await assertBusinessDayOpen(paymentDate);
+  }
+
+  // The checks above give a clear error early; the RPC repeats them under a lock on the invoice
+  // so concurrent payments cannot together overpay it, and numbers the receipt only once they
+  // pass. Deposit applications were receipted when the deposit was taken.
+  const { data: payment, error } = await supabase.rpc('record_invoice_payment', {
+    p_invoice_id: invoiceId,
+    p_payment: {
+      receipt_series: depositId ? null : documentNumberFormat('receipt'),
+      amount: paymentAmount,
+      payment_method: paymentMethod,
+      payment_reference: paymentReference || null,
+      payment_date: paymentDate ? new Date(paymentDate).toISOString() : new Date().toISOString(),
+      notes: notes || null,
+      collected_by: collectedBy ?? null,
+      deposit_id: depositId ?? null,
+      payer,
+    },
+  });
+
+  if (error?.code === 'PAY01') {
+    throw createError(error.message, 400);
+  }
+  if (error?.code === 'P0002') {
+    throw createError('Invoice not found', 404);
+  }
+  if (error || !payment) {
+    logger.error('Failed to record payment', { invoiceId, error: error?.message });
+    throw createError('Failed to record payment', 500);
+  }
+
+  const updatedInvoice = await recalculateInvoicePayments(invoiceId);
+
+  logger.info('Payment recorded', {
+    paymentId: payment.id,
+    receiptNumber: payment.receipt_number,
+    invoiceId,
+    amount: paymentAmount,
+    paymentMethod,
+    payer,
+    collectedBy,
+  });
+
+  return { payment, invoice: updatedInvoice };
+};
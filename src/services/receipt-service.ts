@@ -0,0 +1,142 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { amountInWords } from '../utils/amount-in-words.js';
+import { allocateDocumentNumber } from './sequence-service.js';
+import { PAYMENT_SELECT, resolveAmountPayable, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export interface PaymentReceipt {
+  payment: any;
+  invoice: any;
+  patientName: string;
+  patientUid: string | null;
+  patientEmail: string | null;
+  collectedByName: string | null;
+  amountInWords: string;
+  balanceAfter: number;
+}
+
+// Payments recorded before receipts existed are numbered the first time a receipt is asked for.
+const ensureReceiptNumber = async (payment: any) => {
+  if (payment.receipt_number) {
+    return payment;
+  }
+
+  const receiptNumber = await allocateDocumentNumber('receipt', new Date(payment.payment_date));
+  const { data, error } = await supabase
+    .from('payments')
+    .update({ receipt_number: receiptNumber })
+    .eq('id', payment.id)
+    .is('receipt_number', null)
+    .select(PAYMENT_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to number payment receipt', { paymentId: payment.id, error: error.message });
+    throw createError('Failed to issue receipt', 500);
+  }
+
+  if (!data) {
+    // Numbered concurrently by another request; use that number
+    const { data: current } = await supabase.from('payments').select(PAYMENT_SELECT).eq('id', payment.id).single();
+    return current;
+  }
+
+  return data;
+};
+
+export const fetchPaymentReceipt = async (invoiceId: string, paymentId: string): Promise<PaymentReceipt> => {
+  const { data: existing, error } = await supabase
+    .from('payments')
+    .select(PAYMENT_SELECT)
+    .eq('id', paymentId)
+    .eq('invoice_id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch payment for receipt', { invoiceId, paymentId, error: error.message });
+    throw createError('Failed to fetch payment', 500);
+  }
+  if (!existing) {
+    throw createError('Payment not found', 404);
+  }
+  if (existing.deposit_id) {
+    throw createError('Deposit applications have no receipt of their own; the deposit was receipted when taken', 400);
+  }
+
+  const payment = await ensureReceiptNumber(existing);
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      created_at,
+      total_amount,
+      amount_payable,
+      admissions (
+        id,
+        patients (
+          patient_id,
+          first_name,
+          last_name,
+          email
+        )
+      )
+    `)
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  // Balance as it stood once this payment landed, so reprints do not drift with later collections
+  const { data: earlierPayments } = await supabase
+    .from('payments')
+    .select('id, amount, payment_date, created_at')
+    .eq('invoice_id', invoiceId)
+    .eq('status', 'completed')
+    .lte('created_at', payment.created_at);
+
+  const paidToDate = (earlierPayments ?? [])
+    .filter((entry) => entry.id !== payment.id)
+    .reduce((sum, entry) => sum + Number(entry.amount || 0), payment.status === 'completed' ? Number(payment.amount || 0) : 0);
+
+  let collectedByName: string | null = null;
+  if (payment.collected_by) {
+    const { data: staff } = await supabase
+      .from('staff')
+      .select('first_name, last_name')
+      .eq('id', payment.collected_by)
+      .maybeSingle();
+    collectedByName = staff ? `${staff.first_name ?? ''} ${staff.last_name ?? ''}`.trim() || null : null;
+  }
+
+  const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+  const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+
+  return {
+    payment,
+    invoice,
+    patientName: patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : '',
+    patientUid: patient?.patient_id ?? null,
+    patientEmail: patient?.email ?? null,
+    collectedByName,
+    amountInWords: amountInWords(Number(payment.amount || 0)),
+    balanceAfter: roundCurrency(Math.max(0, resolveAmountPayable(invoice) - paidToDate)),
+  };
+};
+
+export const markReceiptEmailed = async (paymentId: string) => {
+  const { error } = await supabase
+    .from('payments')
+    .update({ receipt_emailed_at: new Date().toISOString() })
+    .eq('id', paymentId);
+
+  if (error) {
+    logger.warn('Failed to record receipt email', { paymentId, error: error.message });
+  }
+};
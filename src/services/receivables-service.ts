@@ -0,0 +1,223 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { toIstDateString } from '../utils/ist-date.js';
+import { recalculateInvoicePayments, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const AGING_BUCKETS = ['0_30', '31_60', '61_90', '90_plus'] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+// Invoices that have been handed over and can be owed on
+const RECEIVABLE_LIFECYCLE_STATES = ['provisional', 'final'];
+
+// Payment statuses that still expect money in
+const OPEN_PAYMENT_STATUSES = ['pending', 'partial'];
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export interface AgingRow {
+  key: string;
+  name: string;
+  buckets: AgingBuckets;
+  total: number;
+  invoiceCount: number;
+}
+
+const emptyBuckets = (): AgingBuckets => ({ '0_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 });
+
+export const daysBetweenIstDates = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / (24 * 60 * 60 * 1000));
+
+export const agingBucketFor = (ageInDays: number): AgingBucket => {
+  if (ageInDays <= 30) return '0_30';
+  if (ageInDays <= 60) return '31_60';
+  if (ageInDays <= 90) return '61_90';
+  return '90_plus';
+};
+
+// Flip unpaid invoices past their due date to overdue, and back again if the due date was moved out.
+// Invoices still without a due date are given one from the configured payment terms first.
+export const markOverdueInvoices = async (asOfDate: string = toIstDateString()) => {
+  const { error: termsError } = await supabase.rpc('assign_missing_due_dates', {
+    p_terms_days: env.INVOICE_PAYMENT_TERMS_DAYS,
+  });
+
+  if (termsError) {
+    logger.error('Failed to assign missing due dates', { asOfDate, error: termsError.message });
+    throw createError('Failed to assign missing due dates', 500);
+  }
+
+  const { data: due, error } = await supabase
+    .from('invoices')
+    .select('id')
+    .in('lifecycle_status', RECEIVABLE_LIFECYCLE_STATES)
+    .in('status', OPEN_PAYMENT_STATUSES)
+    .lt('due_date', asOfDate)
+    .gt('balance', 0);
+
+  if (error) {
+    logger.error('Failed to fetch invoices past due', { asOfDate, error: error.message });
+    throw createError('Failed to fetch invoices past due', 500);
+  }
+
+  const overdueIds = (due ?? []).map((invoice) => invoice.id);
+  if (overdueIds.length) {
+    const { error: updateError } = await supabase
+      .from('invoices')
+      .update({ status: 'overdue', updated_at: new Date().toISOString() })
+      .in('id', overdueIds);
+
+    if (updateError) {
+      logger.error('Failed to mark invoices overdue', { asOfDate, error: updateError.message });
+      throw createError('Failed to mark invoices overdue', 500);
+    }
+  }
+
+  const { data: notDue } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('status', 'overdue')
+    .gte('due_date', asOfDate);
+
+  for (const invoice of notDue ?? []) {
+    await reopenOverdueInvoice(invoice.id);
+  }
+
+  logger.info('Overdue invoices marked', { asOfDate, marked: overdueIds.length, reopened: (notDue ?? []).length });
+
+  return { asOfDate, marked: overdueIds.length, reopened: (notDue ?? []).length };
+};
+
+// Drop the overdue flag and let the payments ledger decide the status again.
+export const reopenOverdueInvoice = async (invoiceId: string) => {
+  await supabase
+    .from('invoices')
+    .update({ status: 'pending' })
+    .eq('id', invoiceId)
+    .eq('status', 'overdue');
+
+  return recalculateInvoicePayments(invoiceId);
+};
+
+export const setInvoiceDueDate = async (invoiceId: string, dueDate: string) => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .update({ due_date: dueDate, updated_at: new Date().toISOString() })
+    .eq('id', invoiceId)
+    .neq('lifecycle_status', 'cancelled')
+    .select('id, status, due_date')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to set invoice due date', { invoiceId, error: error.message });
+    throw createError('Failed to set due date', 500);
+  }
+  if (!invoice) {
+    throw createError('Invoice not found or cancelled', 404);
+  }
+
+  if (invoice.status === 'overdue' && dueDate >= toIstDateString()) {
+    return reopenOverdueInvoice(invoiceId);
+  }
+
+  return recalculateInvoicePayments(invoiceId);
+};
+
+const addToRow = (rows: Map<string, AgingRow>, key: string, name: string, bucket: AgingBucket, amount: number) => {
+  const row = rows.get(key) ?? { key, name, buckets: emptyBuckets(), total: 0, invoiceCount: 0 };
+  row.buckets[bucket] = roundCurrency(row.buckets[bucket] + amount);
+  row.total = roundCurrency(row.total + amount);
+  row.invoiceCount += 1;
+  rows.set(key, row);
+};
+
+const sumBuckets = (rows: AgingRow[]): AgingBuckets & { total: number } => {
+  const totals = { ...emptyBuckets(), total: 0 };
+  rows.forEach((row) => {
+    AGING_BUCKETS.forEach((bucket) => {
+      totals[bucket] = roundCurrency(totals[bucket] + row.buckets[bucket]);
+    });
+    totals.total = roundCurrency(totals.total + row.total);
+  });
+  return totals;
+};
+
+// Outstanding balances aged from the invoice date (IST), split between what patients and insurers owe.
+export const buildAgingReport = async (asOfDate: string = toIstDateString()) => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      created_at,
+      due_date,
+      balance,
+      patient_balance,
+      tpa_balance,
+      admissions (
+        patients (
+          id,
+          patient_id,
+          first_name,
+          last_name
+        )
+      ),
+      insurance_claims (
+        tpa_partners (
+          id,
+          name
+        )
+      )
+    `)
+    .in('lifecycle_status', RECEIVABLE_LIFECYCLE_STATES)
+    .or('balance.gt.0,tpa_balance.gt.0');
+
+  if (error) {
+    logger.error('Failed to fetch receivables for aging', { error: error.message });
+    throw createError('Failed to build aging report', 500);
+  }
+
+  const byPatient = new Map<string, AgingRow>();
+  const byTpa = new Map<string, AgingRow>();
+
+  (data ?? []).forEach((invoice: any) => {
+    const bucket = agingBucketFor(Math.max(0, daysBetweenIstDates(toIstDateString(new Date(invoice.created_at)), asOfDate)));
+    const admission: any = Array.isArray(invoice.admissions) ? invoice.admissions[0] : invoice.admissions;
+    const patient: any = Array.isArray(admission?.patients) ? admission?.patients[0] : admission?.patients;
+    const claim: any = Array.isArray(invoice.insurance_claims) ? invoice.insurance_claims[0] : invoice.insurance_claims;
+    const partner: any = Array.isArray(claim?.tpa_partners) ? claim?.tpa_partners[0] : claim?.tpa_partners;
+
+    const patientBalance = Number(invoice.patient_balance ?? invoice.balance ?? 0);
+    if (patientBalance > 0) {
+      addToRow(
+        byPatient,
+        patient?.id ?? 'unknown',
+        patient ? `${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() : 'Unknown patient',
+        bucket,
+        patientBalance
+      );
+    }
+
+    const tpaBalance = Number(invoice.tpa_balance || 0);
+    if (tpaBalance > 0) {
+      addToRow(byTpa, partner?.id ?? 'unknown', partner?.name ?? 'Unassigned TPA', bucket, tpaBalance);
+    }
+  });
+
+  const patients = Array.from(byPatient.values()).sort((a, b) => b.total - a.total);
+  const tpas = Array.from(byTpa.values()).sort((a, b) => b.total - a.total);
+
+  return {
+    asOfDate,
+    buckets: AGING_BUCKETS,
+    byPatient: patients,
+    byTpa: tpas,
+    totals: {
+      patient: sumBuckets(patients),
+      tpa: sumBuckets(tpas),
+    },
+  };
+};
@@ -0,0 +1,168 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { getIstDayBounds } from '../utils/ist-date.js';
+import { allocateDocumentNumber } from './sequence-service.js';
+import { roundCurrency } from './payment-service.js';
+import { applyLineTaxes, refreshInvoiceTotals } from './tax-service.js';
+import { buildChargeLines, captureRoomDays, fetchUnbilledCharges } from './charge-capture-service.js';
+import { recordInvoiceChange } from './invoice-revision-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export interface RoomAccrualSummary {
+  accrualDate: string;
+  admissionsConsidered: number;
+  accrued: number;
+  alreadyAccrued: number;
+  unpriced: number;
+  failed: number;
+  invoicesUpdated: number;
+  totalAccrued: number;
+}
+
+// The admission's open interim bill collects daily accruals until someone issues it.
+export const getRunningInterimInvoice = async (admissionId: string, createdBy?: string | null) => {
+  const { data: existing, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, supply_type')
+    .eq('admission_id', admissionId)
+    .eq('invoice_type', 'interim')
+    .eq('lifecycle_status', 'draft')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to look up running interim invoice', { admissionId, error: error.message });
+    throw createError('Failed to fetch running bill', 500);
+  }
+
+  if (existing) {
+    return existing;
+  }
+
+  const invoiceNumber = await allocateDocumentNumber('invoice');
+  const { data: created, error: insertError } = await supabase
+    .from('invoices')
+    .insert({
+      admission_id: admissionId,
+      invoice_number: invoiceNumber,
+      invoice_type: 'interim',
+      total_amount: 0,
+      status: 'pending',
+      lifecycle_status: 'draft',
+      gst_mode: 'line',
+      supply_type: 'intra_state',
+      generated_by: createdBy ?? null,
+    })
+    .select('id, invoice_number, supply_type')
+    .single();
+
+  if (insertError || !created) {
+    logger.error('Failed to open running interim invoice', { admissionId, error: insertError?.message });
+    throw createError('Failed to open running bill', 500);
+  }
+
+  logger.info('Running interim invoice opened', { admissionId, invoiceId: created.id, invoiceNumber });
+
+  return created;
+};
+
+// Admissions with a bed occupied at the end of the IST day (midnight census)
+const fetchOccupiedAdmissionIds = async (accrualDate: string): Promise<string[]> => {
+  const { end } = getIstDayBounds(accrualDate);
+
+  const { data, error } = await supabase
+    .from('room_history')
+    .select('admission_id, admissions!inner ( id, status )')
+    .lt('start_date', end.toISOString())
+    .or(`end_date.is.null,end_date.gte.${end.toISOString()}`)
+    .eq('admissions.status', 'active');
+
+  if (error) {
+    logger.error('Failed to fetch occupied room history for accrual', { accrualDate, error: error.message });
+    throw createError('Failed to fetch room history', 500);
+  }
+
+  return Array.from(new Set((data ?? []).map((entry) => entry.admission_id)));
+};
+
+// Post the day's room charge to the ledger and put it on the running bill as its own line.
+// Re-runs are harmless: the ledger keeps one live charge per room day, and a charge already
+// on an invoice is left where it is.
+export const accrueRoomCharges = async (accrualDate: string): Promise<RoomAccrualSummary> => {
+  const window = { from: accrualDate, to: accrualDate };
+  const admissionIds = await fetchOccupiedAdmissionIds(accrualDate);
+  const touchedInvoices = new Set<string>();
+  const summary: RoomAccrualSummary = {
+    accrualDate,
+    admissionsConsidered: admissionIds.length,
+    accrued: 0,
+    alreadyAccrued: 0,
+    unpriced: 0,
+    failed: 0,
+    invoicesUpdated: 0,
+    totalAccrued: 0,
+  };
+
+  for (const admissionId of admissionIds) {
+    try {
+      const captured = await captureRoomDays(admissionId, window);
+      summary.alreadyAccrued += captured.existing;
+      summary.unpriced += captured.unpriced;
+
+      const charges = (await fetchUnbilledCharges(admissionId, { window, sourceTypes: ['room_day'] }))
+        .filter((charge) => !charge.invoice_id);
+
+      for (const charge of charges) {
+        const invoice = await getRunningInterimInvoice(admissionId);
+        const [billItem] = applyLineTaxes(
+          buildChargeLines([charge]).map((line) => ({ ...line, invoice_id: invoice.id })),
+          invoice.supply_type
+        );
+
+        const { data: inserted, error: itemError } = await supabase
+          .from('bill_items')
+          .insert(billItem)
+          .select('id')
+          .single();
+
+        if (itemError || !inserted) {
+          throw new Error(itemError?.message ?? 'Bill item insert returned no row');
+        }
+
+        const { data: attached } = await supabase
+          .from('charge_entries')
+          .update({ invoice_id: invoice.id, bill_item_id: inserted.id })
+          .eq('id', charge.id)
+          .is('invoice_id', null)
+          .select('id');
+
+        if (!attached?.length) {
+          // An invoice claimed the day in the meantime
+          await supabase.from('bill_items').delete().eq('id', inserted.id);
+          summary.alreadyAccrued += 1;
+          continue;
+        }
+
+        touchedInvoices.add(invoice.id);
+        summary.accrued += 1;
+        summary.totalAccrued = roundCurrency(summary.totalAccrued + Number(charge.total_price));
+      }
+    } catch (error: any) {
+      summary.failed += 1;
+      logger.error('Failed to accrue room charge', { admissionId, accrualDate, error: error?.message });
+    }
+  }
+
+  for (const invoiceId of touchedInvoices) {
+    await refreshInvoiceTotals(invoiceId);
+    await recordInvoiceChange(invoiceId, `Room charges accrued for ${accrualDate}`);
+  }
+  summary.invoicesUpdated = touchedInvoices.size;
+
+  logger.info('Room charge accrual completed', { ...summary });
+
+  return summary;
+};
@@ -0,0 +1,76 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { generateSequentialPrefixedId } from '../utils/id-generator.js';
+import { IST_OFFSET_MINUTES } from '../utils/ist-date.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+interface SeriesConfig {
+  prefix: string;
+  delimiter: string;
+  digits: number;
+  resetsYearly: boolean;
+}
+
+// INV/2026-27/000123 style numbers restart every financial year; patient and claim IDs keep their legacy shape.
+export const DOCUMENT_SERIES = {
+  invoice: { prefix: 'INV', delimiter: '/', digits: 6, resetsYearly: true },
+  credit_note: { prefix: 'CN', delimiter: '/', digits: 6, resetsYearly: true },
+  receipt: { prefix: 'RCPT', delimiter: '/', digits: 6, resetsYearly: true },
+  refund_voucher: { prefix: 'RFV', delimiter: '/', digits: 6, resetsYearly: true },
+  estimate: { prefix: 'EST', delimiter: '/', digits: 6, resetsYearly: true },
+  patient: { prefix: 'P', delimiter: '', digits: 6, resetsYearly: false },
+  claim: { prefix: 'CLM', delimiter: '-', digits: 6, resetsYearly: false },
+} satisfies Record<string, SeriesConfig>;
+
+export type DocumentSeries = keyof typeof DOCUMENT_SERIES;
+
+const NON_RESETTING_PERIOD = 'ALL';
+
+// Indian financial year runs April to March, e.g. 2026-27; evaluated in IST so midnight on 1 April rolls over correctly.
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+  const year = ist.getUTCFullYear();
+  const startYear = ist.getUTCMonth() >= 3 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// The counter and layout of a series, for database functions that number a document in the same
+// transaction that creates it
+export const documentNumberFormat = (series: DocumentSeries, date: Date = new Date()) => {
+  const config: SeriesConfig = DOCUMENT_SERIES[series];
+  const period = config.resetsYearly ? getFinancialYear(date) : NON_RESETTING_PERIOD;
+
+  return {
+    prefix: config.prefix,
+    period,
+    period_label: config.resetsYearly ? period : null,
+    delimiter: config.delimiter,
+    digits: config.digits,
+  };
+};
+
+export const allocateDocumentNumber = async (series: DocumentSeries, date: Date = new Date()): Promise<string> => {
+  const config: SeriesConfig = DOCUMENT_SERIES[series];
+  const period = config.resetsYearly ? getFinancialYear(date) : NON_RESETTING_PERIOD;
+
+  return generateSequentialPrefixedId(
+    config.prefix,
+    config.digits,
+    async () => {
+      const { data, error } = await supabase.rpc('next_document_number', {
+        p_series: config.prefix,
+        p_period: period,
+      });
+
+      if (error || data === null || data === undefined) {
+        logger.error('Failed to allocate document number', { series, period, error: error?.message });
+        throw createError('Failed to allocate document number', 500);
+      }
+
+      return Number(data);
+    },
+    { delimiter: config.delimiter, period: config.resetsYearly ? period : null },
+  );
+};
@@ -0,0 +1,420 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const TARIFF_CHARGE_TYPES = ['room', 'bed', 'medication', 'lab', 'service', 'procedure', 'consultation', 'other'] as const;
+export const PAYER_TYPES = ['self_pay', 'tpa'] as const;
+
+export type TariffChargeType = (typeof TARIFF_CHARGE_TYPES)[number];
+export type PayerType = (typeof PAYER_TYPES)[number];
+
+export const PRICE_LIST_SELECT = `
+  id,
+  code,
+  name,
+  description,
+  payer_type,
+  tpa_partner_id,
+  room_type,
+  is_default,
+  is_active,
+  created_by,
+  created_at,
+  updated_at
+`;
+
+export const PRICE_LIST_VERSION_SELECT = `
+  id,
+  price_list_id,
+  version_number,
+  status,
+  effective_from,
+  notes,
+  created_by,
+  published_by,
+  published_at,
+  created_at
+`;
+
+export const TARIFF_ITEM_SELECT = `
+  id,
+  price_list_version_id,
+  charge_type,
+  reference_id,
+  charge_code,
+  item_name,
+  unit,
+  unit_price,
+  created_at
+`;
+
+// Bill items in the charge ledger use a few historic item_type values; map them onto tariff charge types.
+const ITEM_TYPE_CHARGE_TYPES: Record<string, TariffChargeType> = {
+  room: 'room',
+  bed: 'bed',
+  medication: 'medication',
+  lab: 'lab',
+  service: 'service',
+  procedure: 'procedure',
+  consultation: 'consultation',
+};
+
+export interface TariffLayer {
+  priceList: { id: string; code: string; name: string };
+  version: { id: string; version_number: number };
+  items: any[];
+}
+
+// Price lists consulted in order: the admission's own list first, then the hospital default.
+export interface TariffContext {
+  layers: TariffLayer[];
+}
+
+export interface TariffLookup {
+  chargeType: TariffChargeType;
+  referenceIds?: Array<string | null | undefined>;
+  chargeCode?: string | null;
+  fallbackPrice?: number | null;
+}
+
+export interface ResolvedPrice {
+  unit_price: number;
+  price_list_id: string | null;
+  price_list_version_id: string | null;
+  price_list_version: number | null;
+  tariff_item_id: string | null;
+}
+
+export const isTariffChargeType = (value: unknown): value is TariffChargeType =>
+  typeof value === 'string' && (TARIFF_CHARGE_TYPES as readonly string[]).includes(value);
+
+export const isPayerType = (value: unknown): value is PayerType =>
+  typeof value === 'string' && (PAYER_TYPES as readonly string[]).includes(value);
+
+export const chargeTypeForItemType = (itemType: string | null | undefined): TariffChargeType =>
+  ITEM_TYPE_CHARGE_TYPES[itemType ?? ''] ?? 'other';
+
+const fetchActivePriceLists = async () => {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select(PRICE_LIST_SELECT)
+    .eq('is_active', true);
+
+  if (error) {
+    logger.error('Failed to fetch price lists', { error: error.message });
+    throw createError('Failed to fetch price lists', 500);
+  }
+
+  return data ?? [];
+};
+
+// The latest published version that has taken effect by `at`.
+export const fetchEffectiveVersion = async (priceListId: string, at: Date = new Date()) => {
+  const { data, error } = await supabase
+    .from('price_list_versions')
+    .select(PRICE_LIST_VERSION_SELECT)
+    .eq('price_list_id', priceListId)
+    .eq('status', 'published')
+    .lte('effective_from', at.toISOString())
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch effective price list version', { priceListId, error: error.message });
+    throw createError('Failed to fetch price list version', 500);
+  }
+
+  return data;
+};
+
+export const fetchTariffItems = async (versionId: string) => {
+  const { data, error } = await supabase
+    .from('tariff_items')
+    .select(TARIFF_ITEM_SELECT)
+    .eq('price_list_version_id', versionId);
+
+  if (error) {
+    logger.error('Failed to fetch tariff items', { versionId, error: error.message });
+    throw createError('Failed to fetch tariff items', 500);
+  }
+
+  return data ?? [];
+};
+
+const loadLayer = async (priceList: any, at: Date): Promise<TariffLayer | null> => {
+  const version = await fetchEffectiveVersion(priceList.id, at);
+  if (!version) {
+    logger.warn('Price list has no published version in effect', { priceListId: priceList.id, at: at.toISOString() });
+    return null;
+  }
+
+  return {
+    priceList: { id: priceList.id, code: priceList.code, name: priceList.name },
+    version: { id: version.id, version_number: version.version_number },
+    items: await fetchTariffItems(version.id),
+  };
+};
+
+// Pick the admission's price list: an explicit assignment wins, then the payer (TPA on an open
+// claim, otherwise self-pay) narrowed by the admitted room type.
+const selectAdmissionPriceList = async (admissionId: string, priceLists: any[]) => {
+  const { data: admission, error } = await supabase
+    .from('admissions')
+    .select('id, price_list_id, rooms ( room_type )')
+    .eq('id', admissionId)
+    .maybeSingle();
+
+  if (error || !admission) {
+    throw createError('Admission not found', 404);
+  }
+
+  if (admission.price_list_id) {
+    return priceLists.find((list) => list.id === admission.price_list_id) ?? null;
+  }
+
+  const { data: claim } = await supabase
+    .from('insurance_claims')
+    .select('tpa_partner_id')
+    .eq('admission_id', admissionId)
+    .neq('status', 'rejected')
+    .not('tpa_partner_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const roomType = String((admission as any).rooms?.room_type ?? '').toLowerCase();
+  const candidates = claim?.tpa_partner_id
+    ? priceLists.filter((list) => list.payer_type === 'tpa' && list.tpa_partner_id === claim.tpa_partner_id)
+    : priceLists.filter((list) => list.payer_type === 'self_pay' && !list.is_default);
+
+  return (
+    candidates.find((list) => roomType && String(list.room_type ?? '').toLowerCase() === roomType) ??
+    candidates.find((list) => !list.room_type) ??
+    null
+  );
+};
+
+export const loadTariffContext = async (
+  options: { admissionId?: string | null; priceListId?: string | null; at?: Date } = {}
+): Promise<TariffContext> => {
+  const at = options.at ?? new Date();
+  const priceLists = await fetchActivePriceLists();
+
+  let selected: any = null;
+  if (options.priceListId) {
+    selected = priceLists.find((list) => list.id === options.priceListId);
+    if (!selected) {
+      throw createError('Price list not found or inactive', 404);
+    }
+  } else if (options.admissionId) {
+    selected = await selectAdmissionPriceList(options.admissionId, priceLists);
+  }
+
+  const defaultList = priceLists.find((list) => list.is_default);
+  const lists = [selected, defaultList].filter(
+    (list, index, all) => list && all.findIndex((other) => other?.id === list.id) === index
+  );
+
+  const layers: TariffLayer[] = [];
+  for (const list of lists) {
+    const layer = await loadLayer(list, at);
+    if (layer) {
+      layers.push(layer);
+    }
+  }
+
+  return { layers };
+};
+
+const findTariffItem = (items: any[], lookup: TariffLookup) => {
+  const sameType = items.filter((item) => item.charge_type === lookup.chargeType);
+
+  for (const referenceId of lookup.referenceIds ?? []) {
+    if (!referenceId) continue;
+    const match = sameType.find((item) => item.reference_id === referenceId);
+    if (match) return match;
+  }
+
+  const code = lookup.chargeCode?.trim().toLowerCase();
+  return code ? sameType.find((item) => !item.reference_id && String(item.charge_code ?? '').toLowerCase() === code) : undefined;
+};
+
+// Resolve a unit price from the tariff; fall back to the source's own price only when no
+// tariff covers the charge. Alternative lookups are tried in order within each price list, so
+// a payer-specific list always wins over the default. Returns null when nothing prices it.
+export const resolveTariffPrice = (
+  context: TariffContext,
+  lookup: TariffLookup | TariffLookup[]
+): ResolvedPrice | null => {
+  const lookups = Array.isArray(lookup) ? lookup : [lookup];
+
+  for (const layer of context.layers) {
+    for (const candidate of lookups) {
+      const item = findTariffItem(layer.items, candidate);
+      if (item) {
+        return {
+          unit_price: roundCurrency(Number(item.unit_price || 0)),
+          price_list_id: layer.priceList.id,
+          price_list_version_id: layer.version.id,
+          price_list_version: layer.version.version_number,
+          tariff_item_id: item.id,
+        };
+      }
+    }
+  }
+
+  const fallback = Number(lookups.find((candidate) => Number(candidate.fallbackPrice ?? 0) > 0)?.fallbackPrice ?? 0);
+  if (fallback > 0) {
+    return {
+      unit_price: roundCurrency(fallback),
+      price_list_id: null,
+      price_list_version_id: null,
+      price_list_version: null,
+      tariff_item_id: null,
+    };
+  }
+
+  return null;
+};
+
+// Bed-specific rent beats the room's own rate, which beats the room-type rate.
+export const resolveRoomTariff = (
+  context: TariffContext,
+  room: { roomId?: string | null; bedId?: string | null; roomType?: string | null; fallbackPrice?: number | null }
+) =>
+  resolveTariffPrice(context, [
+    { chargeType: 'bed', referenceIds: [room.bedId] },
+    { chargeType: 'room', referenceIds: [room.roomId], chargeCode: room.roomType, fallbackPrice: room.fallbackPrice },
+  ]);
+
+export const tariffStamp = (price: ResolvedPrice | null) => ({
+  price_list_id: price?.price_list_id ?? null,
+  price_list_version_id: price?.price_list_version_id ?? null,
+  price_list_version: price?.price_list_version ?? null,
+  tariff_item_id: price?.tariff_item_id ?? null,
+});
+
+export const createPriceListVersion = async (
+  priceListId: string,
+  options: { copyFromVersionId?: string | null; notes?: string | null; createdBy?: string | null } = {}
+) => {
+  const { data: latest } = await supabase
+    .from('price_list_versions')
+    .select('version_number')
+    .eq('price_list_id', priceListId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: version, error } = await supabase
+    .from('price_list_versions')
+    .insert({
+      price_list_id: priceListId,
+      version_number: Number(latest?.version_number ?? 0) + 1,
+      status: 'draft',
+      notes: options.notes || null,
+      created_by: options.createdBy ?? null,
+    })
+    .select(PRICE_LIST_VERSION_SELECT)
+    .single();
+
+  if (error || !version) {
+    logger.error('Failed to create price list version', { priceListId, error: error?.message });
+    throw createError('Failed to create price list version', 500);
+  }
+
+  if (options.copyFromVersionId) {
+    const sourceItems = await fetchTariffItems(options.copyFromVersionId);
+    if (sourceItems.length) {
+      const { error: copyError } = await supabase
+        .from('tariff_items')
+        .insert(
+          sourceItems.map(({ id, created_at, ...item }) => ({ ...item, price_list_version_id: version.id }))
+        );
+
+      if (copyError) {
+        logger.error('Failed to copy tariff items into new version', {
+          versionId: version.id,
+          copyFromVersionId: options.copyFromVersionId,
+          error: copyError.message,
+        });
+        throw createError('Failed to copy tariff items', 500);
+      }
+    }
+  }
+
+  logger.info('Price list version created', {
+    priceListId,
+    versionId: version.id,
+    versionNumber: version.version_number,
+    copyFromVersionId: options.copyFromVersionId ?? null,
+  });
+
+  return version;
+};
+
+export const fetchPriceListVersion = async (versionId: string) => {
+  const { data, error } = await supabase
+    .from('price_list_versions')
+    .select(PRICE_LIST_VERSION_SELECT)
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw createError('Price list version not found', 404);
+  }
+
+  return data;
+};
+
+// Published versions are frozen so bill items stamped with them stay reproducible.
+export const assertVersionEditable = async (versionId: string) => {
+  const version = await fetchPriceListVersion(versionId);
+  if (version.status !== 'draft') {
+    throw createError('Only draft price list versions can be edited; create a new version instead', 409);
+  }
+  return version;
+};
+
+export const publishPriceListVersion = async (
+  versionId: string,
+  options: { effectiveFrom?: string | null; publishedBy?: string | null } = {}
+) => {
+  const version = await assertVersionEditable(versionId);
+  const effectiveFrom = options.effectiveFrom ? new Date(options.effectiveFrom) : new Date();
+
+  if (Number.isNaN(effectiveFrom.getTime())) {
+    throw createError('effective_from must be a valid date', 400);
+  }
+
+  const { data, error } = await supabase
+    .from('price_list_versions')
+    .update({
+      status: 'published',
+      effective_from: effectiveFrom.toISOString(),
+      published_by: options.publishedBy ?? null,
+      published_at: new Date().toISOString(),
+    })
+    .eq('id', versionId)
+    .select(PRICE_LIST_VERSION_SELECT)
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to publish price list version', { versionId, error: error?.message });
+    throw createError('Failed to publish price list version', 500);
+  }
+
+  logger.info('Price list version published', {
+    priceListId: version.price_list_id,
+    versionId,
+    versionNumber: version.version_number,
+    effectiveFrom: data.effective_from,
+    publishedBy: options.publishedBy,
+  });
+
+  return data;
+};
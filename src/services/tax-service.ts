@@ -0,0 +1,253 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { recalculateInvoicePayments, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const TAX_CATEGORIES = {
+  exempt: { label: 'Exempt', rate: 0 },
+  gst_5: { label: 'GST 5%', rate: 5 },
+  gst_12: { label: 'GST 12%', rate: 12 },
+  gst_18: { label: 'GST 18%', rate: 18 },
+} as const;
+
+export type TaxCategory = keyof typeof TAX_CATEGORIES;
+export type SupplyType = 'intra_state' | 'inter_state';
+
+// Healthcare services (SAC 9993) are exempt; medicines default to HSN 3004 at 12% unless the catalog says otherwise.
+const ITEM_TYPE_TAX_DEFAULTS: Record<string, { tax_category: TaxCategory; hsn_sac_code: string }> = {
+  medication: { tax_category: 'gst_12', hsn_sac_code: '3004' },
+};
+const SERVICE_TAX_DEFAULT = { tax_category: 'exempt' as TaxCategory, hsn_sac_code: '9993' };
+
+export interface LineTax {
+  tax_category: TaxCategory;
+  hsn_sac_code: string | null;
+  tax_rate: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxSummaryRow {
+  hsn_sac_code: string | null;
+  tax_category: TaxCategory;
+  tax_rate: number;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+}
+
+export const isTaxCategory = (value: unknown): value is TaxCategory =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TAX_CATEGORIES, value);
+
+export const isSupplyType = (value: unknown): value is SupplyType =>
+  value === 'intra_state' || value === 'inter_state';
+
+export const resolveItemTaxDefaults = (
+  itemType: string | null | undefined,
+  overrides: { tax_category?: unknown; hsn_sac_code?: unknown } = {}
+) => {
+  if (overrides.tax_category !== undefined && overrides.tax_category !== null && !isTaxCategory(overrides.tax_category)) {
+    throw createError(`tax_category must be one of: ${Object.keys(TAX_CATEGORIES).join(', ')}`, 400);
+  }
+
+  const defaults = ITEM_TYPE_TAX_DEFAULTS[itemType ?? ''] ?? SERVICE_TAX_DEFAULT;
+
+  return {
+    tax_category: (overrides.tax_category as TaxCategory | undefined) ?? defaults.tax_category,
+    hsn_sac_code: (typeof overrides.hsn_sac_code === 'string' && overrides.hsn_sac_code.trim()) || defaults.hsn_sac_code,
+  };
+};
+
+export const computeLineTax = (
+  taxableAmount: number,
+  taxCategory: TaxCategory,
+  hsnSacCode: string | null,
+  supplyType: SupplyType = 'intra_state'
+): LineTax => {
+  const rate = TAX_CATEGORIES[taxCategory].rate;
+  const taxAmount = roundCurrency((Number(taxableAmount || 0) * rate) / 100);
+
+  // CGST/SGST each take half; any odd paisa goes to SGST so the two always add back to the total
+  const cgst = supplyType === 'intra_state' ? roundCurrency(taxAmount / 2) : 0;
+  const sgst = supplyType === 'intra_state' ? roundCurrency(taxAmount - cgst) : 0;
+
+  return {
+    tax_category: taxCategory,
+    hsn_sac_code: hsnSacCode,
+    tax_rate: rate,
+    cgst_amount: cgst,
+    sgst_amount: sgst,
+    igst_amount: supplyType === 'inter_state' ? taxAmount : 0,
+    tax_amount: taxAmount,
+  };
+};
+
+// Attach per-line GST to bill items that already carry tax_category / hsn_sac_code (or fall back to item type defaults).
+export const applyLineTaxes = <T extends Record<string, any>>(items: T[], supplyType: SupplyType = 'intra_state') =>
+  items.map((item) => {
+    const { tax_category, hsn_sac_code } = resolveItemTaxDefaults(item.item_type, item);
+    return {
+      ...item,
+      ...computeLineTax(Number(item.total_price || 0), tax_category, hsn_sac_code, supplyType),
+    };
+  });
+
+export const summarizeTaxes = (items: any[], discountRatio = 1): TaxSummaryRow[] => {
+  const groups = new Map<string, TaxSummaryRow>();
+
+  items.forEach((item) => {
+    const taxCategory: TaxCategory = isTaxCategory(item.tax_category) ? item.tax_category : 'exempt';
+    const key = `${item.hsn_sac_code ?? ''}|${taxCategory}`;
+    const row = groups.get(key) ?? {
+      hsn_sac_code: item.hsn_sac_code ?? null,
+      tax_category: taxCategory,
+      tax_rate: TAX_CATEGORIES[taxCategory].rate,
+      taxable_amount: 0,
+      cgst_amount: 0,
+      sgst_amount: 0,
+      igst_amount: 0,
+      tax_amount: 0,
+    };
+
+    row.taxable_amount += Number(item.total_price || 0) * discountRatio;
+    row.cgst_amount += Number(item.cgst_amount || 0) * discountRatio;
+    row.sgst_amount += Number(item.sgst_amount || 0) * discountRatio;
+    row.igst_amount += Number(item.igst_amount || 0) * discountRatio;
+    row.tax_amount += Number(item.tax_amount || 0) * discountRatio;
+    groups.set(key, row);
+  });
+
+  return Array.from(groups.values())
+    .map((row) => ({
+      ...row,
+      taxable_amount: roundCurrency(row.taxable_amount),
+      cgst_amount: roundCurrency(row.cgst_amount),
+      sgst_amount: roundCurrency(row.sgst_amount),
+      igst_amount: roundCurrency(row.igst_amount),
+      tax_amount: roundCurrency(row.tax_amount),
+    }))
+    .sort((a, b) => a.tax_rate - b.tax_rate || String(a.hsn_sac_code).localeCompare(String(b.hsn_sac_code)));
+};
+
+export interface InvoicePricing {
+  total_amount?: number | null;
+  discount_type?: string | null;
+  discount_value?: number | null;
+  include_gst?: boolean | null;
+  gst_rate?: number | null;
+  gst_mode?: string | null;
+  tax_total?: number | null;
+}
+
+export const calculateDiscountedSubtotal = (invoice: InvoicePricing): number => {
+  const totalAmount = Number(invoice.total_amount || 0);
+  const discountValue = Number(invoice.discount_value || 0);
+
+  if (invoice.discount_type === 'percentage' && discountValue > 0) {
+    return totalAmount * (1 - discountValue / 100);
+  }
+  if (invoice.discount_type === 'fixed' && discountValue > 0) {
+    return Math.max(0, totalAmount - discountValue);
+  }
+  return totalAmount;
+};
+
+// Share of each line left after the invoice discount; line taxes are scaled by the same factor.
+export const calculateDiscountRatio = (invoice: InvoicePricing): number => {
+  const totalAmount = Number(invoice.total_amount || 0);
+  return totalAmount > 0 ? calculateDiscountedSubtotal(invoice) / totalAmount : 1;
+};
+
+export const calculateInvoiceGst = (invoice: InvoicePricing): number => {
+  if (invoice.gst_mode === 'line') {
+    return roundCurrency(Number(invoice.tax_total || 0) * calculateDiscountRatio(invoice));
+  }
+
+  const gstRate = Number(invoice.gst_rate ?? 18);
+  return invoice.include_gst ? roundCurrency((calculateDiscountedSubtotal(invoice) * gstRate) / 100) : 0;
+};
+
+// Discount is applied before GST, matching how PATCH /:id/status has always priced invoices.
+export const calculateAmountPayable = (invoice: InvoicePricing): number =>
+  roundCurrency(calculateDiscountedSubtotal(invoice) + calculateInvoiceGst(invoice));
+
+// Totals, GST and amount payable for an invoice carrying these bill items
+export const computeInvoiceTotals = (invoice: InvoicePricing, items: any[]): Record<string, any> => {
+  const sum = (field: string) => roundCurrency(items.reduce((acc, item: any) => acc + Number(item[field] || 0), 0));
+
+  const totals: Record<string, any> = {
+    total_amount: sum('total_price'),
+    cgst_total: sum('cgst_amount'),
+    sgst_total: sum('sgst_amount'),
+    igst_total: sum('igst_amount'),
+    tax_total: sum('tax_amount'),
+  };
+
+  const pricing = { ...invoice, ...totals };
+  const gstAmount = calculateInvoiceGst(pricing);
+  const amountPayable = calculateAmountPayable(pricing);
+
+  const updates: Record<string, any> = {
+    ...totals,
+    amount_payable: amountPayable,
+  };
+
+  if (invoice.gst_mode === 'line') {
+    updates.include_gst = totals.tax_total > 0;
+    updates.gst_amount = gstAmount;
+    updates.total_with_gst = amountPayable;
+  }
+
+  return updates;
+};
+
+// Re-derive totals, GST and amount payable from the invoice's bill items.
+export const refreshInvoiceTotals = async (invoiceId: string) => {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, gst_mode, supply_type, discount_type, discount_value, include_gst, gst_rate')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('bill_items')
+    .select('total_price, cgst_amount, sgst_amount, igst_amount, tax_amount')
+    .eq('invoice_id', invoiceId);
+
+  if (itemsError) {
+    logger.error('Failed to fetch bill items for invoice totals', { invoiceId, error: itemsError.message });
+    throw createError('Failed to fetch bill items', 500);
+  }
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ ...computeInvoiceTotals(invoice, items ?? []), updated_at: new Date().toISOString() })
+    .eq('id', invoiceId);
+
+  if (error) {
+    logger.error('Failed to refresh invoice totals', { invoiceId, error: error.message });
+    throw createError('Failed to update invoice totals', 500);
+  }
+
+  return recalculateInvoicePayments(invoiceId);
+};
+
+export const fetchInvoiceSupplyType = async (invoiceId: string): Promise<SupplyType> => {
+  const { data } = await supabase
+    .from('invoices')
+    .select('supply_type')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  return isSupplyType(data?.supply_type) ? data.supply_type : 'intra_state';
+};
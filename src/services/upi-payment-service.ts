@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import QRCode from 'qrcode';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { env } from '../config/env.js';
+import { recordPayment, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const PAYMENT_GATEWAY_EVENT_SELECT = `
+  id,
+  event_id,
+  event_type,
+  gateway_payment_id,
+  invoice_number,
+  invoice_id,
+  amount,
+  status,
+  payment_id,
+  error,
+  received_at
+`;
+
+// Callbacks signed more than this long ago are refused as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface GatewayCallback {
+  event_id: string;
+  event: string;
+  data: {
+    gateway_payment_id: string;
+    amount: number;
+    currency?: string;
+    method?: string;
+    vpa?: string | null;
+    rrn?: string | null;
+    transaction_note?: string | null;
+    paid_at?: string | null;
+  };
+}
+
+export interface UpiPaymentQr {
+  uri: string;
+  amount: number;
+  qrCode: Buffer;
+}
+
+// upi://pay intent understood by every UPI app; the invoice number goes in as note and reference
+export const buildUpiIntentUri = (amount: number, invoiceNumber: string): string | null => {
+  if (!env.UPI_VPA || !(amount > 0)) {
+    return null;
+  }
+
+  const params = new URLSearchParams({
+    pa: env.UPI_VPA,
+    pn: env.UPI_PAYEE_NAME,
+    am: roundCurrency(amount).toFixed(2),
+    cu: 'INR',
+    tn: invoiceNumber,
+    tr: invoiceNumber,
+  });
+
+  // Some UPI apps reject an encoded @ in the payee address
+  return `upi://pay?${params.toString().replace(/\+/g, '%20').replace(/%40/g, '@')}`;
+};
+
+// QR for what the patient still owes on an invoice; null when nothing is due or UPI is not configured.
+export const buildUpiPaymentQr = async (invoice: any): Promise<UpiPaymentQr | null> => {
+  if (!invoice?.invoice_number || invoice.lifecycle_status === 'cancelled') {
+    return null;
+  }
+
+  const amount = roundCurrency(Number(invoice.patient_balance ?? invoice.balance ?? 0));
+  const uri = buildUpiIntentUri(amount, invoice.invoice_number);
+  if (!uri) {
+    return null;
+  }
+
+  return {
+    uri,
+    amount,
+    qrCode: await QRCode.toBuffer(uri, { errorCorrectionLevel: 'M', margin: 1 }),
+  };
+};
+
+export const signGatewayPayload = (rawBody: string | Buffer, timestamp: string, secret: string = env.PAYMENT_GATEWAY_WEBHOOK_SECRET) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+// HMAC-SHA256 over "<timestamp>.<raw body>" with the shared webhook secret
+export const verifyGatewaySignature = (rawBody: Buffer, signature?: string | null, timestamp?: string | null) => {
+  if (!env.PAYMENT_GATEWAY_WEBHOOK_SECRET) {
+    throw createError('Payment gateway webhook is not configured', 503);
+  }
+  if (!signature || !timestamp) {
+    throw createError('Missing gateway signature', 401);
+  }
+
+  const signedAt = Number(timestamp);
+  if (!Number.isFinite(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw createError('Gateway signature has expired', 401);
+  }
+
+  const expected = Buffer.from(signGatewayPayload(rawBody, timestamp), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw createError('Invalid gateway signature', 401);
+  }
+};
+
+const logGatewayEvent = async (callback: GatewayCallback, entry: Record<string, any>) => {
+  const { data, error } = await supabase
+    .from('payment_gateway_events')
+    .insert({
+      event_id: callback.event_id,
+      event_type: callback.event,
+      gateway_payment_id: callback.data?.gateway_payment_id ?? null,
+      amount: Number.isFinite(Number(callback.data?.amount)) ? roundCurrency(Number(callback.data.amount)) : null,
+      payload: callback,
+      ...entry,
+    })
+    .select(PAYMENT_GATEWAY_EVENT_SELECT)
+    .single();
+
+  if (error) {
+    logger.error('Failed to log payment gateway event', { eventId: callback.event_id, error: error.message });
+  }
+
+  return data;
+};
+
+const updateGatewayEvent = async (eventRowId: string, entry: Record<string, any>) => {
+  const { data, error } = await supabase
+    .from('payment_gateway_events')
+    .update(entry)
+    .eq('id', eventRowId)
+    .select(PAYMENT_GATEWAY_EVENT_SELECT)
+    .single();
+
+  if (error) {
+    logger.error('Failed to update payment gateway event', { eventRowId, error: error.message });
+  }
+
+  return data;
+};
+
+// Claim the callback before any money moves: the event id and the gateway payment id are unique
+// while an event is processing or posted, so a concurrent redelivery fails here with 23505.
+const claimGatewayEvent = async (callback: GatewayCallback) => {
+  const { data, error } = await supabase
+    .from('payment_gateway_events')
+    .insert({
+      event_id: callback.event_id,
+      event_type: callback.event,
+      gateway_payment_id: callback.data.gateway_payment_id ?? null,
+      amount: Number.isFinite(Number(callback.data.amount)) ? roundCurrency(Number(callback.data.amount)) : null,
+      payload: callback,
+      status: 'processing',
+    })
+    .select(PAYMENT_GATEWAY_EVENT_SELECT)
+    .single();
+
+  if (error && error.code !== '23505') {
+    logger.error('Failed to claim payment gateway event', { eventId: callback.event_id, error: error.message });
+    throw createError('Failed to record gateway callback', 500);
+  }
+
+  return { claimed: error ? null : data, duplicate: Boolean(error) };
+};
+
+// Post a successful UPI payment against the invoice named in its transaction note. Redelivered
+// events return what was recorded the first time. Simulated callbacks are posted with a SIM
+// reference and a note saying no money was received, so they stand out in the ledger.
+export const processGatewayCallback = async (callback: GatewayCallback, options: { simulated?: boolean } = {}) => {
+  if (!callback?.event_id || !callback.event || !callback.data) {
+    throw createError('Malformed gateway callback', 400);
+  }
+
+  const { data: existing } = await supabase
+    .from('payment_gateway_events')
+    .select(PAYMENT_GATEWAY_EVENT_SELECT)
+    .eq('event_id', callback.event_id)
+    .maybeSingle();
+
+  if (existing) {
+    return existing;
+  }
+
+  if (callback.event !== 'payment.success') {
+    return logGatewayEvent(callback, { status: 'ignored' });
+  }
+
+  const { claimed, duplicate } = await claimGatewayEvent(callback);
+
+  if (duplicate || !claimed) {
+    const { data: sameEvent } = await supabase
+      .from('payment_gateway_events')
+      .select(PAYMENT_GATEWAY_EVENT_SELECT)
+      .eq('event_id', callback.event_id)
+      .maybeSingle();
+
+    if (sameEvent) {
+      return sameEvent;
+    }
+
+    // A different event for a gateway payment that is already being posted or was posted
+    return logGatewayEvent(callback, { status: 'ignored', error: 'Gateway payment already posted' });
+  }
+
+  const { data } = callback;
+  const invoiceNumber = String(data.transaction_note ?? '').trim();
+  const amount = roundCurrency(Number(data.amount));
+
+  const { data: invoice } = invoiceNumber
+    ? await supabase.from('invoices').select('id').eq('invoice_number', invoiceNumber).maybeSingle()
+    : { data: null };
+
+  if (!invoice) {
+    logger.warn('Gateway payment did not match an invoice', { eventId: callback.event_id, invoiceNumber });
+    return updateGatewayEvent(claimed.id, { status: 'unmatched', invoice_number: invoiceNumber || null, error: 'No invoice with that number' });
+  }
+
+  if (data.currency && data.currency !== 'INR') {
+    return updateGatewayEvent(claimed.id, { status: 'failed', invoice_number: invoiceNumber, invoice_id: invoice.id, error: `Unsupported currency ${data.currency}` });
+  }
+
+  try {
+    const { payment } = await recordPayment({
+      invoiceId: invoice.id,
+      amount,
+      paymentMethod: 'upi',
+      paymentReference: options.simulated
+        ? `SIM-${data.gateway_payment_id}`
+        : data.rrn || data.gateway_payment_id,
+      paymentDate: data.paid_at ?? null,
+      notes: options.simulated
+        ? `SIMULATED gateway payment, no money received (${data.gateway_payment_id})`
+        : `Auto-posted from payment gateway (${data.gateway_payment_id}${data.vpa ? `, ${data.vpa}` : ''})`,
+      collectedBy: null,
+    });
+
+    logger.info('Gateway payment posted', { eventId: callback.event_id, invoiceId: invoice.id, paymentId: payment.id, amount });
+
+    return updateGatewayEvent(claimed.id, { status: 'posted', invoice_number: invoiceNumber, invoice_id: invoice.id, payment_id: payment.id });
+  } catch (error: any) {
+    // Money has been taken; leave the callback for manual reconciliation rather than asking the gateway to retry
+    logger.error('Gateway payment could not be posted', { eventId: callback.event_id, invoiceId: invoice.id, error: error?.message });
+    return updateGatewayEvent(claimed.id, { status: 'failed', invoice_number: invoiceNumber, invoice_id: invoice.id, error: error?.message ?? String(error) });
+  }
+};
+
+// A callback shaped and signed exactly as the gateway would send it, for local testing.
+export const buildSimulatedCallback = (invoiceNumber: string, amount: number, vpa = 'patient@upi') => {
+  const nowIso = new Date().toISOString();
+  const callback: GatewayCallback = {
+    event_id: `evt_sim_${crypto.randomUUID()}`,
+    event: 'payment.success',
+    data: {
+      gateway_payment_id: `pay_sim_${crypto.randomBytes(8).toString('hex')}`,
+      amount: roundCurrency(amount),
+      currency: 'INR',
+      method: 'upi',
+      vpa,
+      rrn: String(Date.now()).slice(-12),
+      transaction_note: invoiceNumber,
+      paid_at: nowIso,
+    },
+  };
+  const rawBody = JSON.stringify(callback);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  return { rawBody, timestamp, signature: signGatewayPayload(rawBody, timestamp) };
+};
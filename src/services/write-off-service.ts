@@ -0,0 +1,218 @@
+import { createClient } from '@supabase/supabase-js';
+import { createError } from '../middlewares/errorHandler.js';
+import { logger } from '../utils/logger.js';
+import { recalculateInvoicePayments, roundCurrency } from './payment-service.js';
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+export const WRITE_OFF_REASON_CODES = [
+  'bad_debt',
+  'patient_deceased',
+  'untraceable',
+  'financial_hardship',
+  'small_balance',
+  'other',
+] as const;
+export type WriteOffReasonCode = (typeof WRITE_OFF_REASON_CODES)[number];
+
+export const WRITE_OFF_SELECT = `
+  id,
+  invoice_id,
+  amount,
+  reason_code,
+  notes,
+  status,
+  requested_by,
+  approved_by,
+  approved_at,
+  rejection_reason,
+  created_at,
+  updated_at
+`;
+
+export interface WriteOffInput {
+  amount?: number | null;
+  reasonCode: unknown;
+  notes?: string | null;
+  requestedBy: string | null;
+}
+
+export const isWriteOffReasonCode = (value: unknown): value is WriteOffReasonCode =>
+  typeof value === 'string' && (WRITE_OFF_REASON_CODES as readonly string[]).includes(value);
+
+const fetchWriteOffInvoice = async (invoiceId: string) => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, lifecycle_status, balance, patient_balance, written_off_amount')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error || !invoice) {
+    throw createError('Invoice not found', 404);
+  }
+
+  return invoice;
+};
+
+// Only the patient's share can be written off; an insurer's dues are settled through the claim.
+const writableBalance = (invoice: any) => roundCurrency(Number(invoice.patient_balance ?? invoice.balance ?? 0));
+
+export const requestWriteOff = async (invoiceId: string, { amount, reasonCode, notes, requestedBy }: WriteOffInput) => {
+  if (!isWriteOffReasonCode(reasonCode)) {
+    throw createError(`reason_code must be one of: ${WRITE_OFF_REASON_CODES.join(', ')}`, 400);
+  }
+  if (reasonCode === 'other' && !notes?.trim()) {
+    throw createError('notes are required when reason_code is other', 400);
+  }
+
+  const invoice = await fetchWriteOffInvoice(invoiceId);
+
+  if (invoice.lifecycle_status !== 'final') {
+    throw createError('Only final invoices can be written off', 409);
+  }
+
+  const balance = writableBalance(invoice);
+  const writeOffAmount = amount === undefined || amount === null ? balance : roundCurrency(Number(amount));
+
+  if (!Number.isFinite(writeOffAmount) || writeOffAmount <= 0) {
+    throw createError('Write-off amount must be greater than zero', 400);
+  }
+  if (writeOffAmount > balance) {
+    throw createError(`Write-off exceeds the patient balance of ${balance.toFixed(2)}`, 400);
+  }
+
+  const { data: writeOff, error } = await supabase
+    .from('invoice_write_offs')
+    .insert({
+      invoice_id: invoiceId,
+      amount: writeOffAmount,
+      reason_code: reasonCode,
+      notes: notes?.trim() || null,
+      status: 'pending',
+      requested_by: requestedBy,
+    })
+    .select(WRITE_OFF_SELECT)
+    .single();
+
+  if (error?.code === '23505') {
+    throw createError('A write-off is already pending for this invoice', 409);
+  }
+  if (error || !writeOff) {
+    logger.error('Failed to create write-off request', { invoiceId, error: error?.message });
+    throw createError('Failed to create write-off request', 500);
+  }
+
+  logger.info('Write-off requested', {
+    writeOffId: writeOff.id,
+    invoiceId,
+    invoiceNumber: invoice.invoice_number,
+    amount: writeOffAmount,
+    reasonCode,
+    requestedBy,
+  });
+
+  return writeOff;
+};
+
+export const reviewWriteOff = async (
+  writeOffId: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string | null,
+  options: { rejectionReason?: string | null } = {}
+) => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('invoice_write_offs')
+    .select(WRITE_OFF_SELECT)
+    .eq('id', writeOffId)
+    .maybeSingle();
+
+  if (fetchError || !existing) {
+    throw createError('Write-off not found', 404);
+  }
+
+  if (existing.status !== 'pending') {
+    throw createError(`Write-off is already ${existing.status}`, 400);
+  }
+
+  // Two people have to be on record, so an unidentified reviewer cannot decide one
+  if (!reviewedBy) {
+    throw createError('Write-offs can only be reviewed by an identified staff member', 403);
+  }
+
+  if (existing.requested_by === reviewedBy) {
+    throw createError('A write-off must be approved by someone other than the requester', 403);
+  }
+
+  if (decision === 'rejected' && !options.rejectionReason?.trim()) {
+    throw createError('rejection_reason is required', 400);
+  }
+
+  let invoice: any = null;
+  if (decision === 'approved') {
+    invoice = await fetchWriteOffInvoice(existing.invoice_id);
+
+    if (invoice.lifecycle_status !== 'final') {
+      throw createError('Only final invoices can be written off', 409);
+    }
+    // Payments may have come in while the request waited
+    if (Number(existing.amount) > writableBalance(invoice)) {
+      throw createError(`Write-off exceeds the current patient balance of ${writableBalance(invoice).toFixed(2)}; reject it and raise a new one`, 409);
+    }
+  }
+
+  const nowIso = new Date().toISOString();
+  const updates: Record<string, any> = {
+    status: decision,
+    approved_by: reviewedBy,
+    approved_at: nowIso,
+    updated_at: nowIso,
+  };
+
+  if (decision === 'rejected') {
+    updates.rejection_reason = options.rejectionReason!.trim();
+  }
+
+  const { data: writeOff, error } = await supabase
+    .from('invoice_write_offs')
+    .update(updates)
+    .eq('id', writeOffId)
+    .eq('status', 'pending')
+    .select(WRITE_OFF_SELECT)
+    .single();
+
+  if (error || !writeOff) {
+    logger.error('Failed to review write-off', { writeOffId, decision, error: error?.message });
+    throw createError('Failed to update write-off', 500);
+  }
+
+  if (decision === 'approved') {
+    const { error: invoiceError } = await supabase
+      .from('invoices')
+      .update({
+        written_off_amount: roundCurrency(Number(invoice.written_off_amount || 0) + Number(writeOff.amount)),
+        updated_at: nowIso,
+      })
+      .eq('id', writeOff.invoice_id);
+
+    if (invoiceError) {
+      logger.error('Failed to apply write-off to invoice', { writeOffId, invoiceId: writeOff.invoice_id, error: invoiceError.message });
+      await supabase
+        .from('invoice_write_offs')
+        .update({ status: 'pending', approved_by: null, approved_at: null, updated_at: nowIso })
+        .eq('id', writeOffId);
+      throw createError('Failed to apply write-off to invoice', 500);
+    }
+
+    await recalculateInvoicePayments(writeOff.invoice_id);
+  }
+
+  logger.info(`Write-off ${decision}`, {
+    writeOffId,
+    invoiceId: writeOff.invoice_id,
+    amount: writeOff.amount,
+    reasonCode: writeOff.reason_code,
+    reviewedBy,
+  });
+
+  return writeOff;
+};
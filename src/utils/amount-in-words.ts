@@ -0,0 +1,43 @@
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigits = (value: number): string =>
+  value < 20 ? ONES[value] : `${TENS[Math.floor(value / 10)]}${value % 10 ? ` ${ONES[value % 10]}` : ''}`;
+
+const threeDigits = (value: number): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigits(rest) : ''].filter(Boolean).join(' ');
+};
+
+// Indian grouping: crore (10^7), lakh (10^5), thousand, hundred. Amounts of a thousand crore
+// and more keep counting in crores ("One Thousand Crore").
+const integerInWords = (value: number): string => {
+  if (value === 0) {
+    return 'Zero';
+  }
+
+  const crore = Math.floor(value / 10000000);
+  const lakh = Math.floor((value % 10000000) / 100000);
+  const thousand = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+
+  return [
+    crore ? `${integerInWords(crore)} Crore` : '',
+    lakh ? `${twoDigits(lakh)} Lakh` : '',
+    thousand ? `${twoDigits(thousand)} Thousand` : '',
+    rest ? threeDigits(rest) : '',
+  ].filter(Boolean).join(' ');
+};
+
+// 123456.7 -> "Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Seventy Paise Only"
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(Math.max(0, Number(amount) || 0) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${twoDigits(paise)} Paise` : ''} Only`;
+};
@@ -29,3 +29,32 @@ export const generateUniquePrefixedId = async (
 
   throw new Error(`Unable to generate unique ID for prefix ${prefix}`);
 };
+
+interface SequentialIdOptions {
+  delimiter?: string;
+  period?: string | null;
+}
+
+export const formatPrefixedId = (
+  prefix: string,
+  value: number,
+  digits: number,
+  options: SequentialIdOptions = {},
+): string => {
+  const { delimiter = '', period } = options;
+  const suffix = value.toString().padStart(digits, '0');
+  return [prefix, period, suffix].filter(Boolean).join(delimiter);
+};
+
+export const generateSequentialPrefixedId = async (
+  prefix: string,
+  digits: number,
+  nextValueFn: () => Promise<number>,
+  options: SequentialIdOptions = {},
+): Promise<string> => {
+  const value = await nextValueFn();
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`Invalid sequence value for prefix ${prefix}`);
+  }
+  return formatPrefixedId(prefix, value, digits, options);
+};
@@ -0,0 +1,21 @@
+// Hospital days run on Indian Standard Time regardless of the server's timezone.
+export const IST_OFFSET_MINUTES = 330;
+
+const IST_OFFSET_MS = IST_OFFSET_MINUTES * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar date (YYYY-MM-DD) in IST for the given instant.
+export const toIstDateString = (date: Date = new Date()): string =>
+  new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+// UTC instants bounding an IST calendar day: [start, end).
+export const getIstDayBounds = (istDate: string): { start: Date; end: Date } => {
+  const start = new Date(Date.parse(`${istDate}T00:00:00.000Z`) - IST_OFFSET_MS);
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+};
+
+export const addIstDays = (istDate: string, days: number): string =>
+  new Date(Date.parse(`${istDate}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const isIstDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00.000Z`));
@@ -48,6 +48,8 @@ interface SendEmailOptions {
     filename: string;
     content: Buffer;
     contentType: string;
+    // Set for images shown inline in the HTML via src="cid:..."
+    cid?: string;
   }>;
 }
 
@@ -68,7 +70,8 @@ export const sendEmail = async ({ to, subject, html, attachments }: SendEmailOpt
       mailOptions.attachments = attachments.map(attachment => ({
         filename: attachment.filename,
         content: attachment.content,
-        contentType: attachment.contentType
+        contentType: attachment.contentType,
+        ...(attachment.cid ? { cid: attachment.cid } : {})
       }));
     }
 
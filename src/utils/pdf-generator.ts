@@ -16,6 +16,79 @@ interface InvoiceData {
     outcome: string;
     recommendations?: string;
   } | null;
+  settlement?: {
+    interimInvoices: any[];
+    interimInvoicedTotal: number;
+    interimPaidTotal: number;
+    currentCharges: number;
+    currentPaid: number;
+    totalStayCharges: number;
+    netPayable: number;
+  } | null;
+  payerSplit?: {
+    claimNumber: string | null;
+    claimStatus: string;
+    approvedAmount: number | null;
+    copayPercent: number;
+    tpaPartnerName: string | null;
+    nonAdmissibleTotal: number;
+    tpaClaimable: number;
+    tpaPayable: number;
+    tpaPaid: number;
+    tpaBalance: number;
+    patientPayable: number;
+    patientPaid: number;
+    patientBalance: number;
+  } | null;
+  eInvoice?: {
+    irn: string;
+    ackNo: string | null;
+    ackDate: string | null;
+    qrCode: Buffer;
+  } | null;
+  upiPayment?: {
+    uri: string;
+    amount: number;
+    qrCode: Buffer;
+  } | null;
+}
+
+interface CreditNoteData {
+  creditNote: any;
+  items: any[];
+  invoice: any;
+  patientName: string;
+  patientUid?: string | null;
+  requestedByName?: string | null;
+  approvedByName?: string | null;
+}
+
+interface EstimateData {
+  estimate: any;
+  items: any[];
+  preparedByName?: string | null;
+}
+
+interface ReceiptData {
+  payment: any;
+  invoice: any;
+  patientName: string;
+  patientUid?: string | null;
+  collectedByName?: string | null;
+  amountInWords: string;
+  balanceAfter: number;
+}
+
+interface DayBookData {
+  dayBook: any;
+  staffName?: string | null;
+  closedByName?: string | null;
+  generatedBy?: string | null;
+}
+
+interface PatientStatementData {
+  statement: any;
+  generatedBy?: string | null;
 }
 
 interface PatientAuditData {
@@ -61,6 +134,16 @@ const LETTERHEAD_HEADER_HEIGHT = 110;
 const LETTERHEAD_FOOTER_HEIGHT = 70;
 const LETTERHEAD_LINE_COLOR = '#1f4e79';
 
+const INVOICE_TITLES: Record<string, string> = {
+  draft: 'DRAFT BILL',
+  provisional: 'PROVISIONAL BILL',
+  final: 'FINAL BILL',
+  cancelled: 'CANCELLED BILL',
+};
+
+export const getInvoiceTitle = (lifecycleStatus?: string | null): string =>
+  INVOICE_TITLES[lifecycleStatus ?? ''] ?? INVOICE_TITLES.provisional;
+
 const drawLetterheadFrame = (
   doc: PDFKit.PDFDocument,
   leftX: number,
@@ -251,14 +334,23 @@ export const generateInvoicePDF = async (data: InvoiceData): Promise<Buffer> =>
 
       let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
 
-      // Provisional bill title (kept compact so it fits below the letterhead header)
+      // Bill title follows the invoice lifecycle (kept compact so it fits below the letterhead header)
       doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
-      doc.text('PROVISIONAL BILL', leftX, cursorY, {
+      doc.text(getInvoiceTitle(data.invoice.lifecycle_status), leftX, cursorY, {
         align: 'center',
         width: contentWidth,
       });
       cursorY += 22;
 
+      if (data.invoice.period_from && data.invoice.period_to) {
+        doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+        doc.text(`Billing period: ${formatDate(data.invoice.period_from)} to ${formatDate(data.invoice.period_to)}`, leftX, cursorY - 6, {
+          align: 'center',
+          width: contentWidth,
+        });
+        cursorY += 8;
+      }
+
       // Patient Info Section
       cursorY = drawPatientInfoSection(doc, data, leftX, contentWidth, cursorY);
 
@@ -271,9 +363,24 @@ export const generateInvoicePDF = async (data: InvoiceData): Promise<Buffer> =>
       // Medication Specific Table (only if meds exist)
       cursorY = drawMedicationSection(doc, data, leftX, contentWidth, cursorY);
 
+      // GST breakup by HSN/SAC and rate
+      cursorY = drawTaxSummarySection(doc, data, leftX, contentWidth, cursorY);
+
       // Totals Section
       cursorY = drawTotalsSectionOptimized(doc, data, leftX, contentWidth, cursorY);
 
+      // Final settlement: interim bills already invoiced and what was paid against them
+      cursorY = drawSettlementSection(doc, data, leftX, contentWidth, cursorY);
+
+      // Insured admissions: what the insurer owes and what the patient owes
+      cursorY = drawPayerSplitSection(doc, data, leftX, contentWidth, cursorY);
+
+      // Registered e-invoices carry the IRN and the IRP's signed QR code
+      cursorY = drawEInvoiceSection(doc, data, leftX, contentWidth, cursorY);
+
+      // Scan-to-pay QR for the outstanding balance
+      cursorY = drawUpiPaymentSection(doc, data, leftX, contentWidth, cursorY);
+
       // Add admission summary page if provided
       if (data.admissionSummary) {
         drawAdmissionSummaryPage(doc, data, leftX, contentWidth, pageWidth);
@@ -312,6 +419,594 @@ export const generateInvoicePDF = async (data: InvoiceData): Promise<Buffer> =>
   });
 };
 
+export const generateCreditNotePDF = async (data: CreditNoteData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: LETTERHEAD_HEADER_HEIGHT + 10,
+          bottom: LETTERHEAD_FOOTER_HEIGHT + 10,
+          left: 35,
+          right: 35,
+        },
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+      const pageWidth = doc.page.width;
+      const leftX = doc.page.margins.left;
+      const rightX = pageWidth - doc.page.margins.right;
+      const contentWidth = rightX - leftX;
+      const { creditNote, invoice } = data;
+
+      let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
+      doc.text('CREDIT NOTE', leftX, cursorY, { align: 'center', width: contentWidth });
+      cursorY += 22;
+
+      const sectionHeight = 80;
+      doc.rect(leftX, cursorY, contentWidth, sectionHeight).fill(colors.lightBg);
+      doc.strokeColor(colors.border).lineWidth(1).rect(leftX, cursorY, contentWidth, sectionHeight).stroke();
+
+      const colWidth = contentWidth / 2;
+      const leftColX = leftX + 10;
+      const rightColX = leftX + colWidth + 10;
+      let infoY = cursorY + 8;
+
+      drawInfoField(doc, leftColX, infoY, 'Credit Note No', creditNote.credit_note_number, colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Credit Note Date', formatDate(creditNote.created_at), colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Against Invoice', invoice?.invoice_number || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Invoice Date', formatDate(invoice?.created_at), colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Patient Name', data.patientName || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Patient UID', data.patientUid || '--', colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Refund Mode', String(creditNote.refund_mode || '--').replace(/_/g, ' ').toUpperCase(), colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Refund Reference', creditNote.refund_reference || '--', colWidth - 20);
+      cursorY += sectionHeight + 15;
+
+      doc.font('Helvetica-Bold').fontSize(9).fillColor(colors.primary).text('Reason:', leftX, cursorY);
+      doc.font('Helvetica').fontSize(9).fillColor(colors.text).text(creditNote.reason || '--', leftX + 45, cursorY, {
+        width: contentWidth - 45,
+      });
+      cursorY = doc.y + 15;
+
+      const columns: TableColumn[] = [
+        { label: 'Sr.', width: 30, align: 'center' },
+        { label: 'Item', width: contentWidth - 370 },
+        { label: 'Type', width: 70 },
+        { label: 'Qty', width: 40, align: 'center' },
+        { label: 'Rate', width: 75, align: 'right' },
+        { label: 'GST', width: 70, align: 'right' },
+        { label: 'Credit', width: 85, align: 'right' },
+      ];
+
+      const rows = data.items.map((item, index) => [
+        String(index + 1),
+        item.item_name || '--',
+        String(item.item_type || '--'),
+        Number(item.quantity || 0).toString(),
+        formatCurrency(Number(item.unit_price || 0)),
+        formatCurrency(Number(item.tax_amount || 0)),
+        formatCurrency(Number(item.amount || 0) + Number(item.tax_amount || 0)),
+      ]);
+
+      cursorY = drawTable(doc, columns, rows, leftX, cursorY, 'light');
+
+      const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+      if (cursorY + 90 > contentBottom) {
+        doc.addPage();
+        cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+      }
+
+      const summaryWidth = 280;
+      const summaryX = leftX + contentWidth - summaryWidth;
+      doc.rect(summaryX - 10, cursorY, summaryWidth + 20, 22).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+      doc.text('Total Credit', summaryX, cursorY + 6, { width: summaryWidth * 0.55, align: 'left' });
+      doc.text(formatCurrency(Number(creditNote.total_amount || 0)), summaryX + summaryWidth * 0.55, cursorY + 6, {
+        width: summaryWidth * 0.45,
+        align: 'right',
+      });
+      cursorY += 40;
+
+      const approvalLabel = creditNote.status === 'rejected' ? 'Rejected By' : 'Approved By';
+      drawInfoField(doc, leftX, cursorY, 'Status', String(creditNote.status || '--').toUpperCase(), colWidth - 10);
+      drawInfoField(doc, leftX + colWidth, cursorY, 'Requested By', data.requestedByName || '--', colWidth - 10);
+      cursorY += 15;
+      drawInfoField(doc, leftX, cursorY, approvalLabel, data.approvedByName || '--', colWidth - 10);
+      drawInfoField(doc, leftX + colWidth, cursorY, 'Approved On', formatDateTime(creditNote.approved_at), colWidth - 10);
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawLetterheadFrame(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+        drawFooter(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+      }
+
+      doc.on('error', (streamError) => {
+        logger.error('PDFKit stream error', {
+          message: (streamError as Error)?.message,
+          stack: (streamError as Error)?.stack,
+        });
+        reject(streamError);
+      });
+
+      doc.end();
+    } catch (error) {
+      logger.error('Credit note PDF generation failed', { error });
+      reject(error);
+    }
+  });
+};
+
+export const generateEstimatePDF = async (data: EstimateData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: LETTERHEAD_HEADER_HEIGHT + 10,
+          bottom: LETTERHEAD_FOOTER_HEIGHT + 10,
+          left: 35,
+          right: 35,
+        },
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+      const pageWidth = doc.page.width;
+      const leftX = doc.page.margins.left;
+      const rightX = pageWidth - doc.page.margins.right;
+      const contentWidth = rightX - leftX;
+      const { estimate } = data;
+
+      let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
+      doc.text('COST ESTIMATE', leftX, cursorY, { align: 'center', width: contentWidth });
+      cursorY += 22;
+
+      const sectionHeight = 65;
+      doc.rect(leftX, cursorY, contentWidth, sectionHeight).fill(colors.lightBg);
+      doc.strokeColor(colors.border).lineWidth(1).rect(leftX, cursorY, contentWidth, sectionHeight).stroke();
+
+      const colWidth = contentWidth / 2;
+      const leftColX = leftX + 10;
+      const rightColX = leftX + colWidth + 10;
+      let infoY = cursorY + 8;
+
+      drawInfoField(doc, leftColX, infoY, 'Estimate No', estimate.estimate_number, colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Estimate Date', formatDate(estimate.created_at), colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Patient Name', estimate.patient_name || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Valid Until', formatDate(estimate.valid_until), colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Room Type', String(estimate.room_type || '--').toUpperCase(), colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Expected Stay', `${estimate.expected_days} day(s)`, colWidth - 20);
+      cursorY += sectionHeight + 15;
+
+      const columns: TableColumn[] = [
+        { label: 'Sr.', width: 30, align: 'center' },
+        { label: 'Item', width: contentWidth - 390 },
+        { label: 'Type', width: 70 },
+        { label: 'Qty', width: 50, align: 'center' },
+        { label: 'Rate', width: 80, align: 'right' },
+        { label: 'GST', width: 70, align: 'right' },
+        { label: 'Amount', width: 90, align: 'right' },
+      ];
+
+      const rows = data.items.map((item, index) => [
+        String(index + 1),
+        item.package_id && item.item_type !== 'package' ? `${item.item_name} (in package)` : item.item_name || '--',
+        String(item.item_type || '--'),
+        Number(item.quantity || 0).toString(),
+        formatCurrency(Number(item.unit_price || 0)),
+        formatCurrency(Number(item.tax_amount || 0)),
+        formatCurrency(Number(item.total_price || 0)),
+      ]);
+
+      cursorY = drawTable(doc, columns, rows, leftX, cursorY, 'light');
+
+      const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+      if (cursorY + 130 > contentBottom) {
+        doc.addPage();
+        cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+      }
+
+      const summaryWidth = 280;
+      const summaryX = leftX + contentWidth - summaryWidth;
+      [
+        ['Subtotal', Number(estimate.subtotal || 0)],
+        ['GST', Number(estimate.tax_total || 0)],
+      ].forEach(([label, amount]) => {
+        doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+        doc.text(String(label), summaryX, cursorY, { width: summaryWidth * 0.55, align: 'left' });
+        doc.text(formatCurrency(Number(amount)), summaryX + summaryWidth * 0.55, cursorY, {
+          width: summaryWidth * 0.45,
+          align: 'right',
+        });
+        cursorY += 15;
+      });
+
+      doc.rect(summaryX - 10, cursorY, summaryWidth + 20, 22).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+      doc.text('Estimated Total', summaryX, cursorY + 6, { width: summaryWidth * 0.55, align: 'left' });
+      doc.text(formatCurrency(Number(estimate.estimated_total || 0)), summaryX + summaryWidth * 0.55, cursorY + 6, {
+        width: summaryWidth * 0.45,
+        align: 'right',
+      });
+      cursorY += 35;
+
+      if (estimate.notes) {
+        doc.font('Helvetica-Bold').fontSize(9).fillColor(colors.primary).text('Notes:', leftX, cursorY);
+        doc.font('Helvetica').fontSize(9).fillColor(colors.text).text(estimate.notes, leftX + 45, cursorY, {
+          width: contentWidth - 45,
+        });
+        cursorY = doc.y + 10;
+      }
+
+      doc.font('Helvetica-Oblique').fontSize(8).fillColor(colors.text);
+      doc.text(
+        'This is an estimate based on the current tariff and the expected course of treatment. ' +
+          'The final bill depends on the actual length of stay, procedures, medicines and tests.',
+        leftX,
+        cursorY,
+        { width: contentWidth }
+      );
+      cursorY = doc.y + 15;
+
+      drawInfoField(doc, leftX, cursorY, 'Prepared By', data.preparedByName || '--', colWidth - 10);
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawLetterheadFrame(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+        drawFooter(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+      }
+
+      doc.on('error', (streamError) => {
+        logger.error('PDFKit stream error', {
+          message: (streamError as Error)?.message,
+          stack: (streamError as Error)?.stack,
+        });
+        reject(streamError);
+      });
+
+      doc.end();
+    } catch (error) {
+      logger.error('Estimate PDF generation failed', { error });
+      reject(error);
+    }
+  });
+};
+
+export const generateReceiptPDF = async (data: ReceiptData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: LETTERHEAD_HEADER_HEIGHT + 10,
+          bottom: LETTERHEAD_FOOTER_HEIGHT + 10,
+          left: 35,
+          right: 35,
+        },
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+      const pageWidth = doc.page.width;
+      const leftX = doc.page.margins.left;
+      const rightX = pageWidth - doc.page.margins.right;
+      const contentWidth = rightX - leftX;
+      const { payment, invoice } = data;
+      const isVoided = payment.status === 'voided';
+
+      let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
+      doc.text(isVoided ? 'PAYMENT RECEIPT (VOID)' : 'PAYMENT RECEIPT', leftX, cursorY, { align: 'center', width: contentWidth });
+      cursorY += 22;
+
+      const sectionHeight = 65;
+      doc.rect(leftX, cursorY, contentWidth, sectionHeight).fill(colors.lightBg);
+      doc.strokeColor(colors.border).lineWidth(1).rect(leftX, cursorY, contentWidth, sectionHeight).stroke();
+
+      const colWidth = contentWidth / 2;
+      const leftColX = leftX + 10;
+      const rightColX = leftX + colWidth + 10;
+      let infoY = cursorY + 8;
+
+      drawInfoField(doc, leftColX, infoY, 'Receipt No', payment.receipt_number || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Receipt Date', formatDateTime(payment.payment_date), colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Patient Name', data.patientName || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Patient UID', data.patientUid || '--', colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Against Invoice', invoice?.invoice_number || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Invoice Date', formatDate(invoice?.created_at), colWidth - 20);
+      cursorY += sectionHeight + 20;
+
+      doc.font('Helvetica').fontSize(10).fillColor(colors.text);
+      doc.text(
+        `Received with thanks from ${data.patientName || 'the patient'} the sum of ${formatCurrency(Number(payment.amount || 0))} ` +
+          `(${data.amountInWords}) towards invoice ${invoice?.invoice_number || '--'}.`,
+        leftX,
+        cursorY,
+        { width: contentWidth, lineGap: 3 }
+      );
+      cursorY = doc.y + 15;
+
+      drawInfoField(doc, leftX, cursorY, 'Payment Mode', String(payment.payment_method || '--').replace(/_/g, ' ').toUpperCase(), colWidth - 10);
+      drawInfoField(doc, leftX + colWidth, cursorY, 'Reference', payment.payment_reference || '--', colWidth - 10);
+      cursorY += 15;
+      if (payment.notes) {
+        drawInfoField(doc, leftX, cursorY, 'Notes', payment.notes, contentWidth - 10);
+        cursorY += 15;
+      }
+      cursorY += 15;
+
+      const summaryWidth = 280;
+      const summaryX = leftX + contentWidth - summaryWidth;
+      doc.rect(summaryX - 10, cursorY, summaryWidth + 20, 22).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+      doc.text('Amount Received', summaryX, cursorY + 6, { width: summaryWidth * 0.55, align: 'left' });
+      doc.text(formatCurrency(Number(payment.amount || 0)), summaryX + summaryWidth * 0.55, cursorY + 6, {
+        width: summaryWidth * 0.45,
+        align: 'right',
+      });
+      cursorY += 30;
+
+      doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+      doc.text('Balance on invoice after this payment', summaryX, cursorY, { width: summaryWidth * 0.7, align: 'left' });
+      doc.text(formatCurrency(data.balanceAfter), summaryX + summaryWidth * 0.7, cursorY, {
+        width: summaryWidth * 0.3,
+        align: 'right',
+      });
+      cursorY += 30;
+
+      if (isVoided) {
+        doc.font('Helvetica-Bold').fontSize(9).fillColor(colors.accent);
+        doc.text(
+          `This receipt was voided on ${formatDateTime(payment.voided_at)}${payment.void_reason ? `: ${payment.void_reason}` : ''}`,
+          leftX,
+          cursorY,
+          { width: contentWidth }
+        );
+        cursorY = doc.y + 15;
+      }
+
+      drawInfoField(doc, leftX, cursorY, 'Received By', data.collectedByName || '--', colWidth - 10);
+      doc.font('Helvetica').fontSize(8).fillColor(colors.text);
+      doc.text('Authorised Signatory', leftX + colWidth, cursorY + 25, { width: colWidth - 10, align: 'right' });
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawLetterheadFrame(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+        drawFooter(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+      }
+
+      doc.on('error', (streamError) => {
+        logger.error('PDFKit stream error', {
+          message: (streamError as Error)?.message,
+          stack: (streamError as Error)?.stack,
+        });
+        reject(streamError);
+      });
+
+      doc.end();
+    } catch (error) {
+      logger.error('Receipt PDF generation failed', { error });
+      reject(error);
+    }
+  });
+};
+
+export const generateDayBookPDF = async (data: DayBookData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: LETTERHEAD_HEADER_HEIGHT + 10,
+          bottom: LETTERHEAD_FOOTER_HEIGHT + 10,
+          left: 35,
+          right: 35,
+        },
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+      const pageWidth = doc.page.width;
+      const leftX = doc.page.margins.left;
+      const rightX = pageWidth - doc.page.margins.right;
+      const contentWidth = rightX - leftX;
+      const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+      const { dayBook } = data;
+      const methodLabel = (method?: string) => String(method || '--').replace(/_/g, ' ').toUpperCase();
+
+      let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
+      doc.text('DAY BOOK', leftX, cursorY, { align: 'center', width: contentWidth });
+      cursorY += 22;
+
+      const sectionHeight = 50;
+      doc.rect(leftX, cursorY, contentWidth, sectionHeight).fill(colors.lightBg);
+      doc.strokeColor(colors.border).lineWidth(1).rect(leftX, cursorY, contentWidth, sectionHeight).stroke();
+
+      const colWidth = contentWidth / 2;
+      const leftColX = leftX + 10;
+      const rightColX = leftX + colWidth + 10;
+      let infoY = cursorY + 8;
+
+      drawInfoField(doc, leftColX, infoY, 'Business Date', formatDate(dayBook.businessDate), colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Cashier', data.staffName || 'All staff', colWidth - 20);
+      infoY += 15;
+      drawInfoField(
+        doc,
+        leftColX,
+        infoY,
+        'Status',
+        dayBook.closing ? `CLOSED ${formatDateTime(dayBook.closing.closed_at)}` : 'OPEN (LIVE FIGURES)',
+        colWidth - 20
+      );
+      drawInfoField(doc, rightColX, infoY, 'Closed By', data.closedByName || '--', colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Generated By', data.generatedBy || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Generated On', formatDateTime(new Date().toISOString()), colWidth - 20);
+      cursorY += sectionHeight + 15;
+
+      const sectionTitle = (title: string) => {
+        if (cursorY + 60 > contentBottom) {
+          doc.addPage();
+          cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+        }
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(colors.primary).text(title, leftX, cursorY);
+        cursorY += 15;
+      };
+
+      sectionTitle('Collections by Payment Method');
+      cursorY = drawTable(
+        doc,
+        [
+          { label: 'Method', width: contentWidth - 330 },
+          { label: 'Collections', width: 110, align: 'right' },
+          { label: 'Refunds', width: 110, align: 'right' },
+          { label: 'Net', width: 110, align: 'right' },
+        ],
+        dayBook.byMethod.map((row: any) => [
+          methodLabel(row.method),
+          formatCurrency(row.collections),
+          formatCurrency(row.refunds),
+          formatCurrency(row.net),
+        ]),
+        leftX,
+        cursorY,
+        'light'
+      );
+
+      sectionTitle('Collections by Staff');
+      cursorY = drawTable(
+        doc,
+        [
+          { label: 'Staff', width: contentWidth - 330 },
+          { label: 'Collections', width: 110, align: 'right' },
+          { label: 'Refunds', width: 110, align: 'right' },
+          { label: 'Net', width: 110, align: 'right' },
+        ],
+        dayBook.byStaff.length
+          ? dayBook.byStaff.map((row: any) => [
+            row.staffName,
+            formatCurrency(row.collections),
+            formatCurrency(row.refunds),
+            formatCurrency(row.net),
+          ])
+          : [['No collections or refunds', '', '', '']],
+        leftX,
+        cursorY,
+        'light'
+      );
+
+      const entryColumns: TableColumn[] = [
+        { label: 'Time', width: 55 },
+        { label: 'Document', width: 95 },
+        { label: 'Invoice', width: 95 },
+        { label: 'Method', width: 70 },
+        { label: 'Staff', width: contentWidth - 405 },
+        { label: 'Amount', width: 90, align: 'right' },
+      ];
+      const entryRows = (entries: any[]) =>
+        entries.map((entry) => [
+          new Date(entry.at).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit' }),
+          entry.documentNumber || (entry.kind === 'deposit' ? 'Deposit' : '--'),
+          entry.invoiceNumber || '--',
+          methodLabel(entry.method),
+          entry.staffName || '--',
+          formatCurrency(entry.amount),
+        ]);
+
+      if (dayBook.collections.length) {
+        sectionTitle('Collections');
+        cursorY = drawTable(doc, entryColumns, entryRows(dayBook.collections), leftX, cursorY, 'light');
+      }
+
+      if (dayBook.refunds.length) {
+        sectionTitle('Refunds Issued');
+        cursorY = drawTable(doc, entryColumns, entryRows(dayBook.refunds), leftX, cursorY, 'light');
+      }
+
+      if (cursorY + 80 > contentBottom) {
+        doc.addPage();
+        cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+      }
+
+      const summaryWidth = 280;
+      const summaryX = leftX + contentWidth - summaryWidth;
+      const summaryRows: Array<[string, number]> = [
+        ['Total Collections', dayBook.totals.collections],
+        ['Less: Refunds', dayBook.totals.refunds],
+      ];
+      doc.font('Helvetica').fontSize(10).fillColor(colors.text);
+      summaryRows.forEach(([label, value]) => {
+        doc.text(label, summaryX, cursorY, { width: summaryWidth * 0.55, align: 'left' });
+        doc.text(formatCurrency(value), summaryX + summaryWidth * 0.55, cursorY, { width: summaryWidth * 0.45, align: 'right' });
+        cursorY += 16;
+      });
+
+      doc.rect(summaryX - 10, cursorY, summaryWidth + 20, 22).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+      doc.text('Net Collection', summaryX, cursorY + 6, { width: summaryWidth * 0.55, align: 'left' });
+      doc.text(formatCurrency(dayBook.totals.net), summaryX + summaryWidth * 0.55, cursorY + 6, {
+        width: summaryWidth * 0.45,
+        align: 'right',
+      });
+      cursorY += 40;
+
+      doc.font('Helvetica').fontSize(8).fillColor(colors.text);
+      doc.text('Cashier', leftX, cursorY + 25, { width: colWidth - 10, align: 'left' });
+      doc.text('Accounts', leftX + colWidth, cursorY + 25, { width: colWidth - 10, align: 'right' });
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawLetterheadFrame(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+        drawFooter(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+      }
+
+      doc.on('error', (streamError) => {
+        logger.error('PDFKit stream error', {
+          message: (streamError as Error)?.message,
+          stack: (streamError as Error)?.stack,
+        });
+        reject(streamError);
+      });
+
+      doc.end();
+    } catch (error) {
+      logger.error('Day book PDF generation failed', { error });
+      reject(error);
+    }
+  });
+};
+
 const drawHeader = (
   doc: PDFKit.PDFDocument,
   data: InvoiceData,
@@ -363,7 +1058,7 @@ const drawHeader = (
   doc.font('Helvetica-Bold')
     .fontSize(16)
     .fillColor(colors.accent)
-    .text('PROVISIONAL BILL', leftX, headerBottomY + 10, {
+    .text(getInvoiceTitle(data.invoice.lifecycle_status), leftX, headerBottomY + 10, {
       align: 'center',
       width: contentWidth,
     });
@@ -498,8 +1193,9 @@ const drawBillingTable = (
   startY += 15;
 
   const widthConfig = {
-    dateOnly: 90,
+    dateOnly: 80,
     particulars: 0,
+    hsn: 50,
     rate: 70,
     qty: 35,
     amount: 70,
@@ -510,6 +1206,7 @@ const drawBillingTable = (
   const minWidths: Record<keyof typeof widthConfig, number> = {
     dateOnly: 70,
     particulars: 140,
+    hsn: 40,
     rate: 60,
     qty: 30,
     amount: 60,
@@ -519,6 +1216,7 @@ const drawBillingTable = (
 
   const staticSum =
     widthConfig.dateOnly +
+    widthConfig.hsn +
     widthConfig.rate +
     widthConfig.qty +
     widthConfig.amount +
@@ -534,6 +1232,7 @@ const drawBillingTable = (
     'amount',
     'gst',
     'total',
+    'hsn',
     'dateOnly',
   ];
 
@@ -553,10 +1252,11 @@ const drawBillingTable = (
   const columns: TableColumn[] = [
     { label: 'Date', width: widthConfig.dateOnly },
     { label: 'Particulars', width: widthConfig.particulars },
+    { label: 'HSN/SAC', width: widthConfig.hsn },
     { label: 'Rate', width: widthConfig.rate, align: 'right' },
     { label: 'Qty', width: widthConfig.qty, align: 'center' },
     { label: 'Amount', width: widthConfig.amount, align: 'right' },
-    { label: 'GST (18%)', width: widthConfig.gst, align: 'right' },
+    { label: 'GST', width: widthConfig.gst, align: 'right' },
     { label: 'Total', width: widthConfig.total, align: 'right' },
   ];
 
@@ -569,12 +1269,13 @@ const drawBillingTable = (
     const qty = Number(item.quantity || item.units || 1);
     const amount = rate * qty || Number(item.amount || item.total_price || 0);
     const baseAmount = amount > 0 ? amount : rate * qty;
-    const gst = baseAmount * 0.18;
+    const gst = getLineGst(data.invoice, item, baseAmount).amount;
     const total = baseAmount + gst;
 
     return [
       formatDate(item.created_at || data.invoice.created_at),
       item.item_name || item.description || item.particulars || 'Service Charge',
+      item.hsn_sac_code || '--',
       formatCurrency(rate || baseAmount),
       qty.toString(),
       formatCurrency(baseAmount),
@@ -591,6 +1292,80 @@ const drawBillingTable = (
   });
 };
 
+// Line-mode invoices carry GST per bill item; older invoices apply one rate across the bill.
+const getLineGst = (invoice: any, item: any, baseAmount: number): { rate: number; amount: number } => {
+  if (invoice.gst_mode === 'line') {
+    return { rate: Number(item.tax_rate || 0), amount: Number(item.tax_amount || 0) };
+  }
+  const rate = invoice.include_gst === false ? 0 : Number(invoice.gst_rate ?? 18);
+  return { rate, amount: (baseAmount * rate) / 100 };
+};
+
+const drawTaxSummarySection = (
+  doc: PDFKit.PDFDocument,
+  data: InvoiceData,
+  leftX: number,
+  contentWidth: number,
+  startY: number,
+): number => {
+  if (data.invoice.gst_mode !== 'line' || !data.billItems.length) {
+    return startY;
+  }
+
+  // Tax is levied on the discounted value, so scale each line by the invoice discount
+  const subtotal = Number(data.invoice.total_amount || 0);
+  const discountValue = Number(data.invoice.discount_value || 0);
+  let discounted = subtotal;
+  if (data.invoice.discount_type === 'percentage' && discountValue > 0) {
+    discounted = subtotal * (1 - discountValue / 100);
+  } else if (data.invoice.discount_type === 'fixed' && discountValue > 0) {
+    discounted = Math.max(0, subtotal - discountValue);
+  }
+  const ratio = subtotal > 0 ? discounted / subtotal : 1;
+
+  const groups = new Map<string, { hsn: string; rate: number; taxable: number; cgst: number; sgst: number; igst: number; tax: number }>();
+  data.billItems.forEach((item) => {
+    const hsn = item.hsn_sac_code || '--';
+    const rate = Number(item.tax_rate || 0);
+    const key = `${hsn}|${rate}`;
+    const group = groups.get(key) ?? { hsn, rate, taxable: 0, cgst: 0, sgst: 0, igst: 0, tax: 0 };
+    group.taxable += Number(item.total_price || 0) * ratio;
+    group.cgst += Number(item.cgst_amount || 0) * ratio;
+    group.sgst += Number(item.sgst_amount || 0) * ratio;
+    group.igst += Number(item.igst_amount || 0) * ratio;
+    group.tax += Number(item.tax_amount || 0) * ratio;
+    groups.set(key, group);
+  });
+
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(colors.primary).text('TAX SUMMARY', leftX, startY);
+  startY += 15;
+
+  const fixedWidth = 60;
+  const columns: TableColumn[] = [
+    { label: 'HSN/SAC', width: contentWidth - fixedWidth * 6 },
+    { label: 'GST %', width: fixedWidth, align: 'right' },
+    { label: 'Taxable', width: fixedWidth, align: 'right' },
+    { label: 'CGST', width: fixedWidth, align: 'right' },
+    { label: 'SGST', width: fixedWidth, align: 'right' },
+    { label: 'IGST', width: fixedWidth, align: 'right' },
+    { label: 'Total Tax', width: fixedWidth, align: 'right' },
+  ];
+
+  const rows = Array.from(groups.values())
+    .sort((a, b) => a.rate - b.rate || a.hsn.localeCompare(b.hsn))
+    .map((group) => [
+      group.hsn,
+      `${group.rate}%`,
+      formatCurrency(group.taxable),
+      formatCurrency(group.cgst),
+      formatCurrency(group.sgst),
+      formatCurrency(group.igst),
+      formatCurrency(group.tax),
+    ]);
+
+  return drawTable(doc, columns, rows, leftX, startY, 'light');
+};
+
 const drawTotalsSectionOptimized = (
   doc: PDFKit.PDFDocument,
   data: InvoiceData,
@@ -613,8 +1388,11 @@ const drawTotalsSectionOptimized = (
   const calculatedSubtotal = data.billItems.reduce((sum, item) => sum + Number(item.amount || item.total_price || 0), 0);
   const subtotal = Number(data.invoice.total_amount || calculatedSubtotal || 0);
   
-  // Calculate GST as 18% of subtotal
-  const calculatedGst = subtotal * 0.18;
+  // Fall back to the per-line GST when the invoice row has no stored amount
+  const calculatedGst = data.billItems.reduce(
+    (sum, item) => sum + getLineGst(data.invoice, item, Number(item.amount || item.total_price || 0)).amount,
+    0
+  );
   const gst = Number(data.invoice.gst_amount || calculatedGst);
   
   const discount = Number(data.invoice.discount_value || 0);
@@ -629,7 +1407,9 @@ const drawTotalsSectionOptimized = (
   const calculatedPayable = subtotal + gst - discountAmount;
   const payable = Number(data.invoice.amount_payable || calculatedPayable);
   const amountPaid = Number(data.invoice.paid_amount || 0);
-  const balance = Number(data.invoice.balance || payable - amountPaid);
+  const writtenOff = Number(data.invoice.written_off_amount || 0);
+  const credited = Number(data.invoice.credited_amount || 0);
+  const balance = Number(data.invoice.balance ?? payable - amountPaid - writtenOff - credited);
   
   const discountDisplay = discountType === 'percentage' ? `${discount}%` : formatCurrency(discount);
   
@@ -652,9 +1432,11 @@ const drawTotalsSectionOptimized = (
   const rows: Array<[string, string, 'normal' | 'highlight' | 'total']> = [
     ['Subtotal', formatCurrency(subtotal), 'normal'],
     ['Discount', discountDisplay, 'normal'],
-    ['GST (18%)', formatCurrency(gst), 'normal'],
+    [data.invoice.gst_mode === 'line' ? 'GST' : `GST (${getLineGst(data.invoice, {}, 0).rate}%)`, formatCurrency(gst), 'normal'],
     ['Amount Payable', formatCurrency(payable), 'highlight'],
     ['Amount Paid', formatCurrency(amountPaid), 'normal'],
+    ...(writtenOff > 0 ? [['Written Off', formatCurrency(writtenOff), 'normal'] as [string, string, 'normal']] : []),
+    ...(credited > 0 ? [['Credit Note Adjustment', formatCurrency(credited), 'normal'] as [string, string, 'normal']] : []),
     ['Balance Due', formatCurrency(balance), 'total'],
   ];
 
@@ -686,6 +1468,383 @@ const drawTotalsSectionOptimized = (
   return currentY + 20;
 };
 
+const drawSettlementSection = (
+  doc: PDFKit.PDFDocument,
+  data: InvoiceData,
+  leftX: number,
+  contentWidth: number,
+  startY: number,
+): number => {
+  const settlement = data.settlement;
+  if (!settlement || !settlement.interimInvoices.length) {
+    return startY;
+  }
+
+  const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+  if (startY + 60 + settlement.interimInvoices.length * 18 > contentBottom) {
+    doc.addPage();
+    startY = LETTERHEAD_HEADER_HEIGHT + 5;
+  }
+
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(colors.primary).text('INTERIM BILLS ALREADY INVOICED', leftX, startY);
+  startY += 15;
+
+  const amountWidth = 80;
+  const columns: TableColumn[] = [
+    { label: 'Invoice No', width: contentWidth - amountWidth * 3 - 150 },
+    { label: 'Period', width: 150 },
+    { label: 'Billed', width: amountWidth, align: 'right' },
+    { label: 'Paid', width: amountWidth, align: 'right' },
+    { label: 'Balance', width: amountWidth, align: 'right' },
+  ];
+
+  const rows = settlement.interimInvoices.map((interim) => {
+    const billed = Number(interim.amount_payable ?? interim.total_amount ?? 0);
+    const paid = Number(interim.paid_amount || 0);
+    return [
+      interim.invoice_number || '--',
+      interim.period_from && interim.period_to
+        ? `${formatDate(interim.period_from)} - ${formatDate(interim.period_to)}`
+        : '--',
+      formatCurrency(billed),
+      formatCurrency(paid),
+      formatCurrency(billed - paid),
+    ];
+  });
+
+  let cursorY = drawTable(doc, columns, rows, leftX, startY, 'light') + 5;
+
+  const summaryWidth = 280;
+  const summaryX = leftX + contentWidth - summaryWidth;
+  const summaryRows: Array<[string, string, boolean]> = [
+    ['Charges on this bill', formatCurrency(settlement.currentCharges), false],
+    ['Add: interim bills', formatCurrency(settlement.interimInvoicedTotal), false],
+    ['Total stay charges', formatCurrency(settlement.totalStayCharges), false],
+    ['Less: paid on interim bills', formatCurrency(settlement.interimPaidTotal), false],
+    ['Less: paid on this bill', formatCurrency(settlement.currentPaid), false],
+    ['Net Payable', formatCurrency(settlement.netPayable), true],
+  ];
+
+  if (cursorY + summaryRows.length * 18 + 10 > contentBottom) {
+    doc.addPage();
+    cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+  }
+
+  summaryRows.forEach(([label, value, isTotal]) => {
+    if (isTotal) {
+      doc.rect(summaryX - 10, cursorY - 2, summaryWidth + 20, 18).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+    } else {
+      doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+    }
+    doc.text(label, summaryX, cursorY, { width: summaryWidth * 0.55, align: 'left' });
+    doc.text(value, summaryX + summaryWidth * 0.55, cursorY, { width: summaryWidth * 0.45, align: 'right' });
+    cursorY += 18;
+  });
+
+  return cursorY + 20;
+};
+
+const drawPayerSplitSection = (
+  doc: PDFKit.PDFDocument,
+  data: InvoiceData,
+  leftX: number,
+  contentWidth: number,
+  startY: number,
+): number => {
+  const split = data.payerSplit;
+  if (!split) {
+    return startY;
+  }
+
+  const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+  if (startY + 110 > contentBottom) {
+    doc.addPage();
+    startY = LETTERHEAD_HEADER_HEIGHT + 5;
+  }
+
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(colors.primary).text('PAYER RESPONSIBILITY', leftX, startY);
+  startY += 15;
+
+  const claimDetails = [
+    `Claim ${split.claimNumber || '--'}`,
+    split.tpaPartnerName,
+    String(split.claimStatus).toUpperCase(),
+    split.approvedAmount !== null ? `Approved ${formatCurrency(split.approvedAmount)}` : null,
+    split.copayPercent > 0 ? `Co-pay ${split.copayPercent}%` : null,
+  ].filter(Boolean).join('  |  ');
+  doc.font('Helvetica').fontSize(8).fillColor(colors.text).text(claimDetails, leftX, startY, { width: contentWidth });
+  startY += 14;
+
+  const amountWidth = 90;
+  const columns: TableColumn[] = [
+    { label: 'Payer', width: contentWidth - amountWidth * 3 },
+    { label: 'Payable', width: amountWidth, align: 'right' },
+    { label: 'Paid', width: amountWidth, align: 'right' },
+    { label: 'Balance', width: amountWidth, align: 'right' },
+  ];
+
+  const isApproved = split.claimStatus === 'approved' || split.claimStatus === 'settled';
+  const rows = [
+    [
+      isApproved
+        ? 'Insurer / TPA'
+        : `Insurer / TPA (claimable ${formatCurrency(split.tpaClaimable)}, pending approval)`,
+      formatCurrency(split.tpaPayable),
+      formatCurrency(split.tpaPaid),
+      formatCurrency(split.tpaBalance),
+    ],
+    [
+      split.nonAdmissibleTotal > 0
+        ? `Patient (incl. non-admissible items ${formatCurrency(split.nonAdmissibleTotal)})`
+        : 'Patient',
+      formatCurrency(split.patientPayable),
+      formatCurrency(split.patientPaid),
+      formatCurrency(split.patientBalance),
+    ],
+  ];
+
+  return drawTable(doc, columns, rows, leftX, startY, 'light') + 20;
+};
+
+const drawEInvoiceSection = (
+  doc: PDFKit.PDFDocument,
+  data: InvoiceData,
+  leftX: number,
+  contentWidth: number,
+  startY: number,
+): number => {
+  const eInvoice = data.eInvoice;
+  if (!eInvoice) {
+    return startY;
+  }
+
+  const qrSize = 90;
+  const sectionHeight = qrSize + 16;
+  const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+  if (startY + sectionHeight > contentBottom) {
+    doc.addPage();
+    startY = LETTERHEAD_HEADER_HEIGHT + 5;
+  }
+
+  doc.rect(leftX, startY, contentWidth, sectionHeight).fill(colors.lightBg);
+  doc.strokeColor(colors.border).lineWidth(1).rect(leftX, startY, contentWidth, sectionHeight).stroke();
+
+  const textWidth = contentWidth - qrSize - 30;
+  let textY = startY + 10;
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(colors.primary).text('E-INVOICE', leftX + 10, textY);
+  textY += 18;
+  doc.font('Helvetica-Bold').fontSize(8).fillColor(colors.primary).text('IRN:', leftX + 10, textY);
+  doc.font('Helvetica').fontSize(8).fillColor(colors.text).text(eInvoice.irn, leftX + 40, textY, { width: textWidth - 30 });
+  textY = doc.y + 8;
+  drawInfoField(doc, leftX + 10, textY, 'Ack No', eInvoice.ackNo || '--', textWidth / 2);
+  drawInfoField(doc, leftX + 10 + textWidth / 2, textY, 'Ack Date', formatDateTime(eInvoice.ackDate ?? undefined), textWidth / 2);
+
+  doc.image(eInvoice.qrCode, leftX + contentWidth - qrSize - 8, startY + 8, { width: qrSize, height: qrSize });
+
+  return startY + sectionHeight + 15;
+};
+
+const drawUpiPaymentSection = (
+  doc: PDFKit.PDFDocument,
+  data: InvoiceData,
+  leftX: number,
+  contentWidth: number,
+  startY: number,
+): number => {
+  const upi = data.upiPayment;
+  if (!upi) {
+    return startY;
+  }
+
+  const qrSize = 80;
+  const sectionHeight = qrSize + 16;
+  const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+  if (startY + sectionHeight > contentBottom) {
+    doc.addPage();
+    startY = LETTERHEAD_HEADER_HEIGHT + 5;
+  }
+
+  doc.strokeColor(colors.border).lineWidth(1).rect(leftX, startY, contentWidth, sectionHeight).stroke();
+  doc.image(upi.qrCode, leftX + 8, startY + 8, { width: qrSize, height: qrSize });
+
+  const textX = leftX + qrSize + 20;
+  const textWidth = contentWidth - qrSize - 30;
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(colors.primary).text('PAY BY UPI', textX, startY + 12);
+  doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+  doc.text(
+    `Scan with any UPI app to pay the outstanding ${formatCurrency(upi.amount)} against invoice ${data.invoice.invoice_number}. ` +
+      'The payment is posted to this invoice automatically.',
+    textX,
+    startY + 30,
+    { width: textWidth }
+  );
+  doc.font('Helvetica').fontSize(8).fillColor(colors.secondary).text(`UPI ID: ${env.UPI_VPA}`, textX, doc.y + 6, { width: textWidth });
+
+  return startY + sectionHeight + 15;
+};
+
+export const generatePatientStatementPDF = async (data: PatientStatementData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: LETTERHEAD_HEADER_HEIGHT + 10,
+          bottom: LETTERHEAD_FOOTER_HEIGHT + 10,
+          left: 35,
+          right: 35,
+        },
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+      const pageWidth = doc.page.width;
+      const leftX = doc.page.margins.left;
+      const rightX = pageWidth - doc.page.margins.right;
+      const contentWidth = rightX - leftX;
+      const contentBottom = doc.page.height - LETTERHEAD_FOOTER_HEIGHT - 5;
+      const { statement } = data;
+      // Positive balances are owed by the patient, negative ones are held for them
+      const formatBalance = (value: number) => (value < 0 ? `${formatCurrency(-value)} CR` : formatCurrency(value));
+
+      let cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(colors.accent);
+      doc.text('STATEMENT OF ACCOUNT', leftX, cursorY, { align: 'center', width: contentWidth });
+      cursorY += 22;
+
+      const sectionHeight = 50;
+      doc.rect(leftX, cursorY, contentWidth, sectionHeight).fill(colors.lightBg);
+      doc.strokeColor(colors.border).lineWidth(1).rect(leftX, cursorY, contentWidth, sectionHeight).stroke();
+
+      const colWidth = contentWidth / 2;
+      const leftColX = leftX + 10;
+      const rightColX = leftX + colWidth + 10;
+      let infoY = cursorY + 8;
+
+      drawInfoField(doc, leftColX, infoY, 'Patient', statement.patient.name || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Patient ID', statement.patient.patientId || '--', colWidth - 20);
+      infoY += 15;
+      drawInfoField(
+        doc,
+        leftColX,
+        infoY,
+        'Period',
+        `${statement.from ? formatDate(statement.from) : 'Beginning'} to ${formatDate(statement.to)}`,
+        colWidth - 20
+      );
+      drawInfoField(doc, rightColX, infoY, 'Phone', statement.patient.phone || '--', colWidth - 20);
+      infoY += 15;
+      drawInfoField(doc, leftColX, infoY, 'Generated By', data.generatedBy || '--', colWidth - 20);
+      drawInfoField(doc, rightColX, infoY, 'Generated On', formatDateTime(new Date().toISOString()), colWidth - 20);
+      cursorY += sectionHeight + 15;
+
+      const sectionTitle = (title: string) => {
+        if (cursorY + 60 > contentBottom) {
+          doc.addPage();
+          cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+        }
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(colors.primary).text(title, leftX, cursorY);
+        cursorY += 15;
+      };
+
+      const entryColumns: TableColumn[] = [
+        { label: 'Date', width: 60 },
+        { label: 'Particulars', width: contentWidth - 425 },
+        { label: 'Document', width: 95 },
+        { label: 'Debit', width: 85, align: 'right' },
+        { label: 'Credit', width: 85, align: 'right' },
+        { label: 'Balance', width: 100, align: 'right' },
+      ];
+
+      if (!statement.admissions.length) {
+        doc.font('Helvetica').fontSize(9).fillColor(colors.text);
+        doc.text('No billing activity for this period.', leftX, cursorY);
+        cursorY += 25;
+      }
+
+      statement.admissions.forEach((admission: any) => {
+        sectionTitle(
+          `Admission ${formatDate(admission.admissionDate)}${admission.dischargeDate ? ` - ${formatDate(admission.dischargeDate)}` : ''}`
+        );
+        cursorY = drawTable(
+          doc,
+          entryColumns,
+          [
+            ['', 'Opening balance', '', '', '', formatBalance(admission.openingBalance)],
+            ...admission.entries.map((entry: any) => [
+              formatDate(entry.at),
+              entry.description,
+              entry.documentNumber || entry.invoiceNumber || '--',
+              entry.debit ? formatCurrency(entry.debit) : '',
+              entry.credit ? formatCurrency(entry.credit) : '',
+              formatBalance(entry.balance),
+            ]),
+            ['', 'Closing balance', '', formatCurrency(admission.debits), formatCurrency(admission.credits), formatBalance(admission.closingBalance)],
+          ],
+          leftX,
+          cursorY,
+          'light'
+        );
+      });
+
+      if (cursorY + 80 > contentBottom) {
+        doc.addPage();
+        cursorY = LETTERHEAD_HEADER_HEIGHT + 5;
+      }
+
+      const summaryWidth = 280;
+      const summaryX = leftX + contentWidth - summaryWidth;
+      const summaryRows: Array<[string, string]> = [
+        ['Opening Balance', formatBalance(statement.totals.openingBalance)],
+        ['Add: Charges and Refunds', formatCurrency(statement.totals.debits)],
+        ['Less: Payments and Credits', formatCurrency(statement.totals.credits)],
+      ];
+      doc.font('Helvetica').fontSize(10).fillColor(colors.text);
+      summaryRows.forEach(([label, value]) => {
+        doc.text(label, summaryX, cursorY, { width: summaryWidth * 0.55, align: 'left' });
+        doc.text(value, summaryX + summaryWidth * 0.55, cursorY, { width: summaryWidth * 0.45, align: 'right' });
+        cursorY += 16;
+      });
+
+      doc.rect(summaryX - 10, cursorY, summaryWidth + 20, 22).fill(colors.primary);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#fff');
+      doc.text(statement.totals.closingBalance < 0 ? 'Balance in Your Favour' : 'Balance Due', summaryX, cursorY + 6, {
+        width: summaryWidth * 0.55,
+        align: 'left',
+      });
+      doc.text(formatCurrency(Math.abs(statement.totals.closingBalance)), summaryX + summaryWidth * 0.55, cursorY + 6, {
+        width: summaryWidth * 0.45,
+        align: 'right',
+      });
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        drawLetterheadFrame(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+        drawFooter(doc, leftX, contentWidth, doc.page.width, doc.page.height);
+      }
+
+      doc.on('error', (streamError) => {
+        logger.error('PDFKit stream error', {
+          message: (streamError as Error)?.message,
+          stack: (streamError as Error)?.stack,
+        });
+        reject(streamError);
+      });
+
+      doc.end();
+    } catch (error) {
+      logger.error('Patient statement PDF generation failed', { error });
+      reject(error);
+    }
+  });
+};
+
 interface TableRenderOptions {
   headerHeight?: number;
   rowHeight?: number;
@@ -1,3 +1,4 @@
+import fs from 'fs';
 import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { logger } from './logger.js';
@@ -69,3 +70,30 @@ export async function uploadLabReportPDF(
   const fileName = `lab-reports/${patientId}/${admissionId}/${reportId}_${timestamp}.pdf`;
   return uploadToR2(buffer, fileName, 'application/pdf');
 }
+
+// Streams a file from local disk, for uploads too large to hold in memory
+export async function uploadFileToR2(
+  localPath: string,
+  fileName: string,
+  contentType: string
+): Promise<{ path: string; size: number }> {
+  try {
+    const { size } = await fs.promises.stat(localPath);
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: fileName,
+      Body: fs.createReadStream(localPath),
+      ContentLength: size,
+      ContentType: contentType,
+    });
+
+    await r2Client.send(command);
+
+    logger.info('File uploaded to R2', { fileName, contentType, size });
+
+    return { path: fileName, size };
+  } catch (error: any) {
+    logger.error('Failed to upload to R2', { fileName, error: error.message });
+    throw new Error(`R2 upload failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import zlib from 'zlib';
+
+// Minimal streaming ZIP writer: entries go to disk as they are added, so an archive of hundreds of
+// PDFs never has to sit in memory. No ZIP64, so each archive must stay under 4 GB and 65,535 entries.
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+interface CentralEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  addFile: (name: string, data: Buffer) => Promise<void>;
+  finalize: () => Promise<{ entries: number; size: number }>;
+  abort: () => Promise<void>;
+}
+
+const toDosDateTime = (at: Date) => ({
+  time: (at.getHours() << 11) | (at.getMinutes() << 5) | Math.floor(at.getSeconds() / 2),
+  date: ((Math.max(at.getFullYear(), 1980) - 1980) << 9) | ((at.getMonth() + 1) << 5) | at.getDate(),
+});
+
+export const createZipWriter = async (filePath: string): Promise<ZipWriter> => {
+  const handle = await fs.open(filePath, 'w');
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  const write = async (buffer: Buffer) => {
+    if (offset + buffer.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB');
+    }
+    await handle.write(buffer);
+    offset += buffer.length;
+  };
+
+  const addFile = async (name: string, data: Buffer) => {
+    if (entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error('ZIP archive is limited to 65,535 entries');
+    }
+
+    // PDFs are compressed already; keep whichever form is smaller
+    const deflated = zlib.deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const { time, date } = toDosDateTime(new Date());
+    const entry: CentralEntry = {
+      name: nameBuffer,
+      method,
+      time,
+      date,
+      crc: zlib.crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await write(Buffer.concat([header, nameBuffer]));
+    await write(body);
+    entries.push(entry);
+  };
+
+  const finalize = async () => {
+    const directoryOffset = offset;
+
+    for (const entry of entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(UTF8_FLAG, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, internal and external attributes stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await write(end);
+    await handle.close();
+
+    return { entries: entries.length, size: offset };
+  };
+
+  const abort = async () => {
+    await handle.close().catch(() => undefined);
+    await fs.rm(filePath, { force: true });
+  };
+
+  return { addFile, finalize, abort };
+};
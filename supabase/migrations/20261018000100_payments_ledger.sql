@@ -0,0 +1,36 @@
+-- Payments ledger: one row per collection against an invoice.
+-- invoices.paid_amount / balance / status are derived from this table.
+
+create table if not exists payments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete restrict,
+  amount numeric(12, 2) not null check (amount > 0),
+  payment_method text not null,
+  payment_reference text,
+  payment_date timestamptz not null default now(),
+  notes text,
+  status text not null default 'completed' check (status in ('completed', 'voided')),
+  collected_by uuid references staff(id),
+  voided_by uuid references staff(id),
+  voided_at timestamptz,
+  void_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists payments_invoice_id_idx on payments (invoice_id);
+create index if not exists payments_payment_date_idx on payments (payment_date);
+create index if not exists payments_collected_by_idx on payments (collected_by);
+
+-- Carry existing single-payment data over so recomputed balances do not drop to zero.
+insert into payments (invoice_id, amount, payment_method, payment_reference, payment_date, notes)
+select
+  id,
+  paid_amount,
+  coalesce(nullif(payment_method, ''), 'cash'),
+  payment_reference,
+  coalesce(last_payment_date, updated_at, created_at),
+  'Migrated from invoice paid_amount'
+from invoices
+where coalesce(paid_amount, 0) > 0
+  and not exists (select 1 from payments p where p.invoice_id = invoices.id);
@@ -0,0 +1,45 @@
+-- Advance deposits collected against an admission, applied to the final invoice,
+-- with refund vouchers for any unused balance.
+
+create table if not exists admission_deposits (
+  id uuid primary key default gen_random_uuid(),
+  admission_id uuid not null references admissions(id) on delete restrict,
+  patient_id uuid references patients(id),
+  amount numeric(12, 2) not null check (amount > 0),
+  payment_method text not null,
+  payment_reference text,
+  received_at timestamptz not null default now(),
+  received_by uuid references staff(id),
+  notes text,
+  applied_amount numeric(12, 2) not null default 0,
+  refunded_amount numeric(12, 2) not null default 0,
+  status text not null default 'held'
+    check (status in ('held', 'partially_applied', 'applied', 'refunded')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists admission_deposits_admission_id_idx on admission_deposits (admission_id);
+
+alter table payments add column if not exists deposit_id uuid references admission_deposits(id);
+
+create table if not exists refund_vouchers (
+  id uuid primary key default gen_random_uuid(),
+  voucher_number text not null unique,
+  admission_id uuid not null references admissions(id) on delete restrict,
+  patient_id uuid references patients(id),
+  deposit_id uuid references admission_deposits(id),
+  invoice_id uuid references invoices(id),
+  amount numeric(12, 2) not null check (amount > 0),
+  reason text,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'cancelled')),
+  refund_mode text,
+  refund_reference text,
+  issued_by uuid references staff(id),
+  paid_by uuid references staff(id),
+  paid_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists refund_vouchers_admission_id_idx on refund_vouchers (admission_id);
@@ -0,0 +1,39 @@
+-- Credit notes reverse all or part of an issued invoice without editing it.
+-- Each note carries its own CN- series and points at the bill_items being credited.
+
+create table if not exists credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_number text not null unique,
+  invoice_id uuid not null references invoices(id) on delete restrict,
+  admission_id uuid references admissions(id),
+  reason text not null,
+  refund_mode text not null,
+  refund_reference text,
+  total_amount numeric(12, 2) not null check (total_amount > 0),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  notes text,
+  requested_by uuid references staff(id),
+  approved_by uuid references staff(id),
+  approved_at timestamptz,
+  rejection_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists credit_notes_invoice_id_idx on credit_notes (invoice_id);
+create index if not exists credit_notes_status_idx on credit_notes (status);
+
+create table if not exists credit_note_items (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_id uuid not null references credit_notes(id) on delete cascade,
+  bill_item_id uuid not null references bill_items(id) on delete restrict,
+  item_type text,
+  item_name text not null,
+  quantity numeric(12, 2) not null default 1,
+  unit_price numeric(12, 2) not null default 0,
+  amount numeric(12, 2) not null check (amount > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_note_items_credit_note_id_idx on credit_note_items (credit_note_id);
+create index if not exists credit_note_items_bill_item_id_idx on credit_note_items (bill_item_id);
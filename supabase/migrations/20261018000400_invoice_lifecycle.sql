@@ -0,0 +1,49 @@
+-- Invoice lifecycle (draft -> provisional -> final -> cancelled), amendment requests
+-- for finalised invoices and point-in-time revisions that can be diffed.
+
+alter table invoices add column if not exists lifecycle_status text not null default 'draft'
+  check (lifecycle_status in ('draft', 'provisional', 'final', 'cancelled'));
+alter table invoices add column if not exists current_revision integer not null default 0;
+alter table invoices add column if not exists finalized_at timestamptz;
+alter table invoices add column if not exists finalized_by uuid references staff(id);
+alter table invoices add column if not exists cancelled_at timestamptz;
+alter table invoices add column if not exists cancelled_by uuid references staff(id);
+alter table invoices add column if not exists cancellation_reason text;
+
+-- Invoices that already exist have been handed to patients; fully paid ones are treated as final.
+update invoices
+set lifecycle_status = case when status = 'paid' then 'final' else 'provisional' end
+where lifecycle_status = 'draft';
+
+create index if not exists invoices_lifecycle_status_idx on invoices (lifecycle_status);
+
+create table if not exists invoice_amendments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete restrict,
+  reason text not null,
+  changes jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  base_revision integer not null,
+  resulting_revision integer,
+  requested_by uuid references staff(id),
+  reviewed_by uuid references staff(id),
+  reviewed_at timestamptz,
+  review_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists invoice_amendments_invoice_id_idx on invoice_amendments (invoice_id);
+create index if not exists invoice_amendments_status_idx on invoice_amendments (status);
+
+create table if not exists invoice_revisions (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete cascade,
+  revision_number integer not null,
+  snapshot jsonb not null,
+  reason text,
+  amendment_id uuid references invoice_amendments(id),
+  created_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  unique (invoice_id, revision_number)
+);
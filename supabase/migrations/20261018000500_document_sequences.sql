@@ -0,0 +1,32 @@
+-- Gap-tolerant, race-free document numbering. Each (series, period) pair owns a counter;
+-- next_document_number() bumps it in a single statement so concurrent callers never collide.
+
+create table if not exists document_sequences (
+  series text not null,
+  period text not null,
+  last_value bigint not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (series, period)
+);
+
+create or replace function next_document_number(p_series text, p_period text)
+returns bigint
+language sql
+as $$
+  insert into document_sequences as seq (series, period, last_value, updated_at)
+  values (p_series, p_period, 1, now())
+  on conflict (series, period)
+  do update set last_value = seq.last_value + 1, updated_at = now()
+  returning seq.last_value;
+$$;
+
+-- Series that do not reset continue from the highest number already issued.
+insert into document_sequences (series, period, last_value)
+select 'P', 'ALL', coalesce(max(substring(patient_id from '^P([0-9]+)$')::bigint), 0)
+from patients
+on conflict (series, period) do nothing;
+
+insert into document_sequences (series, period, last_value)
+select 'CLM', 'ALL', coalesce(max(substring(claim_number from '^CLM-([0-9]+)$')::bigint), 0)
+from insurance_claims
+on conflict (series, period) do nothing;
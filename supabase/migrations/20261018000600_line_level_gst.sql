@@ -0,0 +1,29 @@
+-- GST is charged per line from the item's tax category and HSN/SAC code instead of a flat
+-- invoice-level rate. Intra-state supplies split into CGST + SGST; inter-state supplies use IGST.
+
+alter table hospital_services add column if not exists tax_category text not null default 'exempt'
+  check (tax_category in ('exempt', 'gst_5', 'gst_12', 'gst_18'));
+alter table hospital_services add column if not exists hsn_sac_code text;
+
+alter table medication_catalog add column if not exists tax_category text not null default 'gst_12'
+  check (tax_category in ('exempt', 'gst_5', 'gst_12', 'gst_18'));
+alter table medication_catalog add column if not exists hsn_sac_code text;
+
+alter table bill_items add column if not exists tax_category text;
+alter table bill_items add column if not exists hsn_sac_code text;
+alter table bill_items add column if not exists tax_rate numeric(5, 2) not null default 0;
+alter table bill_items add column if not exists cgst_amount numeric(12, 2) not null default 0;
+alter table bill_items add column if not exists sgst_amount numeric(12, 2) not null default 0;
+alter table bill_items add column if not exists igst_amount numeric(12, 2) not null default 0;
+alter table bill_items add column if not exists tax_amount numeric(12, 2) not null default 0;
+
+-- Existing invoices keep the old single-rate behaviour; new rows are taxed per line.
+alter table invoices add column if not exists gst_mode text not null default 'invoice'
+  check (gst_mode in ('invoice', 'line'));
+alter table invoices alter column gst_mode set default 'line';
+alter table invoices add column if not exists supply_type text not null default 'intra_state'
+  check (supply_type in ('intra_state', 'inter_state'));
+alter table invoices add column if not exists cgst_total numeric(12, 2) not null default 0;
+alter table invoices add column if not exists sgst_total numeric(12, 2) not null default 0;
+alter table invoices add column if not exists igst_total numeric(12, 2) not null default 0;
+alter table invoices add column if not exists tax_total numeric(12, 2) not null default 0;
@@ -0,0 +1,92 @@
+-- Central tariff master. A price list targets a payer (self-pay or a specific TPA) and optionally
+-- a room category; its prices live in numbered versions so a bill item can always be traced
+-- back to the exact tariff that priced it. Published versions are never edited in place.
+
+create table if not exists price_lists (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  description text,
+  payer_type text not null default 'self_pay' check (payer_type in ('self_pay', 'tpa')),
+  tpa_partner_id uuid references tpa_partners(id),
+  room_type text,
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  created_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (payer_type = 'self_pay' or tpa_partner_id is not null)
+);
+
+create unique index if not exists price_lists_single_default_idx on price_lists (is_default) where is_default;
+
+create table if not exists price_list_versions (
+  id uuid primary key default gen_random_uuid(),
+  price_list_id uuid not null references price_lists(id) on delete cascade,
+  version_number integer not null,
+  status text not null default 'draft' check (status in ('draft', 'published', 'retired')),
+  effective_from timestamptz,
+  notes text,
+  created_by uuid references staff(id),
+  published_by uuid references staff(id),
+  published_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (price_list_id, version_number)
+);
+
+create index if not exists price_list_versions_lookup_idx
+  on price_list_versions (price_list_id, status, effective_from);
+
+create table if not exists tariff_items (
+  id uuid primary key default gen_random_uuid(),
+  price_list_version_id uuid not null references price_list_versions(id) on delete cascade,
+  charge_type text not null check (charge_type in ('room', 'bed', 'medication', 'lab', 'service', 'procedure', 'consultation', 'other')),
+  reference_id uuid,
+  charge_code text,
+  item_name text not null,
+  unit text not null default 'unit',
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  created_at timestamptz not null default now(),
+  check (reference_id is not null or charge_code is not null)
+);
+
+create unique index if not exists tariff_items_version_key_idx
+  on tariff_items (price_list_version_id, charge_type, coalesce(reference_id::text, ''), coalesce(lower(charge_code), ''));
+
+alter table admissions add column if not exists price_list_id uuid references price_lists(id);
+
+alter table bill_items add column if not exists price_list_id uuid references price_lists(id);
+alter table bill_items add column if not exists price_list_version_id uuid references price_list_versions(id);
+alter table bill_items add column if not exists price_list_version integer;
+alter table bill_items add column if not exists tariff_item_id uuid references tariff_items(id);
+
+-- Seed a default self-pay list from the prices currently spread across the masters.
+insert into price_lists (code, name, description, payer_type, is_default)
+values ('STANDARD', 'Standard Tariff', 'Self-pay tariff seeded from existing room, bed and catalog prices', 'self_pay', true)
+on conflict (code) do nothing;
+
+insert into price_list_versions (price_list_id, version_number, status, effective_from, published_at, notes)
+select id, 1, 'published', now(), now(), 'Initial import'
+from price_lists
+where code = 'STANDARD'
+on conflict (price_list_id, version_number) do nothing;
+
+with standard_version as (
+  select v.id
+  from price_list_versions v
+  join price_lists l on l.id = v.price_list_id
+  where l.code = 'STANDARD' and v.version_number = 1
+)
+insert into tariff_items (price_list_version_id, charge_type, reference_id, charge_code, item_name, unit, unit_price)
+select (select id from standard_version), 'room', r.id, r.room_type, 'Room ' || r.room_number, 'day', r.rate_per_day
+from rooms r
+where r.rate_per_day is not null
+union all
+select (select id from standard_version), 'bed', b.id, null, 'Bed ' || b.bed_number, 'day', b.rate_per_day
+from beds b
+where b.rate_per_day is not null
+union all
+select (select id from standard_version), 'medication', m.id, null, m.name, 'unit', m.price_per_unit
+from medication_catalog m
+where m.price_per_unit is not null
+on conflict do nothing;
@@ -0,0 +1,49 @@
+-- Fixed-price packages (e.g. normal delivery with a 3-day stay). A package lists what it covers:
+-- stay days in a room class plus specific medicines and tests, each optionally capped. Charges
+-- inside those limits are absorbed by the single package line; anything beyond is billed as extra.
+
+create table if not exists billing_packages (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  description text,
+  package_price numeric(12, 2) not null check (package_price >= 0),
+  included_days integer not null default 0 check (included_days >= 0),
+  room_type text,
+  is_active boolean not null default true,
+  created_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists billing_package_inclusions (
+  id uuid primary key default gen_random_uuid(),
+  package_id uuid not null references billing_packages(id) on delete cascade,
+  charge_type text not null check (charge_type in ('medication', 'lab')),
+  reference_id uuid,
+  charge_code text,
+  item_name text not null,
+  max_quantity numeric(12, 2) check (max_quantity is null or max_quantity > 0),
+  created_at timestamptz not null default now(),
+  check (reference_id is not null or charge_code is not null)
+);
+
+create index if not exists billing_package_inclusions_package_id_idx on billing_package_inclusions (package_id);
+
+create table if not exists admission_packages (
+  id uuid primary key default gen_random_uuid(),
+  admission_id uuid not null references admissions(id) on delete cascade,
+  package_id uuid not null references billing_packages(id) on delete restrict,
+  package_price numeric(12, 2) not null check (package_price >= 0),
+  status text not null default 'active' check (status in ('active', 'cancelled')),
+  notes text,
+  attached_by uuid references staff(id),
+  attached_at timestamptz not null default now(),
+  cancelled_by uuid references staff(id),
+  cancelled_at timestamptz
+);
+
+create unique index if not exists admission_packages_single_active_idx
+  on admission_packages (admission_id) where status = 'active';
+
+alter table bill_items add column if not exists admission_package_id uuid references admission_packages(id);
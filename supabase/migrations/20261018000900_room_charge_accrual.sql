@@ -0,0 +1,37 @@
+-- Nightly accrual of one day of room/bed rent per occupied room_history entry into the
+-- admission's running interim bill. The (room_history_id, accrual_date) key makes re-runs
+-- after a crash or restart harmless; cron_job_runs records every scheduled run.
+
+alter table invoices add column if not exists invoice_type text not null default 'final'
+  check (invoice_type in ('interim', 'final'));
+
+create index if not exists invoices_admission_type_idx on invoices (admission_id, invoice_type);
+
+create table if not exists room_charge_accruals (
+  id uuid primary key default gen_random_uuid(),
+  room_history_id uuid not null references room_history(id) on delete cascade,
+  admission_id uuid not null references admissions(id) on delete cascade,
+  accrual_date date not null,
+  invoice_id uuid references invoices(id) on delete set null,
+  bill_item_id uuid references bill_items(id) on delete set null,
+  rate_per_day numeric(12, 2),
+  created_at timestamptz not null default now(),
+  unique (room_history_id, accrual_date)
+);
+
+create index if not exists room_charge_accruals_admission_idx on room_charge_accruals (admission_id, accrual_date);
+
+create table if not exists cron_job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  run_key text not null,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  attempts integer not null default 1,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  summary jsonb,
+  error text,
+  unique (job_name, run_key)
+);
+
+create index if not exists cron_job_runs_started_at_idx on cron_job_runs (started_at desc);
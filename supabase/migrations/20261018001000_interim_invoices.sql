@@ -0,0 +1,21 @@
+-- Interim invoices bill a date window of an admission; the final settlement bill picks up
+-- whatever is still unbilled. Each underlying charge records the invoice that billed it so
+-- no room day, medication dose or lab report is invoiced twice.
+
+alter table invoices add column if not exists period_from date;
+alter table invoices add column if not exists period_to date;
+
+alter table invoices drop constraint if exists invoices_period_check;
+alter table invoices add constraint invoices_period_check
+  check (period_from is null or period_to is null or period_from <= period_to);
+
+alter table patient_medication_doses add column if not exists billed_invoice_id uuid references invoices(id) on delete set null;
+create index if not exists patient_medication_doses_unbilled_idx
+  on patient_medication_doses (patient_medication_id, administered_at)
+  where billed_invoice_id is null;
+
+alter table lab_reports add column if not exists billed_invoice_id uuid references invoices(id) on delete set null;
+
+-- Room days billed straight onto an interim or final invoice are recorded alongside the
+-- nightly accruals; a day whose invoice was deleted (invoice_id null) is billable again.
+create index if not exists room_charge_accruals_invoice_idx on room_charge_accruals (invoice_id);
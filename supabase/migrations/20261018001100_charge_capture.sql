@@ -0,0 +1,150 @@
+-- Charge capture: every billable event (a medication dose, a lab report, a room day, a service
+-- rendered) posts one immutable charge priced at the time it happened. Invoices pull unbilled
+-- charges explicitly and stamp invoice_id; a charge is never edited, only voided while unbilled.
+-- Replaces the per-source billed markers added for interim invoices and room_charge_accruals.
+
+create table if not exists charge_entries (
+  id uuid primary key default gen_random_uuid(),
+  admission_id uuid not null references admissions(id) on delete cascade,
+  source_type text not null check (source_type in ('medication_dose', 'lab_report', 'room_day', 'service')),
+  -- Dose, lab report or room_history row the charge came from; services get their own id
+  source_id uuid not null,
+  charge_date date not null,
+  occurred_at timestamptz not null default now(),
+  item_type text not null,
+  item_name text not null,
+  item_description text,
+  quantity numeric(12, 2) not null default 1 check (quantity > 0),
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  total_price numeric(12, 2) not null,
+  reference_id uuid,
+  medication_catalog_id uuid,
+  test_type text,
+  room_type text,
+  tax_category text,
+  hsn_sac_code text,
+  price_list_id uuid references price_lists(id),
+  price_list_version_id uuid references price_list_versions(id),
+  price_list_version integer,
+  tariff_item_id uuid references tariff_items(id),
+  invoice_id uuid references invoices(id) on delete set null,
+  -- Set only when the charge is a line of its own (the nightly running-bill accrual)
+  bill_item_id uuid references bill_items(id) on delete set null,
+  posted_by uuid references staff(id),
+  voided_at timestamptz,
+  voided_by uuid references staff(id),
+  void_reason text,
+  created_at timestamptz not null default now()
+);
+
+-- One live charge per source per day; a voided charge may be re-posted
+create unique index if not exists charge_entries_source_key
+  on charge_entries (source_type, source_id, charge_date)
+  where voided_at is null;
+
+create index if not exists charge_entries_unbilled_idx
+  on charge_entries (admission_id, charge_date)
+  where invoice_id is null and voided_at is null;
+
+create index if not exists charge_entries_invoice_idx on charge_entries (invoice_id);
+
+-- Backfill doses. A dose is billed if an invoice was marked against it, or if a legacy
+-- cumulative medication line was created after it was given.
+insert into charge_entries (
+  admission_id, source_type, source_id, charge_date, occurred_at, item_type, item_name, item_description,
+  quantity, unit_price, total_price, reference_id, medication_catalog_id, tax_category, hsn_sac_code,
+  invoice_id, posted_by
+)
+select
+  pm.admission_id,
+  'medication_dose',
+  d.id,
+  (d.administered_at at time zone 'Asia/Kolkata')::date,
+  d.administered_at,
+  'medication',
+  pm.name,
+  'Medication dose',
+  1,
+  round(coalesce(nullif(pm.price_per_unit, 0), mc.price_per_unit, 0) * coalesce(nullif(pm.units_per_dose, 0), mc.default_units_per_dose, 1), 2),
+  round(coalesce(nullif(pm.price_per_unit, 0), mc.price_per_unit, 0) * coalesce(nullif(pm.units_per_dose, 0), mc.default_units_per_dose, 1), 2),
+  pm.id,
+  pm.medication_catalog_id,
+  mc.tax_category,
+  mc.hsn_sac_code,
+  coalesce(d.billed_invoice_id, (
+    select bi.invoice_id
+    from bill_items bi
+    join invoices i on i.id = bi.invoice_id
+    where bi.item_type = 'medication'
+      and bi.reference_id = pm.id
+      and bi.created_at >= d.administered_at
+      and i.lifecycle_status <> 'cancelled'
+    order by bi.created_at
+    limit 1
+  )),
+  d.administered_by
+from patient_medication_doses d
+join patient_medications pm on pm.id = d.patient_medication_id
+left join medication_catalog mc on mc.id = pm.medication_catalog_id
+where pm.admission_id is not null
+on conflict do nothing;
+
+-- Backfill lab reports that carry a price
+insert into charge_entries (
+  admission_id, source_type, source_id, charge_date, occurred_at, item_type, item_name, item_description,
+  quantity, unit_price, total_price, reference_id, test_type, invoice_id, posted_by
+)
+select
+  lr.admission_id,
+  'lab_report',
+  lr.id,
+  (coalesce(lr.test_date, lr.created_at) at time zone 'Asia/Kolkata')::date,
+  coalesce(lr.test_date, lr.created_at),
+  'lab',
+  coalesce(lr.report_title, lr.test_type, 'Lab Report'),
+  'Lab Test: ' || coalesce(lr.test_type, ''),
+  1,
+  lr.price,
+  lr.price,
+  lr.id,
+  lr.test_type,
+  case when lr.billing_status = 'billed' then coalesce(lr.billed_invoice_id, (
+    select bi.invoice_id from bill_items bi where bi.item_type = 'lab' and bi.reference_id = lr.id order by bi.created_at limit 1
+  )) end,
+  lr.ordered_by
+from lab_reports lr
+where lr.admission_id is not null
+  and coalesce(lr.price, 0) > 0
+on conflict do nothing;
+
+-- Backfill room days recorded by the nightly accrual and by interim invoices
+insert into charge_entries (
+  admission_id, source_type, source_id, charge_date, occurred_at, item_type, item_name, item_description,
+  quantity, unit_price, total_price, reference_id, room_type, invoice_id, bill_item_id
+)
+select
+  a.admission_id,
+  'room_day',
+  a.room_history_id,
+  a.accrual_date,
+  a.created_at,
+  'room',
+  'Room/Bed - ' || coalesce(rh.room_type, r.room_type, 'N/A'),
+  'Room rent for ' || a.accrual_date::text,
+  1,
+  a.rate_per_day,
+  a.rate_per_day,
+  rh.room_id,
+  coalesce(rh.room_type, r.room_type),
+  a.invoice_id,
+  a.bill_item_id
+from room_charge_accruals a
+join room_history rh on rh.id = a.room_history_id
+left join rooms r on r.id = rh.room_id
+where a.rate_per_day is not null
+on conflict do nothing;
+
+drop table if exists room_charge_accruals;
+drop index if exists patient_medication_doses_unbilled_idx;
+alter table patient_medication_doses drop column if exists billed_invoice_id;
+alter table lab_reports drop column if exists billed_invoice_id;
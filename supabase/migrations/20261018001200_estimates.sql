@@ -0,0 +1,57 @@
+-- Pre-admission cost estimates. Each estimate is priced from the tariff (and package, if any)
+-- at the time it is issued, carries its own EST series number, and is linked to the admission
+-- it turns into so the actual bill can be compared against it at discharge.
+
+create table if not exists estimates (
+  id uuid primary key default gen_random_uuid(),
+  estimate_number text not null unique,
+  patient_id uuid references patients(id),
+  patient_name text not null,
+  patient_phone text,
+  price_list_id uuid references price_lists(id),
+  package_id uuid references billing_packages(id),
+  room_type text not null,
+  expected_days integer not null check (expected_days > 0),
+  subtotal numeric(12, 2) not null default 0,
+  tax_total numeric(12, 2) not null default 0,
+  estimated_total numeric(12, 2) not null default 0,
+  status text not null default 'issued' check (status in ('issued', 'converted', 'cancelled')),
+  valid_until date,
+  notes text,
+  admission_id uuid references admissions(id),
+  converted_at timestamptz,
+  converted_by uuid references staff(id),
+  variance jsonb,
+  variance_reported_at timestamptz,
+  created_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists estimates_patient_id_idx on estimates (patient_id);
+create unique index if not exists estimates_admission_id_key on estimates (admission_id) where admission_id is not null;
+
+create table if not exists estimate_items (
+  id uuid primary key default gen_random_uuid(),
+  estimate_id uuid not null references estimates(id) on delete cascade,
+  item_type text not null,
+  item_name text not null,
+  item_description text,
+  quantity numeric(12, 2) not null default 1,
+  unit_price numeric(12, 2) not null default 0,
+  total_price numeric(12, 2) not null default 0,
+  reference_id uuid,
+  -- Set on the package line and on lines the package absorbs
+  package_id uuid references billing_packages(id),
+  tax_category text,
+  hsn_sac_code text,
+  tax_rate numeric(5, 2) not null default 0,
+  tax_amount numeric(12, 2) not null default 0,
+  price_list_id uuid references price_lists(id),
+  price_list_version_id uuid references price_list_versions(id),
+  price_list_version integer,
+  tariff_item_id uuid references tariff_items(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists estimate_items_estimate_id_idx on estimate_items (estimate_id);
@@ -0,0 +1,8 @@
+-- Every cash, card, UPI, cheque or transfer collection gets an RCPT/<FY>/nnnnnn receipt number.
+-- Deposit applications move money already receipted at admission, so they carry none.
+-- Payments recorded before this migration are numbered the first time their receipt is issued.
+
+alter table payments add column if not exists receipt_number text;
+alter table payments add column if not exists receipt_emailed_at timestamptz;
+
+create unique index if not exists payments_receipt_number_key on payments (receipt_number) where receipt_number is not null;
@@ -0,0 +1,32 @@
+-- Payer responsibility on insured admissions. Each bill item is TPA-payable, patient-payable or
+-- non-admissible (consumables, registration, ...). The TPA-payable part, less the claim's co-pay,
+-- is what the insurer can be asked for; it becomes the insurer's liability once the claim is
+-- approved or settled (capped at the approved amount), and the patient's share drops by the same.
+-- Until then, or if the claim is rejected, the patient remains liable for the whole invoice.
+
+alter table bill_items add column if not exists payer_responsibility text
+  check (payer_responsibility in ('tpa', 'patient', 'non_admissible'));
+
+alter table hospital_services add column if not exists tpa_admissible boolean not null default true;
+
+alter table insurance_claims add column if not exists copay_percent numeric(5, 2) not null default 0
+  check (copay_percent >= 0 and copay_percent <= 100);
+
+alter table invoices add column if not exists claim_id uuid references insurance_claims(id) on delete set null;
+alter table invoices add column if not exists tpa_claimable numeric(12, 2) not null default 0;
+alter table invoices add column if not exists tpa_payable numeric(12, 2) not null default 0;
+alter table invoices add column if not exists patient_payable numeric(12, 2);
+alter table invoices add column if not exists tpa_paid numeric(12, 2) not null default 0;
+alter table invoices add column if not exists patient_paid numeric(12, 2) not null default 0;
+alter table invoices add column if not exists tpa_balance numeric(12, 2) not null default 0;
+alter table invoices add column if not exists patient_balance numeric(12, 2);
+
+alter table payments add column if not exists payer text not null default 'patient'
+  check (payer in ('patient', 'tpa'));
+
+-- Without a claim the patient owes everything already recorded
+update invoices
+set patient_payable = coalesce(amount_payable, total_amount, 0),
+    patient_paid = coalesce(paid_amount, 0),
+    patient_balance = coalesce(balance, 0)
+where patient_payable is null;
@@ -0,0 +1,44 @@
+-- Discount ceilings per staff role. A discount within the requester's ceiling is applied at once
+-- and logged as auto-approved; anything larger waits in discount_requests until an admin approves
+-- or rejects it. Approved and auto-approved rows together form the discount register.
+-- A null max_percent means no ceiling; a role without a row cannot discount without approval.
+
+create table if not exists discount_limits (
+  role text primary key,
+  max_percent numeric(5, 2) check (max_percent is null or (max_percent >= 0 and max_percent <= 100)),
+  updated_by uuid references staff(id),
+  updated_at timestamptz not null default now()
+);
+
+insert into discount_limits (role, max_percent)
+values ('billing', 5), ('admin', null)
+on conflict (role) do nothing;
+
+create table if not exists discount_requests (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete cascade,
+  discount_type text not null check (discount_type in ('percentage', 'fixed')),
+  discount_value numeric(12, 2) not null check (discount_value > 0),
+  -- Effective share of the invoice subtotal and the rupee amount, as priced when requested
+  discount_percent numeric(7, 2) not null,
+  discount_amount numeric(12, 2) not null,
+  invoice_total numeric(12, 2) not null,
+  reason text,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'auto_approved')),
+  requested_by uuid references staff(id),
+  requested_role text,
+  approved_by uuid references staff(id),
+  approved_at timestamptz,
+  rejection_reason text,
+  -- Set when the discount reached the invoice through an approved amendment
+  amendment_id uuid references invoice_amendments(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists discount_requests_invoice_id_idx on discount_requests (invoice_id);
+create index if not exists discount_requests_status_idx on discount_requests (status);
+create index if not exists discount_requests_approved_at_idx on discount_requests (approved_at);
+create unique index if not exists discount_requests_pending_invoice_key
+  on discount_requests (invoice_id) where status = 'pending';
@@ -0,0 +1,34 @@
+-- Invoices are no longer deleted: they are cancelled with a reason code and stay in the series.
+-- Uncollectable balances on final invoices are written off through an approval step; the
+-- approved total is kept on the invoice so balance = amount_payable - paid_amount - written_off_amount.
+
+alter table invoices add column if not exists cancellation_reason_code text
+  check (cancellation_reason_code in ('duplicate', 'raised_in_error', 'patient_request', 'consolidated', 'other'));
+alter table invoices add column if not exists written_off_amount numeric(12, 2) not null default 0;
+
+-- Cancellations made before reason codes existed
+update invoices
+set cancellation_reason_code = 'other'
+where lifecycle_status = 'cancelled' and cancellation_reason_code is null;
+
+create table if not exists invoice_write_offs (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete restrict,
+  amount numeric(12, 2) not null check (amount > 0),
+  reason_code text not null check (reason_code in (
+    'bad_debt', 'patient_deceased', 'untraceable', 'financial_hardship', 'small_balance', 'other'
+  )),
+  notes text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  requested_by uuid references staff(id),
+  approved_by uuid references staff(id),
+  approved_at timestamptz,
+  rejection_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists invoice_write_offs_invoice_id_idx on invoice_write_offs (invoice_id);
+create index if not exists invoice_write_offs_status_idx on invoice_write_offs (status);
+create unique index if not exists invoice_write_offs_pending_invoice_key
+  on invoice_write_offs (invoice_id) where status = 'pending';
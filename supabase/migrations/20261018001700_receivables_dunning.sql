@@ -0,0 +1,60 @@
+-- Due dates, overdue marking and payment reminders. An invoice gets a due date when it is
+-- finalised (payment terms from INVOICE_PAYMENT_TERMS_DAYS); a nightly job flips unpaid
+-- invoices past that date to status 'overdue'. Reminder emails go out at each active dunning
+-- stage (days after the due date) and every attempt is kept in invoice_reminders.
+
+alter table invoices add column if not exists due_date date;
+
+-- Invoices handed over without a due date (raised before due dates existed) fall due the given
+-- number of days after they were raised. The API passes INVOICE_PAYMENT_TERMS_DAYS before each
+-- overdue run, so the terms live in one place.
+create or replace function assign_missing_due_dates(p_terms_days integer)
+returns integer
+language sql
+as $$
+  with assigned as (
+    update invoices
+    set due_date = (created_at at time zone 'Asia/Kolkata')::date + p_terms_days
+    where due_date is null and lifecycle_status in ('provisional', 'final')
+    returning id
+  )
+  select count(*)::integer from assigned;
+$$;
+
+create index if not exists invoices_due_date_idx on invoices (due_date) where due_date is not null;
+
+create table if not exists dunning_stages (
+  id uuid primary key default gen_random_uuid(),
+  days_after_due integer not null unique check (days_after_due >= 0),
+  subject text not null,
+  message text,
+  is_active boolean not null default true,
+  updated_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into dunning_stages (days_after_due, subject)
+values
+  (1, 'Payment reminder'),
+  (7, 'Second payment reminder'),
+  (30, 'Final payment reminder')
+on conflict (days_after_due) do nothing;
+
+create table if not exists invoice_reminders (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete cascade,
+  -- Null for reminders sent by hand
+  stage_id uuid references dunning_stages(id) on delete set null,
+  days_overdue integer not null,
+  balance numeric(12, 2) not null,
+  sent_to text,
+  status text not null check (status in ('sent', 'failed', 'skipped')),
+  error text,
+  sent_by uuid references staff(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invoice_reminders_invoice_id_idx on invoice_reminders (invoice_id, created_at desc);
+create unique index if not exists invoice_reminders_stage_sent_key
+  on invoice_reminders (invoice_id, stage_id) where status = 'sent' and stage_id is not null;
@@ -0,0 +1,27 @@
+-- Day book closing. Closing an IST business day stores the day's collections and refunds as
+-- they stood, and from then on the day book for that date is read from the snapshot. Payments,
+-- deposits and refunds dated on a closed day are refused until an admin reopens it; a reopened
+-- closing is kept for the audit trail and the day can be closed again.
+
+create table if not exists day_book_closings (
+  id uuid primary key default gen_random_uuid(),
+  business_date date not null,
+  status text not null default 'closed' check (status in ('closed', 'reopened')),
+  snapshot jsonb not null,
+  total_collections numeric(12, 2) not null default 0,
+  total_refunds numeric(12, 2) not null default 0,
+  net_collection numeric(12, 2) not null default 0,
+  notes text,
+  closed_by uuid references staff(id),
+  closed_at timestamptz not null default now(),
+  reopened_by uuid references staff(id),
+  reopened_at timestamptz,
+  reopen_reason text
+);
+
+create unique index if not exists day_book_closings_closed_date_key
+  on day_book_closings (business_date) where status = 'closed';
+create index if not exists day_book_closings_business_date_idx on day_book_closings (business_date desc);
+
+create index if not exists admission_deposits_received_at_idx on admission_deposits (received_at);
+create index if not exists refund_vouchers_paid_at_idx on refund_vouchers (paid_at) where status = 'paid';
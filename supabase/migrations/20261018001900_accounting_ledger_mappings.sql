@@ -0,0 +1,32 @@
+-- Ledger names used when invoices and payments are exported to Tally or a CSV journal.
+-- Income is posted to the ledger mapped for the line's item type, or for "item_type@rate"
+-- (e.g. medication@12) when income is kept per GST rate. Output tax goes to the ledger mapped
+-- for its component and rate (cgst@6, sgst@6, igst@12), payments to the ledger for their
+-- method, and receivables, discounts and round-off to the "system" ledgers. Anything without
+-- a row falls back to a built-in default name.
+
+create table if not exists accounting_ledger_mappings (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null check (scope in ('item_type', 'gst_rate', 'payment_method', 'system')),
+  key text not null,
+  ledger_name text not null check (length(trim(ledger_name)) > 0),
+  updated_by uuid references staff(id),
+  updated_at timestamptz not null default now(),
+  unique (scope, key)
+);
+
+insert into accounting_ledger_mappings (scope, key, ledger_name)
+values
+  ('item_type', 'room', 'Room Charges'),
+  ('item_type', 'medication', 'Pharmacy Sales'),
+  ('item_type', 'lab', 'Laboratory Income'),
+  ('item_type', 'custom', 'Other Hospital Income'),
+  ('payment_method', 'cash', 'Cash'),
+  ('payment_method', 'deposit', 'Patient Advances'),
+  ('system', 'patient_receivable', 'Patient Receivables'),
+  ('system', 'tpa_receivable', 'TPA Receivables'),
+  ('system', 'discount', 'Discount Allowed'),
+  ('system', 'round_off', 'Round Off')
+on conflict (scope, key) do nothing;
+
+create index if not exists invoices_finalized_at_idx on invoices (finalized_at) where lifecycle_status = 'final';
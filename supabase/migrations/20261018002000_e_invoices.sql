@@ -0,0 +1,34 @@
+-- GST e-invoicing for B2B bills (corporates and TPAs). The NIC schema JSON is built from a
+-- final invoice and validated offline before it is stored; registering it with the IRP through
+-- the configured provider records the IRN, acknowledgement and signed QR code, which the
+-- invoice PDF then prints. One e-invoice per invoice; it can be rebuilt until it is registered.
+
+alter table tpa_partners add column if not exists gstin text;
+alter table tpa_partners add column if not exists legal_name text;
+alter table tpa_partners add column if not exists address text;
+alter table tpa_partners add column if not exists city text;
+alter table tpa_partners add column if not exists pincode text;
+alter table tpa_partners add column if not exists state_code text;
+
+create table if not exists e_invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null unique references invoices(id) on delete restrict,
+  buyer_type text not null check (buyer_type in ('corporate', 'tpa')),
+  buyer jsonb not null,
+  payload jsonb not null,
+  status text not null default 'generated' check (status in ('generated', 'registered', 'failed')),
+  provider text,
+  irn text unique,
+  ack_no text,
+  ack_date timestamptz,
+  signed_invoice text,
+  signed_qr_code text,
+  error text,
+  generated_by uuid references staff(id),
+  registered_by uuid references staff(id),
+  registered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists e_invoices_status_idx on e_invoices (status);
@@ -0,0 +1,24 @@
+-- UPI collections through the payment gateway. Every signed callback is logged once by its
+-- event id, so retried deliveries are acknowledged without posting twice. A successful payment
+-- is matched to its invoice by the invoice number carried in the UPI transaction note and posted
+-- to the payments ledger; callbacks that cannot be matched or posted stay here for the billing
+-- desk to reconcile by hand.
+
+create table if not exists payment_gateway_events (
+  id uuid primary key default gen_random_uuid(),
+  event_id text not null unique,
+  event_type text not null,
+  gateway_payment_id text,
+  invoice_number text,
+  invoice_id uuid references invoices(id) on delete set null,
+  amount numeric(12, 2),
+  payload jsonb not null,
+  status text not null check (status in ('posted', 'ignored', 'unmatched', 'failed')),
+  payment_id uuid references payments(id) on delete set null,
+  error text,
+  received_at timestamptz not null default now()
+);
+
+create unique index if not exists payment_gateway_events_posted_payment_key
+  on payment_gateway_events (gateway_payment_id) where status = 'posted';
+create index if not exists payment_gateway_events_status_idx on payment_gateway_events (status, received_at desc);
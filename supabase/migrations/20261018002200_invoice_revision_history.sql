@@ -0,0 +1,42 @@
+-- Every edit to an invoice or its bill items is now kept as a revision, so the bill can be
+-- compared between any two points in its life. Invoices that have no revision yet get one
+-- describing them as they stand, so the first tracked edit has something to be compared to.
+-- The snapshot carries the same fields the application captures.
+
+insert into invoice_revisions (invoice_id, revision_number, snapshot, reason)
+select
+  i.id,
+  1,
+  jsonb_build_object(
+    'invoice', (
+      select jsonb_object_agg(field, coalesce(to_jsonb(i) -> field, 'null'::jsonb))
+      from unnest(array[
+        'invoice_number', 'lifecycle_status', 'status', 'total_amount', 'discount_type', 'discount_value',
+        'discount_reason', 'include_gst', 'gst_rate', 'gst_amount', 'supply_type', 'tax_total',
+        'amount_payable', 'paid_amount', 'balance', 'patient_payable', 'tpa_payable'
+      ]) as field
+    ),
+    'items', coalesce((
+      select jsonb_agg(
+        (
+          select jsonb_object_agg(field, coalesce(to_jsonb(b) -> field, 'null'::jsonb))
+          from unnest(array[
+            'id', 'item_type', 'item_name', 'item_description', 'quantity', 'unit_price', 'total_price',
+            'tax_category', 'hsn_sac_code', 'tax_amount', 'price_list_version_id', 'reference_id',
+            'payer_responsibility'
+          ]) as field
+        )
+        order by b.created_at
+      )
+      from bill_items b
+      where b.invoice_id = i.id
+    ), '[]'::jsonb)
+  ),
+  'Invoice as recorded before revision history'
+from invoices i
+where not exists (select 1 from invoice_revisions r where r.invoice_id = i.id);
+
+update invoices i
+set current_revision = 1
+where current_revision = 0
+  and exists (select 1 from invoice_revisions r where r.invoice_id = i.id and r.revision_number = 1);
@@ -0,0 +1,23 @@
+-- Bulk invoice exports for auditors. A job collects the invoices raised in an IST date range
+-- (optionally narrowed by status and payer), renders each one's PDF into a ZIP with a CSV index,
+-- and uploads the archive to storage. Jobs run in the background on the API server; progress is
+-- polled from this table and the archive is downloaded through a short-lived signed link.
+
+create table if not exists invoice_export_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  filters jsonb not null,
+  total_invoices integer not null default 0,
+  processed_invoices integer not null default 0,
+  failed_invoices integer not null default 0,
+  file_path text,
+  file_size bigint,
+  error text,
+  requested_by uuid references staff(id),
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+create index if not exists invoice_export_jobs_created_at_idx on invoice_export_jobs (created_at desc);
+create index if not exists invoices_created_at_idx on invoices (created_at);
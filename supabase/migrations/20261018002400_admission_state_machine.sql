@@ -0,0 +1,232 @@
+-- Admit-discharge-transfer as an explicit state machine. adt_state is the source of truth:
+--
+--   reserved -> admitted -> transfer_pending -> admitted (transfer completed or withdrawn)
+--   admitted -> discharge_initiated -> discharged   (or back to admitted if the discharge is held)
+--   reserved | admitted -> cancelled
+--
+-- admissions.status is kept in step (pending / active / discharged / cancelled) for the reports,
+-- accrual and dashboards that read it. Every transition is applied by apply_admission_transition()
+-- in one transaction: the admission row is locked, the expected state checked, beds, rooms and
+-- room history updated and the event written to admission_events, or nothing is.
+
+alter table admissions add column if not exists adt_state text;
+alter table admissions add column if not exists pending_room_id uuid references rooms(id);
+alter table admissions add column if not exists pending_bed_id uuid references beds(id);
+
+update admissions
+set adt_state = case status
+  when 'pending' then 'reserved'
+  when 'completed' then 'discharged'
+  when 'discharged' then 'discharged'
+  when 'cancelled' then 'cancelled'
+  else 'admitted'
+end
+where adt_state is null;
+
+alter table admissions alter column adt_state set default 'reserved';
+alter table admissions alter column adt_state set not null;
+alter table admissions drop constraint if exists admissions_adt_state_check;
+alter table admissions add constraint admissions_adt_state_check
+  check (adt_state in ('reserved', 'admitted', 'transfer_pending', 'discharge_initiated', 'discharged', 'cancelled'));
+
+create index if not exists admissions_adt_state_idx on admissions (adt_state);
+
+create table if not exists admission_events (
+  id uuid primary key default gen_random_uuid(),
+  admission_id uuid not null references admissions(id) on delete cascade,
+  event text not null,
+  from_state text,
+  to_state text not null,
+  payload jsonb not null default '{}'::jsonb,
+  notes text,
+  performed_by uuid references staff(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admission_events_admission_id_idx on admission_events (admission_id, created_at);
+
+-- Stays already on the books start their history with the state they were migrated into
+insert into admission_events (admission_id, event, from_state, to_state, notes, created_at)
+select a.id, 'migrated', null, a.adt_state, 'State recorded when the ADT state machine was introduced', now()
+from admissions a
+where not exists (select 1 from admission_events e where e.admission_id = a.id);
+
+-- Guard failures raise SQLSTATE ADT01 (the move is not allowed) or ADT02 (the admission moved
+-- on since the caller read it); the API reports both as 409 with the message.
+create or replace function apply_admission_transition(
+  p_admission_id uuid,
+  p_event text,
+  p_from_state text,
+  p_to_state text,
+  p_payload jsonb default '{}'::jsonb,
+  p_notes text default null,
+  p_performed_by uuid default null
+)
+returns admissions
+language plpgsql
+as $$
+declare
+  v_admission admissions;
+  v_at timestamptz := coalesce((p_payload ->> 'at')::timestamptz, now());
+  v_room_id uuid;
+  v_bed_id uuid;
+begin
+  select * into v_admission from admissions where id = p_admission_id for update;
+
+  if not found then
+    raise exception 'Admission not found' using errcode = 'P0002';
+  end if;
+
+  if v_admission.adt_state <> p_from_state then
+    raise exception 'Admission is % and can no longer be moved from %', v_admission.adt_state, p_from_state
+      using errcode = 'ADT02';
+  end if;
+
+  if p_event = 'admit' then
+    -- The room row lock serialises admits and transfers into the same room
+    perform 1 from rooms where id = v_admission.room_id for update;
+
+    if v_admission.room_id is not null and exists (
+      select 1 from admissions
+      where room_id = v_admission.room_id
+        and id <> v_admission.id
+        and adt_state in ('admitted', 'transfer_pending', 'discharge_initiated')
+    ) then
+      raise exception 'Room already has an active admission' using errcode = 'ADT01';
+    end if;
+
+    if v_admission.room_id is not null then
+      update rooms set is_available = false, current_patient_id = v_admission.patient_id, status = 'occupied' where id = v_admission.room_id;
+    end if;
+
+    if v_admission.bed_id is not null then
+      perform 1 from beds where id = v_admission.bed_id for update;
+      if exists (
+        select 1 from beds
+        where id = v_admission.bed_id
+          and current_patient_id is not null
+          and current_patient_id <> v_admission.patient_id
+      ) then
+        raise exception 'Bed is occupied by another patient' using errcode = 'ADT01';
+      end if;
+
+      update beds
+      set status = 'occupied', current_patient_id = v_admission.patient_id, updated_at = now()
+      where id = v_admission.bed_id;
+    end if;
+
+    -- The stay's first room history row; accrual and room charges bill from it
+    if v_admission.room_id is not null then
+      insert into room_history (admission_id, room_id, bed_id, room_type, rate_per_day, start_date)
+      values (
+        v_admission.id,
+        v_admission.room_id,
+        v_admission.bed_id,
+        p_payload ->> 'room_type',
+        (p_payload ->> 'rate_per_day')::numeric,
+        case when p_payload ? 'at' then v_at else coalesce(v_admission.admission_date, v_at) end
+      );
+    end if;
+
+  elsif p_event = 'request_transfer' then
+    v_room_id := (p_payload ->> 'room_id')::uuid;
+    v_bed_id := nullif(p_payload ->> 'bed_id', '')::uuid;
+
+    update admissions set pending_room_id = v_room_id, pending_bed_id = v_bed_id where id = v_admission.id;
+
+  elsif p_event = 'cancel_transfer' then
+    update admissions set pending_room_id = null, pending_bed_id = null where id = v_admission.id;
+
+  elsif p_event = 'complete_transfer' then
+    v_room_id := v_admission.pending_room_id;
+    v_bed_id := v_admission.pending_bed_id;
+
+    if v_room_id is null then
+      raise exception 'No transfer is pending for this admission' using errcode = 'ADT01';
+    end if;
+
+    perform 1 from rooms where id = v_room_id for update;
+    if exists (
+      select 1 from admissions
+      where room_id = v_room_id
+        and id <> v_admission.id
+        and adt_state in ('admitted', 'transfer_pending', 'discharge_initiated')
+    ) then
+      raise exception 'The destination room has been taken by another admission' using errcode = 'ADT01';
+    end if;
+
+    if v_bed_id is not null then
+      perform 1 from beds where id = v_bed_id for update;
+      if exists (
+        select 1 from beds
+        where id = v_bed_id
+          and current_patient_id is not null
+          and current_patient_id <> v_admission.patient_id
+      ) then
+        raise exception 'The destination bed has been taken by another patient' using errcode = 'ADT01';
+      end if;
+    end if;
+
+    update room_history set end_date = v_at where admission_id = v_admission.id and end_date is null;
+
+    if v_admission.bed_id is not null and v_admission.bed_id is distinct from v_bed_id then
+      update beds set status = 'available', current_patient_id = null, updated_at = now() where id = v_admission.bed_id;
+    end if;
+    if v_admission.room_id is not null and v_admission.room_id <> v_room_id then
+      update rooms set is_available = true, current_patient_id = null, status = 'available' where id = v_admission.room_id;
+    end if;
+
+    insert into room_history (admission_id, room_id, bed_id, room_type, rate_per_day, start_date)
+    values (
+      v_admission.id,
+      v_room_id,
+      v_bed_id,
+      p_payload ->> 'room_type',
+      (p_payload ->> 'rate_per_day')::numeric,
+      v_at
+    );
+
+    update rooms set is_available = false, current_patient_id = v_admission.patient_id, status = 'occupied' where id = v_room_id;
+    if v_bed_id is not null then
+      update beds set status = 'occupied', current_patient_id = v_admission.patient_id, updated_at = now() where id = v_bed_id;
+    end if;
+
+    update admissions
+    set room_id = v_room_id, bed_id = v_bed_id, pending_room_id = null, pending_bed_id = null
+    where id = v_admission.id;
+
+  elsif p_event in ('discharge', 'cancel') then
+    update room_history set end_date = v_at where admission_id = v_admission.id and end_date is null;
+
+    if v_admission.room_id is not null then
+      update rooms set is_available = true, current_patient_id = null, status = 'available' where id = v_admission.room_id;
+    end if;
+    if v_admission.bed_id is not null then
+      update beds
+      set status = 'available', current_patient_id = null, updated_at = now()
+      where id = v_admission.bed_id and (current_patient_id is null or current_patient_id = v_admission.patient_id);
+    end if;
+
+    update admissions
+    set discharge_date = v_at, pending_room_id = null, pending_bed_id = null
+    where id = v_admission.id;
+  end if;
+
+  update admissions
+  set adt_state = p_to_state,
+      status = case p_to_state
+        when 'reserved' then 'pending'
+        when 'discharged' then 'discharged'
+        when 'cancelled' then 'cancelled'
+        else 'active'
+      end,
+      updated_at = now()
+  where id = v_admission.id
+  returning * into v_admission;
+
+  insert into admission_events (admission_id, event, from_state, to_state, payload, notes, performed_by)
+  values (v_admission.id, p_event, p_from_state, p_to_state, coalesce(p_payload, '{}'::jsonb), p_notes, p_performed_by);
+
+  return v_admission;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Package-covered medicine and test lines record which inclusion absorbed them, so a later
+-- interim or final invoice only gets what is left of that inclusion's allowance.
+alter table bill_items add column if not exists package_inclusion_id uuid references billing_package_inclusions(id);
+
+create index if not exists bill_items_admission_package_id_idx
+  on bill_items (admission_package_id) where admission_package_id is not null;
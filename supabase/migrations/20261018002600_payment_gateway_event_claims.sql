@@ -0,0 +1,11 @@
+-- Gateway callbacks are claimed before the payment is posted: the event row is inserted as
+-- 'processing' first, and the gateway payment id stays unique while an event is processing or
+-- posted, so a concurrent redelivery is refused before any money reaches the ledger.
+
+alter table payment_gateway_events drop constraint if exists payment_gateway_events_status_check;
+alter table payment_gateway_events add constraint payment_gateway_events_status_check
+  check (status in ('processing', 'posted', 'ignored', 'unmatched', 'failed'));
+
+drop index if exists payment_gateway_events_posted_payment_key;
+create unique index if not exists payment_gateway_events_claimed_payment_key
+  on payment_gateway_events (gateway_payment_id) where status in ('processing', 'posted');
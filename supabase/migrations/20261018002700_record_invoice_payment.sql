@@ -0,0 +1,100 @@
+-- Payments are posted through record_invoice_payment(), which locks the invoice row and checks
+-- the outstanding balance against the payments ledger in the same transaction as the insert.
+-- Two payments arriving together (the billing desk and the gateway webhook, say) are applied one
+-- after the other, and the second is refused if the first has already cleared the invoice.
+-- A refusal raises SQLSTATE PAY01 with the message shown to the user.
+--
+-- The receipt number is taken from the series passed in receipt_series only after the checks
+-- pass, so a refused payment leaves no gap in the receipts. Deposit applications pass none.
+
+create or replace function record_invoice_payment(p_invoice_id uuid, p_payment jsonb)
+returns payments
+language plpgsql
+as $$
+declare
+  v_invoice invoices;
+  v_payment payments;
+  v_amount numeric := round((p_payment ->> 'amount')::numeric, 2);
+  v_payer text := coalesce(p_payment ->> 'payer', 'patient');
+  v_paid numeric;
+  v_tpa_paid numeric;
+  v_outstanding numeric;
+  v_tpa_outstanding numeric;
+  v_series jsonb := p_payment -> 'receipt_series';
+  v_receipt_number text;
+  v_sequence text;
+begin
+  select * into v_invoice from invoices where id = p_invoice_id for update;
+
+  if not found then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+
+  if v_invoice.lifecycle_status = 'cancelled' then
+    raise exception 'Payments cannot be recorded against a cancelled invoice' using errcode = 'PAY01';
+  end if;
+
+  select coalesce(sum(amount), 0), coalesce(sum(amount) filter (where payer = 'tpa'), 0)
+  into v_paid, v_tpa_paid
+  from payments
+  where invoice_id = p_invoice_id and status = 'completed';
+
+  v_outstanding := round(
+    coalesce(v_invoice.amount_payable, v_invoice.total_amount, 0) - v_paid
+      - coalesce(v_invoice.written_off_amount, 0) - coalesce(v_invoice.credited_amount, 0),
+    2
+  );
+  if v_amount > v_outstanding then
+    raise exception 'Payment exceeds outstanding balance of %', greatest(v_outstanding, 0)::numeric(12, 2)
+      using errcode = 'PAY01';
+  end if;
+
+  if v_payer = 'tpa' then
+    v_tpa_outstanding := round(coalesce(v_invoice.tpa_payable, 0) - v_tpa_paid, 2);
+    if v_amount > v_tpa_outstanding then
+      raise exception 'Payment exceeds TPA balance of %', greatest(v_tpa_outstanding, 0)::numeric(12, 2)
+        using errcode = 'PAY01';
+    end if;
+  end if;
+
+  if v_series is not null and jsonb_typeof(v_series) = 'object' then
+    v_sequence := next_document_number(v_series ->> 'prefix', v_series ->> 'period')::text;
+    v_receipt_number := concat_ws(
+      coalesce(v_series ->> 'delimiter', ''),
+      v_series ->> 'prefix',
+      nullif(v_series ->> 'period_label', ''),
+      lpad(v_sequence, greatest(coalesce((v_series ->> 'digits')::integer, 0), length(v_sequence)), '0')
+    );
+  end if;
+
+  insert into payments (
+    receipt_number,
+    invoice_id,
+    amount,
+    payment_method,
+    payment_reference,
+    payment_date,
+    notes,
+    status,
+    collected_by,
+    deposit_id,
+    payer
+  )
+  values (
+    v_receipt_number,
+    p_invoice_id,
+    v_amount,
+    p_payment ->> 'payment_method',
+    p_payment ->> 'payment_reference',
+    coalesce((p_payment ->> 'payment_date')::timestamptz, now()),
+    p_payment ->> 'notes',
+    'completed',
+    (p_payment ->> 'collected_by')::uuid,
+    (p_payment ->> 'deposit_id')::uuid,
+    v_payer
+  )
+  returning * into v_payment;
+
+  return v_payment;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Pending refund vouchers can be cancelled by an admin, which puts the amount back into the
+-- deposit's available credit. Who cancelled it, when and why stay on the voucher.
+
+alter table refund_vouchers add column if not exists cancelled_by uuid references staff(id);
+alter table refund_vouchers add column if not exists cancelled_at timestamptz;
+alter table refund_vouchers add column if not exists cancellation_reason text;
@@ -0,0 +1,6 @@
+-- Credit notes now carry the GST on the credited part of each line, and can be settled either as a
+-- refund of money collected or as an adjustment against the unpaid balance. Approved adjustments
+-- are kept on the invoice so balance = amount_payable - paid_amount - written_off_amount - credited_amount.
+
+alter table credit_note_items add column if not exists tax_amount numeric(12, 2) not null default 0;
+alter table invoices add column if not exists credited_amount numeric(12, 2) not null default 0;
@@ -0,0 +1,166 @@
+-- An approved amendment is applied by apply_invoice_amendment() in one transaction: the amendment
+-- is claimed, the invoice locked and checked against the revision the amendment was raised on,
+-- bill items removed, changed and added, the totals written and any discount entered on the
+-- register, or nothing is. Lines and totals are priced by the API and passed in.
+--
+-- Charges pulled onto a removed line go back to the unbilled pool so a later invoice can bill
+-- them, unless another line still left on the invoice covers the same item and day.
+--
+-- Refusals raise SQLSTATE AMD01 (the invoice cannot take the amendment) or AMD02 (someone else
+-- reviewed it first); the API reports both as 409 with the message.
+
+create or replace function apply_invoice_amendment(
+  p_amendment_id uuid,
+  p_review jsonb,
+  p_remove_item_ids uuid[],
+  p_update_items jsonb,
+  p_add_items jsonb,
+  p_invoice jsonb,
+  p_discount jsonb default null
+)
+returns invoice_amendments
+language plpgsql
+as $$
+declare
+  v_amendment invoice_amendments;
+  v_invoice invoices;
+  v_removed uuid[] := coalesce(p_remove_item_ids, '{}');
+begin
+  select * into v_amendment from invoice_amendments where id = p_amendment_id for update;
+
+  if not found then
+    raise exception 'Amendment not found' using errcode = 'P0002';
+  end if;
+  if v_amendment.status <> 'pending' then
+    raise exception 'Amendment has already been reviewed' using errcode = 'AMD02';
+  end if;
+
+  select * into v_invoice from invoices where id = v_amendment.invoice_id for update;
+
+  if v_invoice.lifecycle_status <> 'final' then
+    raise exception 'Only final invoices can be amended' using errcode = 'AMD01';
+  end if;
+  if v_invoice.current_revision <> v_amendment.base_revision then
+    raise exception 'Invoice has changed since this amendment was requested; raise a new amendment'
+      using errcode = 'AMD01';
+  end if;
+
+  with removed as (
+    select * from bill_items where invoice_id = v_invoice.id and id = any(v_removed)
+  ),
+  released as (
+    update charge_entries c
+    set invoice_id = null, bill_item_id = null
+    where c.invoice_id = v_invoice.id
+      and (
+        c.bill_item_id = any(v_removed)
+        or exists (
+          select 1 from removed r
+          where r.item_type = c.item_type
+            and r.reference_id is not distinct from c.reference_id
+            and c.charge_date between coalesce(r.date_from, c.charge_date) and coalesce(r.date_to, c.charge_date)
+        )
+      )
+      and not exists (
+        select 1 from bill_items b
+        where b.invoice_id = v_invoice.id
+          and not (b.id = any(v_removed))
+          and b.item_type = c.item_type
+          and b.reference_id is not distinct from c.reference_id
+          and c.charge_date between coalesce(b.date_from, c.charge_date) and coalesce(b.date_to, c.charge_date)
+      )
+    returning c.source_type, c.source_id
+  )
+  update lab_reports
+  set billing_status = 'pending', updated_at = now()
+  where id in (select source_id from released where source_type = 'lab_report');
+
+  begin
+    delete from bill_items where invoice_id = v_invoice.id and id = any(v_removed);
+  exception when foreign_key_violation then
+    raise exception 'A bill item being removed has a credit note against it; it cannot be removed'
+      using errcode = 'AMD01';
+  end;
+
+  update bill_items b
+  set quantity = (u ->> 'quantity')::numeric,
+      unit_price = (u ->> 'unit_price')::numeric,
+      total_price = (u ->> 'total_price')::numeric,
+      tax_category = u ->> 'tax_category',
+      hsn_sac_code = u ->> 'hsn_sac_code',
+      tax_rate = (u ->> 'tax_rate')::numeric,
+      cgst_amount = (u ->> 'cgst_amount')::numeric,
+      sgst_amount = (u ->> 'sgst_amount')::numeric,
+      igst_amount = (u ->> 'igst_amount')::numeric,
+      tax_amount = (u ->> 'tax_amount')::numeric,
+      item_name = coalesce(u ->> 'item_name', b.item_name),
+      item_description = case when u ? 'item_description' then u ->> 'item_description' else b.item_description end,
+      updated_at = now()
+  from jsonb_array_elements(coalesce(p_update_items, '[]'::jsonb)) u
+  where b.id = (u ->> 'id')::uuid and b.invoice_id = v_invoice.id;
+
+  insert into bill_items (
+    invoice_id, item_type, item_name, item_description, quantity, unit_price, total_price, reference_id,
+    tax_category, hsn_sac_code, tax_rate, cgst_amount, sgst_amount, igst_amount, tax_amount
+  )
+  select
+    v_invoice.id, i.item_type, i.item_name, i.item_description, i.quantity, i.unit_price, i.total_price, i.reference_id,
+    i.tax_category, i.hsn_sac_code, i.tax_rate, i.cgst_amount, i.sgst_amount, i.igst_amount, i.tax_amount
+  from jsonb_to_recordset(coalesce(p_add_items, '[]'::jsonb)) as i(
+    item_type text, item_name text, item_description text, quantity numeric, unit_price numeric,
+    total_price numeric, reference_id uuid, tax_category text, hsn_sac_code text, tax_rate numeric,
+    cgst_amount numeric, sgst_amount numeric, igst_amount numeric, tax_amount numeric
+  );
+
+  update invoices
+  set discount_type = case when p_invoice ? 'discount_type' then p_invoice ->> 'discount_type' else discount_type end,
+      discount_value = case when p_invoice ? 'discount_value' then (p_invoice ->> 'discount_value')::numeric else discount_value end,
+      discount_reason = case when p_invoice ? 'discount_reason' then p_invoice ->> 'discount_reason' else discount_reason end,
+      include_gst = case when p_invoice ? 'include_gst' then (p_invoice ->> 'include_gst')::boolean else include_gst end,
+      gst_rate = case when p_invoice ? 'gst_rate' then (p_invoice ->> 'gst_rate')::numeric else gst_rate end,
+      gst_amount = case when p_invoice ? 'gst_amount' then (p_invoice ->> 'gst_amount')::numeric else gst_amount end,
+      total_with_gst = case when p_invoice ? 'total_with_gst' then (p_invoice ->> 'total_with_gst')::numeric else total_with_gst end,
+      total_amount = (p_invoice ->> 'total_amount')::numeric,
+      cgst_total = (p_invoice ->> 'cgst_total')::numeric,
+      sgst_total = (p_invoice ->> 'sgst_total')::numeric,
+      igst_total = (p_invoice ->> 'igst_total')::numeric,
+      tax_total = (p_invoice ->> 'tax_total')::numeric,
+      amount_payable = (p_invoice ->> 'amount_payable')::numeric,
+      current_revision = current_revision + 1,
+      updated_at = now()
+  where id = v_invoice.id;
+
+  if p_discount is not null then
+    insert into discount_requests (
+      invoice_id, discount_type, discount_value, discount_percent, discount_amount, invoice_total,
+      reason, status, requested_by, requested_role, approved_by, approved_at, amendment_id
+    )
+    values (
+      v_invoice.id,
+      p_discount ->> 'discount_type',
+      (p_discount ->> 'discount_value')::numeric,
+      (p_discount ->> 'discount_percent')::numeric,
+      (p_discount ->> 'discount_amount')::numeric,
+      (p_discount ->> 'invoice_total')::numeric,
+      p_discount ->> 'reason',
+      p_discount ->> 'status',
+      (p_discount ->> 'requested_by')::uuid,
+      p_discount ->> 'requested_role',
+      (p_discount ->> 'approved_by')::uuid,
+      now(),
+      v_amendment.id
+    );
+  end if;
+
+  update invoice_amendments
+  set status = 'approved',
+      reviewed_by = (p_review ->> 'reviewed_by')::uuid,
+      reviewed_at = now(),
+      review_notes = p_review ->> 'review_notes',
+      updated_at = now()
+  where id = v_amendment.id
+  returning * into v_amendment;
+
+  return v_amendment;
+end;
+$$;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from '@jest/globals';
+import { priceAmendment } from '../src/services/invoice-lifecycle-service.js';
+import { computeInvoiceTotals } from '../src/services/tax-service.js';
+
+const invoice = {
+  id: 'inv-1',
+  supply_type: 'intra_state',
+  gst_mode: 'line',
+  discount_type: null,
+  discount_value: null,
+  include_gst: true,
+  gst_rate: 18,
+};
+
+const items = [
+  {
+    id: 'item-consult',
+    item_type: 'consultation',
+    item_name: 'Consultation',
+    quantity: 1,
+    unit_price: 1000,
+    total_price: 1000,
+    tax_category: 'exempt',
+    hsn_sac_code: '9993',
+    cgst_amount: 0,
+    sgst_amount: 0,
+    igst_amount: 0,
+    tax_amount: 0,
+  },
+  {
+    id: 'item-med',
+    item_type: 'medication',
+    item_name: 'Ceftriaxone',
+    quantity: 2,
+    unit_price: 500,
+    total_price: 1000,
+    tax_category: 'gst_12',
+    hsn_sac_code: '3004',
+    cgst_amount: 60,
+    sgst_amount: 60,
+    igst_amount: 0,
+    tax_amount: 120,
+  },
+];
+
+describe('priceAmendment', () => {
+  it('prices removed, changed and added lines and the totals the invoice ends up with', () => {
+    const plan = priceAmendment(invoice, items, {
+      remove_item_ids: ['item-consult'],
+      update_items: [{ id: 'item-med', quantity: 3 }],
+      add_items: [{ item_type: 'lab', item_name: 'CBC', unit_price: 800 }],
+      invoice: { discount_type: 'percentage', discount_value: 10 },
+    });
+
+    expect(plan.removeItemIds).toEqual(['item-consult']);
+    expect(plan.updateItems).toEqual([
+      expect.objectContaining({ id: 'item-med', quantity: 3, unit_price: 500, total_price: 1500, tax_amount: 180, cgst_amount: 90, sgst_amount: 90 }),
+    ]);
+    expect(plan.addItems).toEqual([
+      expect.objectContaining({ item_type: 'lab', quantity: 1, total_price: 800, tax_category: 'exempt', tax_amount: 0 }),
+    ]);
+    expect(plan.totals).toMatchObject({
+      total_amount: 2300,
+      tax_total: 180,
+      cgst_total: 90,
+      sgst_total: 90,
+      include_gst: true,
+      // GST is scaled by the discount: 180 x 0.9
+      gst_amount: 162,
+      amount_payable: 2232,
+      total_with_gst: 2232,
+    });
+  });
+
+  it('taxes inter-state supplies as IGST', () => {
+    const plan = priceAmendment({ ...invoice, supply_type: 'inter_state' }, items, {
+      update_items: [{ id: 'item-med', unit_price: 600 }],
+    });
+
+    expect(plan.updateItems[0]).toMatchObject({ total_price: 1200, igst_amount: 144, cgst_amount: 0, sgst_amount: 0 });
+    expect(plan.totals).toMatchObject({ total_amount: 2200, igst_total: 144, amount_payable: 2344 });
+  });
+
+  it('clears the discount when the amendment sets it to none', () => {
+    const plan = priceAmendment({ ...invoice, discount_type: 'fixed', discount_value: 200 }, items, {
+      invoice: { discount_type: 'none', discount_value: 0 },
+    });
+
+    expect(plan.invoiceFields).toEqual({ discount_type: null, discount_value: 0 });
+    expect(plan.totals.amount_payable).toBe(2120);
+  });
+
+  it('rejects a tax category that does not exist', () => {
+    expect(() =>
+      priceAmendment(invoice, items, { update_items: [{ id: 'item-med', tax_category: 'gst_40' as any }] })
+    ).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('computeInvoiceTotals', () => {
+  it('adds invoice-level GST after a fixed discount', () => {
+    const totals = computeInvoiceTotals(
+      { gst_mode: 'invoice', include_gst: true, gst_rate: 18, discount_type: 'fixed', discount_value: 100 },
+      [{ total_price: 1000 }]
+    );
+
+    expect(totals).toEqual({
+      total_amount: 1000,
+      cgst_total: 0,
+      sgst_total: 0,
+      igst_total: 0,
+      tax_total: 0,
+      amount_payable: 1062,
+    });
+  });
+
+  it('never discounts below zero', () => {
+    const totals = computeInvoiceTotals(
+      { gst_mode: 'invoice', include_gst: false, discount_type: 'fixed', discount_value: 5000 },
+      [{ total_price: 1000 }]
+    );
+
+    expect(totals.amount_payable).toBe(0);
+  });
+});
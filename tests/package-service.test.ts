@@ -0,0 +1,115 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyAdmissionPackage, validatePackageInclusions } from '../src/services/package-service.js';
+
+const admissionPackage = {
+  id: 'ap-1',
+  package_id: 'pkg-1',
+  package_price: 50000,
+  billing_packages: {
+    name: 'Normal Delivery',
+    room_type: 'General',
+    included_days: 3,
+    billing_package_inclusions: [
+      { id: 'inc-med', charge_type: 'medication', reference_id: 'med-1', charge_code: null, item_name: 'Oxytocin', max_quantity: 4 },
+      { id: 'inc-lab', charge_type: 'lab', reference_id: null, charge_code: 'CBC', item_name: 'CBC', max_quantity: null },
+    ],
+  },
+};
+
+const roomLine = (quantity: number, roomType = 'general') => ({
+  item_type: 'room',
+  item_name: 'Room charges',
+  quantity,
+  unit_price: 2000,
+  total_price: quantity * 2000,
+  room_type: roomType,
+});
+
+const medicationLine = (quantity: number) => ({
+  item_type: 'medication',
+  item_name: 'Oxytocin',
+  quantity,
+  unit_price: 150,
+  total_price: quantity * 150,
+  medication_catalog_id: 'med-1',
+});
+
+describe('applyAdmissionPackage', () => {
+  it('returns the lines unchanged, without match keys, when there is no package', () => {
+    expect(applyAdmissionPackage([roomLine(2)], null)).toEqual([
+      { item_type: 'room', item_name: 'Room charges', quantity: 2, unit_price: 2000, total_price: 4000 },
+    ]);
+  });
+
+  it('adds the package line and absorbs covered room days, billing the excess', () => {
+    const lines = applyAdmissionPackage([roomLine(5)], admissionPackage);
+
+    expect(lines[0]).toMatchObject({ item_type: 'package', total_price: 50000, admission_package_id: 'ap-1' });
+    expect(lines.slice(1)).toEqual([
+      expect.objectContaining({ item_type: 'room', quantity: 3, total_price: 0, admission_package_id: 'ap-1' }),
+      expect.objectContaining({ item_type: 'room', quantity: 2, total_price: 4000 }),
+    ]);
+  });
+
+  it('bills a higher room class than the package allows in full', () => {
+    const lines = applyAdmissionPackage([roomLine(2, 'Deluxe')], admissionPackage, { billedPackageLine: true });
+
+    expect(lines).toEqual([expect.objectContaining({ item_type: 'room', quantity: 2, total_price: 4000 })]);
+  });
+
+  it('caps listed medicines at the inclusion quantity', () => {
+    const lines = applyAdmissionPackage([medicationLine(6)], admissionPackage, { billedPackageLine: true });
+
+    expect(lines).toEqual([
+      expect.objectContaining({ quantity: 4, total_price: 0, package_inclusion_id: 'inc-med' }),
+      expect.objectContaining({ quantity: 2, total_price: 300 }),
+    ]);
+  });
+
+  it('matches lab tests by charge code and covers them without a cap', () => {
+    const lines = applyAdmissionPackage(
+      [{ item_type: 'lab', item_name: 'CBC', quantity: 3, unit_price: 400, total_price: 1200, test_type: 'cbc' }],
+      admissionPackage,
+      { billedPackageLine: true }
+    );
+
+    expect(lines).toEqual([expect.objectContaining({ quantity: 3, total_price: 0, package_inclusion_id: 'inc-lab' })]);
+  });
+
+  it('only absorbs what earlier invoices of the stay left of the allowance', () => {
+    const lines = applyAdmissionPackage([roomLine(2), medicationLine(3)], admissionPackage, {
+      billedPackageLine: true,
+      consumed: { days: 2, byInclusion: new Map([['inc-med', 3]]) },
+    });
+
+    expect(lines).toEqual([
+      expect.objectContaining({ item_type: 'room', quantity: 1, total_price: 0 }),
+      expect.objectContaining({ item_type: 'room', quantity: 1, total_price: 2000 }),
+      expect.objectContaining({ item_type: 'medication', quantity: 1, total_price: 0 }),
+      expect.objectContaining({ item_type: 'medication', quantity: 2, total_price: 300 }),
+    ]);
+  });
+
+  it('bills everything once the allowance is used up', () => {
+    const lines = applyAdmissionPackage([roomLine(1)], admissionPackage, {
+      billedPackageLine: true,
+      consumed: { days: 3, byInclusion: new Map() },
+    });
+
+    expect(lines).toEqual([expect.objectContaining({ item_type: 'room', quantity: 1, total_price: 2000 })]);
+  });
+});
+
+describe('validatePackageInclusions', () => {
+  it('rejects an inclusion of a charge type packages cannot cover', () => {
+    expect(() => validatePackageInclusions([{ charge_type: 'room', item_name: 'Room' }])).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+
+  it('treats a blank max_quantity as uncapped', () => {
+    expect(validatePackageInclusions([{ charge_type: 'lab', charge_code: 'CBC', item_name: 'CBC', max_quantity: '' }])).toEqual([
+      { charge_type: 'lab', reference_id: null, charge_code: 'CBC', item_name: 'CBC', max_quantity: null },
+    ]);
+  });
+});
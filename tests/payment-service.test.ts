@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  assertClientInvoiceStatus,
+  derivePaymentStatus,
+  resolveAmountPayable,
+  roundCurrency,
+} from '../src/services/payment-service.js';
+
+describe('roundCurrency', () => {
+  it('rounds to paise', () => {
+    expect(roundCurrency(10.005)).toBe(10.01);
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it('treats non-numbers as zero', () => {
+    expect(roundCurrency(Number('abc'))).toBe(0);
+  });
+});
+
+describe('resolveAmountPayable', () => {
+  it('prefers amount_payable over the raw total', () => {
+    expect(resolveAmountPayable({ amount_payable: 1180, total_amount: 1000 })).toBe(1180);
+  });
+
+  it('falls back to the total before discounts and GST are applied', () => {
+    expect(resolveAmountPayable({ amount_payable: null, total_amount: 1000 })).toBe(1000);
+    expect(resolveAmountPayable({})).toBe(0);
+  });
+});
+
+describe('derivePaymentStatus', () => {
+  it('is paid once payments reach the amount payable', () => {
+    expect(derivePaymentStatus(1000, 1000, 'partial')).toBe('paid');
+  });
+
+  it('is partial while some of the balance is paid', () => {
+    expect(derivePaymentStatus(1000, 400, 'pending')).toBe('partial');
+  });
+
+  it('goes back to pending when every payment is voided', () => {
+    expect(derivePaymentStatus(1000, 0, 'paid')).toBe('pending');
+    expect(derivePaymentStatus(1000, 0, 'partial')).toBe('pending');
+  });
+
+  it('keeps a status the payments ledger does not own', () => {
+    expect(derivePaymentStatus(1000, 0, 'overdue')).toBe('overdue');
+  });
+
+  it('does not mark a zero-value invoice paid', () => {
+    expect(derivePaymentStatus(0, 0, null)).toBe('pending');
+  });
+});
+
+describe('assertClientInvoiceStatus', () => {
+  it.each(['written_off', 'overdue'])('refuses %s from a client', (status) => {
+    expect(() => assertClientInvoiceStatus(status)).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+
+  it.each(['pending', 'partial', 'paid', undefined])('accepts %s', (status) => {
+    expect(() => assertClientInvoiceStatus(status)).not.toThrow();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { documentNumberFormat, getFinancialYear } from '../src/services/sequence-service.js';
+
+describe('getFinancialYear', () => {
+  it('rolls over at midnight IST on 1 April', () => {
+    expect(getFinancialYear(new Date('2026-03-31T18:29:59.000Z'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-03-31T18:30:00.000Z'))).toBe('2026-27');
+  });
+});
+
+describe('documentNumberFormat', () => {
+  it('gives receipts a counter per financial year', () => {
+    expect(documentNumberFormat('receipt', new Date('2026-10-18T06:00:00.000Z'))).toEqual({
+      prefix: 'RCPT',
+      period: '2026-27',
+      period_label: '2026-27',
+      delimiter: '/',
+      digits: 6,
+    });
+  });
+
+  it('keeps one counter and no period in the number for series that never reset', () => {
+    expect(documentNumberFormat('patient')).toEqual({
+      prefix: 'P',
+      period: 'ALL',
+      period_label: null,
+      delimiter: '',
+      digits: 6,
+    });
+  });
+});
@@ -0,0 +1,15 @@
+// Services create their Supabase client on import; the tests only call the pure helpers, so the
+// client never connects.
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'test-service-role-key';
+process.env.NODE_ENV ??= 'test';
+
+// supabase-js looks up a WebSocket constructor when the client is created. Node 22 has one
+// built in; on older runtimes the tests get a placeholder that refuses to open a socket.
+if (typeof (globalThis as any).WebSocket === 'undefined') {
+  (globalThis as any).WebSocket = class {
+    constructor() {
+      throw new Error('Realtime connections are not available in tests');
+    }
+  };
+}
@@ -0,0 +1,14 @@
+const { transformSync } = require('esbuild');
+
+module.exports = {
+  process(sourceText, sourcePath) {
+    const { code, map } = transformSync(sourceText, {
+      loader: 'ts',
+      format: 'cjs',
+      target: 'node20',
+      sourcemap: true,
+      sourcefile: sourcePath,
+    });
+    return { code, map };
+  },
+};